@@ -12,20 +12,25 @@ import ReactFlow, {
   MarkerType,
   NodeChange,
   EdgeChange,
+  ReactFlowInstance,
 } from 'reactflow'
 import 'reactflow/dist/style.css'
 
 import { Button } from './components/ui/button'
 import StepNode from './components/nodes/StepNode'
 import GuardNode from './components/nodes/GuardNode'
+import CallNode from './components/nodes/CallNode'
 import { SimulationPanel } from './components/SimulationPanel'
 import { CollaborationPanel, CollaboratorCursor } from './components/CollaborationPanel'
 import ConfigurationSidebar from './components/ConfigurationSidebar'
 import WorkflowManager from './components/WorkflowManager'
 import PropertiesPanel from './components/PropertiesPanel'
 import { QuickAddStepDialog } from './components/QuickAddStepDialog'
-import DslViewer from './components/DslViewer'
+import DslViewer, { ENTRY_FILE as DSL_ENTRY_FILE } from './components/DslViewer'
 import YamlTreeView from './components/YamlTreeView'
+import ComponentPalette from './components/ComponentPalette'
+import WorkflowTestsPanel from './components/WorkflowTestsPanel'
+import CoveragePanel from './components/CoveragePanel'
 
 import { 
   Sun, 
@@ -56,44 +61,92 @@ import {
   List,
   FileCode,
   Copy,
-  Trash2
+  Trash2,
+  Route,
+  Play
 } from 'lucide-react'
 
 import { 
   StepFlowConfig, 
   StepNodeData, 
   GuardNodeData, 
-  ComponentInfo, 
   AppState,
   ValidationIssue,
   WorkflowDef,
   FlowConfig,
   StepDef,
   EdgeData,
+  EdgeDef,
+  CallNodeData,
   EdgeFailureStrategy
 } from './types/stepflow'
 import YAML from 'yaml'
 import { YamlHighlighter } from './lib/yaml-highlighter'
 import { generateId } from './lib/utils'
-import { useUndoRedo, useUndoRedoShortcuts } from './hooks/useUndoRedo'
-  import { WorkflowSimulator } from './lib/workflow-simulator'
+import { useUndoRedo, useUndoRedoShortcuts, HistoryState } from './hooks/useUndoRedo'
+  import { SimulationOptions, WorkflowSimulator } from './lib/workflow-simulator'
+  import { SimulationScenario } from './lib/simulation-scenarios'
+  import { WorkflowTestCase, WorkflowTestResult, recordTestCase, runTestCases } from './lib/workflow-tests'
+  import { computeCoverage } from './lib/coverage'
     import { CollaborationManager } from './lib/collaboration'
     import IssuesPanel from './components/IssuesPanel'
     import { useDebounce, useThrottle, performanceMonitor, WorkflowCache } from './lib/performance'
     import { LayoutAlgorithms } from './lib/layout-algorithms'
+    import { ConfigRuleSettings, validateConfig } from './lib/config-validator'
+    import { withoutDslSuppressed } from './lib/dsl-validation'
+    import { ConfigFix } from './lib/config-fixes'
+    import { WorkflowPath } from './lib/path-analysis'
+    import ValidationPanel from './components/ValidationPanel'
+    import { patchDSL } from './lib/dsl-patcher'
+    import { RenameKind, checkRename, renameSymbol } from './lib/refactor'
+    import { renameDslSymbol } from './lib/dsl-symbols'
+    import { COMPONENT_DRAG_TYPE, ComponentCatalog, stepNameFor } from './lib/component-catalog'
 import DslQuickStart from './components/DslQuickStart'
 import { Tabs, TabsList, TabsTrigger } from './components/ui/tabs'
 
-const nodeTypes = { step: StepNode, guard: GuardNode }
+const nodeTypes = { step: StepNode, guard: GuardNode, call: CallNode }
+
+const isCallNodeId = (id: string) => id.startsWith('call:')
+
+// A call edge renders as `from -> [call node] -> to`; the main half keeps the regular edge id
+function expandCallEdge(edgeDef: EdgeDef, index: number, mainEdge: Edge, stepNodes: Node[], workflowName?: string): { node: Node; edges: Edge[] } {
+  const id = `call:${index}:${edgeDef.call}`
+  const call = { workflow: edgeDef.call!, from: edgeDef.from, to: edgeDef.to }
+  const source = stepNodes.find(n => n.id === edgeDef.from)?.position || { x: 200, y: 100 }
+  const target = stepNodes.find(n => n.id === edgeDef.to)?.position
+  const position = target
+    ? { x: (source.x + target.x) / 2, y: (source.y + target.y) / 2 + 75 }
+    : { x: source.x + 125, y: source.y + 75 }
+  const returnId = `${mainEdge.id}-return`
+  return {
+    node: {
+      id,
+      type: 'call',
+      position,
+      data: { id, label: edgeDef.call, callee: edgeDef.call, returnTo: edgeDef.to, workflow: workflowName } as CallNodeData,
+    },
+    edges: [
+      { ...mainEdge, target: id, data: { ...mainEdge.data, call } },
+      {
+        id: returnId,
+        source: id,
+        target: edgeDef.to,
+        type: 'default',
+        markerEnd: { type: MarkerType.ArrowClosed },
+        className: 'edge-call-return',
+        data: { id: returnId, kind: 'normal', call } as EdgeData,
+      },
+    ],
+  }
+}
 
-// Mock component data - in a real app this would come from the backend
-const MOCK_COMPONENTS: ComponentInfo[] = [
-  { name: 'ValidateOrderStep', type: 'step', className: 'ValidateOrderStep', package: 'com.example.steps' },
-  { name: 'ProcessPaymentStep', type: 'step', className: 'ProcessPaymentStep', package: 'com.example.steps' },
-  { name: 'SendNotificationStep', type: 'step', className: 'SendNotificationStep', package: 'com.example.steps' },
-  { name: 'OrderValueGuard', type: 'guard', className: 'OrderValueGuard', package: 'com.example.guards' },
-  { name: 'PaymentSuccessGuard', type: 'guard', className: 'PaymentSuccessGuard', package: 'com.example.guards' },
-]
+// Both halves of a call edge map back to the same EdgeDef
+const edgeDefMatches = (ed: EdgeDef, edge: Edge) => {
+  const call = (edge.data as EdgeData | undefined)?.call
+  return call
+    ? ed.call === call.workflow && ed.from === call.from && ed.to === call.to
+    : !ed.call && ed.from === edge.source && ed.to === edge.target
+}
 
 const INITIAL_CONFIG: StepFlowConfig = {
   settings: {},
@@ -118,6 +171,16 @@ interface AppStateV3 extends Omit<AppState, 'activeWorkflow' | 'ui'> {
   // V2 multi-tab capability
   workflowTabs: WorkflowTabState[]
   activeTabIndex: number
+  // User-authored DSL text; canvas edits are patched onto it to keep comments and order
+  dslSource?: string
+  // Extra DSL project files the authored text can import, keyed by path
+  dslFiles?: Record<string, string>
+  // Project overrides for validation rules (enabled, severity, options)
+  validationRules?: ConfigRuleSettings
+  // Scripted guard/step outcomes offered by the simulation panel
+  simulationScenarios?: SimulationScenario[]
+  // Workflow test cases run against the simulator
+  workflowTests?: WorkflowTestCase[]
   // V3 enhanced UI
   ui: {
     panels: {
@@ -186,12 +249,11 @@ viewMode: 'tabs' // Always use multi-tab mode
   
   const [collaborationEnabled, setCollaborationEnabled] = useState(false)
   const [showQuickAddDialog, setShowQuickAddDialog] = useState(false)
-  const [activeTab, setActiveTab] = useState<'workflow' | 'configuration' | 'yaml' | 'dsl' | 'properties'>('dsl')
+  const [activeTab, setActiveTab] = useState<'workflow' | 'configuration' | 'yaml' | 'dsl' | 'properties' | 'components' | 'tests'>('dsl')
   const [yamlViewMode, setYamlViewMode] = useState<'yaml' | 'tree'>('tree')
   const [dslInnerTab, setDslInnerTab] = useState<'editor' | 'quickstart'>('editor')
   const [sidebarWidth, setSidebarWidth] = useState(480) // Increased from 384px to 480px to reduce vertical scrolling
   const [isResizing, setIsResizing] = useState(false)
-  const [validationResults, setValidationResults] = useState<Record<string, ValidationIssue[]>>({})
   const [showIssuesPanel, setShowIssuesPanel] = useState(false)
   const [isDslMaximized, setIsDslMaximized] = useState(false)
   const [layoutVersion, setLayoutVersion] = useState(0)
@@ -210,6 +272,21 @@ viewMode: 'tabs' // Always use multi-tab mode
   const [collaborators, setCollaborators] = useState<any[]>([])
   const [isDragging, setIsDragging] = useState(false)
   const [clipboardStepId, setClipboardStepId] = useState<string | null>(null)
+  // Simulator behind the simulation panel; its traces outlive the panel being closed
+  const [simulator] = useState(() => new WorkflowSimulator())
+  const [showSimulationPanel, setShowSimulationPanel] = useState(false)
+  // Test runs get their own simulator and are queued, since a simulator runs one workflow at a time
+  const [testSimulator] = useState(() => new WorkflowSimulator())
+  const testQueueRef = useRef<Promise<unknown>>(Promise.resolve())
+  const testRunRef = useRef(0)
+  const [testResults, setTestResults] = useState<Record<string, WorkflowTestResult>>({})
+  const [testsRunning, setTestsRunning] = useState(false)
+  // Bumped when the simulation panel's traces change, to recompute coverage
+  const [simulationRevision, setSimulationRevision] = useState(0)
+  const [coverageOverlay, setCoverageOverlay] = useState(false)
+
+  // Path an issue is about, highlighted on its workflow's canvas until dismissed or the config changes
+  const [pathHighlight, setPathHighlight] = useState<{ workflow: string; path: WorkflowPath } | null>(null)
 
   // Enable/disable collaboration (offline demo mode) and keep collaborator list in sync
   useEffect(() => {
@@ -337,7 +414,13 @@ viewMode: 'tabs' // Always use multi-tab mode
           onFailure: edgeDef.onFailure
         } as EdgeData
       }
-      workflowEdges.push(mainEdge)
+      if (edgeDef.call) {
+        const { node, edges } = expandCallEdge(edgeDef, index, mainEdge, stepNodes, activeWorkflow)
+        stepNodes.push(node)
+        workflowEdges.push(...edges)
+      } else {
+        workflowEdges.push(mainEdge)
+      }
 
       // Alternative failure edge (visual indicator)
       console.log('Edge generation check:', { edgeDef, onFailure: edgeDef.onFailure })
@@ -431,7 +514,13 @@ viewMode: 'tabs' // Always use multi-tab mode
           onFailure: edgeDef.onFailure
         } as EdgeData
       }
-      workflowEdges.push(mainEdge)
+      if (edgeDef.call) {
+        const { node, edges } = expandCallEdge(edgeDef, index, mainEdge, stepNodes, workflowName)
+        stepNodes.push(node)
+        workflowEdges.push(...edges)
+      } else {
+        workflowEdges.push(mainEdge)
+      }
 
       if (edgeDef.onFailure?.strategy === 'ALTERNATIVE' && edgeDef.onFailure.alternativeTarget) {
         const alternativeEdge: Edge = {
@@ -460,6 +549,8 @@ viewMode: 'tabs' // Always use multi-tab mode
     const handler = (e: any) => {
       const imported: StepFlowConfig | undefined = e?.detail?.config
       const cfg = imported || appState.config
+      // Only DSL imports keep the authored text; other sources start from a fresh rendering
+      const keepSource = e?.detail?.source === 'dsl-viewer'
       const newTabs: WorkflowTabState[] = Object.keys(cfg.workflows || {}).map((wfName) => {
         const graph = generateGraphForWorkflow(cfg, wfName)
         return {
@@ -472,7 +563,7 @@ viewMode: 'tabs' // Always use multi-tab mode
           viewport: { x: 0, y: 0, zoom: 1 },
         }
       })
-      setAppState(prev => ({ ...prev, config: cfg, workflowTabs: newTabs, activeTabIndex: 0 }))
+      setAppState(prev => ({ ...prev, config: cfg, workflowTabs: newTabs, activeTabIndex: 0, dslSource: keepSource ? prev.dslSource : undefined }))
     }
     window.addEventListener('stepflow-config-imported', handler as any)
     return () => window.removeEventListener('stepflow-config-imported', handler as any)
@@ -533,8 +624,26 @@ viewMode: 'tabs' // Always use multi-tab mode
     return { active: false as const }
   }, [appState.ui.viewMode, currentTab, edges, selectedEdgeId, selectedNodeId])
 
-  // Apply visual trace (highlight endpoints and selected edge; dim others)
+  // Highlighted path, when it belongs to the workflow on the canvas
+  const shownPath = useMemo(() => {
+    const shown = appState.ui.viewMode === 'tabs' ? currentTab?.workflowName : appState.activeWorkflow
+    const wf = shown ? appState.config.workflows?.[shown] : undefined
+    if (!pathHighlight || pathHighlight.workflow !== shown || !wf) return undefined
+    const edgeDefs = pathHighlight.path.edges.map(i => wf.edges[i]).filter(Boolean)
+    return {
+      hasNode: (id: string) => pathHighlight.path.steps.includes(id) || (isCallNodeId(id) && pathHighlight.path.edges.includes(Number(id.split(':')[1]))),
+      hasEdge: (edge: Edge) => edgeDefs.some(ed => edgeDefMatches(ed, edge)),
+    }
+  }, [appState.ui.viewMode, currentTab?.workflowName, appState.activeWorkflow, appState.config.workflows, pathHighlight])
+
+  // Apply visual trace (highlight endpoints and selected edge; dim others); a shown path takes precedence
   const displayNodes = useMemo(() => {
+    if (shownPath) {
+      return (appState.ui.viewMode === 'tabs' && currentTab ? currentTab.nodes : nodes).map(n => ({
+        ...n,
+        data: { ...(n.data as any), traceHighlight: shownPath.hasNode(n.id), traceRole: undefined, traceDim: !shownPath.hasNode(n.id) },
+      }))
+    }
     if (appState.ui.viewMode === 'tabs' && currentTab) {
       if (!(traced as any).active) return currentTab.nodes
       if ((traced as any).mode === 'edge') {
@@ -586,9 +695,19 @@ viewMode: 'tabs' // Always use multi-tab mode
         }
       }))
     }
-  }, [appState.ui.viewMode, currentTab, nodes, traced])
+  }, [appState.ui.viewMode, currentTab, nodes, traced, shownPath])
 
   const displayEdges = useMemo(() => {
+    if (shownPath) {
+      return (appState.ui.viewMode === 'tabs' && currentTab ? currentTab.edges : edges).map(e => {
+        const onPath = shownPath.hasEdge(e)
+        return {
+          ...e,
+          className: `${e.className || ''} ${onPath ? 'edge-trace-selected' : 'edge-trace-dim'}`.trim(),
+          markerEnd: onPath ? ({ type: MarkerType.ArrowClosed, color: '#f59e0b', width: 24, height: 24 } as any) : e.markerEnd,
+        }
+      })
+    }
     if (appState.ui.viewMode === 'tabs' && currentTab) {
       if (!(traced as any).active) return currentTab.edges
       if ((traced as any).mode === 'edge') {
@@ -637,10 +756,47 @@ viewMode: 'tabs' // Always use multi-tab mode
         }
       })
     }
-  }, [appState.ui.viewMode, currentTab, edges, traced])
+  }, [appState.ui.viewMode, currentTab, edges, traced, shownPath])
+
+  // Coverage of the simulation panel's and the latest test run's traces
+  const coverage = useMemo(
+    () => computeCoverage(appState.config, [...simulator.getAllTraces(), ...testSimulator.getAllTraces()]),
+    [appState.config, simulator, testSimulator, simulationRevision, testResults]
+  )
+
+  // Coverage of the workflow on the canvas, while the overlay is on
+  const shownCoverage = useMemo(() => {
+    const shown = appState.ui.viewMode === 'tabs' ? currentTab?.workflowName : appState.activeWorkflow
+    if (!coverageOverlay || coverage.traces === 0 || !shown) return undefined
+    return coverage.workflows.find(w => w.workflow === shown)
+  }, [coverageOverlay, coverage, appState.ui.viewMode, currentTab?.workflowName, appState.activeWorkflow])
+
+  // Marks edges covered or not; an ON FAILURE edge stands for its edge's failure branch
+  const canvasEdges = useMemo(() => {
+    const wf = shownCoverage && appState.config.workflows?.[shownCoverage.workflow]
+    if (!shownCoverage || !wf || shownPath) return displayEdges
+    return displayEdges.map(e => {
+      const failure = (e.className || '').includes('edge-failure')
+      const items = shownCoverage.items.filter(item => {
+        const ed = item.edge === undefined ? undefined : wf.edges[item.edge]
+        if (!ed) return false
+        return failure
+          ? item.kind === 'failure' && ed.onFailure?.strategy === 'ALTERNATIVE' && ed.from === e.source && ed.onFailure.alternativeTarget === e.target
+          : item.kind === 'edge' && edgeDefMatches(ed, e)
+      })
+      if (items.length === 0) return e
+      const covered = items.some(item => item.covered)
+      return { ...e, className: `${e.className || ''} ${covered ? 'edge-coverage-covered' : 'edge-coverage-uncovered'}`.trim() }
+    })
+  }, [displayEdges, shownCoverage, shownPath, appState.config.workflows])
+
+  // Edits may change or invalidate the highlighted path
+  useEffect(() => {
+    setPathHighlight(null)
+  }, [appState.config])
 
   // Undo/Redo system
-  const { undo, redo, canUndo, canRedo, pushState } = useUndoRedo({
+  const { undo, redo, canUndo, canRedo, pushState, beginTransaction, clearHistory, currentState: historyState } = useUndoRedo({
     nodes: nodes,
     edges: edges,
     config: appState.config
@@ -650,11 +806,35 @@ viewMode: 'tabs' // Always use multi-tab mode
     autoSave: true
   })
 
-  // Initialize components and setup
+  // Record config changes; tab graphs and DSL text ride along so undo restores them with it
   useEffect(() => {
-    setAppState(prev => ({ ...prev, components: MOCK_COMPONENTS }))
+    pushState({
+      nodes,
+      edges,
+      config: appState.config,
+      extra: { workflowTabs: appState.workflowTabs, dslSource: appState.dslSource, dslFiles: appState.dslFiles },
+    })
+  }, [appState.config])
+
+  const applyHistoryState = useCallback((state: HistoryState | null) => {
+    if (!state?.config) return
+    const extra = state.extra || {}
+    setAppState(prev => {
+      const workflowTabs: WorkflowTabState[] = extra.workflowTabs ?? prev.workflowTabs
+      return {
+        ...prev,
+        config: state.config,
+        workflowTabs,
+        activeTabIndex: Math.min(prev.activeTabIndex, Math.max(workflowTabs.length - 1, 0)),
+        dslSource: extra.dslSource,
+        dslFiles: extra.dslFiles,
+      }
+    })
   }, [])
 
+  const handleUndo = useCallback(() => applyHistoryState(undo()), [undo, applyHistoryState])
+  const handleRedo = useCallback(() => applyHistoryState(redo()), [redo, applyHistoryState])
+
   // --- Session Persistence ---
   const [hydrated, setHydrated] = useState(false)
   type SavedSessionV1 = {
@@ -665,6 +845,14 @@ viewMode: 'tabs' // Always use multi-tab mode
     // Node positions per workflow and viewport per tab
     nodePositions: Record<string, Record<string, { x: number; y: number }>>
     viewports: Record<string, { x: number; y: number; zoom: number }>
+    dslSource?: string
+    dslFiles?: Record<string, string>
+    validationRules?: ConfigRuleSettings
+    // Component catalog (steps, guards, packages)
+    components?: AppStateV3['components']
+    scanPackages?: string[]
+    simulationScenarios?: SimulationScenario[]
+    workflowTests?: WorkflowTestCase[]
   }
 
   const SESSION_KEY = 'stepflow-session-v1'
@@ -680,7 +868,10 @@ viewMode: 'tabs' // Always use multi-tab mode
         return
       }
       const saved: SavedSessionV1 = JSON.parse(raw)
-      if (!saved || saved.version !== 1 || !saved.config) return
+      if (!saved || saved.version !== 1 || !saved.config) {
+        setHydrated(true)
+        return
+      }
       const shouldRestore = confirm('Restore previous StepFlow session?')
       if (!shouldRestore) {
         setHydrated(true)
@@ -712,6 +903,13 @@ viewMode: 'tabs' // Always use multi-tab mode
         config: cfg,
         workflowTabs: rebuiltTabs,
         activeTabIndex: Math.min(saved.activeTabIndex ?? 0, Math.max(rebuiltTabs.length - 1, 0)),
+        dslSource: saved.dslSource,
+        dslFiles: saved.dslFiles,
+        validationRules: saved.validationRules,
+        components: saved.components || [],
+        scanPackages: saved.scanPackages || [],
+        simulationScenarios: saved.simulationScenarios,
+        workflowTests: saved.workflowTests,
       }))
       setHydrated(true)
     } catch (e) {
@@ -720,6 +918,20 @@ viewMode: 'tabs' // Always use multi-tab mode
     }
   }, [generateGraphForWorkflow])
 
+  // Stored undo history carries over only when it ends at the workspace just hydrated;
+  // otherwise history starts there, so undo cannot step into another session or back to
+  // the empty initial workspace
+  useEffect(() => {
+    if (!hydrated) return
+    if (JSON.stringify(historyState?.config) === JSON.stringify(appState.config)) return
+    clearHistory({
+      nodes,
+      edges,
+      config: appState.config,
+      extra: { workflowTabs: appState.workflowTabs, dslSource: appState.dslSource, dslFiles: appState.dslFiles },
+    })
+  }, [hydrated])
+
   // Save session (config + node positions + viewport) when relevant state changes
   useEffect(() => {
     if (!hydrated) return
@@ -740,13 +952,20 @@ viewMode: 'tabs' // Always use multi-tab mode
         activeTabIndex: appState.activeTabIndex,
         nodePositions,
         viewports,
+        dslSource: appState.dslSource,
+        dslFiles: appState.dslFiles,
+        validationRules: appState.validationRules,
+        components: appState.components,
+        scanPackages: appState.scanPackages,
+        simulationScenarios: appState.simulationScenarios,
+        workflowTests: appState.workflowTests,
       }
       localStorage.setItem(SESSION_KEY, JSON.stringify(payload))
     } catch (e) {
       // ignore storage errors
       console.warn('Failed to save session', e)
     }
-  }, [hydrated, appState.config, appState.workflowTabs, appState.activeTabIndex])
+  }, [hydrated, appState.config, appState.workflowTabs, appState.activeTabIndex, appState.dslSource, appState.dslFiles, appState.validationRules, appState.components, appState.scanPackages, appState.simulationScenarios, appState.workflowTests])
 
   const clearSession = useCallback(() => {
     try {
@@ -758,7 +977,7 @@ viewMode: 'tabs' // Always use multi-tab mode
       activeWorkflow: undefined,
       workflowTabs: [],
       activeTabIndex: 0,
-      components: MOCK_COMPONENTS,
+      components: [],
       scanPackages: [],
       ui: {
         panels: { navigator: true, properties: true, console: false },
@@ -802,7 +1021,55 @@ viewMode: 'tabs' // Always use multi-tab mode
   }, [appState.config, codegenProjectName, codegenBasePackage, codegenIncludeJava, canGenerateCode])
 
   // Setup keyboard shortcuts
-  useUndoRedoShortcuts(undo, redo, canUndo, canRedo)
+  useUndoRedoShortcuts(handleUndo, handleRedo, canUndo, canRedo)
+
+  // Regenerate each tab from a changed config, carrying positions and selection over to the
+  // (possibly re-keyed) node ids
+  const rebuildTabs = useCallback((config: StepFlowConfig, tabs: WorkflowTabState[], rekey = (id: string) => id): WorkflowTabState[] => (
+    tabs.map(tab => {
+      const graph = generateGraphForWorkflow(config, tab.workflowName)
+      const positions = new Map(tab.nodes.map(n => [rekey(n.id), n.position]))
+      const ids = new Set(graph.nodes.map(n => n.id))
+      return {
+        ...tab,
+        nodes: graph.nodes.map(n => (positions.has(n.id) ? { ...n, position: positions.get(n.id)! } : n)),
+        edges: graph.edges,
+        selectedNodes: tab.selectedNodes.map(rekey).filter(id => ids.has(id)),
+        selectedEdges: [],
+      }
+    })
+  ), [generateGraphForWorkflow])
+
+  // Rename a step or guard across config, every tab's graph and the DSL project as one undo entry.
+  // Returns an error message when the new name is rejected.
+  const renameComponent = useCallback((kind: RenameKind, oldName: string, newName: string): string | undefined => {
+    const error = checkRename(appState.config, kind, oldName, newName)
+    if (error || oldName === newName) return error
+
+    beginTransaction(`Rename ${kind} ${oldName} → ${newName}`)
+    setAppState(prev => {
+      const config = renameSymbol(prev.config, kind, oldName, newName)
+      const workflowTabs = rebuildTabs(config, prev.workflowTabs, id => (kind === 'step' && id === oldName ? newName : id))
+      const renameText = (text: string) => renameDslSymbol(text, kind, oldName, newName)
+      return {
+        ...prev,
+        config,
+        workflowTabs,
+        dslSource: prev.dslSource && renameText(prev.dslSource),
+        dslFiles: prev.dslFiles && Object.fromEntries(Object.entries(prev.dslFiles).map(([path, text]) => [path, renameText(text)])),
+      }
+    })
+    return undefined
+  }, [appState.config, beginTransaction, rebuildTabs])
+
+  // Apply a validation fix to the config as one undo entry
+  const applyConfigFix = useCallback((fix: ConfigFix) => {
+    beginTransaction(fix.title)
+    setAppState(prev => {
+      const config = fix.apply(prev.config)
+      return { ...prev, config, workflowTabs: rebuildTabs(config, prev.workflowTabs) }
+    })
+  }, [beginTransaction, rebuildTabs])
 
   // Global shortcuts: Create Workflow (Ctrl/Cmd+W), Add Step (Ctrl/Cmd+S)
   useEffect(() => {
@@ -903,6 +1170,22 @@ viewMode: 'tabs' // Always use multi-tab mode
     }
   }, [appState.ui.viewMode, appState.workflowTabs, createWorkflowTab])
 
+  // Highlight an issue's path, opening its workflow
+  const showIssuePath = useCallback((workflow: string, path: WorkflowPath) => {
+    handleActiveWorkflowChange(workflow)
+    setPathHighlight({ workflow, path })
+  }, [handleActiveWorkflowChange])
+
+  // Call nodes ask to open the workflow they invoke
+  useEffect(() => {
+    const handler = (e: any) => {
+      const name: string | undefined = e?.detail?.workflow
+      if (name && appState.config.workflows?.[name]) handleActiveWorkflowChange(name)
+    }
+    window.addEventListener('stepflow-open-workflow', handler as any)
+    return () => window.removeEventListener('stepflow-open-workflow', handler as any)
+  }, [appState.config.workflows, handleActiveWorkflowChange])
+
   // Update tab state
   const updateTabState = useCallback((updates: Partial<WorkflowTabState>) => {
     if (appState.ui.viewMode !== 'tabs' || !currentTab) return
@@ -953,9 +1236,11 @@ viewMode: 'tabs' // Always use multi-tab mode
           const newWorkflows = { ...newConfig.workflows }
           newWorkflows[activeWorkflowName] = {
             ...workflow,
-            edges: workflow.edges.filter((_, index) => 
-              remainingEdgeIds.includes(`${workflow.edges[index]?.from}-${workflow.edges[index]?.to}-${index}`)
-            )
+            edges: workflow.edges.filter((edge, index) => {
+              const id = `${edge.from}-${edge.to}-${index}`
+              // A call edge survives only while both of its halves do
+              return remainingEdgeIds.includes(id) && (!edge.call || remainingEdgeIds.includes(`${id}-return`))
+            })
           }
           
           newConfig.workflows = newWorkflows
@@ -983,6 +1268,81 @@ viewMode: 'tabs' // Always use multi-tab mode
     }
   }, [appState.ui.viewMode, updateTabState])
 
+  // Select a step and show its properties, switching to a workflow tab that contains it
+  const showStep = useCallback((stepId: string) => {
+    setActiveTab('properties')
+    if (appState.ui.viewMode !== 'tabs') return
+    const hasStep = (tab: WorkflowTabState) => tab.nodes.some(n => n.id === stepId)
+    const index = currentTab && hasStep(currentTab) ? appState.activeTabIndex : appState.workflowTabs.findIndex(hasStep)
+    if (index === -1) return
+    setAppState(prev => ({
+      ...prev,
+      activeTabIndex: index,
+      workflowTabs: prev.workflowTabs.map((tab, i) => (i === index ? { ...tab, selectedNodes: [stepId], selectedEdges: [] } : tab)),
+    }))
+  }, [appState.ui.viewMode, appState.workflowTabs, appState.activeTabIndex, currentTab])
+
+  // Simulate the workflow on the canvas
+  const runSimulation = useCallback((options: SimulationOptions) => {
+    const workflow = appState.ui.viewMode === 'tabs' ? currentTab?.workflowName : appState.activeWorkflow
+    if (!workflow || !appState.config.workflows?.[workflow]) return
+    const traceId = simulator.createTrace(workflow, [], [])
+    simulator.startSimulation(traceId, appState.config, workflow, options).catch(error => {
+      console.error('Failed to start simulation:', error)
+    })
+  }, [appState.ui.viewMode, appState.activeWorkflow, appState.config, currentTab?.workflowName, simulator])
+
+  const handleSimulationTracesChange = useCallback(() => setSimulationRevision(n => n + 1), [])
+
+  const handleScenariosChange = useCallback((simulationScenarios: SimulationScenario[]) => {
+    setAppState(prev => ({ ...prev, simulationScenarios }))
+  }, [])
+
+  const queueTestRun = useCallback(<T,>(run: () => Promise<T>): Promise<T> => {
+    const next = testQueueRef.current.then(run)
+    testQueueRef.current = next.catch(() => undefined)
+    return next
+  }, [])
+
+  // Run every test against the current config; a newer run supersedes the results of older ones
+  const runWorkflowTests = useCallback(() => {
+    const tests = appState.workflowTests || []
+    const config = appState.config
+    const runId = ++testRunRef.current
+    setTestsRunning(true)
+    queueTestRun(async () => {
+      testSimulator.clearAllTraces()
+      const results = await runTestCases(testSimulator, config, tests)
+      if (runId !== testRunRef.current) return
+      setTestResults(Object.fromEntries(results.map(r => [r.name, r])))
+      setTestsRunning(false)
+    }).catch(error => {
+      console.error('Test run failed:', error)
+      if (runId === testRunRef.current) setTestsRunning(false)
+    })
+  }, [appState.workflowTests, appState.config, queueTestRun, testSimulator])
+
+  // Tests re-run shortly after every config or test change
+  useEffect(() => {
+    if (!hydrated || !appState.workflowTests?.length) {
+      setTestResults({})
+      return
+    }
+    const timer = setTimeout(runWorkflowTests, 300)
+    return () => clearTimeout(timer)
+  }, [hydrated, appState.config, appState.workflowTests])
+
+  const recordWorkflowTest = useCallback((workflow: string) => {
+    queueTestRun(() => recordTestCase(testSimulator, appState.config, workflow, appState.workflowTests || []))
+      .then(test => setAppState(prev => ({ ...prev, workflowTests: [...(prev.workflowTests || []), test] })))
+      .catch(error => console.error('Failed to record test:', error))
+  }, [appState.config, appState.workflowTests, queueTestRun, testSimulator])
+
+  // Select the running step when it is on the canvas
+  const highlightSimulatedStep = useCallback((nodeId: string | null) => {
+    if (nodeId && currentTab?.nodes.some(n => n.id === nodeId)) updateTabState({ selectedNodes: [nodeId], selectedEdges: [] })
+  }, [currentTab, updateTabState])
+
   // Copy selected step (reference only)
   const copySelectedNode = useCallback(() => {
     if (appState.ui.viewMode !== 'tabs' || !currentTab) return
@@ -1076,6 +1436,8 @@ viewMode: 'tabs' // Always use multi-tab mode
   // Connection handler
   const onConnect = useCallback((connection: Connection) => {
     if (!connection.source || !connection.target) return
+    // Call nodes are owned by their call edge; edit the call in DSL/YAML instead
+    if (isCallNodeId(connection.source) || isCallNodeId(connection.target)) return
 
     const workflowName = appState.ui.viewMode === 'tabs' ? currentTab?.workflowName : appState.activeWorkflow
     if (!workflowName || !appState.config.workflows?.[workflowName]) return
@@ -1119,8 +1481,8 @@ viewMode: 'tabs' // Always use multi-tab mode
     }
   }, [appState.ui.viewMode, currentTab, appState.activeWorkflow, appState.config, updateTabState])
 
-  // Quick add step dialog
-  const handleQuickAddStep = useCallback((name: string, stepDef: StepDef) => {
+  // Quick add step dialog; palette drops pass the flow position they were dropped at
+  const handleQuickAddStep = useCallback((name: string, stepDef: StepDef, position?: { x: number; y: number }) => {
     const hasWorkflow = Object.keys(appState.config.workflows || {}).length > 0
     if (!hasWorkflow) {
       alert('Please create at least one workflow before adding steps.')
@@ -1140,7 +1502,7 @@ viewMode: 'tabs' // Always use multi-tab mode
       const newNode = {
         id: name,
         type: 'step',
-        position: { 
+        position: position ?? { 
           x: 250 + Math.random() * 200, 
           y: 150 + currentTab.nodes.length * 100 + Math.random() * 50 
         },
@@ -1176,6 +1538,51 @@ viewMode: 'tabs' // Always use multi-tab mode
     setShowQuickAddDialog(false)
   }, [appState.config, appState.ui.viewMode, currentTab, appState.activeTabIndex])
 
+  // Component palette: the catalog lives in app state and is saved with the session
+  const componentCatalog = useMemo<ComponentCatalog>(
+    () => ({ packages: appState.scanPackages, components: appState.components }),
+    [appState.scanPackages, appState.components]
+  )
+  const handleCatalogChange = useCallback((catalog: ComponentCatalog) => {
+    setAppState(prev => ({ ...prev, components: catalog.components, scanPackages: catalog.packages }))
+  }, [])
+
+  // Palette drops: a step component becomes a new step where it was dropped, a guard
+  // component is added to the guards of the step it was dropped on
+  const reactFlowInstanceRef = useRef<ReactFlowInstance | null>(null)
+  const onCanvasDragOver = useCallback((event: React.DragEvent) => {
+    if (!event.dataTransfer.types.includes(COMPONENT_DRAG_TYPE)) return
+    event.preventDefault()
+    event.dataTransfer.dropEffect = 'copy'
+  }, [])
+  const onCanvasDrop = useCallback((event: React.DragEvent) => {
+    const payload = event.dataTransfer.getData(COMPONENT_DRAG_TYPE)
+    if (!payload) return
+    event.preventDefault()
+    const { name, type } = JSON.parse(payload) as { name: string; type: 'step' | 'guard' }
+    if (type === 'step') {
+      const steps = appState.config.steps || {}
+      const stepName = stepNameFor(name, n => n in steps || n === 'SUCCESS' || n === 'FAILURE')
+      const position = reactFlowInstanceRef.current?.screenToFlowPosition({ x: event.clientX, y: event.clientY })
+      handleQuickAddStep(stepName, { type: name }, position)
+      return
+    }
+    const target = (event.target as HTMLElement).closest('.react-flow__node')?.getAttribute('data-id')
+    const step = target ? appState.config.steps?.[target] : undefined
+    if (!target || !step) {
+      alert(`Drop guard '${name}' onto a step to add it to the step's guards.`)
+      return
+    }
+    if (step.guards?.includes(name)) return
+    beginTransaction(`Add guard ${name} to ${target}`)
+    setAppState(prev => {
+      const current = prev.config.steps?.[target]
+      if (!current) return prev
+      const config = { ...prev.config, steps: { ...prev.config.steps, [target]: { ...current, guards: [...(current.guards || []), name] } } }
+      return { ...prev, config, workflowTabs: rebuildTabs(config, prev.workflowTabs) }
+    })
+  }, [appState.config, handleQuickAddStep, beginTransaction, rebuildTabs])
+
   // Transform config for YAML output (rename retryAttempts to attempts, retryDelay to delay)
   const transformConfigForYaml = useCallback((config: StepFlowConfig): StepFlowConfig => {
     const transformedConfig = JSON.parse(JSON.stringify(config)) // Deep clone
@@ -1286,7 +1693,7 @@ viewMode: 'tabs' // Always use multi-tab mode
                 viewport: { x: 0, y: 0, zoom: 1 },
               }
             })
-            setAppState(prev => ({ ...prev, config: parsed, workflowTabs: newTabs, activeTabIndex: 0 }))
+            setAppState(prev => ({ ...prev, config: parsed, workflowTabs: newTabs, activeTabIndex: 0, dslSource: undefined }))
           } catch (error) {
             alert('Failed to parse YAML file')
           }
@@ -1297,37 +1704,41 @@ viewMode: 'tabs' // Always use multi-tab mode
     input.click()
   }, [])
 
-  // Basic validation (similar to V1) and attach issues to nodes
-  const validateNode = useCallback((nodeId: string): ValidationIssue[] => {
-    const issues: ValidationIssue[] = []
-    const { config } = appState
-    const step = config.steps?.[nodeId]
-    if (!step) {
-      issues.push({ type: 'error', message: 'Step definition not found', location: `steps.${nodeId}` })
-      return issues
-    }
-    if (!step.type) {
-      issues.push({ type: 'error', message: 'Step type is required', location: `steps.${nodeId}.type` })
-    }
-    if (step.retry) {
-      const retry = step.retry
-      if (retry.maxAttempts < 1) {
-        issues.push({ type: 'error', message: 'Max attempts must be >= 1', location: `steps.${nodeId}.retry.maxAttempts` })
-      }
-      if (retry.delay < 0) {
-        issues.push({ type: 'error', message: 'Delay must be >= 0', location: `steps.${nodeId}.retry.delay` })
-      }
+  // Config-level validation with the project's rule overrides, shared with the DSL editor and
+  // the YAML tree; suppression comments in the authored DSL apply to every view
+  const configIssues = useMemo(() => {
+    const issues = validateConfig(appState.config, appState.validationRules, appState.components)
+    // Patching the source is only worth it when it has suppression comments at all
+    if (!appState.dslSource?.includes('stepflow-disable-next-line')) return issues
+    const project = { files: appState.dslFiles, path: DSL_ENTRY_FILE }
+    return withoutDslSuppressed(issues, patchDSL(appState.dslSource, appState.config, project).text, project)
+  }, [appState.config, appState.validationRules, appState.components, appState.dslSource, appState.dslFiles])
+
+  // Step definition issues keyed by step, for IssuesPanel
+  const validationResults = useMemo(() => {
+    const results: Record<string, ValidationIssue[]> = {}
+    configIssues.forEach(issue => {
+      if (!issue.workflow && issue.step) (results[issue.step] ||= []).push(issue)
+    })
+    return results
+  }, [configIssues])
+
+  // Issues a canvas node of the given workflow shows: its step's own issues plus the
+  // workflow issues attached to it; call nodes pick up the issues of their `call` edge
+  const nodeIssues = useCallback((nodeId: string, workflowName?: string): ValidationIssue[] => {
+    if (isCallNodeId(nodeId)) {
+      const location = `workflows.${workflowName}.edges[${nodeId.split(':')[1]}].call`
+      return configIssues.filter(i => i.location === location)
     }
-    return issues
-  }, [appState])
+    return configIssues.filter(i => i.step === nodeId && (!i.workflow || i.workflow === workflowName))
+  }, [configIssues])
 
-  useEffect(() => {
-    const newResults: Record<string, ValidationIssue[]> = {}
-    Object.keys(appState.config.steps || {}).forEach(stepName => {
-      newResults[stepName] = validateNode(stepName)
-    })
-    setValidationResults(newResults)
-  }, [appState.config, validateNode])
+  const validateNode = useCallback((nodeId: string): ValidationIssue[] => {
+    if (!isCallNodeId(nodeId) && !appState.config.steps?.[nodeId] && nodeId !== 'SUCCESS' && nodeId !== 'FAILURE') {
+      return [{ type: 'error', message: 'Step definition not found', location: `steps.${nodeId}` }]
+    }
+    return nodeIssues(nodeId, currentTab?.workflowName)
+  }, [appState.config.steps, nodeIssues, currentTab?.workflowName])
 
   // Reflect validation issues on current tab nodes for visual cues (debounced, minimal changes)
   useEffect(() => {
@@ -1336,7 +1747,7 @@ viewMode: 'tabs' // Always use multi-tab mode
     const timer = setTimeout(() => {
       const updated = (currentTab.nodes || []).map(n => {
         const oldIssues = (n.data as any)?.issues || []
-        const newIssues = validationResults[n.id] || []
+        const newIssues = nodeIssues(n.id, currentTab.workflowName)
         // Compare shallowly by length and stringified messages/types
         const same = oldIssues.length === newIssues.length &&
           JSON.stringify(oldIssues.map((i: any) => [i.type, i.message])) === JSON.stringify(newIssues.map((i: any) => [i.type, i.message]))
@@ -1348,7 +1759,7 @@ viewMode: 'tabs' // Always use multi-tab mode
       if (changed) updateTabState({ nodes: updated })
     }, 150)
     return () => clearTimeout(timer)
-  }, [validationResults, appState.ui.viewMode, currentTab, updateTabState, isDragging])
+  }, [nodeIssues, appState.ui.viewMode, currentTab, updateTabState, isDragging])
 
   // Get selected node data
   const selectedNodeData = useMemo(() => {
@@ -1370,42 +1781,26 @@ viewMode: 'tabs' // Always use multi-tab mode
   }, [edges, selectedEdgeId])
   
   // Get total validation issues count
-  const totalIssues = useMemo(() => {
-    const allIssues = Object.values(validationResults).flat()
-    return {
-      errors: allIssues.filter(i => i.type === 'error').length,
-      warnings: allIssues.filter(i => i.type === 'warning').length,
-      info: allIssues.filter(i => i.type === 'info').length
-    }
-  }, [validationResults])
+  const totalIssues = useMemo(() => ({
+    errors: configIssues.filter(i => i.type === 'error').length,
+    warnings: configIssues.filter(i => i.type === 'warning').length,
+    info: configIssues.filter(i => i.type === 'info').length
+  }), [configIssues])
 
-  // Basic workflow-level validation to surface in IssuesPanel
+  // Workflow-level issues grouped for IssuesPanel
   const workflowIssues = useMemo(() => {
-    const cfg = appState.config
-    const steps = cfg.steps || {}
-    const workflows = cfg.workflows || {}
     const results: Array<{ workflow: string; issues: ValidationIssue[] }> = []
-    Object.entries(workflows).forEach(([wfName, wf]) => {
-      const issues: ValidationIssue[] = []
-      if (!wf.root) {
-        issues.push({ type: 'error', message: 'Workflow must have a root step', location: `workflows.${wfName}.root` })
-      } else if (!steps[wf.root] && wf.root !== 'SUCCESS' && wf.root !== 'FAILURE') {
-        issues.push({ type: 'error', message: `Root step '${wf.root}' is not defined`, location: `workflows.${wfName}.root` })
-      }
-      (wf.edges || []).forEach((edge, idx) => {
-        if (edge.from && !steps[edge.from] && edge.from !== 'SUCCESS' && edge.from !== 'FAILURE') {
-          issues.push({ type: 'error', message: `Source step '${edge.from}' is not defined`, location: `workflows.${wfName}.edges[${idx}].from` })
-        }
-        if (edge.to && !steps[edge.to] && edge.to !== 'SUCCESS' && edge.to !== 'FAILURE') {
-          issues.push({ type: 'error', message: `Target step '${edge.to}' is not defined`, location: `workflows.${wfName}.edges[${idx}].to` })
-        }
-      })
+    Object.keys(appState.config.workflows || {}).forEach(wfName => {
+      const issues = configIssues.filter(i => i.workflow === wfName)
       if (issues.length > 0) {
         results.push({ workflow: wfName, issues })
       }
     })
     return results
-  }, [appState.config])
+  }, [appState.config.workflows, configIssues])
+
+  // Issues of neither a workflow nor a step, such as unknown defaults keys
+  const globalIssues = useMemo(() => configIssues.filter(i => !i.workflow && !i.step), [configIssues])
 
   // Keep tab node flags (isRoot, isTerminal) in sync when workflow root changes via WorkflowManager
   useEffect(() => {
@@ -1439,6 +1834,32 @@ viewMode: 'tabs' // Always use multi-tab mode
     }
   }, [appState.ui.viewMode, currentTab, appState.config.workflows, nodes, edges, updateTabState])
 
+  // Canvas note while an issue path is highlighted
+  const renderPathNotice = () => shownPath && (
+    <Panel position="top-center">
+      <div className="flex items-center gap-2 bg-background/80 backdrop-blur-sm rounded-lg px-3 py-1.5 border text-xs">
+        <Route className="w-3 h-3 text-amber-500" />
+        <span>Showing issue path</span>
+        <button className="p-0.5 rounded hover:bg-muted" title="Clear highlight" onClick={() => setPathHighlight(null)}>
+          <X className="w-3 h-3" />
+        </button>
+      </div>
+    </Panel>
+  )
+
+  // Canvas note while the coverage overlay is on; an issue path hides it
+  const renderCoverageNotice = () => !shownPath && shownCoverage && (
+    <Panel position="top-center">
+      <div className="flex items-center gap-2 bg-background/80 backdrop-blur-sm rounded-lg px-3 py-1.5 border text-xs">
+        <Eye className="w-3 h-3 text-green-500" />
+        <span>Coverage {shownCoverage.percent}%, uncovered edges dashed red</span>
+        <button className="p-0.5 rounded hover:bg-muted" title="Hide coverage" onClick={() => setCoverageOverlay(false)}>
+          <X className="w-3 h-3" />
+        </button>
+      </div>
+    </Panel>
+  )
+
   // Render multi-tab canvas
   const renderTabCanvas = () => {
     if (appState.workflowTabs.length === 0) {
@@ -1496,13 +1917,16 @@ viewMode: 'tabs' // Always use multi-tab mode
                   <ReactFlow
                     key={`rf-${tab.id}-${appState.activeTabIndex}-${layoutVersion}`}
                     nodes={displayNodes}
-                    edges={displayEdges}
+                    edges={canvasEdges}
                     onNodesChange={onNodesChange}
                     onEdgesChange={onEdgesChange}
                     onSelectionChange={onSelectionChange}
                     onConnect={onConnect}
                     onNodeDragStart={() => setIsDragging(true)}
                     onNodeDragStop={() => setIsDragging(false)}
+                    onInit={(instance) => { reactFlowInstanceRef.current = instance }}
+                    onDragOver={onCanvasDragOver}
+                    onDrop={onCanvasDrop}
                     nodeTypes={nodeTypes}
                     defaultViewport={tab.viewport}
                     onMoveEnd={(e, viewport) => {
@@ -1527,8 +1951,18 @@ viewMode: 'tabs' // Always use multi-tab mode
                         </div>
                       </div>
                     </Panel>
+                    {renderPathNotice()}
+                    {renderCoverageNotice()}
 
                     <Panel position="top-right" className="p-2 flex gap-2">
+                      <Button
+                        size="sm"
+                        onClick={() => setShowSimulationPanel(true)}
+                        className="shadow-lg bg-primary hover:bg-primary/90 text-primary-foreground w-10 h-10 p-0"
+                        title="Simulate Workflow"
+                      >
+                        <Play className="w-5 h-5" />
+                      </Button>
                       <Button
                         size="sm"
                         onClick={autoArrange}
@@ -1576,11 +2010,14 @@ viewMode: 'tabs' // Always use multi-tab mode
       <ReactFlowProvider>
         <ReactFlow
           nodes={displayNodes}
-          edges={displayEdges}
+          edges={canvasEdges}
           onNodesChange={onNodesChange}
           onEdgesChange={onEdgesChange}
           onSelectionChange={onSelectionChange}
           onConnect={onConnect}
+          onInit={(instance) => { reactFlowInstanceRef.current = instance }}
+          onDragOver={onCanvasDragOver}
+          onDrop={onCanvasDrop}
           nodeTypes={nodeTypes}
           fitView
           className="h-full w-full"
@@ -1590,6 +2027,14 @@ viewMode: 'tabs' // Always use multi-tab mode
           
           {/* Canvas Action Buttons */}
           <Panel position="top-right" className="p-2 flex gap-2">
+            <Button
+              size="sm"
+              onClick={() => setShowSimulationPanel(true)}
+              className="shadow-lg bg-primary hover:bg-primary/90 text-primary-foreground w-10 h-10 p-0"
+              title="Simulate Workflow"
+            >
+              <Play className="w-5 h-5" />
+            </Button>
             <Button
               size="sm"
               onClick={autoArrange}
@@ -1640,6 +2085,8 @@ viewMode: 'tabs' // Always use multi-tab mode
               </div>
             </Panel>
           )}
+          {renderPathNotice()}
+          {renderCoverageNotice()}
         </ReactFlow>
       </ReactFlowProvider>
     )
@@ -1699,7 +2146,7 @@ viewMode: 'tabs' // Always use multi-tab mode
             size="icon" 
             variant="outline" 
             title="Undo (Ctrl+Z)" 
-            onClick={undo}
+            onClick={handleUndo}
             disabled={!canUndo}
           >
             <Undo className="w-4 h-4" />
@@ -1708,7 +2155,7 @@ viewMode: 'tabs' // Always use multi-tab mode
             size="icon" 
             variant="outline" 
             title="Redo (Ctrl+Y)" 
-            onClick={redo}
+            onClick={handleRedo}
             disabled={!canRedo}
           >
             <Redo className="w-4 h-4" />
@@ -1780,8 +2227,18 @@ viewMode: 'tabs' // Always use multi-tab mode
       {/* Main Content */}
       <div className="flex flex-1 overflow-hidden">
         {/* Canvas */}
-        <div className="flex-1 overflow-hidden">
+        <div className="flex-1 overflow-hidden relative">
           {renderTabCanvas()}
+          <SimulationPanel
+            simulator={simulator}
+            onStepHighlight={highlightSimulatedStep}
+            isVisible={showSimulationPanel}
+            onClose={() => setShowSimulationPanel(false)}
+            scenarios={appState.simulationScenarios || []}
+            onScenariosChange={handleScenariosChange}
+            onRun={runSimulation}
+            onTracesChange={handleSimulationTracesChange}
+          />
         </div>
         
         {/* Right Sidebar (collapsible and resizable) */}
@@ -1907,6 +2364,27 @@ viewMode: 'tabs' // Always use multi-tab mode
             >
               Config
             </button>
+            <button
+              className={`flex-1 px-3 py-2 text-sm font-medium transition-colors ${
+                activeTab === 'components'
+                  ? 'text-primary border-b-2 border-primary bg-accent/20'
+                  : 'text-muted-foreground hover:text-foreground hover:bg-accent/50'
+              }`}
+              onClick={() => setActiveTab('components')}
+            >
+              Components
+            </button>
+            <button
+              className={`flex-1 px-3 py-2 text-sm font-medium transition-colors ${
+                activeTab === 'tests'
+                  ? 'text-primary border-b-2 border-primary bg-accent/20'
+                  : 'text-muted-foreground hover:text-foreground hover:bg-accent/50'
+              }`}
+              onClick={() => setActiveTab('tests')}
+            >
+              Tests
+              {Object.values(testResults).some(r => !r.passed) && <span className="ml-1 inline-block w-2 h-2 rounded-full bg-red-500" />}
+            </button>
           </div>
           
           {/* Sidebar Content */}
@@ -1972,6 +2450,8 @@ viewMode: 'tabs' // Always use multi-tab mode
                         <YamlTreeView 
                           data={transformConfigForYaml(appState.config)}
                           yamlString={YAML.stringify(transformConfigForYaml(appState.config), { indent: 2, lineWidth: -1, minContentWidth: 0 })}
+                          // Edge retry fields are renamed for YAML, see transformConfigForYaml
+                          issues={configIssues.map(i => ({ ...i, location: i.location.replace(/\.retryAttempts$/, '.attempts') }))}
                           className="h-full"
                         />
                       ) : (
@@ -2121,6 +2601,11 @@ viewMode: 'tabs' // Always use multi-tab mode
                         config={appState.config}
                         onConfigChange={(newConfig) => setAppState(prev => ({ ...prev, config: newConfig }))}
                         components={appState.components}
+                        source={appState.dslSource}
+                        onSourceChange={(dslSource) => setAppState(prev => ({ ...prev, dslSource }))}
+                        files={appState.dslFiles}
+                        onFilesChange={(dslFiles) => setAppState(prev => ({ ...prev, dslFiles }))}
+                        rules={appState.validationRules}
                       />
                     </div>
                     <div className={dslInnerTab === 'quickstart' ? '' : 'hidden'}>
@@ -2154,7 +2639,7 @@ viewMode: 'tabs' // Always use multi-tab mode
                   if (step) {
                     const newStep = { ...step }
                     if ((updates as any).type !== undefined) newStep.type = (updates as any).type
-                    if ((updates as any).config !== undefined) newStep.config = (updates as any).config
+                    if ('config' in updates) newStep.config = (updates as any).config
                     if ((updates as any).guards !== undefined) newStep.guards = (updates as any).guards
                     if ((updates as any).retry !== undefined) newStep.retry = (updates as any).retry
                     cfg.steps = { ...(cfg.steps || {}), [nodeId]: newStep }
@@ -2197,7 +2682,7 @@ viewMode: 'tabs' // Always use multi-tab mode
                     : undefined
                   if (!tabEdge) return prev
                   const updatedEdges = wf.edges.map(ed => {
-                    if (ed.from === tabEdge.source && ed.to === tabEdge.target) {
+                    if (edgeDefMatches(ed, tabEdge)) {
                       return {
                         ...ed,
                         guard: (updates as any).guard ?? ed.guard,
@@ -2267,7 +2752,17 @@ viewMode: 'tabs' // Always use multi-tab mode
                 // Remove from tab
                 if (appState.ui.viewMode === 'tabs' && currentTab) {
                   const tabEdge = currentTab.edges.find(e => e.id === edgeId)
-                  updateTabState({ edges: currentTab.edges.filter(e => e.id !== edgeId) })
+                  const call = (tabEdge?.data as EdgeData | undefined)?.call
+                  if (call && tabEdge) {
+                    // Deleting either half of a call edge removes the whole call, node included
+                    const callNodeId = isCallNodeId(tabEdge.source) ? tabEdge.source : tabEdge.target
+                    updateTabState({
+                      edges: currentTab.edges.filter(e => e.source !== callNodeId && e.target !== callNodeId),
+                      nodes: currentTab.nodes.filter(n => n.id !== callNodeId),
+                    })
+                  } else {
+                    updateTabState({ edges: currentTab.edges.filter(e => e.id !== edgeId) })
+                  }
                   // Remove from config
                   if (tabEdge) {
                     const wfName = currentTab.workflowName
@@ -2275,7 +2770,7 @@ viewMode: 'tabs' // Always use multi-tab mode
                       const cfg = { ...prev.config }
                       const wf = cfg.workflows?.[wfName]
                       if (!wf) return prev
-                      const filtered = wf.edges.filter(ed => !(ed.from === tabEdge.source && ed.to === tabEdge.target))
+                      const filtered = wf.edges.filter(ed => !edgeDefMatches(ed, tabEdge))
                       return { ...prev, config: { ...cfg, workflows: { ...cfg.workflows, [wfName]: { ...wf, edges: filtered } } } }
                     })
                   }
@@ -2304,6 +2799,7 @@ viewMode: 'tabs' // Always use multi-tab mode
                 })
               }}
               onValidateNode={(nodeId) => validateNode(nodeId)}
+              onRename={renameComponent}
               embedded
               components={appState.components}
             />
@@ -2319,6 +2815,17 @@ viewMode: 'tabs' // Always use multi-tab mode
                   onActiveWorkflowChange={handleActiveWorkflowChange}
                   embedded
                 />
+                <div className="border-t border-border">
+                  <ValidationPanel
+                    config={appState.config}
+                    workflow={appState.ui.viewMode === 'single' ? appState.activeWorkflow : currentTab?.workflowName}
+                    rules={appState.validationRules}
+                    components={appState.components}
+                    onNodeSelect={(nodeId) => updateTabState({ selectedNodes: [nodeId], selectedEdges: [] })}
+                    onShowPath={showIssuePath}
+                    onApplyFix={applyConfigFix}
+                  />
+                </div>
               </div>
             )}
             
@@ -2326,12 +2833,37 @@ viewMode: 'tabs' // Always use multi-tab mode
               <div className="h-full overflow-auto">
                 <ConfigurationSidebar
                   config={appState.config}
+                  components={appState.components}
+                  onSelectStep={showStep}
                   onConfigChange={(newConfig) => setAppState(prev => ({ ...prev, config: newConfig }))}
                   embedded
                   onAddStep={() => setShowQuickAddDialog(true)}
                 />
               </div>
             )}
+
+            {activeTab === 'components' && (
+              <ComponentPalette catalog={componentCatalog} onChange={handleCatalogChange} />
+            )}
+
+            {activeTab === 'tests' && (
+              <div className="h-full flex flex-col">
+                <div className="flex-1 min-h-0">
+                  <WorkflowTestsPanel
+                    tests={appState.workflowTests || []}
+                    results={testResults}
+                    running={testsRunning}
+                    workflow={appState.ui.viewMode === 'tabs' ? currentTab?.workflowName : appState.activeWorkflow}
+                    onChange={workflowTests => setAppState(prev => ({ ...prev, workflowTests }))}
+                    onRunAll={runWorkflowTests}
+                    onRecord={recordWorkflowTest}
+                  />
+                </div>
+                <div className="max-h-[45%] overflow-auto border-t border-border">
+                  <CoveragePanel config={appState.config} report={coverage} overlay={coverageOverlay} onOverlayChange={setCoverageOverlay} />
+                </div>
+              </div>
+            )}
           </div>
         </div>
         </>
@@ -2422,6 +2954,9 @@ viewMode: 'tabs' // Always use multi-tab mode
         onOpenChange={setShowIssuesPanel}
         stepIssues={validationResults}
         workflowIssues={workflowIssues}
+        configIssues={globalIssues}
+        rules={appState.validationRules}
+        onRulesChange={(validationRules) => setAppState(prev => ({ ...prev, validationRules }))}
       />
     </div>
   )
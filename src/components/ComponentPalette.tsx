@@ -0,0 +1,239 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react'
+import { Box, Coffee, Download, FolderOpen, Search, Shield, Trash2, Upload } from 'lucide-react'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { ComponentInfo } from '../types/stepflow'
+import { schemaProperties } from '../lib/config-schema'
+import {
+  COMPONENT_DRAG_TYPE,
+  ComponentCatalog,
+  EXAMPLE_CATALOG,
+  formatCatalog,
+  mergeCatalogs,
+  parseCatalog,
+  searchComponents,
+} from '../lib/component-catalog'
+import { readJavaSources, scanJavaSources } from '../lib/java-catalog'
+
+export interface ComponentPaletteProps {
+  catalog: ComponentCatalog
+  onChange: (catalog: ComponentCatalog) => void
+}
+
+// Files of a dropped item, descending into dropped folders
+async function entryFiles(entry: FileSystemEntry): Promise<File[]> {
+  if (entry.isFile) {
+    return new Promise((resolve, reject) => (entry as FileSystemFileEntry).file(file => resolve([file]), reject))
+  }
+  const reader = (entry as FileSystemDirectoryEntry).createReader()
+  const children: FileSystemEntry[] = []
+  // readEntries returns the folder in batches; an empty batch ends it
+  for (;;) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject))
+    if (batch.length === 0) break
+    children.push(...batch)
+  }
+  return (await Promise.all(children.map(entryFiles))).flat()
+}
+
+/**
+ * Searchable list of catalog steps and guards; entries are dragged onto the canvas. The
+ * catalog grows from catalog JSON files and from Java sources (files, folders or zips).
+ */
+export const ComponentPalette: React.FC<ComponentPaletteProps> = ({ catalog, onChange }) => {
+  const [query, setQuery] = useState('')
+  const [errors, setErrors] = useState<string[]>([])
+  const [warnings, setWarnings] = useState<string[]>([])
+  const [notice, setNotice] = useState<string>()
+  const [dropActive, setDropActive] = useState(false)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const javaInputRef = useRef<HTMLInputElement>(null)
+  const folderInputRef = useRef<HTMLInputElement>(null)
+
+  // `webkitdirectory` is not in React's input attributes
+  useEffect(() => {
+    folderInputRef.current?.setAttribute('webkitdirectory', '')
+  }, [])
+
+  const matches = useMemo(() => searchComponents(catalog.components, query), [catalog.components, query])
+
+  // Catalog JSON files and Java sources are merged on top of the current catalog, in that
+  // order; files that fail to read are reported and skipped
+  const loadFiles = async (files: File[]) => {
+    if (files.length === 0) return
+    const loaded: ComponentCatalog[] = []
+    const failed: string[] = []
+    const javaFiles: File[] = []
+    for (const file of files) {
+      if (!/\.json$/i.test(file.name)) {
+        javaFiles.push(file)
+        continue
+      }
+      try {
+        loaded.push(parseCatalog(await file.text()))
+      } catch (e) {
+        failed.push(`${file.name}: ${(e as Error).message}`)
+      }
+    }
+    let scanned: string[] = []
+    setNotice(undefined)
+    if (javaFiles.length > 0) {
+      try {
+        const sources = await readJavaSources(javaFiles)
+        const result = scanJavaSources(sources)
+        const count = (type: string) => result.catalog.components.filter(c => c.type === type).length
+        setNotice(`Found ${count('step')} steps and ${count('guard')} guards in ${sources.length} Java files`)
+        scanned = result.warnings
+        loaded.push(result.catalog)
+      } catch (e) {
+        failed.push((e as Error).message)
+      }
+    }
+    setErrors(failed)
+    setWarnings(scanned)
+    if (loaded.length > 0) onChange(mergeCatalogs([catalog, ...loaded]))
+  }
+
+  const onDrop = async (e: React.DragEvent) => {
+    e.preventDefault()
+    setDropActive(false)
+    const entries = Array.from(e.dataTransfer.items).map(item => item.webkitGetAsEntry()).filter((x): x is FileSystemEntry => !!x)
+    const files = entries.length > 0 ? (await Promise.all(entries.map(entryFiles))).flat() : Array.from(e.dataTransfer.files)
+    loadFiles(files)
+  }
+
+  const fileInput = (ref: React.RefObject<HTMLInputElement>, accept?: string) => (
+    <input
+      ref={ref}
+      type="file"
+      accept={accept}
+      multiple
+      className="hidden"
+      onChange={e => {
+        loadFiles(Array.from(e.target.files || []))
+        e.target.value = ''
+      }}
+    />
+  )
+
+  const exportCatalog = () => {
+    const blob = new Blob([formatCatalog(catalog)], { type: 'application/json' })
+    const url = URL.createObjectURL(blob)
+    const a = document.createElement('a')
+    a.href = url
+    a.download = 'stepflow-catalog.json'
+    a.click()
+    URL.revokeObjectURL(url)
+  }
+
+  const renderItem = (c: ComponentInfo) => {
+    const keys = Object.keys(schemaProperties(c.schema))
+    return (
+      <div
+        key={`${c.type}:${c.name}`}
+        draggable
+        onDragStart={e => {
+          e.dataTransfer.setData(COMPONENT_DRAG_TYPE, JSON.stringify({ name: c.name, type: c.type }))
+          e.dataTransfer.effectAllowed = 'copy'
+        }}
+        className="border rounded p-2 text-xs cursor-grab hover:bg-accent/50 active:cursor-grabbing"
+        title={c.type === 'step' ? 'Drag onto the canvas to add a step' : 'Drag onto a step to guard it'}
+      >
+        <div className="flex items-center gap-2">
+          {c.type === 'step' ? <Box className="w-3 h-3 text-blue-500" /> : <Shield className="w-3 h-3 text-amber-500" />}
+          <span className="font-medium truncate">{c.name}</span>
+        </div>
+        {c.package && <div className="font-mono opacity-70 truncate">{c.package}</div>}
+        {c.description && <div className="text-muted-foreground mt-1">{c.description}</div>}
+        {keys.length > 0 && <div className="text-muted-foreground mt-1">Config: <span className="font-mono">{keys.join(', ')}</span></div>}
+      </div>
+    )
+  }
+
+  const group = (type: ComponentInfo['type'], title: string) => {
+    const items = matches.filter(c => c.type === type)
+    if (items.length === 0) return null
+    return (
+      <div className="space-y-1">
+        <div className="text-xs font-medium text-muted-foreground uppercase">{title} ({items.length})</div>
+        {items.map(renderItem)}
+      </div>
+    )
+  }
+
+  return (
+    <div
+      className={`h-full flex flex-col overflow-hidden ${dropActive ? 'ring-2 ring-inset ring-primary' : ''}`}
+      onDragOver={e => {
+        if (!e.dataTransfer.types.includes('Files')) return
+        e.preventDefault()
+        setDropActive(true)
+      }}
+      onDragLeave={e => {
+        if (!e.currentTarget.contains(e.relatedTarget as Node)) setDropActive(false)
+      }}
+      onDrop={onDrop}
+    >
+      <div className="px-3 py-2 border-b border-border space-y-2">
+        <div className="flex items-center gap-1">
+          <Button size="sm" variant="outline" onClick={() => fileInputRef.current?.click()} title="Load catalog files; they are merged into the current catalog">
+            <Upload className="w-3 h-3 mr-1" /> Load catalog
+          </Button>
+          <Button size="sm" variant="ghost" onClick={() => javaInputRef.current?.click()} title="Scan .java files or a zip of Java sources for @StepComponent and @GuardComponent classes">
+            <Coffee className="w-3 h-3" />
+          </Button>
+          <Button size="sm" variant="ghost" onClick={() => folderInputRef.current?.click()} title="Scan a folder of Java sources">
+            <FolderOpen className="w-3 h-3" />
+          </Button>
+          <Button size="sm" variant="ghost" onClick={exportCatalog} disabled={catalog.components.length === 0} title="Download the merged catalog">
+            <Download className="w-3 h-3" />
+          </Button>
+          <Button size="sm" variant="ghost" onClick={() => onChange({ packages: [], components: [] })} disabled={catalog.components.length === 0} title="Remove every component">
+            <Trash2 className="w-3 h-3" />
+          </Button>
+          {fileInput(fileInputRef, '.json,application/json')}
+          {fileInput(javaInputRef, '.java,.zip,.jar')}
+          {fileInput(folderInputRef)}
+        </div>
+        <div className="relative">
+          <Search className="w-3 h-3 absolute left-2 top-1/2 -translate-y-1/2 text-muted-foreground" />
+          <Input value={query} onChange={e => setQuery(e.target.value)} placeholder="Search components" className="h-8 text-xs pl-7" />
+        </div>
+        {notice && <div className="text-xs text-muted-foreground">{notice}</div>}
+        {errors.map(error => (
+          <div key={error} className="text-xs text-red-600 dark:text-red-400">{error}</div>
+        ))}
+        {warnings.map(warning => (
+          <div key={warning} className="text-xs text-amber-600 dark:text-amber-400">{warning}</div>
+        ))}
+      </div>
+      <div className="flex-1 overflow-auto p-3 space-y-3">
+        {catalog.components.length === 0 ? (
+          <div className="text-xs text-muted-foreground space-y-2">
+            <div>
+              No component catalog loaded. Load a catalog JSON file listing the project's steps and guards, or
+              drop Java sources (files, a folder or a zip) here to scan them for components.
+            </div>
+            <Button size="sm" variant="outline" onClick={() => onChange(mergeCatalogs([catalog, EXAMPLE_CATALOG]))}>
+              Load example catalog
+            </Button>
+          </div>
+        ) : matches.length === 0 ? (
+          <div className="text-xs text-muted-foreground">No components match '{query}'</div>
+        ) : (
+          <>
+            {group('step', 'Steps')}
+            {group('guard', 'Guards')}
+          </>
+        )}
+        {catalog.packages.length > 0 && (
+          <div className="text-xs text-muted-foreground">
+            Packages: <span className="font-mono">{catalog.packages.join(', ')}</span>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default ComponentPalette
@@ -1,4 +1,4 @@
-import React, { useState, useCallback } from 'react'
+import React, { useState, useCallback, useMemo } from 'react'
 import { Button } from './ui/button'
 import { Input } from './ui/input'
 import { Textarea } from './ui/textarea'
@@ -15,14 +15,18 @@ import {
   Database,
   Cog,
   Package,
-  Boxes
+  Boxes,
+  Link2
 } from 'lucide-react'
 import { StepFlowConfig, ComponentInfo } from '../types/stepflow'
 import StepManager from './StepManager'
 import YamlViewer from './YamlViewer'
+import { SettingReference, analyzeSettingsUsage, settingConsumers, settingsKeys } from '../lib/settings-usage'
 
 interface ConfigurationSidebarProps {
   config: StepFlowConfig
+  /** Component catalog, for settings read through @ConfigValue(globalPath) */
+  components?: ComponentInfo[]
   selectedStepId?: string
   onConfigChange: (config: StepFlowConfig) => void
   onSelectStep?: (stepId: string) => void
@@ -290,8 +294,100 @@ const KeyValueEditor: React.FC<KeyValueEditorProps> = ({ data, onChange, placeho
   )
 }
 
+interface SettingsUsageCardProps {
+  config: StepFlowConfig
+  components: ComponentInfo[]
+  onSelectStep?: (stepId: string) => void
+  onShowDefaults: () => void
+}
+
+// Which settings are read and by whom, with links to the consuming steps and defaults
+const SettingsUsageCard: React.FC<SettingsUsageCardProps> = ({ config, components, onSelectStep, onShowDefaults }) => {
+  const [expanded, setExpanded] = useState<string>()
+  const usage = useMemo(() => analyzeSettingsUsage(config, components), [config, components])
+  const keys = settingsKeys(config.settings)
+
+  const renderConsumer = (ref: SettingReference, i: number) => (
+    <div key={i} className="pl-4 py-1 space-y-1">
+      <div className="flex items-center gap-1">
+        {ref.location.startsWith('defaults.') ? (
+          <button className="font-mono text-primary hover:underline" onClick={onShowDefaults}>{ref.location}</button>
+        ) : (
+          <span className="font-mono">{ref.location}</span>
+        )}
+        {ref.key !== expanded && <span className="text-muted-foreground">reads {ref.key}</span>}
+      </div>
+      {ref.component && (
+        <div className="text-muted-foreground">
+          globalPath of <span className="font-mono">{ref.component}</span>, read when a step leaves <span className="font-mono">{ref.property!.join('.')}</span> unset
+        </div>
+      )}
+      {ref.hasFallback && <div className="text-muted-foreground">has a fallback value</div>}
+      {ref.steps.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {ref.steps.map(step => (
+            <button
+              key={step}
+              className="px-1.5 rounded border font-mono hover:bg-accent disabled:opacity-60"
+              onClick={() => onSelectStep?.(step)}
+              disabled={!onSelectStep}
+              title={`Show step ${step}`}
+            >
+              {step}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+
+  if (keys.length === 0 && usage.undefinedRefs.length === 0) return null
+
+  return (
+    <Card className="p-4 config-card-enhanced">
+      <div className="flex items-center gap-2 mb-3">
+        <Link2 className="w-4 h-4" />
+        <h3 className="font-medium">Usage</h3>
+      </div>
+      <div className="space-y-1 text-xs">
+        {keys.map(key => {
+          const consumers = settingConsumers(usage.references, key)
+          return (
+            <div key={key}>
+              <button
+                className="w-full flex items-center gap-1 text-left hover:bg-accent/50 rounded px-1 py-0.5 disabled:cursor-default"
+                onClick={() => setExpanded(expanded === key ? undefined : key)}
+                disabled={consumers.length === 0}
+              >
+                {consumers.length > 0 && (expanded === key ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />)}
+                <span className="font-mono flex-1 truncate">{key}</span>
+                {consumers.length > 0
+                  ? <span className="text-muted-foreground">{consumers.length} consumer{consumers.length === 1 ? '' : 's'}</span>
+                  : <span className="text-amber-600 dark:text-amber-400">unused</span>}
+              </button>
+              {expanded === key && consumers.map(renderConsumer)}
+            </div>
+          )
+        })}
+        {usage.undefinedRefs.length > 0 && (
+          <div className="pt-2">
+            <div className="font-medium text-red-600 dark:text-red-400 mb-1">Undefined settings</div>
+            {usage.undefinedRefs.map((ref, i) => (
+              <div key={i}>
+                <div className="font-mono px-1">{ref.key}</div>
+                {renderConsumer(ref, i)}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </Card>
+  )
+}
+
 const ConfigurationSidebar: React.FC<ConfigurationSidebarProps> = ({
   config,
+  components = [],
   selectedStepId,
   onConfigChange,
   onSelectStep,
@@ -382,6 +478,13 @@ const ConfigurationSidebar: React.FC<ConfigurationSidebarProps> = ({
               disabled={!hasWorkflow}
             />
           </Card>
+
+          <SettingsUsageCard
+            config={config}
+            components={components}
+            onSelectStep={onSelectStep}
+            onShowDefaults={() => setActiveTab('defaults')}
+          />
           
           <Card className="p-4 config-card-enhanced">
             <div className="flex items-center gap-2 mb-3">
@@ -393,6 +496,7 @@ const ConfigurationSidebar: React.FC<ConfigurationSidebarProps> = ({
               <p>• Use dot notation for nested paths (e.g., "payment.gateway")</p>
               <p>• Values are converted to field types automatically</p>
               <p>• Required=false fields use defaultValue if not found</p>
+              <p>• Step config and defaults can embed a setting as {'${settings.payment.gateway}'}</p>
             </div>
           </Card>
         </TabsContent>
@@ -0,0 +1,116 @@
+import React, { useState } from 'react'
+import { ChevronDown, ChevronRight, Download, Eye, EyeOff } from 'lucide-react'
+import { Button } from './ui/button'
+import { StepFlowConfig } from '../types/stepflow'
+import { COVERAGE_KINDS, COVERAGE_KIND_LABELS, CoverageReport, describeCoverageItem, formatCoverageHtml, formatCoverageJson } from '../lib/coverage'
+
+export interface CoveragePanelProps {
+  config: StepFlowConfig
+  report: CoverageReport
+  /** Whether uncovered edges are marked on the canvas */
+  overlay: boolean
+  onOverlayChange: (overlay: boolean) => void
+}
+
+const download = (text: string, type: string, filename: string) => {
+  const blob = new Blob([text], { type })
+  const url = URL.createObjectURL(blob)
+  const a = document.createElement('a')
+  a.href = url
+  a.download = filename
+  a.click()
+  URL.revokeObjectURL(url)
+}
+
+const percentClass = (percent: number) =>
+  percent === 100 ? 'text-green-600 dark:text-green-400' : percent >= 50 ? 'text-amber-600 dark:text-amber-400' : 'text-red-600 dark:text-red-400'
+
+/**
+ * Coverage of each workflow by the simulation and test runs so far, with what is still
+ * uncovered and a toggle for the canvas overlay.
+ */
+export const CoveragePanel: React.FC<CoveragePanelProps> = ({ config, report, overlay, onOverlayChange }) => {
+  const [expanded, setExpanded] = useState<string>()
+
+  return (
+    <div className="text-xs">
+      <div className="px-3 py-2 flex items-center gap-1">
+        <span className="font-medium">Coverage</span>
+        {report.traces > 0 && <span className={percentClass(report.percent)}>{report.percent}%</span>}
+        <div className="flex-1" />
+        <Button
+          size="sm"
+          variant="ghost"
+          className="h-6"
+          onClick={() => onOverlayChange(!overlay)}
+          title={overlay ? 'Hide coverage on the canvas' : 'Mark uncovered edges on the canvas'}
+        >
+          {overlay ? <EyeOff className="w-3 h-3" /> : <Eye className="w-3 h-3" />}
+        </Button>
+        <Button
+          size="sm"
+          variant="ghost"
+          className="h-6"
+          disabled={report.traces === 0}
+          onClick={() => download(formatCoverageJson(config, report), 'application/json', 'stepflow-coverage.json')}
+          title="Download the report as JSON"
+        >
+          <Download className="w-3 h-3 mr-1" /> JSON
+        </Button>
+        <Button
+          size="sm"
+          variant="ghost"
+          className="h-6"
+          disabled={report.traces === 0}
+          onClick={() => download(formatCoverageHtml(config, report), 'text/html', 'stepflow-coverage.html')}
+          title="Download the report as a web page"
+        >
+          <Download className="w-3 h-3 mr-1" /> HTML
+        </Button>
+      </div>
+      <div className="px-3 pb-3 space-y-1">
+        {report.traces === 0 ? (
+          <div className="text-muted-foreground">Run a simulation or the tests to see which steps, edges, guard outcomes and failure branches they exercise.</div>
+        ) : (
+          report.workflows.map(w => {
+            const open = expanded === w.workflow
+            const missed = w.items.filter(i => !i.covered)
+            return (
+              <div key={w.workflow} className="border rounded">
+                <button
+                  className="w-full flex items-center gap-2 p-2 text-left hover:bg-accent/50"
+                  onClick={() => setExpanded(open ? undefined : w.workflow)}
+                >
+                  {open ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+                  <span className="flex-1 truncate">{w.workflow}</span>
+                  <span className={percentClass(w.percent)}>{w.percent}%</span>
+                </button>
+                {open && (
+                  <div className="px-2 pb-2 space-y-1">
+                    {COVERAGE_KINDS.filter(k => w.byKind[k].total > 0).map(k => (
+                      <div key={k} className="flex justify-between text-muted-foreground">
+                        <span>{COVERAGE_KIND_LABELS[k]}</span>
+                        <span>{w.byKind[k].covered}/{w.byKind[k].total}</span>
+                      </div>
+                    ))}
+                    {missed.length > 0 && (
+                      <div className="font-mono border rounded p-1">
+                        {missed.map((item, i) => (
+                          <div key={i} className="text-red-600 dark:text-red-400">
+                            {describeCoverageItem(config, w.workflow, item)}
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                )}
+              </div>
+            )
+          })
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default CoveragePanel
@@ -1,6 +1,13 @@
 import React, { useEffect, useMemo, useRef, useState, useCallback } from 'react'
 import { cn } from '../lib/utils'
-import { AlertTriangle, Info } from 'lucide-react'
+import { AlertTriangle, Info, AlignLeft, X, Lightbulb } from 'lucide-react'
+import { DslFormatOptions, formatDSL } from '../lib/dsl-formatter'
+import { DslFix, SourcePosition, SourceSpan, parseDslDocument } from '../lib/dsl-parser'
+import { applyDslFix } from '../lib/dsl-quickfix'
+import { DslProjectOptions, lowerDslDocument } from '../lib/dsl-converter'
+import { DslHover, DslLocation, DslReference, findDefinition, findReferences, hoverInfo, symbolAt } from '../lib/dsl-language'
+import { DslCompletion, DslCompletionList } from '../lib/dsl-completion'
+import { StepFlowConfig } from '../types/stepflow'
 
 export interface DslEditorProps {
   value: string
@@ -8,10 +15,22 @@ export interface DslEditorProps {
   className?: string
   suggestions?: string[]
   getSuggestions?: (ctx: { line: string; before: string; after: string }) => string[]
-  errors?: Array<{ line: number; message: string; severity?: 'error' | 'warning' | 'info' }>
+  /** Context-aware completions; takes precedence over `getSuggestions` */
+  getCompletions?: (text: string, offset: number, explicit: boolean) => DslCompletionList
+  errors?: Array<{ line: number; message: string; column?: number; endLine?: number; endColumn?: number; severity?: 'error' | 'warning' | 'info'; rule?: string; fixes?: DslFix[] }>
   showLineNumbers?: boolean
   height?: string
   placeholder?: string
+  /** Style used by "Format document" (Ctrl+Shift+F) */
+  formatOptions?: DslFormatOptions
+  /** Project config for hover details (imports, defaults); defaults to the editor's own document */
+  config?: StepFlowConfig
+  /** Project files and the path of this document, so navigation follows imports */
+  project?: DslProjectOptions
+  /** Open another project file at a span; definitions and references there are skipped without it */
+  onNavigate?: (file: string, span: SourceSpan) => void
+  /** Span to select, e.g. after navigating here from another file */
+  reveal?: SourceSpan
 }
 
 // Clean DSL code editor without HTML bleeding issues
@@ -21,10 +40,16 @@ const DslEditor: React.FC<DslEditorProps> = ({
   className, 
   suggestions = [], 
   getSuggestions,
+  getCompletions,
   errors = [],
   showLineNumbers = true,
   height = 'h-[600px]',
-  placeholder = 'Type DSL syntax here...'
+  placeholder = 'Type DSL syntax here...',
+  formatOptions,
+  config,
+  project = {},
+  onNavigate,
+  reveal
 }) => {
   const textareaRef = useRef<HTMLTextAreaElement>(null)
   const backgroundRef = useRef<HTMLDivElement>(null)
@@ -32,7 +57,7 @@ const DslEditor: React.FC<DslEditorProps> = ({
   
   const [cursorPos, setCursorPos] = useState(0)
   const [showSuggestions, setShowSuggestions] = useState(false)
-  const [suggestionItems, setSuggestionItems] = useState<string[]>([])
+  const [suggestionItems, setSuggestionItems] = useState<DslCompletion[]>([])
   const [activeSuggestionIdx, setActiveSuggestionIdx] = useState(0)
   const suggestionListRef = useRef<HTMLDivElement>(null)
   const [suggestionPos, setSuggestionPos] = useState<{ top: number; left: number }>({ top: 0, left: 0 })
@@ -40,6 +65,17 @@ const DslEditor: React.FC<DslEditorProps> = ({
   const [tokenStart, setTokenStart] = useState(0)
   const [hoveredError, setHoveredError] = useState<number | null>(null)
   const [isNavigatingSuggestions, setIsNavigatingSuggestions] = useState(false)
+  // Set by Ctrl+Space so the list stays open while typing at non-trigger positions
+  const explicitCompletion = useRef(false)
+  const [hover, setHover] = useState<{ info: DslHover; top: number; left: number } | null>(null)
+  const [references, setReferences] = useState<{ name: string; items: DslReference[] } | null>(null)
+  const [fixMenu, setFixMenu] = useState<{ fixes: DslFix[]; top: number; active: number } | null>(null)
+  const hoverTimer = useRef<ReturnType<typeof setTimeout>>()
+  const charMeasureRef = useRef<HTMLSpanElement>(null)
+
+  // Parsed view of the text for navigation and hovers
+  const parsed = useMemo(() => parseDslDocument(value), [value])
+  const hoverConfig = useMemo(() => config ?? lowerDslDocument(parsed.document), [config, parsed])
 
   // Helper functions defined before use
   const escapeHtml = useCallback((str: string) => {
@@ -259,6 +295,7 @@ const DslEditor: React.FC<DslEditorProps> = ({
         const textarea = textareaRef.current
         
         if (textarea && !textarea.contains(target) && suggestionPopup && !suggestionPopup.contains(target)) {
+          explicitCompletion.current = false
           setShowSuggestions(false)
         }
       }
@@ -302,12 +339,22 @@ const DslEditor: React.FC<DslEditorProps> = ({
       if (hasError) {
         baseClassName = 'bg-red-100 dark:bg-red-900/40 border-l-4 border-red-500 shadow-sm'
       }
+
+      // Column ranges (0-based, end exclusive) to underline for errors that carry a column
+      const underlines = (errorsByLine.get(lineNum) || [])
+        .filter(err => err.column != null)
+        .map(err => {
+          const start = Math.max(0, (err.column as number) - 1)
+          const end = err.endLine != null && err.endLine !== lineNum ? line.length : (err.endColumn ?? line.length + 1) - 1
+          return { start, end: Math.max(end, start + 1), severity: err.severity || 'error' }
+        })
       
       return {
         content: line || ' ', // Ensure empty lines have content
         highlightedHtml: highlightedLine,
         className: baseClassName,
-        hasError
+        hasError,
+        underlines
       }
     })
   }, [value, lines, errorsByLine, highlightTokens])
@@ -319,61 +366,74 @@ const DslEditor: React.FC<DslEditorProps> = ({
     updateSuggestions()
   }
 
-  const updateSuggestions = useCallback(() => {
+  const updateSuggestions = useCallback((explicit = false) => {
     const textarea = textareaRef.current
     if (!textarea) return
 
+    // Read from the textarea: on change the `value` prop hasn't caught up yet
+    const text = textarea.value
     const start = textarea.selectionStart
     const end = textarea.selectionEnd
     setCursorPos(start)
+    if (explicit) explicitCompletion.current = true
 
     // Get current context
-    const textBefore = value.slice(0, start)
+    const textBefore = text.slice(0, start)
     const currentLine = textBefore.split('\n').pop() || ''
-    const textAfter = value.slice(end)
-    
-    // Find current token
-    const tokenMatch = currentLine.match(/(^|\s)([^\s]*)$/)
-    const token = tokenMatch ? tokenMatch[2] : ''
-    const lineStart = start - currentLine.length
-    const tokenStartPos = lineStart + (tokenMatch ? (tokenMatch.index || 0) + tokenMatch[1].length : currentLine.length)
+    const textAfter = text.slice(end)
     
-    setCurrentToken(token)
-    setTokenStart(tokenStartPos)
-
-    // Get suggestions only if token has meaningful length
-    let suggestions: string[] = []
-    if (getSuggestions && token.length >= 1) {
-      suggestions = getSuggestions({
-        line: currentLine,
-        before: textBefore,
-        after: textAfter.split('\n')[0] || ''
-      })
-    }
+    let items: DslCompletion[] = []
+    let token: string
+    if (getCompletions) {
+      const list = getCompletions(text, start, explicitCompletion.current)
+      token = text.slice(list.from, start)
+      setTokenStart(list.from)
+      items = list.items.slice(0, 12)
+    } else {
+      // Find current token
+      const tokenMatch = currentLine.match(/(^|\s)([^\s]*)$/)
+      token = tokenMatch ? tokenMatch[2] : ''
+      const lineStart = start - currentLine.length
+      setTokenStart(lineStart + (tokenMatch ? (tokenMatch.index || 0) + tokenMatch[1].length : currentLine.length))
 
-    // Clean and filter suggestions more strictly
-    const cleanSuggestions = suggestions
-      .filter(s => typeof s === 'string' && s.trim().length > 0)
-      .map(s => s.trim())
-      .filter(s => s.toLowerCase().startsWith(token.toLowerCase()) || token.length === 0)
-      .slice(0, 6)
+      // Get suggestions only if token has meaningful length
+      let suggestions: string[] = []
+      if (getSuggestions && token.length >= 1) {
+        suggestions = getSuggestions({
+          line: currentLine,
+          before: textBefore,
+          after: textAfter.split('\n')[0] || ''
+        })
+      }
+      const hasAssignment = currentLine.includes('=') && !currentLine.endsWith('=')
+      if (token.length >= 1 && !hasAssignment) {
+        // Clean and filter suggestions more strictly
+        items = suggestions
+          .filter(s => typeof s === 'string' && s.trim().length > 0)
+          .map(s => s.trim())
+          .filter(s => s.toLowerCase().startsWith(token.toLowerCase()) || token.length === 0)
+          .slice(0, 6)
+          .map(s => ({ label: s, insertText: s, kind: 'keyword' as const }))
+      }
+    }
+    setCurrentToken(token)
 
-    setSuggestionItems(cleanSuggestions)
+    setSuggestionItems(items)
     // Only reset index if not actively navigating suggestions
     if (!isNavigatingSuggestions) {
       setActiveSuggestionIdx(0)
     }
     
-    // Show suggestions with improved logic
-    const hasAssignment = currentLine.includes('=') && !currentLine.endsWith('=')
-    const shouldShow = cleanSuggestions.length > 0 && token.length >= 1 && !hasAssignment
+    // Nothing to offer once the word is already complete
+    const shouldShow = items.length > 0 && !items.every(item => item.insertText === token)
     setShowSuggestions(shouldShow)
+    if (!shouldShow) explicitCompletion.current = false
 
     // Position suggestions
     if (shouldShow) {
       positionSuggestions(textarea, start)
     }
-  }, [value, getSuggestions])
+  }, [value, getSuggestions, getCompletions])
 
   const positionSuggestions = (textarea: HTMLTextAreaElement, cursorPosition: number) => {
     // Simple positioning based on cursor
@@ -405,47 +465,25 @@ const DslEditor: React.FC<DslEditorProps> = ({
     })
   }
 
-  const applySuggestion = (suggestion: string) => {
-    console.log('applySuggestion called with:', suggestion)
-    if (!suggestion) return
-    
+  const applySuggestion = (item: DslCompletion) => {
     const textarea = textareaRef.current
-    if (!textarea) {
-      console.log('No textarea ref available')
-      return
-    }
-    
-    const cleanSuggestion = suggestion.trim()
-    console.log('Applying suggestion:', cleanSuggestion)
-    
-    // Get current cursor position
+    if (!item || !textarea) return
+
     const currentCursor = textarea.selectionStart
-    const textBefore = value.slice(0, currentCursor)
-    const textAfter = value.slice(currentCursor)
-    
-    // Find the start of the current token being typed
-    const currentLine = textBefore.split('\n').pop() || ''
-    const tokenMatch = currentLine.match(/(^|\s)([^\s]*)$/)
-    const token = tokenMatch ? tokenMatch[2] : ''
-    
-    // Calculate the actual start position of the token
-    const lineStart = currentCursor - currentLine.length
-    const actualTokenStart = lineStart + (tokenMatch ? (tokenMatch.index || 0) + tokenMatch[1].length : currentLine.length)
-    
+    const lineStart = value.lastIndexOf('\n', tokenStart - 1) + 1
+    const indent = value.slice(lineStart).match(/^[ \t]*/)?.[0] || ''
+
+    // Snippet lines continue at the current indent; `$0` is where the caret lands
+    let insert = item.insertText.replace(/\n/g, `\n${indent}`)
+    const caret = insert.indexOf('$0')
+    insert = insert.replace('$0', '')
+
     // Replace the partial token with the full suggestion
-    const newValue = value.slice(0, actualTokenStart) + cleanSuggestion + textAfter
-    console.log('Old value:', value)
-    console.log('New value:', newValue)
-    console.log('Token start:', actualTokenStart, 'Current cursor:', currentCursor)
-    console.log('Text before:', textBefore)
-    console.log('Current line:', currentLine)
-    console.log('Token:', token)
-    
+    const newValue = value.slice(0, tokenStart) + insert + value.slice(currentCursor)
     onChange(newValue)
     
     // Update cursor position after the suggestion
-    const newCursorPos = actualTokenStart + cleanSuggestion.length
-    console.log('New cursor position:', newCursorPos)
+    const newCursorPos = tokenStart + (caret >= 0 ? caret : insert.length)
     
     // Use requestAnimationFrame for better timing
     requestAnimationFrame(() => {
@@ -453,9 +491,12 @@ const DslEditor: React.FC<DslEditorProps> = ({
         textarea.selectionStart = textarea.selectionEnd = newCursorPos
         textarea.focus()
         setCursorPos(newCursorPos)
+        // Keep completing when the inserted text ends at a trigger, e.g. `requires: `
+        if (caret < 0) updateSuggestions()
       }
     })
     
+    explicitCompletion.current = false
     setShowSuggestions(false)
   }
 
@@ -469,16 +510,190 @@ const DslEditor: React.FC<DslEditorProps> = ({
         syncScroll()
       }, 0)
     }
-    // Call updateSuggestions for other keys
-    if (e.key !== 'ArrowDown' && e.key !== 'ArrowUp') {
+    // Call updateSuggestions for other keys; Escape just closed the list
+    if (e.key !== 'ArrowDown' && e.key !== 'ArrowUp' && e.key !== 'Escape') {
       updateSuggestions()
     }
   }
 
+  const positionAt = (offset: number): SourcePosition => {
+    const before = value.slice(0, offset).split('\n')
+    return { line: before.length, column: before[before.length - 1].length + 1 }
+  }
+
+  const offsetAt = (p: SourcePosition) =>
+    value.split('\n').slice(0, p.line - 1).reduce((n, l) => n + l.length + 1, 0) + p.column - 1
+
+  const selectSpan = (span: SourceSpan) => {
+    const textarea = textareaRef.current
+    if (!textarea) return
+    textarea.focus()
+    textarea.setSelectionRange(offsetAt(span.start), offsetAt(span.end))
+    setShowSuggestions(false)
+    setTimeout(() => {
+      scrollCursorIntoView()
+      syncScroll()
+    }, 0)
+  }
+
+  useEffect(() => {
+    if (reveal) selectSpan(reveal)
+  }, [reveal])
+
+  const isOtherFile = (location: DslLocation) => !!location.file && location.file !== project.path
+
+  const openLocation = (location: DslLocation) => {
+    if (isOtherFile(location)) onNavigate?.(location.file!, location.symbol.span)
+    else selectSpan(location.symbol.span)
+  }
+
+  // F12 / Ctrl+click
+  const goToDefinition = (offset: number) => {
+    const symbol = symbolAt(parsed.document, positionAt(offset))
+    const definition = symbol && findDefinition(parsed.document, symbol, project)
+    if (definition && (onNavigate || !isOtherFile(definition))) openLocation(definition)
+  }
+
+  // Shift+F12
+  const showReferences = (offset: number) => {
+    const symbol = symbolAt(parsed.document, positionAt(offset))
+    const items = symbol ? findReferences(parsed.document, parsed.lines, symbol, project).filter(r => onNavigate || !isOtherFile(r)) : []
+    setReferences(symbol ? { name: `${symbol.kind} ${symbol.name}`, items } : null)
+  }
+
+  // Map the mouse to a source position; the textarea is monospace with 12px padding and 20px lines
+  const handleMouseMove = (e: React.MouseEvent<HTMLTextAreaElement>) => {
+    const textarea = e.currentTarget
+    const rect = textarea.getBoundingClientRect()
+    const charWidth = (charMeasureRef.current?.getBoundingClientRect().width || 84) / 10
+    const x = e.clientX - rect.left - 12 + textarea.scrollLeft
+    const y = e.clientY - rect.top - 12 + textarea.scrollTop
+    const position = { line: Math.floor(y / 20) + 1, column: Math.floor(x / charWidth) + 1 }
+
+    if (hoverTimer.current) clearTimeout(hoverTimer.current)
+    hoverTimer.current = setTimeout(() => {
+      const symbol = position.line >= 1 && position.column >= 1 ? symbolAt(parsed.document, position) : undefined
+      const info = symbol && hoverInfo(hoverConfig, symbol)
+      setHover(info ? {
+        info,
+        top: position.line * 20 + 12 - textarea.scrollTop,
+        left: (symbol!.span.start.column - 1) * charWidth + 12 - textarea.scrollLeft,
+      } : null)
+    }, 350)
+  }
+
+  const clearHover = () => {
+    if (hoverTimer.current) clearTimeout(hoverTimer.current)
+    setHover(null)
+  }
+
+  useEffect(() => () => { if (hoverTimer.current) clearTimeout(hoverTimer.current) }, [])
+
+  // Quick fixes offered by the diagnostics on a line, preferred first
+  const fixesOnLine = (line: number) => (errorsByLine.get(line) || []).flatMap(e => e.fixes || [])
+
+  const applyFix = (fix: DslFix) => {
+    const textarea = textareaRef.current
+    const first = [...fix.edits].sort((a, b) => offsetAt(a.span.start) - offsetAt(b.span.start))[0]
+    const caret = first ? offsetAt(first.span.start) + first.newText.length : textarea?.selectionStart ?? 0
+    onChange(applyDslFix(value, fix))
+    setFixMenu(null)
+    setShowSuggestions(false)
+    setTimeout(() => {
+      if (!textarea) return
+      textarea.focus()
+      textarea.selectionStart = textarea.selectionEnd = caret
+      scrollCursorIntoView()
+      syncScroll()
+    }, 0)
+  }
+
+  // Ctrl+. or the gutter lightbulb: a single fix applies directly, several open a menu
+  const openFixMenu = (line: number, applySingle: boolean) => {
+    const fixes = fixesOnLine(line)
+    if (fixes.length === 0) return
+    if (applySingle && fixes.length === 1) {
+      applyFix(fixes[0])
+      return
+    }
+    setShowSuggestions(false)
+    setFixMenu({ fixes, top: line * 20 + 12 - (textareaRef.current?.scrollTop ?? 0), active: 0 })
+  }
+
+  // Reformat the whole document, keeping the caret on the same line
+  const formatDocument = () => {
+    const formatted = formatDSL(value, formatOptions)
+    if (formatted === value) return
+    const textarea = textareaRef.current
+    const caretLine = textarea ? value.slice(0, textarea.selectionStart).split('\n').length - 1 : 0
+    onChange(formatted)
+    setShowSuggestions(false)
+
+    setTimeout(() => {
+      if (!textarea) return
+      const formattedLines = formatted.split('\n')
+      const line = Math.min(caretLine, formattedLines.length - 1)
+      const pos = formattedLines.slice(0, line).reduce((n, l) => n + l.length + 1, 0) + formattedLines[line].length
+      textarea.selectionStart = textarea.selectionEnd = pos
+      scrollCursorIntoView()
+      syncScroll()
+    }, 0)
+  }
+
   const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    // Format document: Ctrl/Cmd+Shift+F
+    if ((e.ctrlKey || e.metaKey) && e.shiftKey && e.key.toLowerCase() === 'f') {
+      e.preventDefault()
+      formatDocument()
+      return
+    }
+
+    // Go to definition (F12) / find references (Shift+F12)
+    if (e.key === 'F12') {
+      e.preventDefault()
+      if (e.shiftKey) showReferences(e.currentTarget.selectionStart)
+      else goToDefinition(e.currentTarget.selectionStart)
+      return
+    }
+
+    // Quick fix menu navigation
+    if (fixMenu) {
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault()
+        const step = e.key === 'ArrowDown' ? 1 : -1
+        setFixMenu({ ...fixMenu, active: Math.min(Math.max(fixMenu.active + step, 0), fixMenu.fixes.length - 1) })
+        return
+      }
+      if (e.key === 'Enter' || e.key === 'Tab') {
+        e.preventDefault()
+        applyFix(fixMenu.fixes[fixMenu.active])
+        return
+      }
+      setFixMenu(null)
+      if (e.key === 'Escape') {
+        e.preventDefault()
+        return
+      }
+    }
+
+    // Quick fix: Ctrl/Cmd+.
+    if ((e.ctrlKey || e.metaKey) && e.key === '.') {
+      e.preventDefault()
+      openFixMenu(value.slice(0, e.currentTarget.selectionStart).split('\n').length, true)
+      return
+    }
+
+    // Trigger completion explicitly: Ctrl+Space
+    if (e.ctrlKey && e.key === ' ') {
+      e.preventDefault()
+      updateSuggestions(true)
+      return
+    }
+
     // Always handle Escape to dismiss suggestions
     if (e.key === 'Escape' && showSuggestions) {
       e.preventDefault()
+      explicitCompletion.current = false
       setShowSuggestions(false)
       return
     }
@@ -600,6 +815,16 @@ const DslEditor: React.FC<DslEditorProps> = ({
                     onMouseEnter={() => hasError && setHoveredError(lineNum)}
                     onMouseLeave={() => setHoveredError(null)}
                   >
+                    {fixesOnLine(lineNum).length > 0 && (
+                      <span
+                        className="absolute left-0 top-0.5 text-amber-500 hover:text-amber-600"
+                        title="Quick fixes (Ctrl+.)"
+                        onMouseDown={(e) => e.preventDefault()}
+                        onClick={() => openFixMenu(lineNum, false)}
+                      >
+                        <Lightbulb className="w-3 h-3" />
+                      </span>
+                    )}
                     {lineNum}
                     {hasError && (
                       <div className="absolute -left-2 top-0 w-2 h-full bg-gradient-to-r from-red-500 to-red-600 rounded-r shadow-sm animate-pulse"></div>
@@ -618,7 +843,7 @@ const DslEditor: React.FC<DslEditorProps> = ({
                           )}
                           <div className="flex-1">
                             <div className="font-bold text-sm text-gray-900 dark:text-gray-100">
-                              Line {errorData.line} • {errorData.severity || 'Error'}
+                              Line {errorData.line}{errorData.column != null ? `:${errorData.column}` : ''} • {errorData.severity || 'Error'}{errorData.rule ? ` (${errorData.rule})` : ''}
                             </div>
                             <div className="text-sm text-gray-700 dark:text-gray-300 mt-1 leading-relaxed">
                               {errorData.message}
@@ -654,15 +879,29 @@ const DslEditor: React.FC<DslEditorProps> = ({
             {highlightedContent.map((lineData, idx) => (
               <div
                 key={idx}
-                className={cn('min-h-[20px]', lineData.className)}
+                className={cn('relative min-h-[20px]', lineData.className)}
                 style={{ 
                   lineHeight: '20px', 
                   minHeight: '20px',
                   fontSize: '14px',
                   fontFamily: 'ui-monospace, SFMono-Regular, "SF Mono", Consolas, "Liberation Mono", Menlo, monospace'
                 }}
-                dangerouslySetInnerHTML={{ __html: lineData.highlightedHtml || lineData.content.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;') }}
-              />
+              >
+                <span dangerouslySetInnerHTML={{ __html: lineData.highlightedHtml || lineData.content.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;') }} />
+                {/* Precise error underlines; monospace so 1ch == 1 column */}
+                {lineData.underlines.map((u, i) => (
+                  <span
+                    key={i}
+                    className={cn(
+                      'absolute top-0 text-transparent underline decoration-wavy underline-offset-4',
+                      u.severity === 'error' ? 'decoration-red-500' : u.severity === 'warning' ? 'decoration-yellow-500' : 'decoration-blue-500'
+                    )}
+                    style={{ left: `${u.start}ch`, width: `${u.end - u.start}ch` }}
+                  >
+                    {(lineData.content.slice(u.start, u.end) || ' ').padEnd(u.end - u.start, ' ')}
+                  </span>
+                ))}
+              </div>
             ))}
           </div>
           
@@ -673,7 +912,12 @@ const DslEditor: React.FC<DslEditorProps> = ({
             onChange={handleTextareaChange}
             onKeyDown={handleKeyDown}
             onKeyUp={handleKeyUp}
-            onClick={() => {
+            onClick={(e) => {
+              if (e.ctrlKey || e.metaKey) {
+                goToDefinition(e.currentTarget.selectionStart)
+                return
+              }
+              setFixMenu(null)
               updateSuggestions()
               setTimeout(() => {
                 scrollCursorIntoView()
@@ -687,7 +931,13 @@ const DslEditor: React.FC<DslEditorProps> = ({
                 syncScroll()
               }, 0)
             }}
-            onScroll={syncScroll}
+            onScroll={() => {
+              syncScroll()
+              clearHover()
+              setFixMenu(null)
+            }}
+            onMouseMove={handleMouseMove}
+            onMouseLeave={clearHover}
             className={cn(
               'relative w-full h-full resize-none bg-transparent p-3 outline-none z-20',
               'text-transparent caret-blue-500 selection:bg-blue-200 dark:selection:bg-blue-800/50',
@@ -710,6 +960,88 @@ const DslEditor: React.FC<DslEditorProps> = ({
             }}
           />
 
+          {/* 10 characters in the editor font, to convert mouse x into columns */}
+          <span
+            ref={charMeasureRef}
+            aria-hidden
+            className="absolute invisible whitespace-pre"
+            style={{ fontFamily: 'ui-monospace, SFMono-Regular, "SF Mono", Consolas, "Liberation Mono", Menlo, monospace', fontSize: '14px' }}
+          >
+            0000000000
+          </span>
+
+          {hover && (
+            <div
+              className="absolute z-40 max-w-md rounded-md border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-900 shadow-lg px-3 py-2 pointer-events-none"
+              style={{ top: hover.top, left: Math.max(hover.left, 4) }}
+            >
+              <div className="text-xs font-semibold text-gray-900 dark:text-gray-100 mb-1">{hover.info.title}</div>
+              <pre className="text-xs text-gray-600 dark:text-gray-300 whitespace-pre-wrap">{hover.info.lines.join('\n')}</pre>
+            </div>
+          )}
+
+          {fixMenu && (
+            <div
+              className="absolute left-3 z-50 min-w-[14rem] rounded-md border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-900 shadow-lg py-1"
+              style={{ top: fixMenu.top }}
+            >
+              {fixMenu.fixes.map((fix, idx) => (
+                <button
+                  key={idx}
+                  type="button"
+                  className={cn(
+                    'w-full flex items-center gap-2 px-3 py-1 text-left text-xs',
+                    idx === fixMenu.active ? 'bg-blue-500 text-white' : 'text-gray-900 dark:text-gray-100 hover:bg-gray-100 dark:hover:bg-gray-800'
+                  )}
+                  onMouseDown={(e) => e.preventDefault()}
+                  onMouseEnter={() => setFixMenu({ ...fixMenu, active: idx })}
+                  onClick={() => applyFix(fix)}
+                >
+                  <Lightbulb className={cn('w-3 h-3 flex-shrink-0', idx === fixMenu.active ? 'text-white' : 'text-amber-500')} />
+                  {fix.title}
+                </button>
+              ))}
+            </div>
+          )}
+
+          {references && (
+            <div className="absolute bottom-2 left-2 right-2 z-40 max-h-48 overflow-auto rounded-md border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-900 shadow-lg">
+              <div className="flex items-center justify-between px-3 py-1.5 bg-gray-50 dark:bg-gray-800 border-b border-gray-200 dark:border-gray-600 text-xs">
+                <span className="font-medium text-gray-700 dark:text-gray-300">
+                  {references.items.length} reference{references.items.length === 1 ? '' : 's'} to {references.name}
+                </span>
+                <button type="button" className="p-0.5 rounded hover:bg-gray-200 dark:hover:bg-gray-700" onClick={() => setReferences(null)} title="Close">
+                  <X className="w-3 h-3" />
+                </button>
+              </div>
+              {references.items.map((ref, idx) => (
+                <button
+                  key={idx}
+                  type="button"
+                  className="w-full flex items-center gap-2 px-3 py-1 text-left text-xs font-mono hover:bg-gray-100 dark:hover:bg-gray-800"
+                  onMouseDown={(e) => e.preventDefault()}
+                  onClick={() => openLocation(ref)}
+                >
+                  <span className="text-gray-400 w-10 flex-shrink-0 text-right">{ref.symbol.span.start.line}</span>
+                  {isOtherFile(ref) && <span className="text-blue-600 dark:text-blue-400 flex-shrink-0">{ref.file}</span>}
+                  <span className="text-gray-500 flex-shrink-0">{ref.section}</span>
+                  <span className="truncate text-gray-900 dark:text-gray-100">{ref.text}</span>
+                </button>
+              ))}
+            </div>
+          )}
+
+          <button
+            type="button"
+            className="absolute top-2 right-2 z-30 inline-flex items-center gap-1 rounded border border-gray-200 dark:border-gray-600 bg-white/90 dark:bg-gray-800/90 px-2 py-1 text-xs text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+            title="Format document (Ctrl+Shift+F)"
+            onMouseDown={(e) => e.preventDefault()}
+            onClick={formatDocument}
+          >
+            <AlignLeft className="w-3 h-3" />
+            Format
+          </button>
+
           {/* Suggestion popup - Simplified & Professional */}
           {showSuggestions && suggestionItems.length > 0 && (
             <div
@@ -731,7 +1063,7 @@ const DslEditor: React.FC<DslEditorProps> = ({
               <div ref={suggestionListRef} className="py-1 max-h-48 overflow-y-auto">
                 {suggestionItems.map((item, idx) => (
                   <button
-                    key={`${idx}-${item}`}
+                    key={`${idx}-${item.label}`}
                     className={cn(
                       'w-full px-3 py-2 text-sm text-left transition-colors duration-75 focus:outline-none',
                       idx === activeSuggestionIdx
@@ -749,8 +1081,11 @@ const DslEditor: React.FC<DslEditorProps> = ({
                       e.preventDefault()
                     }}
                   >
-                    <div className="font-mono truncate">
-                      {item}
+                    <div className="flex items-baseline gap-2">
+                      <span className="font-mono truncate">{item.label}</span>
+                      <span className={cn('ml-auto text-xs shrink-0', idx === activeSuggestionIdx ? 'text-blue-100' : 'text-gray-400')}>
+                        {item.detail ? `${item.kind} · ${item.detail}` : item.kind}
+                      </span>
                     </div>
                   </button>
                 ))}
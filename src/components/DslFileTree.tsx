@@ -0,0 +1,107 @@
+import React, { useMemo } from 'react'
+import { FileText, Folder, Plus, Trash2, AlertTriangle } from 'lucide-react'
+import { cn } from '../lib/utils'
+
+interface DslFileTreeProps {
+  files: string[]
+  activeFile: string
+  entryFile: string
+  onSelect: (path: string) => void
+  onCreate?: () => void
+  onDelete?: (path: string) => void
+  errorFiles?: Set<string>
+}
+
+interface TreeNode {
+  name: string
+  path: string
+  children: TreeNode[]
+  isFile: boolean
+}
+
+function buildTree(paths: string[]): TreeNode[] {
+  const root: TreeNode = { name: '', path: '', children: [], isFile: false }
+  for (const path of [...paths].sort()) {
+    let cur = root
+    const parts = path.split('/')
+    parts.forEach((part, i) => {
+      const isFile = i === parts.length - 1
+      const nodePath = parts.slice(0, i + 1).join('/')
+      let next = cur.children.find(c => c.name === part && c.isFile === isFile)
+      if (!next) {
+        next = { name: part, path: nodePath, children: [], isFile }
+        cur.children.push(next)
+      }
+      cur = next
+    })
+  }
+  // Folders first, then files
+  const sort = (nodes: TreeNode[]) => {
+    nodes.sort((a, b) => (a.isFile === b.isFile ? a.name.localeCompare(b.name) : a.isFile ? 1 : -1))
+    nodes.forEach(n => sort(n.children))
+  }
+  sort(root.children)
+  return root.children
+}
+
+const DslFileTree: React.FC<DslFileTreeProps> = ({ files, activeFile, entryFile, onSelect, onCreate, onDelete, errorFiles }) => {
+  const tree = useMemo(() => buildTree(files.filter(f => f !== entryFile)), [files, entryFile])
+
+  const renderNode = (node: TreeNode, depth: number): React.ReactNode => {
+    if (!node.isFile) {
+      return (
+        <div key={`dir:${node.path}`}>
+          <div className="flex items-center gap-1 py-0.5 text-muted-foreground" style={{ paddingLeft: depth * 12 + 4 }}>
+            <Folder className="w-3 h-3 flex-shrink-0" />
+            <span className="truncate">{node.name}</span>
+          </div>
+          {node.children.map(child => renderNode(child, depth + 1))}
+        </div>
+      )
+    }
+    return renderFile(node.path, node.name, depth)
+  }
+
+  const renderFile = (path: string, label: string, depth: number) => (
+    <div
+      key={path}
+      className={cn(
+        'group flex items-center gap-1 py-0.5 pr-1 rounded cursor-pointer',
+        path === activeFile ? 'bg-primary/10 text-primary font-medium' : 'hover:bg-accent'
+      )}
+      style={{ paddingLeft: depth * 12 + 4 }}
+      onClick={() => onSelect(path)}
+      title={path}
+    >
+      <FileText className="w-3 h-3 flex-shrink-0" />
+      <span className="truncate flex-1">{label}</span>
+      {errorFiles?.has(path) && <AlertTriangle className="w-3 h-3 text-red-500 flex-shrink-0" />}
+      {onDelete && path !== entryFile && (
+        <button
+          className="opacity-0 group-hover:opacity-100 p-0.5 hover:text-red-600"
+          onClick={(e) => { e.stopPropagation(); onDelete(path) }}
+          title={`Delete ${path}`}
+        >
+          <Trash2 className="w-3 h-3" />
+        </button>
+      )}
+    </div>
+  )
+
+  return (
+    <div className="text-xs font-mono">
+      <div className="flex items-center justify-between px-1 pb-1 mb-1 border-b">
+        <span className="font-sans font-medium text-muted-foreground">Files</span>
+        {onCreate && (
+          <button className="p-0.5 rounded hover:bg-accent" onClick={onCreate} title="New DSL file">
+            <Plus className="w-3 h-3" />
+          </button>
+        )}
+      </div>
+      {renderFile(entryFile, `${entryFile} (entry)`, 0)}
+      {tree.map(node => renderNode(node, 0))}
+    </div>
+  )
+}
+
+export default DslFileTree
@@ -0,0 +1,69 @@
+import React from 'react'
+import { ArrowRight } from 'lucide-react'
+import { ResolvedConfig } from '../lib/config-resolver'
+
+export interface EffectiveConfigViewProps {
+  resolved: ResolvedConfig
+  /** Origin of the component's own config, labelled as such */
+  ownOrigin: string
+  /** Label for `ownOrigin`, e.g. "step config" */
+  ownLabel?: string
+}
+
+const format = (v: any) => (typeof v === 'string' || typeof v === 'object' ? JSON.stringify(v) : String(v))
+
+/** Merged config of a step or guard: every value with the source it comes from, and what it overrides */
+export const EffectiveConfigView: React.FC<EffectiveConfigViewProps> = ({ resolved, ownOrigin, ownLabel = 'own config' }) => {
+  const label = (origin: string) => (origin === ownOrigin ? ownLabel : origin)
+  const overriddenCount = resolved.entries.filter(e => e.overridden.length > 0).length
+
+  if (resolved.sources.length === 0) {
+    return <div className="text-xs text-muted-foreground">No config and no applicable defaults</div>
+  }
+
+  return (
+    <div className="space-y-2 text-xs">
+      <div className="flex flex-wrap items-center gap-1 text-muted-foreground">
+        <span>Merge order:</span>
+        {resolved.sources.map((origin, i) => (
+          <React.Fragment key={origin}>
+            {i > 0 && <ArrowRight className="w-3 h-3" />}
+            <span className="font-mono">{label(origin)}</span>
+          </React.Fragment>
+        ))}
+      </div>
+      {resolved.entries.length === 0 ? (
+        <div className="text-muted-foreground">All sources are empty</div>
+      ) : (
+        <div className="border rounded divide-y">
+          {resolved.entries.map(entry => (
+            <div key={entry.path.join('.')} className={`px-2 py-1 ${entry.overridden.length > 0 ? 'bg-amber-50 dark:bg-amber-900/20' : ''}`}>
+              <div className="flex items-center gap-2">
+                <span className="font-mono font-medium">{entry.path.join('.')}</span>
+                <span className="font-mono flex-1 min-w-0 truncate" title={format(entry.value)}>{format(entry.value)}</span>
+                <span
+                  className={`font-mono px-1 rounded ${
+                    entry.origin === ownOrigin ? 'bg-blue-100 text-blue-700 dark:bg-blue-900/40 dark:text-blue-300' : 'bg-muted text-muted-foreground'
+                  }`}
+                >
+                  {label(entry.origin)}
+                </span>
+              </div>
+              {entry.overridden.map((o, i) => (
+                <div key={i} className="pl-3 text-amber-700 dark:text-amber-400">
+                  overrides <span className="font-mono">{label(o.origin)}</span>:{' '}
+                  <span className="font-mono line-through">{o.path.join('.') !== entry.path.join('.') ? `${o.path.join('.')} = ` : ''}{format(o.value)}</span>
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+      )}
+      {overriddenCount > 0 && (
+        <div className="text-muted-foreground">{overriddenCount} value{overriddenCount === 1 ? '' : 's'} override{overriddenCount === 1 ? 's' : ''} a lower-precedence source</div>
+      )}
+    </div>
+  )
+}
+
+export default EffectiveConfigView
@@ -1,20 +1,28 @@
 import React, { useMemo, useState } from 'react'
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from './ui/dialog'
 import { Button } from './ui/button'
-import { AlertTriangle, CheckCircle, Info, XCircle, Filter } from 'lucide-react'
+import { AlertTriangle, CheckCircle, Info, XCircle, Filter, SlidersHorizontal } from 'lucide-react'
 import { ValidationIssue } from '../types/stepflow'
+import { ConfigRuleSettings } from '../lib/config-validator'
+import ValidationRulesPanel from './ValidationRulesPanel'
 
 export interface IssuesPanelProps {
   open: boolean
   onOpenChange: (open: boolean) => void
   stepIssues: Record<string, ValidationIssue[]>
   workflowIssues?: Array<{ workflow: string; issues: ValidationIssue[] }>
+  /** Issues tied to neither a workflow nor a step, e.g. unknown `defaults` keys */
+  configIssues?: ValidationIssue[]
+  /** Project rule overrides; the rules view is shown when a change handler is given */
+  rules?: ConfigRuleSettings
+  onRulesChange?: (rules: ConfigRuleSettings) => void
 }
 
 type Severity = 'all' | 'error' | 'warning' | 'info'
 
-export const IssuesPanel: React.FC<IssuesPanelProps> = ({ open, onOpenChange, stepIssues, workflowIssues = [] }) => {
+export const IssuesPanel: React.FC<IssuesPanelProps> = ({ open, onOpenChange, stepIssues, workflowIssues = [], configIssues = [], rules = {}, onRulesChange }) => {
   const [filter, setFilter] = useState<Severity>('all')
+  const [showRules, setShowRules] = useState(false)
   const [showWorkflows, setShowWorkflows] = useState(true)
   const [showSteps, setShowSteps] = useState(true)
 
@@ -25,13 +33,13 @@ export const IssuesPanel: React.FC<IssuesPanelProps> = ({ open, onOpenChange, st
   const filterMatch = (t: string) => filter === 'all' || t === filter
 
   const counts = useMemo(() => {
-    const all = [...flatStepIssues.map(x => x.issue), ...flatWorkflowIssues.map(x => x.issue)]
+    const all = [...flatStepIssues.map(x => x.issue), ...flatWorkflowIssues.map(x => x.issue), ...configIssues]
     return {
       error: all.filter(i => i.type === 'error').length,
       warning: all.filter(i => i.type === 'warning').length,
       info: all.filter(i => i.type === 'info').length,
     }
-  }, [flatStepIssues, flatWorkflowIssues])
+  }, [flatStepIssues, flatWorkflowIssues, configIssues])
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
@@ -39,10 +47,24 @@ export const IssuesPanel: React.FC<IssuesPanelProps> = ({ open, onOpenChange, st
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
             <AlertTriangle className="w-5 h-5 text-yellow-600" />
-            Issues
+            {showRules ? 'Validation Rules' : 'Issues'}
           </DialogTitle>
         </DialogHeader>
 
+        {onRulesChange && (
+          <div className="flex justify-end -mt-2 mb-2">
+            <Button size="sm" variant={showRules ? 'default' : 'outline'} className="h-7" onClick={() => setShowRules(v => !v)}>
+              <SlidersHorizontal className="w-3 h-3 mr-1" /> {showRules ? 'Back to issues' : 'Rules'}
+            </Button>
+          </div>
+        )}
+
+        {showRules && onRulesChange ? (
+          <div className="max-h-[65vh] overflow-auto">
+            <ValidationRulesPanel settings={rules} onChange={onRulesChange} />
+          </div>
+        ) : (
+        <>
         {/* Filters */}
         <div className="flex items-center justify-between mb-2">
           <div className="flex items-center gap-2 text-xs">
@@ -70,6 +92,26 @@ export const IssuesPanel: React.FC<IssuesPanelProps> = ({ open, onOpenChange, st
         </div>
 
         <div className="max-h-[60vh] overflow-auto space-y-4">
+          {configIssues.length > 0 && (
+            <div>
+              <div className="text-sm font-medium mb-2">Config Issues</div>
+              <div className="space-y-2">
+                {configIssues.filter(i => filterMatch(i.type)).map((issue, idx) => (
+                  <div key={idx} className="flex items-start gap-2 text-xs p-2 rounded bg-muted/50">
+                    {issue.type === 'error' && <XCircle className="w-3 h-3 text-red-600 mt-0.5" />}
+                    {issue.type === 'warning' && <AlertTriangle className="w-3 h-3 text-yellow-600 mt-0.5" />}
+                    {issue.type === 'info' && <Info className="w-3 h-3 text-blue-600 mt-0.5" />}
+                    <div>
+                      <div className="font-medium capitalize">{issue.type}</div>
+                      <div>{issue.message}</div>
+                      {issue.location && <div className="font-mono opacity-70">{issue.location}</div>}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           {showWorkflows && (
             <div>
               <div className="text-sm font-medium mb-2">Workflow Issues</div>
@@ -122,6 +164,8 @@ export const IssuesPanel: React.FC<IssuesPanelProps> = ({ open, onOpenChange, st
             </div>
           )}
         </div>
+        </>
+        )}
       </DialogContent>
     </Dialog>
   )
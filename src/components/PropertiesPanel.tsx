@@ -17,12 +17,18 @@ import {
   CheckCircle,
   Info,
   Zap,
-  Target
+  Target,
+  PencilLine
 } from 'lucide-react'
 import { StepNodeData, GuardNodeData, StepFlowConfig, RetryPolicy, ComponentInfo, ValidationIssue, EdgeData } from '../types/stepflow'
 import { cn } from '../lib/utils'
 import { Edge } from 'reactflow'
 import EdgePropertiesPanel from './EdgePropertiesPanel'
+import { RenameKind } from '../lib/refactor'
+import { findComponent, validateAgainstSchema } from '../lib/config-schema'
+import { inheritedConfig, resolveConfig } from '../lib/config-resolver'
+import SchemaConfigForm from './SchemaConfigForm'
+import EffectiveConfigView from './EffectiveConfigView'
 
 interface PropertiesPanelProps {
   selectedNodeId?: string
@@ -38,6 +44,8 @@ interface PropertiesPanelProps {
   onDeleteEdge: (edgeId: string) => void
   onCloneNode: (nodeId: string) => void
   onValidateNode?: (nodeId: string) => ValidationIssue[]
+  /** Rename a step or guard everywhere it is referenced; returns an error message on failure */
+  onRename?: (kind: RenameKind, oldName: string, newName: string) => string | undefined
   embedded?: boolean
 }
 
@@ -60,6 +68,7 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
   onDeleteEdge,
   onCloneNode,
   onValidateNode,
+  onRename,
   embedded = false,
 }) => {
   const [activeTab, setActiveTab] = useState('basic')
@@ -76,6 +85,22 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
     return components.filter(comp => comp.type === nodeType)
   }, [components, isStepNode])
   
+  // Schema of the selected component, the values it inherits from defaults, its effective config
+  // and what breaks the schema. Steps resolve by step name, guards by guard type.
+  const schema = findComponent(components, nodeData?.type)?.schema
+  const resolveKey = isStepNode ? selectedNodeId : nodeData?.type
+  const inherited = useMemo(() => {
+    if (!resolveKey) return {}
+    return inheritedConfig(config, isStepNode ? 'step' : 'guard', resolveKey)
+  }, [config, resolveKey, isStepNode])
+  const resolved = useMemo(() => resolveKey ? resolveConfig(config, isStepNode ? 'step' : 'guard', resolveKey) : undefined, [config, resolveKey, isStepNode])
+  const schemaViolations = useMemo(() => {
+    const effective = isStepNode
+      ? resolved?.value
+      : { ...Object.fromEntries(Object.entries(inherited).map(([k, v]) => [k, v.value])), ...nodeData?.config }
+    return validateAgainstSchema(effective, schema)
+  }, [isStepNode, resolved, inherited, nodeData?.config, schema])
+  
   // Get validation issues for the current node
   const validationIssues = useMemo(() => {
     if (!selectedNodeId || !onValidateNode) return []
@@ -154,6 +179,14 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
     onCloneNode(selectedNodeId)
   }, [selectedNodeId, onCloneNode])
   
+  const renameSymbol = useCallback((kind: RenameKind, oldName: string) => {
+    if (!onRename || !oldName) return
+    const newName = prompt(`Rename ${kind} "${oldName}" to:`, oldName)?.trim()
+    if (!newName || newName === oldName) return
+    const error = onRename(kind, oldName, newName)
+    if (error) alert(error)
+  }, [onRename])
+
   const deleteNode = useCallback(() => {
     if (!selectedNodeId || !nodeData) return
     const name = nodeData.label || selectedNodeId
@@ -209,6 +242,11 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
             {isStepNode ? 'Step Properties' : 'Guard Properties'}
           </h2>
           <div className="flex gap-1">
+            {onRename && isStepNode && !stepData?.isTerminal && (
+              <Button size="sm" variant="outline" onClick={() => renameSymbol('step', selectedNodeId)} title="Rename step everywhere">
+                <PencilLine className="w-4 h-4" />
+              </Button>
+            )}
             <Button size="sm" variant="outline" onClick={cloneNode}>
               <Copy className="w-4 h-4" />
             </Button>
@@ -332,8 +370,20 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
           </TabsContent>
           
           <TabsContent value="config" className="p-3 space-y-4">
+            {schema && (
+              <Card className="p-3">
+                <div className="text-sm font-medium mb-2">Configuration</div>
+                <SchemaConfigForm
+                  schema={schema}
+                  value={nodeData.config}
+                  onChange={(value) => updateNode({ config: value })}
+                  inherited={inherited}
+                  violations={schemaViolations}
+                />
+              </Card>
+            )}
             <div>
-              <label className="text-sm font-medium mb-2 block">Configuration (JSON)</label>
+              <label className="text-sm font-medium mb-2 block">{schema ? 'Raw configuration (JSON)' : 'Configuration (JSON)'}</label>
               <Textarea
                 value={configJson}
                 onChange={(e) => updateConfig(e.target.value)}
@@ -350,15 +400,16 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
             
             <Card className="p-3">
               <div className="text-sm font-medium mb-2">Effective Configuration</div>
-              <div className="text-xs text-muted-foreground space-y-1">
-                <p>Merge order (last wins):</p>
-                <ol className="list-decimal list-inside space-y-1">
-                  <li>Category defaults ({isStepNode ? 'step' : 'guard'})</li>
-                  <li>Named defaults ({nodeData.type || 'componentType'})</li>
-                  <li>Individual config (above)</li>
-                  <li>Global settings (via @ConfigValue globalPath)</li>
-                </ol>
-              </div>
+              {resolved && (
+                <EffectiveConfigView
+                  resolved={resolved}
+                  ownOrigin={`steps.${resolveKey}.config`}
+                  ownLabel="step config"
+                />
+              )}
+              <p className="text-xs text-muted-foreground mt-2">
+                Later sources win; nested objects merge key by key. Global settings reach the component through @ConfigValue globalPath.
+              </p>
             </Card>
           </TabsContent>
           
@@ -386,14 +437,27 @@ const PropertiesPanel: React.FC<PropertiesPanelProps> = ({
                         <Card key={index} className="p-3">
                           <div className="flex items-center justify-between mb-2">
                             <span className="text-sm font-medium">Guard {index + 1}</span>
-                            <Button
-                              size="sm"
-                              variant="ghost"
-                              onClick={() => removeGuard(index)}
-                              className="h-6 w-6 p-0 text-red-500 hover:text-red-700"
-                            >
-                              <Minus className="w-3 h-3" />
-                            </Button>
+                            <div className="flex gap-1">
+                              {onRename && guard && (
+                                <Button
+                                  size="sm"
+                                  variant="ghost"
+                                  onClick={() => renameSymbol('guard', guard)}
+                                  className="h-6 w-6 p-0"
+                                  title="Rename guard everywhere"
+                                >
+                                  <PencilLine className="w-3 h-3" />
+                                </Button>
+                              )}
+                              <Button
+                                size="sm"
+                                variant="ghost"
+                                onClick={() => removeGuard(index)}
+                                className="h-6 w-6 p-0 text-red-500 hover:text-red-700"
+                              >
+                                <Minus className="w-3 h-3" />
+                              </Button>
+                            </div>
                           </div>
                           
                           <Input
@@ -0,0 +1,155 @@
+import React from 'react'
+import { RotateCcw } from 'lucide-react'
+import { FormField, Input, Select } from './ui/form'
+import { ConfigSchema, ConfigSchemaProperty } from '../types/stepflow'
+import { SchemaViolation, schemaProperties } from '../lib/config-schema'
+import { InheritedValue } from '../lib/config-resolver'
+
+export interface SchemaConfigFormProps {
+  schema: ConfigSchema | ConfigSchemaProperty
+  value: Record<string, any> | undefined
+  /** Receives the new config; `undefined` once every key is cleared */
+  onChange: (value: Record<string, any> | undefined) => void
+  /** Top-level values from `defaults`, shown where the config leaves a key unset */
+  inherited?: Record<string, InheritedValue>
+  /** Schema violations, shown under the fields they concern */
+  violations?: SchemaViolation[]
+}
+
+const format = (v: any) => (typeof v === 'object' ? JSON.stringify(v) : String(v))
+
+// Text typed into a list field, converted to the item type
+function parseList(text: string, items?: ConfigSchemaProperty): any[] {
+  const parts = text.split(',').map(s => s.trim()).filter(Boolean)
+  if (items?.type === 'number' || items?.type === 'integer') return parts.map(p => (Number.isFinite(Number(p)) ? Number(p) : p))
+  if (items?.type === 'boolean') return parts.map(p => (p === 'true' ? true : p === 'false' ? false : p))
+  return parts
+}
+
+/** Typed form fields for a config described by a component schema */
+export const SchemaConfigForm: React.FC<SchemaConfigFormProps> = ({ schema, value, onChange, inherited = {}, violations = [] }) => {
+  const properties = schemaProperties(schema)
+  const required = new Set(schema.required || [])
+  const current = value || {}
+  const extra = Object.keys(current).filter(k => !properties[k])
+
+  const set = (key: string, v: any) => {
+    const next = { ...current }
+    if (v === undefined) delete next[key]
+    else next[key] = v
+    onChange(Object.keys(next).length > 0 ? next : undefined)
+  }
+
+  const control = (key: string, property: ConfigSchemaProperty, v: any, placeholder: string | undefined, invalid: boolean) => {
+    if (property.enum || property.type === 'boolean') {
+      const options = property.enum ?? [true, false]
+      return (
+        <Select
+          value={v === undefined ? '' : String(v)}
+          onChange={e => set(key, e.target.value === '' ? undefined : options.find(o => String(o) === e.target.value))}
+          error={invalid}
+          className="h-8 text-xs"
+        >
+          <option value="">{placeholder ?? '(not set)'}</option>
+          {options.map(o => <option key={String(o)} value={String(o)}>{String(o)}</option>)}
+        </Select>
+      )
+    }
+    if (property.type === 'number' || property.type === 'integer') {
+      return (
+        <Input
+          type="number"
+          value={typeof v === 'number' ? v : v ?? ''}
+          min={property.minimum}
+          max={property.maximum}
+          step={property.type === 'integer' ? 1 : 'any'}
+          placeholder={placeholder}
+          error={invalid}
+          onChange={e => set(key, e.target.value === '' ? undefined : Number(e.target.value))}
+          className="h-8 text-xs"
+        />
+      )
+    }
+    if (property.type === 'object' || property.properties) {
+      return (
+        <div className="border-l-2 border-border pl-3">
+          <SchemaConfigForm
+            schema={property}
+            value={v && typeof v === 'object' ? v : undefined}
+            onChange={nested => set(key, nested)}
+            violations={violations.filter(x => x.path[0] === key && x.path.length > 1).map(x => ({ ...x, path: x.path.slice(1) }))}
+          />
+        </div>
+      )
+    }
+    if (property.type === 'array') {
+      return (
+        <Input
+          value={Array.isArray(v) ? v.join(', ') : v ?? ''}
+          placeholder={placeholder ?? 'Comma-separated values'}
+          error={invalid}
+          onChange={e => set(key, e.target.value.trim() === '' ? undefined : parseList(e.target.value, property.items))}
+          className="h-8 text-xs"
+        />
+      )
+    }
+    return (
+      <Input
+        value={v === undefined ? '' : format(v)}
+        placeholder={placeholder}
+        error={invalid}
+        onChange={e => set(key, e.target.value === '' ? undefined : e.target.value)}
+        className="h-8 text-xs"
+      />
+    )
+  }
+
+  if (Object.keys(properties).length === 0) {
+    return <div className="text-xs text-muted-foreground">The schema declares no config keys</div>
+  }
+
+  return (
+    <div className="space-y-3">
+      {Object.entries(properties).map(([key, property]) => {
+        const v = current[key]
+        const from = inherited[key]
+        const errors = violations.filter(x => x.path[0] === key && (x.path.length === 1 || !(property.type === 'object' || property.properties)))
+        const placeholder = from
+          ? `${format(from.value)} (from ${from.from})`
+          : property.default !== undefined ? `default: ${format(property.default)}` : undefined
+        return (
+          <FormField key={key} label={key} required={required.has(key)} error={errors.map(x => x.message).join('; ') || undefined}>
+            <div className="flex items-center gap-1">
+              <div className="flex-1 min-w-0">{control(key, property, v, placeholder, errors.length > 0)}</div>
+              {v !== undefined && (
+                <button
+                  className="p-1 rounded hover:bg-muted"
+                  title={from ? `Reset to ${from.from}` : 'Clear value'}
+                  onClick={() => set(key, undefined)}
+                >
+                  <RotateCcw className="w-3 h-3" />
+                </button>
+              )}
+            </div>
+            <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+              {property.type && <span className="font-mono">{property.type}</span>}
+              {from && (
+                <span className={v === undefined ? 'text-blue-600 dark:text-blue-400' : 'opacity-70'} title={format(from.value)}>
+                  {v === undefined ? `inherited from ${from.from}` : `overrides ${from.from}`}
+                </span>
+              )}
+              {property.description && <span>{property.description}</span>}
+            </div>
+          </FormField>
+        )
+      })}
+      {extra.length > 0 && (
+        <div className="text-xs text-muted-foreground">
+          Not in the schema: <span className="font-mono">{extra.join(', ')}</span>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default SchemaConfigForm
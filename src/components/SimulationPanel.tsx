@@ -1,8 +1,9 @@
 import React, { useState, useEffect, useRef } from 'react'
 import { Button } from './ui/button'
 import { Card } from './ui/card'
-import { Play, Pause, Square, RotateCcw, Clock, CheckCircle, XCircle, AlertCircle, Settings } from 'lucide-react'
+import { Play, Pause, Square, RotateCcw, Clock, CheckCircle, XCircle, AlertCircle, Settings, Plus, Pencil, Trash2, Repeat } from 'lucide-react'
 import { WorkflowSimulator, ExecutionTrace, ExecutionStep, SimulationOptions } from '../lib/workflow-simulator'
+import { SimulationScenario, formatScenario, newScenario, parseScenario } from '../lib/simulation-scenarios'
 import { cn } from '../lib/utils'
 
 interface SimulationPanelProps {
@@ -10,9 +11,16 @@ interface SimulationPanelProps {
   onStepHighlight?: (nodeId: string | null) => void
   isVisible: boolean
   onClose: () => void
+  /** Saved scenarios; the panel lets the user pick, add and edit them when set */
+  scenarios?: SimulationScenario[]
+  onScenariosChange?: (scenarios: SimulationScenario[]) => void
+  /** Start a new run with the panel's options and selected scenario */
+  onRun?: (options: SimulationOptions) => void
+  /** A run stopped running (finished, failed, stopped or paused) or the traces were cleared */
+  onTracesChange?: () => void
 }
 
-export function SimulationPanel({ simulator, onStepHighlight, isVisible, onClose }: SimulationPanelProps) {
+export function SimulationPanel({ simulator, onStepHighlight, isVisible, onClose, scenarios, onScenariosChange, onRun, onTracesChange }: SimulationPanelProps) {
   const [currentTrace, setCurrentTrace] = useState<ExecutionTrace | null>(null)
   const [isRunning, setIsRunning] = useState(false)
   const [selectedStepIndex, setSelectedStepIndex] = useState<number>(-1)
@@ -24,8 +32,13 @@ export function SimulationPanel({ simulator, onStepHighlight, isVisible, onClose
     maxExecutionTime: 30000
   })
   const [showSettings, setShowSettings] = useState(false)
+  const [scenarioName, setScenarioName] = useState<string>()
+  const [scenarioDraft, setScenarioDraft] = useState<string>()
+  const [scenarioError, setScenarioError] = useState<string>()
   const intervalRef = useRef<NodeJS.Timeout>()
 
+  const scenario = scenarios?.find(s => s.name === scenarioName)
+
   // Update current trace
   useEffect(() => {
     const traces = simulator.getAllTraces()
@@ -52,6 +65,7 @@ export function SimulationPanel({ simulator, onStepHighlight, isVisible, onClose
           if (updatedTrace.status !== 'running') {
             setIsRunning(false)
             onStepHighlight?.(null)
+            onTracesChange?.()
           }
         }
       }, 500)
@@ -66,7 +80,7 @@ export function SimulationPanel({ simulator, onStepHighlight, isVisible, onClose
         clearInterval(intervalRef.current)
       }
     }
-  }, [isRunning, currentTrace, simulator, onStepHighlight])
+  }, [isRunning, currentTrace, simulator, onStepHighlight, onTracesChange])
 
   const handlePause = () => {
     simulator.pauseSimulation()
@@ -74,6 +88,57 @@ export function SimulationPanel({ simulator, onStepHighlight, isVisible, onClose
     onStepHighlight?.(null)
   }
 
+  const handleStart = () => {
+    if (!onRun) return
+    onRun({ ...simulationOptions, scenario })
+    const traces = simulator.getAllTraces()
+    setCurrentTrace(traces[traces.length - 1] ?? null)
+    setSelectedStepIndex(-1)
+    setIsRunning(true)
+  }
+
+  const addScenario = () => {
+    const created = newScenario(scenarios || [])
+    onScenariosChange?.([...(scenarios || []), created])
+    setScenarioName(created.name)
+    setScenarioDraft(formatScenario(created))
+    setScenarioError(undefined)
+  }
+
+  const saveScenario = () => {
+    if (!scenario || scenarioDraft === undefined) return
+    try {
+      const edited = parseScenario(scenarioDraft)
+      if (edited.name !== scenario.name && scenarios!.some(s => s.name === edited.name)) {
+        throw new Error(`A scenario named '${edited.name}' already exists`)
+      }
+      onScenariosChange?.(scenarios!.map(s => (s === scenario ? edited : s)))
+      setScenarioName(edited.name)
+      setScenarioDraft(undefined)
+      setScenarioError(undefined)
+    } catch (e) {
+      setScenarioError((e as Error).message)
+    }
+  }
+
+  const deleteScenario = () => {
+    if (!scenario) return
+    onScenariosChange?.(scenarios!.filter(s => s !== scenario))
+    setScenarioName(undefined)
+    setScenarioDraft(undefined)
+  }
+
+  const handleRerun = () => {
+    if (!currentTrace) return
+    try {
+      setCurrentTrace(simulator.getTrace(simulator.rerun(currentTrace.id)) ?? null)
+      setSelectedStepIndex(-1)
+      setIsRunning(true)
+    } catch (e) {
+      alert((e as Error).message)
+    }
+  }
+
   const handleResume = () => {
     simulator.resumeSimulation()
     setIsRunning(true)
@@ -83,6 +148,7 @@ export function SimulationPanel({ simulator, onStepHighlight, isVisible, onClose
     simulator.stopSimulation()
     setIsRunning(false)
     onStepHighlight?.(null)
+    onTracesChange?.()
   }
 
   const handleReset = () => {
@@ -91,6 +157,7 @@ export function SimulationPanel({ simulator, onStepHighlight, isVisible, onClose
     setIsRunning(false)
     setSelectedStepIndex(-1)
     onStepHighlight?.(null)
+    onTracesChange?.()
   }
 
   const getStatusIcon = (status: ExecutionStep['status']) => {
@@ -160,6 +227,20 @@ export function SimulationPanel({ simulator, onStepHighlight, isVisible, onClose
               />
             </label>
             
+            <label className="block text-xs">
+              Seed (blank for a random one)
+              <input
+                type="number"
+                value={simulationOptions.seed ?? ''}
+                onChange={(e) => setSimulationOptions(prev => ({
+                  ...prev,
+                  seed: e.target.value === '' ? undefined : parseInt(e.target.value) >>> 0
+                }))}
+                className="mt-1 w-full h-6 text-xs rounded border border-input bg-background px-1"
+                min="0"
+              />
+            </label>
+
             <div className="flex items-center gap-2 text-xs">
               <label className="flex items-center gap-1">
                 <input
@@ -199,8 +280,8 @@ export function SimulationPanel({ simulator, onStepHighlight, isVisible, onClose
           <Button
             size="sm"
             variant="outline"
-            onClick={handleResume}
-            disabled={!currentTrace || currentTrace.status === 'success'}
+            onClick={onRun && currentTrace?.status !== 'paused' ? handleStart : handleResume}
+            disabled={!onRun && (!currentTrace || currentTrace.status === 'success')}
             className="flex-1"
           >
             <Play className="w-3 h-3 mr-1" />
@@ -227,6 +308,16 @@ export function SimulationPanel({ simulator, onStepHighlight, isVisible, onClose
           <Square className="w-3 h-3" />
         </Button>
         
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={handleRerun}
+          disabled={isRunning || !currentTrace?.input}
+          title="Re-run this trace with its seed"
+        >
+          <Repeat className="w-3 h-3" />
+        </Button>
+
         <Button
           size="sm"
           variant="outline"
@@ -236,10 +327,88 @@ export function SimulationPanel({ simulator, onStepHighlight, isVisible, onClose
         </Button>
       </div>
 
+      {/* Scenario */}
+      {scenarios && (
+        <div className="p-2 border-b border-border space-y-2 text-xs">
+          <div className="flex items-center gap-1">
+            <select
+              value={scenarioName ?? ''}
+              onChange={(e) => {
+                setScenarioName(e.target.value || undefined)
+                setScenarioDraft(undefined)
+                setScenarioError(undefined)
+              }}
+              className="flex-1 min-w-0 h-7 rounded border border-input bg-background px-1"
+              title="Scenario: scripted guard results, step outcomes and starting context"
+            >
+              <option value="">No scenario</option>
+              {scenarios.map(s => (
+                <option key={s.name} value={s.name}>{s.name}</option>
+              ))}
+            </select>
+            <Button size="icon" variant="ghost" className="h-7 w-7" onClick={addScenario} title="New scenario">
+              <Plus className="w-3 h-3" />
+            </Button>
+            <Button
+              size="icon"
+              variant="ghost"
+              className="h-7 w-7"
+              onClick={() => setScenarioDraft(scenarioDraft === undefined && scenario ? formatScenario(scenario) : undefined)}
+              disabled={!scenario}
+              title="Edit scenario"
+            >
+              <Pencil className="w-3 h-3" />
+            </Button>
+            <Button size="icon" variant="ghost" className="h-7 w-7" onClick={deleteScenario} disabled={!scenario} title="Delete scenario">
+              <Trash2 className="w-3 h-3" />
+            </Button>
+          </div>
+          {scenario?.description && scenarioDraft === undefined && <div className="text-muted-foreground">{scenario.description}</div>}
+          {scenarioDraft !== undefined && (
+            <div className="space-y-1">
+              <textarea
+                value={scenarioDraft}
+                onChange={(e) => setScenarioDraft(e.target.value)}
+                spellCheck={false}
+                className="w-full h-40 font-mono text-xs rounded border border-input bg-background p-1"
+              />
+              <div className="text-muted-foreground">
+                guards: <span className="font-mono">true</span>, <span className="font-mono">[false, true]</span> per call, or{' '}
+                <span className="font-mono">{'{"expression": "order.total > 100"}'}</span>; steps:{' '}
+                <span className="font-mono">{'{"result": "failure", "writes": {...}}'}</span>
+              </div>
+              {scenarioError && <div className="text-red-600 whitespace-pre-wrap">{scenarioError}</div>}
+              <div className="flex gap-1">
+                <Button size="sm" variant="outline" className="h-6" onClick={saveScenario}>Save</Button>
+                <Button size="sm" variant="ghost" className="h-6" onClick={() => { setScenarioDraft(undefined); setScenarioError(undefined) }}>Cancel</Button>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Trace Info */}
       {currentTrace && (
         <div className="p-3 border-b border-border bg-accent/20">
           <div className="text-xs space-y-1">
+            {simulator.getAllTraces().length > 1 && (
+              <select
+                value={currentTrace.id}
+                onChange={(e) => {
+                  setCurrentTrace(simulator.getTrace(e.target.value) ?? null)
+                  setSelectedStepIndex(-1)
+                }}
+                disabled={isRunning}
+                className="w-full h-6 mb-1 rounded border border-input bg-background px-1"
+                title="Past runs"
+              >
+                {simulator.getAllTraces().map(t => (
+                  <option key={t.id} value={t.id}>
+                    {new Date(t.startTime).toLocaleTimeString()} {t.workflowName}{t.scenario ? ` (${t.scenario})` : ''} - {t.status}
+                  </option>
+                ))}
+              </select>
+            )}
             <div className="flex justify-between">
               <span>Workflow:</span>
               <span className="font-mono">{currentTrace.workflowName}</span>
@@ -257,15 +426,38 @@ export function SimulationPanel({ simulator, onStepHighlight, isVisible, onClose
               </span>
             </div>
             <div className="flex justify-between">
-              <span>Progress:</span>
-              <span>
-                {currentTrace.steps.filter(s => s.status === 'success' || s.status === 'failed').length}/{currentTrace.steps.length}
-              </span>
+              <span>Steps run:</span>
+              <span>{currentTrace.steps.filter(s => s.status === 'success' || s.status === 'failed').length}</span>
             </div>
-            {currentTrace.endTime && (
+            {currentTrace.terminal && (
               <div className="flex justify-between">
-                <span>Duration:</span>
-                <span>{formatDuration(currentTrace.endTime - currentTrace.startTime)}</span>
+                <span>Ended in:</span>
+                <span className="font-mono">{currentTrace.terminal}</span>
+              </div>
+            )}
+            {currentTrace.scenario && (
+              <div className="flex justify-between">
+                <span>Scenario:</span>
+                <span className="truncate">{currentTrace.scenario}</span>
+              </div>
+            )}
+            {currentTrace.error && <div className="text-red-600">{currentTrace.error}</div>}
+            {Object.keys(currentTrace.context).length > 0 && (
+              <div>
+                <span>Context:</span>
+                <div className="font-mono bg-gray-50 dark:bg-gray-800 p-1 rounded mt-1 whitespace-pre-wrap break-all">
+                  {JSON.stringify(currentTrace.context, null, 2)}
+                </div>
+              </div>
+            )}
+            <div className="flex justify-between">
+              <span>Simulated time:</span>
+              <span>{formatDuration(currentTrace.clock)}</span>
+            </div>
+            {currentTrace.seed !== undefined && (
+              <div className="flex justify-between">
+                <span>Seed:</span>
+                <span className="font-mono select-all">{currentTrace.seed}</span>
               </div>
             )}
           </div>
@@ -295,8 +487,11 @@ export function SimulationPanel({ simulator, onStepHighlight, isVisible, onClose
                 </div>
                 
                 <div className="flex-1 min-w-0">
-                  <div className="font-medium truncate">{step.stepName}</div>
-                  <div className="text-muted-foreground text-xs">{step.stepType}</div>
+                  <div className="font-medium truncate">
+                    {step.stepName}
+                    {step.retryAttempt && <span className="ml-1 text-muted-foreground font-normal">attempt {step.retryAttempt}</span>}
+                  </div>
+                  <div className="text-muted-foreground text-xs truncate">{step.workflow ? `${step.workflow} · ${step.stepType}` : step.stepType}</div>
                 </div>
                 
                 <div className="text-right text-muted-foreground">
@@ -320,6 +515,8 @@ export function SimulationPanel({ simulator, onStepHighlight, isVisible, onClose
           <div className="text-xs space-y-2">
             {(() => {
               const step = currentTrace.steps[selectedStepIndex]
+              const guards = currentTrace.guards.filter(g => g.stepIndex === selectedStepIndex)
+              const next = currentTrace.transitions.find(t => t.stepIndex === selectedStepIndex)
               return (
                 <>
                   <div className="font-medium">Step Details</div>
@@ -340,6 +537,23 @@ export function SimulationPanel({ simulator, onStepHighlight, isVisible, onClose
                         </div>
                       </div>
                     )}
+                    {guards.length > 0 && (
+                      <div className="mt-1">
+                        <span>Guards:</span>
+                        {guards.map((g, i) => (
+                          <div key={i} className="flex justify-between font-mono">
+                            <span>{g.guard}{g.kind !== 'step' && <span className="text-muted-foreground"> ({g.kind === 'edge' ? `edge ${g.edge}` : 'retry'}{g.attempt > 1 ? `, #${g.attempt}` : ''})</span>}</span>
+                            <span className={g.passed ? 'text-green-600' : 'text-red-600'}>{g.passed ? 'pass' : 'fail'}</span>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                    {next && (
+                      <div className="flex justify-between">
+                        <span>Next:</span>
+                        <span className="font-mono">{next.to}{next.kind !== 'edge' && <span className="text-muted-foreground"> ({next.kind})</span>}</span>
+                      </div>
+                    )}
                     {step.output && (
                       <div className="mt-1">
                         <span>Output:</span>
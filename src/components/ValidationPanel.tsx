@@ -1,5 +1,4 @@
 import React, { useState, useEffect } from 'react'
-import { Node, Edge } from 'reactflow'
 import { 
   AlertTriangle, 
   AlertCircle, 
@@ -9,39 +8,53 @@ import {
   Filter,
   Zap,
   Settings,
+  Wrench,
+  Route,
   X
 } from 'lucide-react'
 import { Button } from './ui/button'
 import { WorkflowValidationEngine, ValidationResult, ValidationIssue } from '../lib/validation-engine'
+import { ComponentInfo, StepFlowConfig } from '../types/stepflow'
+import { ConfigRuleSettings } from '../lib/config-validator'
+import { ConfigFix } from '../lib/config-fixes'
+import { WorkflowPath } from '../lib/path-analysis'
 
 interface ValidationPanelProps {
-  nodes: Node[]
-  edges: Edge[]
-  activeRequest?: string
+  config: StepFlowConfig
+  /** Limit the report to one workflow and the steps it uses */
+  workflow?: string
+  /** Project rule overrides */
+  rules?: ConfigRuleSettings
+  /** Component catalog guard and defaults references are checked against */
+  components?: ComponentInfo[]
   onNodeSelect?: (nodeId: string) => void
   onEdgeSelect?: (edgeId: string) => void
-  onAutoFix?: (issue: ValidationIssue) => void
+  /** Highlight the path an issue is about on the canvas */
+  onShowPath?: (workflow: string, path: WorkflowPath) => void
+  /** Apply a fix to the config as one undoable change; fixes are offered only when given */
+  onApplyFix?: (fix: ConfigFix) => void
 }
 
 const ValidationPanel: React.FC<ValidationPanelProps> = ({
-  nodes,
-  edges,
-  activeRequest,
+  config,
+  workflow,
+  rules,
+  components,
   onNodeSelect,
   onEdgeSelect,
-  onAutoFix
+  onShowPath,
+  onApplyFix
 }) => {
   const [validationResult, setValidationResult] = useState<ValidationResult | null>(null)
   const [selectedCategory, setSelectedCategory] = useState<string>('all')
   const [selectedType, setSelectedType] = useState<string>('all')
   const [expandedIssue, setExpandedIssue] = useState<string | null>(null)
-  const [autoFixInProgress, setAutoFixInProgress] = useState<Set<string>>(new Set())
 
-  // Run validation when nodes or edges change
+  // Run validation when the config changes
   useEffect(() => {
-    const result = WorkflowValidationEngine.validateWorkflow(nodes, edges, activeRequest)
+    const result = WorkflowValidationEngine.validateWorkflow(config, { workflow, rules, components, onFix: onApplyFix })
     setValidationResult(result)
-  }, [nodes, edges, activeRequest])
+  }, [config, workflow, rules, components, onApplyFix])
 
   if (!validationResult) {
     return (
@@ -61,23 +74,15 @@ const ValidationPanel: React.FC<ValidationPanelProps> = ({
     return true
   })
 
-  const handleAutoFix = async (issue: ValidationIssue) => {
-    if (!issue.autoFix || !onAutoFix) return
-    
-    setAutoFixInProgress(prev => new Set(prev).add(issue.id))
-    
-    try {
-      await onAutoFix(issue)
-      // Issue should be resolved after auto-fix, so it will disappear from the list
-    } catch (error) {
-      console.error('Auto-fix failed:', error)
-    } finally {
-      setAutoFixInProgress(prev => {
-        const next = new Set(prev)
-        next.delete(issue.id)
-        return next
-      })
-    }
+  // Fixable issues per rule, for "Fix all of this kind"
+  const fixableByRule = issues.reduce<Record<string, number>>((counts, issue) => {
+    if (issue.rule && issue.autoFix) counts[issue.rule] = (counts[issue.rule] || 0) + 1
+    return counts
+  }, {})
+
+  const handleFixAll = (rule: string) => {
+    const fix = WorkflowValidationEngine.fixAllOfKind(config, rule, { workflow, rules, components })
+    if (fix && onApplyFix) onApplyFix(fix)
   }
 
   const getIssueIcon = (type: ValidationIssue['type']) => {
@@ -265,6 +270,11 @@ const ValidationPanel: React.FC<ValidationPanelProps> = ({
                               Edge: {issue.edgeId}
                             </span>
                           )}
+                          {issue.location && (
+                            <span className="ml-2 font-mono">
+                              {issue.location}
+                            </span>
+                          )}
                         </div>
                       </div>
                       
@@ -284,23 +294,33 @@ const ValidationPanel: React.FC<ValidationPanelProps> = ({
                           </Button>
                         )}
                         
-                        {issue.autoFix && onAutoFix && (
+                        {issue.workflow && issue.path && onShowPath && (
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={(e) => {
+                              e.stopPropagation()
+                              onShowPath(issue.workflow!, issue.path!)
+                            }}
+                            className="h-6 w-6 p-0"
+                            title="Show path on canvas"
+                          >
+                            <Route className="w-3 h-3" />
+                          </Button>
+                        )}
+                        
+                        {issue.autoFix && (
                           <Button
                             size="sm"
                             variant="outline"
                             onClick={(e) => {
                               e.stopPropagation()
-                              handleAutoFix(issue)
+                              issue.autoFix!()
                             }}
-                            disabled={autoFixInProgress.has(issue.id)}
                             className="h-6 px-2 text-xs"
-                            title="Auto-fix issue"
+                            title={issue.fixes?.[0]?.title || 'Auto-fix issue'}
                           >
-                            {autoFixInProgress.has(issue.id) ? (
-                              <Settings className="w-3 h-3 animate-spin" />
-                            ) : (
-                              'Fix'
-                            )}
+                            Fix
                           </Button>
                         )}
                       </div>
@@ -319,6 +339,38 @@ const ValidationPanel: React.FC<ValidationPanelProps> = ({
                             </p>
                           </div>
                         )}
+                        {issue.fixes && (
+                          <div className="flex flex-wrap gap-1 mt-2">
+                            {issue.fixes.map(fix => (
+                              <Button
+                                key={fix.title}
+                                size="sm"
+                                variant="outline"
+                                className="h-6 px-2 text-xs"
+                                onClick={(e) => {
+                                  e.stopPropagation()
+                                  fix.run()
+                                }}
+                              >
+                                <Wrench className="w-3 h-3 mr-1" />
+                                {fix.title}
+                              </Button>
+                            ))}
+                            {issue.rule && fixableByRule[issue.rule] > 1 && (
+                              <Button
+                                size="sm"
+                                variant="ghost"
+                                className="h-6 px-2 text-xs"
+                                onClick={(e) => {
+                                  e.stopPropagation()
+                                  handleFixAll(issue.rule!)
+                                }}
+                              >
+                                Fix all of this kind ({fixableByRule[issue.rule]})
+                              </Button>
+                            )}
+                          </div>
+                        )}
                       </div>
                     )}
                   </div>
@@ -337,8 +389,8 @@ const ValidationPanel: React.FC<ValidationPanelProps> = ({
       <div className="p-3 border-t border-border bg-muted/30">
         <div className="text-xs text-muted-foreground text-center">
           {WorkflowValidationEngine.getValidationSummary(validationResult)}
-          {activeRequest && (
-            <div className="mt-1">Request: <span className="font-medium">{activeRequest}</span></div>
+          {workflow && (
+            <div className="mt-1">Workflow: <span className="font-medium">{workflow}</span></div>
           )}
         </div>
       </div>
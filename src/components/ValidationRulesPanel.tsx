@@ -0,0 +1,83 @@
+import React from 'react'
+import { RotateCcw } from 'lucide-react'
+import { Input } from './ui/input'
+import { ValidationIssue } from '../types/stepflow'
+import { ConfigRuleOverride, ConfigRuleSettings, getConfigRules } from '../lib/config-validator'
+
+export interface ValidationRulesPanelProps {
+  settings: ConfigRuleSettings
+  onChange: (settings: ConfigRuleSettings) => void
+}
+
+const SEVERITIES: ValidationIssue['type'][] = ['error', 'warning', 'info']
+
+/** Enable, re-level and tune the registered validation rules for the current project */
+export const ValidationRulesPanel: React.FC<ValidationRulesPanelProps> = ({ settings, onChange }) => {
+  const update = (id: string, patch: ConfigRuleOverride) => {
+    const next = { ...settings[id], ...patch }
+    onChange({ ...settings, [id]: next })
+  }
+  const reset = (id: string) => {
+    const { [id]: _, ...rest } = settings
+    onChange(rest)
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="text-xs text-muted-foreground">
+        Overrides are saved with the project. In the DSL, <code className="font-mono">{'# stepflow-disable-next-line <rule>'}</code> silences a rule for the line below.
+      </div>
+      {getConfigRules().map(rule => {
+        const override = settings[rule.id] || {}
+        const enabled = override.enabled !== false
+        return (
+          <div key={rule.id} className={`border rounded p-2 text-xs ${enabled ? '' : 'opacity-60'}`}>
+            <div className="flex items-center gap-2">
+              <input type="checkbox" checked={enabled} onChange={e => update(rule.id, { enabled: e.target.checked })} />
+              <div className="flex-1 min-w-0">
+                <div className="font-medium">{rule.title}</div>
+                <div className="font-mono opacity-70">{rule.id}</div>
+              </div>
+              <select
+                value={override.severity || rule.severity}
+                onChange={e => update(rule.id, { severity: e.target.value as ValidationIssue['type'] })}
+                disabled={!enabled}
+                className="h-7 rounded-md border border-input bg-background px-2 text-xs"
+              >
+                {SEVERITIES.map(s => (
+                  <option key={s} value={s}>{s}{s === rule.severity ? ' (default)' : ''}</option>
+                ))}
+              </select>
+              {settings[rule.id] && (
+                <button className="p-1 rounded hover:bg-muted" title="Reset to defaults" onClick={() => reset(rule.id)}>
+                  <RotateCcw className="w-3 h-3" />
+                </button>
+              )}
+            </div>
+            {rule.options && (
+              <div className="flex flex-wrap gap-3 mt-2 pl-5">
+                {Object.entries(rule.options).map(([key, defaultValue]) => (
+                  <label key={key} className="flex items-center gap-1">
+                    <span className="font-mono">{key}</span>
+                    <Input
+                      type="number"
+                      className="h-7 w-20 text-xs"
+                      value={override.options?.[key] ?? defaultValue}
+                      disabled={!enabled}
+                      onChange={e => {
+                        const value = Number(e.target.value)
+                        if (Number.isFinite(value)) update(rule.id, { options: { ...override.options, [key]: value } })
+                      }}
+                    />
+                  </label>
+                ))}
+              </div>
+            )}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
+
+export default ValidationRulesPanel
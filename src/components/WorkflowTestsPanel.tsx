@@ -0,0 +1,188 @@
+import React, { useState } from 'react'
+import { CheckCircle, ChevronDown, ChevronRight, Circle, Clock, FlaskConical, Pencil, Play, Plus, Trash2, XCircle } from 'lucide-react'
+import { Button } from './ui/button'
+import { WorkflowTestCase, WorkflowTestResult, formatTestCase, parseTestCase } from '../lib/workflow-tests'
+
+export interface WorkflowTestsPanelProps {
+  tests: WorkflowTestCase[]
+  /** Results of the latest run, by test name */
+  results: Record<string, WorkflowTestResult>
+  running: boolean
+  /** Workflow on the canvas; new tests are recorded from it */
+  workflow?: string
+  onChange: (tests: WorkflowTestCase[]) => void
+  onRunAll: () => void
+  /** Add a test expecting what `workflow` does today */
+  onRecord: (workflow: string) => void
+}
+
+/**
+ * Workflow test cases grouped by workflow, with the result of the latest run. A failing test
+ * shows its expected path against the actual one; the actual run can be accepted as the new
+ * expectation.
+ */
+export const WorkflowTestsPanel: React.FC<WorkflowTestsPanelProps> = ({ tests, results, running, workflow, onChange, onRunAll, onRecord }) => {
+  const [expanded, setExpanded] = useState<string>()
+  const [draft, setDraft] = useState<{ name: string; text: string; error?: string }>()
+
+  const workflows = Array.from(new Set(tests.map(t => t.workflow)))
+  const ran = tests.filter(t => results[t.name])
+  const failed = ran.filter(t => !results[t.name].passed).length
+
+  const replace = (test: WorkflowTestCase, updated: WorkflowTestCase) => onChange(tests.map(t => (t === test ? updated : t)))
+
+  const save = (test: WorkflowTestCase) => {
+    if (!draft) return
+    try {
+      const updated = parseTestCase(draft.text)
+      if (updated.name !== test.name && tests.some(t => t.name === updated.name)) {
+        throw new Error(`A test named '${updated.name}' already exists`)
+      }
+      replace(test, updated)
+      setExpanded(updated.name)
+      setDraft(undefined)
+    } catch (e) {
+      setDraft({ ...draft, error: (e as Error).message })
+    }
+  }
+
+  const statusIcon = (result?: WorkflowTestResult) => {
+    if (running) return <Clock className="w-3 h-3 text-blue-500" />
+    if (!result) return <Circle className="w-3 h-3 text-muted-foreground" />
+    return result.passed ? <CheckCircle className="w-3 h-3 text-green-500" /> : <XCircle className="w-3 h-3 text-red-500" />
+  }
+
+  const renderDetails = (test: WorkflowTestCase, result?: WorkflowTestResult) => {
+    if (draft?.name === test.name) {
+      return (
+        <div className="space-y-1">
+          <textarea
+            value={draft.text}
+            onChange={e => setDraft({ ...draft, text: e.target.value, error: undefined })}
+            spellCheck={false}
+            className="w-full h-48 font-mono text-xs rounded border border-input bg-background p-1"
+          />
+          {draft.error && <div className="text-red-600 dark:text-red-400 whitespace-pre-wrap">{draft.error}</div>}
+          <div className="flex gap-1">
+            <Button size="sm" variant="outline" className="h-6" onClick={() => save(test)}>Save</Button>
+            <Button size="sm" variant="ghost" className="h-6" onClick={() => setDraft(undefined)}>Cancel</Button>
+          </div>
+        </div>
+      )
+    }
+    return (
+      <div className="space-y-1">
+        {test.description && <div className="text-muted-foreground">{test.description}</div>}
+        <div>
+          Expected <span className="font-mono">{test.expectedTerminal}</span>
+          {result?.actualTerminal && result.actualTerminal !== test.expectedTerminal && (
+            <>, got <span className="font-mono text-red-600 dark:text-red-400">{result.actualTerminal}</span></>
+          )}
+        </div>
+        {result?.error && <div className="text-red-600 dark:text-red-400">{result.error}</div>}
+        <div className="font-mono border rounded p-1">
+          {(result ? result.diff : test.expectedPath.map(step => ({ kind: 'same' as const, step }))).map((d, i) => (
+            <div
+              key={i}
+              className={
+                d.kind === 'missing' ? 'text-red-600 dark:text-red-400' : d.kind === 'unexpected' ? 'text-green-600 dark:text-green-400' : ''
+              }
+            >
+              {d.kind === 'missing' ? '- ' : d.kind === 'unexpected' ? '+ ' : '  '}
+              {d.step}
+            </div>
+          ))}
+          {test.expectedPath.length === 0 && result?.actualPath.length === 0 && <div className="text-muted-foreground">No steps</div>}
+        </div>
+        {result && !result.passed && <div className="text-muted-foreground">- expected only, + actual only</div>}
+        <div className="flex gap-1">
+          <Button size="sm" variant="ghost" className="h-6" onClick={() => setDraft({ name: test.name, text: formatTestCase(test) })}>
+            <Pencil className="w-3 h-3 mr-1" /> Edit
+          </Button>
+          {result && !result.passed && !result.error && result.actualTerminal && (
+            <Button
+              size="sm"
+              variant="ghost"
+              className="h-6"
+              onClick={() => replace(test, { ...test, expectedPath: result.actualPath, expectedTerminal: result.actualTerminal! })}
+              title="Expect what the workflow does now"
+            >
+              <CheckCircle className="w-3 h-3 mr-1" /> Accept actual
+            </Button>
+          )}
+          <Button size="sm" variant="ghost" className="h-6" onClick={() => onChange(tests.filter(t => t !== test))}>
+            <Trash2 className="w-3 h-3 mr-1" /> Delete
+          </Button>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="h-full flex flex-col overflow-hidden">
+      <div className="px-3 py-2 border-b border-border space-y-2">
+        <div className="flex items-center gap-1">
+          <Button size="sm" variant="outline" onClick={onRunAll} disabled={running || tests.length === 0} title="Run every test">
+            <Play className="w-3 h-3 mr-1" /> Run all
+          </Button>
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={() => workflow && onRecord(workflow)}
+            disabled={!workflow || running}
+            title={workflow ? `Add a test expecting what '${workflow}' does now` : 'Open a workflow to add a test'}
+          >
+            <Plus className="w-3 h-3" />
+          </Button>
+          <div className="flex-1 text-right text-xs text-muted-foreground">
+            {running ? 'Running…' : ran.length > 0 && (failed > 0 ? `${failed} of ${ran.length} failed` : `${ran.length} passed`)}
+          </div>
+        </div>
+      </div>
+      <div className="flex-1 overflow-auto p-3 space-y-3 text-xs">
+        {tests.length === 0 ? (
+          <div className="text-muted-foreground space-y-2">
+            <FlaskConical className="w-8 h-8 opacity-50" />
+            <div>
+              No tests yet. A test runs a workflow in the simulator with scripted guard and step outcomes and checks the
+              steps it visits and the terminal it ends in. Tests re-run whenever the configuration changes.
+            </div>
+            <div>Use + to record one from the workflow on the canvas, then edit its scenario and expectations.</div>
+          </div>
+        ) : (
+          workflows.map(wf => {
+            const group = tests.filter(t => t.workflow === wf)
+            const passed = group.filter(t => results[t.name]?.passed).length
+            return (
+              <div key={wf} className="space-y-1">
+                <div className="flex items-center justify-between font-medium text-muted-foreground uppercase">
+                  <span>{wf}</span>
+                  <span>{passed}/{group.length}</span>
+                </div>
+                {group.map(test => {
+                  const result = results[test.name]
+                  const open = expanded === test.name
+                  return (
+                    <div key={test.name} className="border rounded">
+                      <button
+                        className="w-full flex items-center gap-2 p-2 text-left hover:bg-accent/50"
+                        onClick={() => setExpanded(open ? undefined : test.name)}
+                      >
+                        {open ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+                        {statusIcon(result)}
+                        <span className="flex-1 truncate">{test.name}</span>
+                      </button>
+                      {open && <div className="px-2 pb-2">{renderDetails(test, result)}</div>}
+                    </div>
+                  )
+                })}
+              </div>
+            )
+          })
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default WorkflowTestsPanel
@@ -1,7 +1,9 @@
-import React, { useState, useCallback } from 'react'
-import { ChevronRight, ChevronDown, Copy, Check } from 'lucide-react'
+import React, { useState, useCallback, useMemo } from 'react'
+import { ChevronRight, ChevronDown, Copy, Check, AlertTriangle, AlertCircle, Info } from 'lucide-react'
 import { Button } from './ui/button'
 import { cn } from '../lib/utils'
+import { ValidationIssue } from '../types/stepflow'
+import { parseIssueLocation } from '../lib/config-validator'
 
 interface TreeNode {
   key: string
@@ -15,16 +17,35 @@ interface YamlTreeViewProps {
   data: any
   yamlString: string
   className?: string
+  /** Issues to mark in the tree, located by their config path */
+  issues?: ValidationIssue[]
 }
 
+// Issues found at a tree path, and the most severe one anywhere below it
+interface PathIssues {
+  own: ValidationIssue[]
+  nested?: ValidationIssue['type']
+}
+
+const SEVERITY: ValidationIssue['type'][] = ['error', 'warning', 'info']
+const pathKey = (path: Array<string | number>) => path.map(String).join('\u0000')
+
 interface TreeItemProps {
   node: TreeNode
   level: number
   onCopy?: (path: string[], value: any) => void
+  issuesAt?: (path: string[]) => PathIssues | undefined
 }
 
-const TreeItem: React.FC<TreeItemProps> = ({ node, level, onCopy }) => {
-  const [isExpanded, setIsExpanded] = useState(level < 2) // Auto-expand first 2 levels
+const issueIcon = (type: ValidationIssue['type'], className: string) =>
+  type === 'error' ? <AlertTriangle className={cn(className, 'text-red-500')} />
+    : type === 'warning' ? <AlertCircle className={cn(className, 'text-yellow-500')} />
+    : <Info className={cn(className, 'text-blue-500')} />
+
+const TreeItem: React.FC<TreeItemProps> = ({ node, level, onCopy, issuesAt }) => {
+  const issues = issuesAt?.(node.path)
+  // Auto-expand first 2 levels, and anything leading to an issue
+  const [isExpanded, setIsExpanded] = useState(level < 2 || !!issues?.nested)
   const [copied, setCopied] = useState(false)
   
   const handleToggle = useCallback(() => {
@@ -114,6 +135,18 @@ const TreeItem: React.FC<TreeItemProps> = ({ node, level, onCopy }) => {
           {getValuePreview(node.value, node.type)}
         </span>
         
+        {/* Issues on this value, or a marker for issues further down */}
+        {issues && issues.own.length > 0 && (
+          <span className="mr-1" title={issues.own.map(i => i.message).join('\n')}>
+            {issueIcon(SEVERITY.find(t => issues.own.some(i => i.type === t))!, 'w-3.5 h-3.5')}
+          </span>
+        )}
+        {issues?.nested && issues.own.length === 0 && !isExpanded && (
+          <span className="mr-1 opacity-70" title="Contains issues">
+            {issueIcon(issues.nested, 'w-3 h-3')}
+          </span>
+        )}
+        
         {/* Copy Button */}
         <Button
           variant="ghost"
@@ -139,6 +172,7 @@ const TreeItem: React.FC<TreeItemProps> = ({ node, level, onCopy }) => {
               node={child}
               level={level + 1}
               onCopy={onCopy}
+              issuesAt={issuesAt}
             />
           ))}
         </div>
@@ -147,9 +181,26 @@ const TreeItem: React.FC<TreeItemProps> = ({ node, level, onCopy }) => {
   )
 }
 
-const YamlTreeView: React.FC<YamlTreeViewProps> = ({ data, yamlString, className }) => {
+const YamlTreeView: React.FC<YamlTreeViewProps> = ({ data, yamlString, className, issues }) => {
   const [rootCopied, setRootCopied] = useState(false)
   
+  const issueIndex = useMemo(() => {
+    const index = new Map<string, PathIssues>()
+    for (const issue of issues || []) {
+      if (!issue.location) continue
+      const path = parseIssueLocation(issue.location)
+      const entry = (key: string) => index.get(key) ?? index.set(key, { own: [] }).get(key)!
+      entry(pathKey(path)).own.push(issue)
+      for (let i = 1; i < path.length; i++) {
+        const parent = entry(pathKey(path.slice(0, i)))
+        if (!parent.nested || SEVERITY.indexOf(issue.type) < SEVERITY.indexOf(parent.nested)) parent.nested = issue.type
+      }
+    }
+    return index
+  }, [issues])
+  
+  const issuesAt = useCallback((path: string[]) => issueIndex.get(pathKey(path)), [issueIndex])
+  
   const buildTree = useCallback((obj: any, path: string[] = []): TreeNode[] => {
     if (!obj || typeof obj !== 'object') return []
     
@@ -229,6 +280,7 @@ const YamlTreeView: React.FC<YamlTreeViewProps> = ({ data, yamlString, className
             node={node}
             level={0}
             onCopy={handleItemCopy}
+            issuesAt={issues ? issuesAt : undefined}
           />
         ))}
       </div>
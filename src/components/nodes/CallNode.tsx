@@ -0,0 +1,68 @@
+import React from 'react'
+import { Handle, Position, NodeProps } from 'reactflow'
+import { Workflow, ExternalLink, XCircle } from 'lucide-react'
+import { CallNodeData } from '../../types/stepflow'
+import { cn } from '../../lib/utils'
+
+const CallNode: React.FC<NodeProps<CallNodeData>> = ({ data, selected }) => {
+  const errorCount = data.issues?.filter(issue => issue.type === 'error').length || 0
+  const isTailCall = data.returnTo === 'SUCCESS'
+
+  const openCallee = (e: React.MouseEvent) => {
+    e.stopPropagation()
+    window.dispatchEvent(new CustomEvent('stepflow-open-workflow', { detail: { workflow: data.callee } }))
+  }
+
+  return (
+    <div
+      className={cn(
+        'relative min-w-[170px] rounded-lg border-2 border-dashed shadow-sm transition-all duration-200',
+        errorCount > 0
+          ? 'bg-red-50 border-red-300 dark:bg-red-900/20 dark:border-red-700'
+          : 'bg-indigo-50 border-indigo-300 dark:bg-indigo-900/20 dark:border-indigo-700',
+        selected ? 'ring-2 ring-indigo-500 ring-opacity-50' : '',
+        'hover:shadow-md'
+      )}
+    >
+      <button
+        className="absolute -right-2 -top-2 z-10 h-7 w-7 inline-flex items-center justify-center rounded-full border border-border bg-card shadow hover:bg-accent"
+        title={`Open workflow ${data.callee}`}
+        onClick={openCallee}
+      >
+        <ExternalLink className="w-4 h-4" />
+      </button>
+      {/* Input Handle */}
+      <Handle
+        type="target"
+        position={Position.Left}
+        className="w-3 h-3 bg-indigo-400 border-2 border-white"
+      />
+
+      <div className="p-3">
+        <div className="flex items-center gap-2 mb-1">
+          <Workflow className="w-5 h-5 text-indigo-600 dark:text-indigo-400" />
+          <span className="font-medium text-sm text-gray-900 dark:text-gray-100">
+            {data.callee}
+          </span>
+          {errorCount > 0 && (
+            <span title={data.issues!.map(i => i.message).join('\n')}>
+              <XCircle className="w-4 h-4 text-red-500" />
+            </span>
+          )}
+        </div>
+        <div className="text-xs text-indigo-600 dark:text-indigo-400">
+          {isTailCall ? 'Sub-workflow call (tail)' : 'Sub-workflow call'}
+        </div>
+      </div>
+
+      {/* Output Handle */}
+      <Handle
+        type="source"
+        position={Position.Right}
+        className="w-3 h-3 bg-indigo-400 border-2 border-white"
+      />
+    </div>
+  )
+}
+
+export default CallNode
@@ -7,6 +7,7 @@ export interface HistoryState {
   config?: any // Configuration state for YAML sync (any to avoid circular imports)
   timestamp: number
   action?: string // Description of the action that created this state
+  extra?: Record<string, any> // Host state restored together with config (tab graphs, DSL text)
 }
 
 interface UndoRedoOptions {
@@ -15,6 +16,15 @@ interface UndoRedoOptions {
   autoSave?: boolean
 }
 
+// Identity used to skip pushes that don't change anything
+function serializeState(state: Pick<HistoryState, 'nodes' | 'edges' | 'config'>): string {
+  return JSON.stringify({
+    nodes: state.nodes,
+    edges: state.edges,
+    config: state.config
+  })
+}
+
 export function useUndoRedo(
   initialState: Omit<HistoryState, 'timestamp' | 'action'>,
   options: UndoRedoOptions = {}
@@ -33,7 +43,20 @@ export function useUndoRedo(
   const [isRedoing, setIsRedoing] = useState(false)
   
   const debounceTimer = useRef<NodeJS.Timeout>()
-  const lastSavedState = useRef<string>('')
+  const pendingSave = useRef<() => void>()
+  const pendingAction = useRef<string>()
+  const lastSavedState = useRef<string>(serializeState(initialState))
+
+  // Refs mirror history/currentIndex so saves issued back-to-back (a flushed debounce
+  // followed by a transaction) build on each other instead of on a stale render
+  const historyRef = useRef(history)
+  const indexRef = useRef(currentIndex)
+  const setTimeline = useCallback((next: HistoryState[], index: number) => {
+    historyRef.current = next
+    indexRef.current = index
+    setHistory(next)
+    setCurrentIndex(index)
+  }, [])
 
   // Get current state
   const currentState = history[currentIndex]
@@ -64,15 +87,25 @@ export function useUndoRedo(
         if (saved) {
           const { history: savedHistory, currentIndex: savedIndex } = JSON.parse(saved)
           if (savedHistory && Array.isArray(savedHistory) && savedHistory.length > 0) {
-            setHistory(savedHistory)
-            setCurrentIndex(savedIndex || 0)
+            setTimeline(savedHistory, savedIndex || 0)
+            // Pushing the restored current entry again is not a new change
+            lastSavedState.current = serializeState(savedHistory[savedIndex || 0])
           }
         }
       } catch (error) {
         console.warn('Failed to load history from localStorage:', error)
       }
     }
-  }, [autoSave])
+  }, [autoSave, setTimeline])
+
+  // Run a debounced save now rather than letting it land after a newer one
+  const flushPending = useCallback(() => {
+    if (!pendingSave.current) return
+    if (debounceTimer.current) clearTimeout(debounceTimer.current)
+    const save = pendingSave.current
+    pendingSave.current = undefined
+    save()
+  }, [])
 
   // Push new state to history
   const pushState = useCallback((
@@ -81,11 +114,15 @@ export function useUndoRedo(
   ) => {
     if (isUndoing || isRedoing) return
 
-    const stateString = JSON.stringify({
-      nodes: newState.nodes,
-      edges: newState.edges,
-      config: newState.config
-    })
+    // A pending transaction turns this push into its own immediate entry
+    const action = pendingAction.current
+    pendingAction.current = undefined
+    if (action) {
+      newState = { ...newState, action }
+      immediate = true
+    }
+
+    const stateString = serializeState(newState)
 
     // Avoid saving identical states
     if (stateString === lastSavedState.current) return
@@ -97,26 +134,13 @@ export function useUndoRedo(
         timestamp: Date.now()
       }
 
-      setHistory(prev => {
-        // Remove any future history if we're not at the end
-        const newHistory = prev.slice(0, currentIndex + 1)
-        newHistory.push(historyState)
-        
-        // Limit history size
-        if (newHistory.length > maxHistorySize) {
-          return newHistory.slice(-maxHistorySize)
-        }
-        
-        return newHistory
-      })
-      
-      setCurrentIndex(prev => {
-        const newIndex = Math.min(prev + 1, maxHistorySize - 1)
-        return newIndex
-      })
+      // Remove any future history if we're not at the end, then limit history size
+      const newHistory = [...historyRef.current.slice(0, indexRef.current + 1), historyState].slice(-maxHistorySize)
+      setTimeline(newHistory, newHistory.length - 1)
     }
 
     if (immediate || debounceMs === 0) {
+      flushPending()
       saveState()
     } else {
       // Debounce rapid changes
@@ -124,39 +148,52 @@ export function useUndoRedo(
         clearTimeout(debounceTimer.current)
       }
       
-      debounceTimer.current = setTimeout(saveState, debounceMs)
+      pendingSave.current = saveState
+      debounceTimer.current = setTimeout(() => {
+        pendingSave.current = undefined
+        saveState()
+      }, debounceMs)
     }
-  }, [currentIndex, maxHistorySize, debounceMs, isUndoing, isRedoing])
+  }, [maxHistorySize, debounceMs, isUndoing, isRedoing, flushPending, setTimeline])
+
+  // Group the state updates made until the next pushState into one history entry,
+  // e.g. a rename that rewrites the config and every open tab at once
+  const beginTransaction = useCallback((action: string) => {
+    flushPending()
+    pendingAction.current = action
+  }, [flushPending])
 
   // Undo to previous state
   const undo = useCallback(() => {
-    if (!canUndo) return null
+    flushPending()
+    if (indexRef.current <= 0) return null
 
     setIsUndoing(true)
-    setCurrentIndex(prev => prev - 1)
-    
-    const prevState = history[currentIndex - 1]
+    const prevState = historyRef.current[indexRef.current - 1]
+    setTimeline(historyRef.current, indexRef.current - 1)
+    // Re-pushing the restored state must not count as a new change
+    lastSavedState.current = serializeState(prevState)
     
     // Cleanup after state change
     setTimeout(() => setIsUndoing(false), 50)
     
     return prevState
-  }, [canUndo, currentIndex, history])
+  }, [flushPending, setTimeline])
 
   // Redo to next state
   const redo = useCallback(() => {
-    if (!canRedo) return null
+    if (indexRef.current >= historyRef.current.length - 1) return null
 
     setIsRedoing(true)
-    setCurrentIndex(prev => prev + 1)
-    
-    const nextState = history[currentIndex + 1]
+    const nextState = historyRef.current[indexRef.current + 1]
+    setTimeline(historyRef.current, indexRef.current + 1)
+    lastSavedState.current = serializeState(nextState)
     
     // Cleanup after state change
     setTimeout(() => setIsRedoing(false), 50)
     
     return nextState
-  }, [canRedo, currentIndex, history])
+  }, [setTimeline])
 
   // Clear history and start fresh
   const clearHistory = useCallback((newInitialState?: Omit<HistoryState, 'timestamp' | 'action'>) => {
@@ -166,10 +203,14 @@ export function useUndoRedo(
       config: undefined
     }
     
-    setHistory([{ ...initialState, timestamp: Date.now() }])
-    setCurrentIndex(0)
-    lastSavedState.current = ''
-  }, [])
+    // A debounced save or open transaction belongs to the discarded timeline
+    if (debounceTimer.current) clearTimeout(debounceTimer.current)
+    pendingSave.current = undefined
+    pendingAction.current = undefined
+
+    setTimeline([{ ...initialState, timestamp: Date.now() }], 0)
+    lastSavedState.current = serializeState(initialState)
+  }, [setTimeline])
 
   // Get history for debugging/inspection
   const getHistory = useCallback(() => ({
@@ -191,9 +232,9 @@ export function useUndoRedo(
   const jumpToState = useCallback((index: number) => {
     if (index < 0 || index >= history.length) return null
 
-    setCurrentIndex(index)
+    setTimeline(history, index)
     return history[index]
-  }, [history])
+  }, [history, setTimeline])
 
   // Get state changes between two history points
   const getDiff = useCallback((fromIndex: number, toIndex: number) => {
@@ -241,6 +282,7 @@ export function useUndoRedo(
     
     // Actions
     pushState,
+    beginTransaction,
     undo,
     redo,
     clearHistory,
@@ -0,0 +1,132 @@
+import { ComponentInfo, ConfigSchema } from '../types/stepflow'
+import { isPlainObject } from './utils'
+
+// Component catalogs: JSON files describing the steps and guards a project can use.
+//
+//   {
+//     "packages": ["com.example.orders"],
+//     "steps": [{ "name": "ValidateOrderStep", "package": "com.example.orders", "description": "...", "schema": { ... } }],
+//     "guards": ["OrderValueGuard"]
+//   }
+//
+// Entries may be bare names. A flat `components` list with a `type` per entry is accepted too.
+
+export interface ComponentCatalog {
+  packages: string[]
+  components: ComponentInfo[]
+}
+
+/** MIME type of palette drags onto the canvas; the payload is `{ name, type }` */
+export const COMPONENT_DRAG_TYPE = 'application/x-stepflow-component'
+
+function parseEntry(entry: any, type: ComponentInfo['type'] | undefined, where: string): ComponentInfo {
+  if (typeof entry === 'string' && entry.trim()) return { name: entry.trim(), type: type ?? 'step' }
+  if (!isPlainObject(entry)) throw new Error(`${where} must be a name or an object`)
+  const kind = type ?? entry.type
+  if (kind !== 'step' && kind !== 'guard') throw new Error(`${where} needs "type": "step" or "guard"`)
+  const name = typeof entry.name === 'string' && entry.name.trim() ? entry.name.trim() : typeof entry.className === 'string' ? entry.className : ''
+  if (!name) throw new Error(`${where} has no name`)
+  if (entry.schema !== undefined && !isPlainObject(entry.schema)) throw new Error(`${where} has a schema that is not an object`)
+  const info: ComponentInfo = { name, type: kind }
+  if (typeof entry.className === 'string') info.className = entry.className
+  if (typeof entry.package === 'string') info.package = entry.package
+  if (typeof entry.description === 'string') info.description = entry.description
+  if (entry.schema) info.schema = entry.schema as ConfigSchema
+  return info
+}
+
+/** Read a catalog file; throws with a message naming the offending entry */
+export function parseCatalog(text: string): ComponentCatalog {
+  let data: any
+  try {
+    data = JSON.parse(text)
+  } catch (e) {
+    throw new Error(`Invalid catalog JSON: ${(e as Error).message}`)
+  }
+  if (!isPlainObject(data)) throw new Error('A catalog must be a JSON object')
+  const list = (key: string) => {
+    if (data[key] === undefined) return []
+    if (!Array.isArray(data[key])) throw new Error(`"${key}" must be a list`)
+    return data[key] as any[]
+  }
+  const components = [
+    ...list('steps').map((e, i) => parseEntry(e, 'step', `steps[${i}]`)),
+    ...list('guards').map((e, i) => parseEntry(e, 'guard', `guards[${i}]`)),
+    ...list('components').map((e, i) => parseEntry(e, undefined, `components[${i}]`)),
+  ]
+  const packages = list('packages').filter((p): p is string => typeof p === 'string')
+  return mergeCatalogs([{ packages, components }])
+}
+
+/**
+ * Combine catalogs; an entry of a later catalog updates the same-named step or guard of an
+ * earlier one, keeping fields it does not set. Packages include those of every entry.
+ */
+export function mergeCatalogs(catalogs: ComponentCatalog[]): ComponentCatalog {
+  const byKey = new Map<string, ComponentInfo>()
+  const packages = new Set<string>()
+  for (const catalog of catalogs) {
+    catalog.packages.forEach(p => packages.add(p))
+    for (const c of catalog.components) {
+      const key = `${c.type}:${c.name}`
+      byKey.set(key, { ...byKey.get(key), ...c })
+      if (c.package) packages.add(c.package)
+    }
+  }
+  return { packages: [...packages], components: [...byKey.values()] }
+}
+
+/** Catalog file contents for export */
+export function formatCatalog(catalog: ComponentCatalog): string {
+  const entries = (type: ComponentInfo['type']) => catalog.components.filter(c => c.type === type).map(({ type: _, ...c }) => c)
+  return JSON.stringify({ packages: catalog.packages, steps: entries('step'), guards: entries('guard') }, null, 2)
+}
+
+/** Components whose name, class, package or description contains every word of `query` */
+export function searchComponents(components: ComponentInfo[], query: string): ComponentInfo[] {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean)
+  if (words.length === 0) return components
+  return components.filter(c => {
+    const text = [c.name, c.className, c.package, c.description].filter(Boolean).join(' ').toLowerCase()
+    return words.every(w => text.includes(w))
+  })
+}
+
+/** Step name for a component dropped on the canvas: its name without a `Step` suffix, made unique */
+export function stepNameFor(component: string, taken: (name: string) => boolean): string {
+  const base = component.replace(/Step$/, '') || component
+  let name = base
+  for (let i = 2; taken(name); i++) name = `${base}${i}`
+  return name
+}
+
+/** Steps and guards of the example order-processing project */
+export const EXAMPLE_CATALOG: ComponentCatalog = {
+  packages: ['com.example.steps', 'com.example.guards'],
+  components: [
+    {
+      name: 'ValidateOrderStep', type: 'step', className: 'ValidateOrderStep', package: 'com.example.steps',
+      description: 'Checks an incoming order',
+      schema: {
+        properties: {
+          strict: { type: 'boolean', default: true, description: 'Reject orders with unknown fields' },
+          maxItems: { type: 'number', description: 'Largest accepted order' },
+        },
+      },
+    },
+    {
+      name: 'ProcessPaymentStep', type: 'step', className: 'ProcessPaymentStep', package: 'com.example.steps',
+      description: 'Charges the order total',
+      schema: {
+        properties: {
+          provider: { type: 'string', enum: ['stripe', 'adyen', 'mock'], default: 'mock' },
+          timeout: { type: 'number', default: 30000 },
+        },
+        required: ['provider'],
+      },
+    },
+    { name: 'SendNotificationStep', type: 'step', className: 'SendNotificationStep', package: 'com.example.steps' },
+    { name: 'OrderValueGuard', type: 'guard', className: 'OrderValueGuard', package: 'com.example.guards' },
+    { name: 'PaymentSuccessGuard', type: 'guard', className: 'PaymentSuccessGuard', package: 'com.example.guards' },
+  ],
+}
@@ -0,0 +1,140 @@
+import { describe, expect, it } from 'vitest'
+import { ComponentInfo, EdgeDef, StepFlowConfig } from '../types/stepflow'
+import { validateConfig } from './config-validator'
+import { configFixes, fixAllOfKind } from './config-fixes'
+
+const GUARDS: ComponentInfo[] = [{ name: 'isPaid', type: 'guard' }]
+
+const config = (edges: EdgeDef[], steps: string[], extra: Partial<StepFlowConfig> = {}, root = 'A'): StepFlowConfig => ({
+  steps: Object.fromEntries(steps.map(s => [s, { type: `${s}Step` }])),
+  workflows: { Main: { root, edges } },
+  ...extra,
+})
+
+const rules = (cfg: StepFlowConfig, components: ComponentInfo[] = []) => validateConfig(cfg, {}, components).map(i => i.rule)
+
+const CASES: Array<{ rule: string; config: StepFlowConfig; components?: ComponentInfo[]; fixes: string[] }> = [
+  {
+    rule: 'no-root-step',
+    config: config([{ from: 'A', to: 'SUCCESS' }], ['A'], {}, ''),
+    fixes: ["Set root to 'A'"],
+  },
+  {
+    rule: 'undefined-step',
+    config: config([{ from: 'A', to: 'B' }, { from: 'B', to: 'SUCCESS' }], ['A']),
+    fixes: ["Create step 'B'"],
+  },
+  {
+    rule: 'orphaned-node',
+    config: config([{ from: 'A', to: 'SUCCESS' }], ['A', 'X']),
+    fixes: ["Delete step 'X'", "Connect 'X' before SUCCESS in 'Main'"],
+  },
+  {
+    rule: 'no-terminal-path',
+    config: config([{ from: 'A', to: 'B' }], ['A', 'B']),
+    fixes: ["Add 'B -> SUCCESS'"],
+  },
+  {
+    rule: 'dead-end-step',
+    config: config([{ from: 'A', to: 'B' }], ['A', 'B']),
+    fixes: ["Add 'B -> SUCCESS'"],
+  },
+  {
+    rule: 'missing-guard-failure',
+    config: config([{ from: 'A', to: 'SUCCESS', guard: 'isPaid' }], ['A']),
+    fixes: ["Go to FAILURE when guard 'isPaid' fails"],
+  },
+  {
+    rule: 'shadowed-edge',
+    config: config([{ from: 'A', to: 'SUCCESS' }, { from: 'A', to: 'FAILURE', guard: 'isPaid' }], ['A']),
+    fixes: ["Move before 'A -> SUCCESS'", "Delete edge 'A -> FAILURE'"],
+  },
+  {
+    rule: 'shadowed-edge',
+    config: config([{ from: 'A', to: 'SUCCESS' }, { from: 'A', to: 'FAILURE' }], ['A']),
+    fixes: ["Delete edge 'A -> FAILURE'"],
+  },
+  {
+    rule: 'unknown-alternative-target',
+    config: config(
+      [
+        { from: 'A', to: 'SUCCESS', guard: 'isPaid', onFailure: { strategy: 'ALTERNATIVE', alternativeTarget: 'Fallbak' } },
+        { from: 'Fallback', to: 'SUCCESS' },
+      ],
+      ['A', 'Fallback'],
+    ),
+    fixes: ["Replace with 'Fallback'"],
+  },
+  {
+    rule: 'unknown-guard',
+    config: config([{ from: 'A', to: 'SUCCESS', guard: 'isPayd' }, { from: 'A', to: 'FAILURE' }], ['A']),
+    components: GUARDS,
+    fixes: ["Replace with 'isPaid'"],
+  },
+  {
+    rule: 'unknown-defaults-key',
+    config: config([{ from: 'A', to: 'SUCCESS' }], ['A'], { defaults: { Aa: { timeout: 5 } } as StepFlowConfig['defaults'] }),
+    fixes: ["Rename defaults 'Aa' to 'A'"],
+  },
+]
+
+describe('configFixes', () => {
+  it.each(CASES.map(c => [c.rule, c.fixes.length, c] as const))('fixes %s (%i fixes) into a config that validates', (rule, _count, c) => {
+    const issue = validateConfig(c.config, {}, c.components).find(i => i.rule === rule)!
+    expect(issue).toBeDefined()
+    const fixes = configFixes(c.config, issue)
+    expect(fixes.map(f => f.title)).toEqual(c.fixes)
+    for (const fix of fixes) expect(rules(fix.apply(c.config), c.components)).toEqual([])
+  })
+
+  it('does not modify the config it is given', () => {
+    for (const c of CASES) {
+      const before = JSON.stringify(c.config)
+      const issue = validateConfig(c.config, {}, c.components).find(i => i.rule === c.rule)!
+      configFixes(c.config, issue).forEach(f => f.apply(c.config))
+      expect(JSON.stringify(c.config)).toBe(before)
+    }
+  })
+
+  it('connects orphaned steps into the workflow given as context', () => {
+    const cfg: StepFlowConfig = {
+      ...config([{ from: 'A', to: 'SUCCESS' }], ['A', 'X']),
+      workflows: { Main: { root: 'A', edges: [{ from: 'A', to: 'SUCCESS' }] }, Other: { root: 'A', edges: [{ from: 'A', to: 'SUCCESS' }] } },
+    }
+    const issue = validateConfig(cfg).find(i => i.rule === 'orphaned-node')!
+    const [, connect] = configFixes(cfg, issue, { workflow: 'Other' })
+    expect(connect.apply(cfg).workflows!.Other.edges).toEqual([{ from: 'A', to: 'X' }, { from: 'X', to: 'SUCCESS' }])
+  })
+
+  it('merges a renamed defaults key into an existing one', () => {
+    const cfg = config([{ from: 'A', to: 'SUCCESS' }], ['A'], { defaults: { A: { retries: 1, timeout: 1 }, Aa: { timeout: 5 } } as StepFlowConfig['defaults'] })
+    const issue = validateConfig(cfg).find(i => i.rule === 'unknown-defaults-key')!
+    expect(configFixes(cfg, issue)[0].apply(cfg).defaults).toEqual({ A: { retries: 1, timeout: 5 } })
+  })
+})
+
+describe('fixAllOfKind', () => {
+  it('applies the preferred fix of every issue of the rule', () => {
+    const cfg = config([{ from: 'A', to: 'SUCCESS' }], ['A', 'X', 'Y'])
+    const fix = fixAllOfKind(cfg, validateConfig(cfg), 'orphaned-node')!
+    expect(fix.title).toBe("Fix all 'orphaned-node' issues (2)")
+    expect(rules(fix.apply(cfg))).toEqual([])
+    expect(Object.keys(fix.apply(cfg).steps!)).toEqual(['A'])
+  })
+
+  it('recomputes each fix against the config the previous one left', () => {
+    const edges: EdgeDef[] = [
+      { from: 'A', to: 'SUCCESS' },
+      { from: 'A', to: 'FAILURE', guard: 'isPaid' },
+      { from: 'A', to: 'B', guard: 'isPaid' },
+    ]
+    const cfg = config(edges, ['A', 'B'])
+    const fix = fixAllOfKind(cfg, validateConfig(cfg), 'shadowed-edge')!
+    expect(rules(fix.apply(cfg)).filter(r => r === 'shadowed-edge')).toEqual([])
+  })
+
+  it('offers nothing when no issue of the rule has a fix', () => {
+    const cfg = config([{ from: 'A', to: 'SUCCESS' }], ['A'])
+    expect(fixAllOfKind(cfg, validateConfig(cfg), 'orphaned-node')).toBeUndefined()
+  })
+})
@@ -0,0 +1,177 @@
+import { EdgeDef, StepFlowConfig, WorkflowDef } from '../types/stepflow'
+import { ConfigIssue, parseIssueLocation, reachableSteps } from './config-validator'
+import { shadowedEdges } from './path-analysis'
+
+// Automatic fixes for config issues. A fix is a pure config transformation so the caller
+// can apply it as a single undoable change.
+
+export interface ConfigFix {
+  title: string
+  apply: (config: StepFlowConfig) => StepFlowConfig
+}
+
+export interface ConfigFixContext {
+  /** Workflow that step-level fixes (e.g. connecting an orphaned step) should edit */
+  workflow?: string
+}
+
+const isTerminal = (name: string) => name === 'SUCCESS' || name === 'FAILURE'
+
+function updateWorkflow(config: StepFlowConfig, name: string, update: (wf: WorkflowDef) => WorkflowDef): StepFlowConfig {
+  const wf = config.workflows?.[name]
+  if (!wf) return config
+  return { ...config, workflows: { ...config.workflows, [name]: update({ ...wf, edges: [...(wf.edges || [])] }) } }
+}
+
+function deleteStep(config: StepFlowConfig, name: string): StepFlowConfig {
+  const { [name]: _step, ...steps } = config.steps || {}
+  const next: StepFlowConfig = { ...config, steps }
+  if (config.defaults && name in config.defaults) {
+    const { [name]: _defaults, ...defaults } = config.defaults
+    next.defaults = defaults as StepFlowConfig['defaults']
+  }
+  return next
+}
+
+// Copy of `value` with the leaf at `path` replaced, copying only the containers on the way
+function setAt(value: any, path: Array<string | number>, leaf: unknown): any {
+  if (path.length === 0) return leaf
+  const [key, ...rest] = path
+  const copy = Array.isArray(value) ? [...value] : { ...value }
+  copy[key] = setAt(value?.[key], rest, leaf)
+  return copy
+}
+
+// Rename a name-specific defaults key in place, merging into an existing entry for the new name
+function renameDefaults(config: StepFlowConfig, from: string, to: string): StepFlowConfig {
+  const entries = Object.entries(config.defaults || {})
+  const merged = { ...config.defaults?.[to], ...config.defaults?.[from] }
+  const defaults = Object.fromEntries(entries.filter(([k]) => k !== to).map(([k, v]) => (k === from ? [to, merged] : [k, v])))
+  return { ...config, defaults: defaults as StepFlowConfig['defaults'] }
+}
+
+// Put `step` right before SUCCESS: `P -> SUCCESS` becomes `P -> step -> SUCCESS`
+function connectStep(config: StepFlowConfig, workflow: string, step: string): ConfigFix | undefined {
+  const wf = config.workflows?.[workflow]
+  if (!wf) return undefined
+  const title = `Connect '${step}' before SUCCESS in '${workflow}'`
+  if (!wf.root && !wf.edges?.length) {
+    return { title, apply: cfg => updateWorkflow(cfg, workflow, () => ({ root: step, edges: [{ from: step, to: 'SUCCESS' }] })) }
+  }
+  const at = (wf.edges || []).findIndex(e => e.to === 'SUCCESS' && !e.guard && !e.call)
+  if (at === -1) return undefined
+  return {
+    title,
+    apply: cfg => updateWorkflow(cfg, workflow, w => {
+      w.edges.splice(at, 1, { ...w.edges[at], to: step }, { from: step, to: 'SUCCESS' })
+      return w
+    }),
+  }
+}
+
+// Last reachable step without outgoing edges; the last reachable step when every one has some
+function terminalCandidate(wf: WorkflowDef): string | undefined {
+  const reachable = [...reachableSteps(wf).keys()].filter(n => !isTerminal(n))
+  const deadEnds = reachable.filter(n => !(wf.edges || []).some(e => e.from === n))
+  return deadEnds[deadEnds.length - 1] ?? reachable[reachable.length - 1]
+}
+
+/** Fixes for an issue, preferred first; empty when the issue has no automatic fix */
+export function configFixes(config: StepFlowConfig, issue: ConfigIssue, context: ConfigFixContext = {}): ConfigFix[] {
+  const path = parseIssueLocation(issue.location)
+  const wfName = issue.workflow
+  const wf = wfName ? config.workflows?.[wfName] : undefined
+
+  switch (issue.rule) {
+    case 'no-root-step': {
+      const first = wf?.edges?.[0]?.from
+      if (!wfName || !first) return []
+      return [{ title: `Set root to '${first}'`, apply: cfg => updateWorkflow(cfg, wfName, w => ({ ...w, root: first })) }]
+    }
+    case 'undefined-step': {
+      const step = issue.step
+      if (!step || config.steps?.[step]) return []
+      return [{ title: `Create step '${step}'`, apply: cfg => ({ ...cfg, steps: { ...cfg.steps, [step]: { type: step } } }) }]
+    }
+    case 'orphaned-node': {
+      const step = issue.step
+      if (!step) return []
+      const target = context.workflow ?? Object.keys(config.workflows || {})[0]
+      const connect = target ? connectStep(config, target, step) : undefined
+      return [{ title: `Delete step '${step}'`, apply: cfg => deleteStep(cfg, step) }, ...(connect ? [connect] : [])]
+    }
+    case 'no-terminal-path': {
+      const from = wf && terminalCandidate(wf)
+      if (!wfName || !from) return []
+      const edge: EdgeDef = { from, to: 'SUCCESS' }
+      return [{ title: `Add '${from} -> SUCCESS'`, apply: cfg => updateWorkflow(cfg, wfName, w => ({ ...w, edges: [...w.edges, edge] })) }]
+    }
+    case 'missing-guard-failure': {
+      const index = path[3]
+      if (!wfName || typeof index !== 'number') return []
+      return [{
+        title: `Go to FAILURE when guard '${wf?.edges?.[index]?.guard}' fails`,
+        apply: cfg => updateWorkflow(cfg, wfName, w => {
+          w.edges[index] = { ...w.edges[index], onFailure: { strategy: 'ALTERNATIVE', alternativeTarget: 'FAILURE' } }
+          return w
+        }),
+      }]
+    }
+    case 'dead-end-step': {
+      const step = issue.step
+      if (!wfName || !step) return []
+      const edge: EdgeDef = { from: step, to: 'SUCCESS' }
+      return [{ title: `Add '${step} -> SUCCESS'`, apply: cfg => updateWorkflow(cfg, wfName, w => ({ ...w, edges: [...w.edges, edge] })) }]
+    }
+    case 'shadowed-edge': {
+      // Found again by its endpoints, as earlier fixes of a "fix all" may have moved edges
+      const [from, , to] = issue.path?.steps || []
+      const shadowed = wf ? shadowedEdges(wf) : new Map<number, number>()
+      const index = [...shadowed.keys()].find(i => wf!.edges[i].from === from && wf!.edges[i].to === to)
+      if (!wfName || index === undefined) return []
+      const edge = wf!.edges[index]
+      const winner = shadowed.get(index)!
+      const remove: ConfigFix = {
+        title: `Delete edge '${edge.from} -> ${edge.to}'`,
+        apply: cfg => updateWorkflow(cfg, wfName, w => ({ ...w, edges: w.edges.filter((_, i) => i !== index) })),
+      }
+      // A guarded edge was meant to be tried before the unguarded fallback
+      if (!edge.guard) return [remove]
+      const move: ConfigFix = {
+        title: `Move before '${edge.from} -> ${wf!.edges[winner].to}'`,
+        apply: cfg => updateWorkflow(cfg, wfName, w => {
+          const [moved] = w.edges.splice(index, 1)
+          w.edges.splice(winner, 0, moved)
+          return w
+        }),
+      }
+      return [move, remove]
+    }
+    case 'unknown-alternative-target':
+    case 'unknown-guard': {
+      const name = issue.didYouMean
+      if (!name) return []
+      return [{ title: `Replace with '${name}'`, apply: cfg => setAt(cfg, path, name) }]
+    }
+    case 'unknown-defaults-key': {
+      const [, key] = path
+      const name = issue.didYouMean
+      if (!name || typeof key !== 'string') return []
+      return [{ title: `Rename defaults '${key}' to '${name}'`, apply: cfg => renameDefaults(cfg, key, name) }]
+    }
+  }
+  return []
+}
+
+/**
+ * Apply the preferred fix of every issue of one rule in a single change. Each fix is
+ * recomputed against the config left by the previous one.
+ */
+export function fixAllOfKind(config: StepFlowConfig, issues: ConfigIssue[], rule: string, context: ConfigFixContext = {}): ConfigFix | undefined {
+  const ofKind = issues.filter(i => i.rule === rule && configFixes(config, i, context).length > 0)
+  if (ofKind.length === 0) return undefined
+  return {
+    title: `Fix all '${rule}' issues (${ofKind.length})`,
+    apply: cfg => ofKind.reduce((next, issue) => configFixes(next, issue, context)[0]?.apply(next) ?? next, cfg),
+  }
+}
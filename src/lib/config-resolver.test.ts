@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest'
+import { StepFlowConfig } from '../types/stepflow'
+import { configSources, inheritedConfig, resolveConfig } from './config-resolver'
+import { hoverInfo } from './dsl-language'
+
+const CONFIG: StepFlowConfig = {
+  settings: { currency: 'EUR' },
+  defaults: {
+    step: { timeout: 10, currency: '${settings.currency}', http: { retries: 1, pool: 5 } },
+    PaymentStep: { timeout: 20, http: { retries: 3 } },
+    Pay: { timeout: 30 },
+    guard: { cache: true },
+    isPaid: { cache: false },
+  },
+  steps: {
+    Pay: { type: 'PaymentStep', config: { http: { pool: 8 }, currency: 'USD' } },
+    Refund: { type: 'PaymentStep' },
+    Ship: { type: 'ShipStep' },
+  },
+  workflows: { Order: { root: 'Pay', edges: [{ from: 'Pay', to: 'Ship' }, { from: 'Ship', to: 'SUCCESS' }] } },
+}
+
+// Each entry as `path = value (origin) < overridden values`
+const summary = (config: StepFlowConfig, kind: 'step' | 'guard', name: string, own = true) =>
+  resolveConfig(config, kind, name, own).entries.map(e =>
+    [`${e.path.join('.')} = ${JSON.stringify(e.value)} (${e.origin})`, ...e.overridden.map(o => `${JSON.stringify(o.value)} (${o.origin})`)].join(' < ')
+  )
+
+describe('configSources', () => {
+  it('lists defaults for every step, the type and the name, then the step config', () => {
+    expect(configSources(CONFIG, 'step', 'Pay').map(([origin]) => origin)).toEqual(['defaults.step', 'defaults.PaymentStep', 'defaults.Pay', 'steps.Pay.config'])
+    expect(configSources(CONFIG, 'step', 'Pay', false).map(([origin]) => origin)).toEqual(['defaults.step', 'defaults.PaymentStep', 'defaults.Pay'])
+    expect(configSources(CONFIG, 'step', 'Refund').map(([origin]) => origin)).toEqual(['defaults.step', 'defaults.PaymentStep'])
+    expect(configSources(CONFIG, 'guard', 'isPaid').map(([origin]) => origin)).toEqual(['defaults.guard', 'defaults.isPaid'])
+  })
+})
+
+describe('resolveConfig', () => {
+  it('lets the step config win over name, type and step defaults', () => {
+    const { value } = resolveConfig(CONFIG, 'step', 'Pay')
+    expect(value).toEqual({ timeout: 30, currency: 'USD', http: { retries: 3, pool: 8 } })
+    expect(summary(CONFIG, 'step', 'Pay')).toEqual([
+      'timeout = 30 (defaults.Pay) < 10 (defaults.step) < 20 (defaults.PaymentStep)',
+      'currency = "USD" (steps.Pay.config) < "${settings.currency}" (defaults.step)',
+      'http.retries = 3 (defaults.PaymentStep) < 1 (defaults.step)',
+      'http.pool = 8 (steps.Pay.config) < 5 (defaults.step)',
+    ])
+  })
+
+  it('keeps settings placeholders for the engine to fill in', () => {
+    expect(resolveConfig(CONFIG, 'step', 'Ship').value).toEqual({ timeout: 10, currency: '${settings.currency}', http: { retries: 1, pool: 5 } })
+    expect(resolveConfig(CONFIG, 'step', 'Refund').value.currency).toBe('${settings.currency}')
+  })
+
+  it('resolves guards from guard defaults', () => {
+    expect(summary(CONFIG, 'guard', 'isPaid')).toEqual(['cache = false (defaults.isPaid) < true (defaults.guard)'])
+  })
+
+  it('replaces a whole object with a value that is not one', () => {
+    const config: StepFlowConfig = { ...CONFIG, steps: { Pay: { type: 'PaymentStep', config: { http: null } } } }
+    expect(resolveConfig(config, 'step', 'Pay').value.http).toBeNull()
+    expect(summary(config, 'step', 'Pay').slice(-1)).toEqual(['http = null (steps.Pay.config) < 5 (defaults.step) < 1 (defaults.step) < 3 (defaults.PaymentStep)'])
+  })
+
+  it('shows an empty object only when nothing is set below it', () => {
+    const config: StepFlowConfig = { defaults: { step: { http: {}, tls: { verify: true } } }, steps: { Pay: { type: 'PaymentStep', config: { tls: {} } } } }
+    expect(summary(config, 'step', 'Pay')).toEqual(['http = {} (defaults.step)', 'tls.verify = true (defaults.step)'])
+  })
+})
+
+describe('inheritedConfig', () => {
+  it('names the highest-precedence defaults entry for each top-level key', () => {
+    expect(inheritedConfig(CONFIG, 'step', 'Pay')).toEqual({
+      timeout: { value: 30, from: 'defaults.Pay' },
+      currency: { value: '${settings.currency}', from: 'defaults.step' },
+      http: { value: { retries: 3, pool: 5 }, from: 'defaults.PaymentStep' },
+    })
+  })
+})
+
+describe('hoverInfo', () => {
+  it('shows the effective config of a step', () => {
+    const symbol = { kind: 'step' as const, name: 'Pay', definition: true, span: { start: { line: 1, column: 1 }, end: { line: 1, column: 4 } } }
+    expect(hoverInfo(CONFIG, symbol)?.lines).toEqual([
+      'type: PaymentStep',
+      'config (with defaults):',
+      '  timeout = 30',
+      '  currency = USD',
+      '  http:',
+      '    retries = 3',
+      '    pool = 8',
+    ])
+  })
+})
@@ -0,0 +1,117 @@
+import { StepFlowConfig } from '../types/stepflow'
+import { isPlainObject } from './utils'
+
+// Effective component config under the engine's defaults merge. Sources are deep-merged in
+// precedence order, later ones winning: `defaults.step` (or `defaults.guard`), defaults for
+// the component type, defaults for the step name, and finally the step's own `config`.
+// Nested objects merge key by key; any other value replaces what came before it.
+
+/** A value replaced by a higher-precedence source */
+export interface OverriddenValue {
+  path: string[]
+  value: any
+  origin: string
+}
+
+/** A leaf of the effective config and the source that set it */
+export interface ResolvedEntry {
+  /** Path from the config root */
+  path: string[]
+  value: any
+  /** Config path of the source, e.g. `defaults.step` or `steps.ProcessPayment.config` */
+  origin: string
+  /** Lower-precedence values this one replaced, in merge order */
+  overridden: OverriddenValue[]
+}
+
+export interface ResolvedConfig {
+  /** Config the component receives */
+  value: Record<string, any>
+  entries: ResolvedEntry[]
+  /** Sources that exist for the component, lowest precedence first */
+  sources: string[]
+}
+
+/** A top-level config value provided by `defaults` */
+export interface InheritedValue {
+  value: any
+  /** Defaults entry it comes from, e.g. `defaults.step` */
+  from: string
+}
+
+const startsWith = (path: string[], prefix: string[]) => prefix.length <= path.length && prefix.every((p, i) => path[i] === p)
+
+function mergeDeep(target: Record<string, any>, source: Record<string, any>): Record<string, any> {
+  for (const [k, v] of Object.entries(source)) {
+    target[k] = isPlainObject(v) && isPlainObject(target[k]) ? mergeDeep({ ...target[k] }, v) : v
+  }
+  return target
+}
+
+/**
+ * Config sources of a step (`kind: 'step'`, by step name) or guard (by guard name, which may
+ * also be a defined step), lowest precedence first. `own: false` leaves out the step's config.
+ */
+export function configSources(config: StepFlowConfig, kind: 'step' | 'guard', name: string, own = true): Array<[string, Record<string, any>]> {
+  const defaults = config.defaults || {}
+  const step = config.steps?.[name]
+  const keys: string[] = [kind]
+  if (step?.type && step.type !== name && step.type !== kind) keys.push(step.type)
+  if (name !== kind) keys.push(name)
+  const sources: Array<[string, Record<string, any>]> = keys
+    .filter(k => isPlainObject(defaults[k]))
+    .map(k => [`defaults.${k}`, defaults[k]!])
+  if (own && isPlainObject(step?.config)) sources.push([`steps.${name}.config`, step!.config!])
+  return sources
+}
+
+/** Effective config of a step or guard, with the origin of every value */
+export function resolveConfig(config: StepFlowConfig, kind: 'step' | 'guard', name: string, own = true): ResolvedConfig {
+  const sources = configSources(config, kind, name, own)
+  const entries: ResolvedEntry[] = []
+
+  const set = (path: string[], value: any, origin: string) => {
+    // The new value replaces the same key, values below it, or a non-object above it
+    const overridden: OverriddenValue[] = []
+    for (let i = entries.length - 1; i >= 0; i--) {
+      const e = entries[i]
+      if (!startsWith(e.path, path) && !startsWith(path, e.path)) continue
+      overridden.unshift(...e.overridden, { path: e.path, value: e.value, origin: e.origin })
+      entries.splice(i, 1)
+    }
+    entries.push({ path, value, origin, overridden })
+  }
+  const apply = (values: Record<string, any>, origin: string, path: string[]) => {
+    for (const [key, value] of Object.entries(values)) {
+      const p = [...path, key]
+      if (isPlainObject(value) && Object.keys(value).length > 0) apply(value, origin, p)
+      // An empty object only shows when nothing is set at or below its key
+      else if (!isPlainObject(value) || !entries.some(e => startsWith(e.path, p) && (e.path.length > p.length || isPlainObject(e.value)))) set(p, value, origin)
+    }
+  }
+  for (const [origin, values] of sources) apply(values, origin, [])
+
+  // Entries in the key order of the merged config, where a key keeps the place it was first set
+  const value = sources.reduce((merged, [, values]) => mergeDeep(merged, values), {} as Record<string, any>)
+  const order: string[] = []
+  const walk = (v: Record<string, any>, path: string[]) => Object.entries(v).forEach(([k, x]) => {
+    order.push(JSON.stringify([...path, k]))
+    if (isPlainObject(x)) walk(x, [...path, k])
+  })
+  walk(value, [])
+  entries.sort((a, b) => order.indexOf(JSON.stringify(a.path)) - order.indexOf(JSON.stringify(b.path)))
+  return { value, entries, sources: sources.map(([origin]) => origin) }
+}
+
+/**
+ * Top-level values a step or guard inherits from `defaults`, with the highest-precedence
+ * defaults entry that sets each (or sets something below it).
+ */
+export function inheritedConfig(config: StepFlowConfig, kind: 'step' | 'guard', name: string): Record<string, InheritedValue> {
+  const { value, entries, sources } = resolveConfig(config, kind, name, false)
+  const out: Record<string, InheritedValue> = {}
+  for (const { path: [key], origin } of entries) {
+    if (!out[key] || sources.indexOf(origin) > sources.indexOf(out[key].from)) out[key] = { value: value[key], from: origin }
+  }
+  return out
+}
@@ -0,0 +1,79 @@
+import { ComponentInfo, ConfigSchema, ConfigSchemaProperty } from '../types/stepflow'
+import { isPlainObject } from './utils'
+
+// Component config schemas: lookup and validation of configured values. What a step or guard
+// inherits from `defaults` is worked out in config-resolver.ts.
+
+/** A value that breaks the schema; `path` is relative to the config root */
+export interface SchemaViolation {
+  path: string[]
+  message: string
+}
+
+// `${settings.x}` style placeholders are resolved by the engine, whatever the target type
+const PLACEHOLDER_RE = /^\$\{[^}]+\}$/
+
+/** Properties of a schema (`{ properties }`, or a bare key map) */
+export function schemaProperties(schema: ConfigSchema | ConfigSchemaProperty | Record<string, any> | undefined): Record<string, ConfigSchemaProperty> {
+  if (!isPlainObject(schema)) return {}
+  return isPlainObject(schema.properties) ? schema.properties : schema as Record<string, ConfigSchemaProperty>
+}
+
+/** Catalog entry for a component type, matched by name or class name */
+export function findComponent(components: ComponentInfo[], type: string | undefined): ComponentInfo | undefined {
+  if (!type) return undefined
+  return components.find(c => c.name === type) ?? components.find(c => c.className === type)
+}
+
+function typeError(value: any, property: ConfigSchemaProperty): string | undefined {
+  switch (property.type) {
+    case 'string': return typeof value === 'string' ? undefined : 'must be a string'
+    case 'number': return typeof value === 'number' ? undefined : 'must be a number'
+    case 'integer': return Number.isInteger(value) ? undefined : 'must be an integer'
+    case 'boolean': return typeof value === 'boolean' ? undefined : 'must be true or false'
+    case 'object': return isPlainObject(value) ? undefined : 'must be an object'
+    case 'array': return Array.isArray(value) ? undefined : 'must be a list'
+  }
+  return undefined
+}
+
+function checkValue(value: any, property: ConfigSchemaProperty, path: string[], out: SchemaViolation[]) {
+  if (typeof value === 'string' && PLACEHOLDER_RE.test(value) && property.type !== 'string') return
+  const name = `'${path.join('.')}'`
+  const error = typeError(value, property)
+  if (error) {
+    out.push({ path, message: `${name} ${error}` })
+    return
+  }
+  if (property.enum && !property.enum.includes(value)) {
+    out.push({ path, message: `${name} must be one of ${property.enum.map(v => JSON.stringify(v)).join(', ')}` })
+  }
+  if (typeof value === 'number') {
+    if (property.minimum !== undefined && value < property.minimum) out.push({ path, message: `${name} must be >= ${property.minimum}` })
+    if (property.maximum !== undefined && value > property.maximum) out.push({ path, message: `${name} must be <= ${property.maximum}` })
+  }
+  if (isPlainObject(value) && property.properties) checkObject(value, property, path, out)
+  if (Array.isArray(value) && property.items) value.forEach((item, i) => checkValue(item, property.items!, [...path, String(i)], out))
+}
+
+function checkObject(value: Record<string, any>, schema: ConfigSchema | ConfigSchemaProperty, path: string[], out: SchemaViolation[]) {
+  const props = schemaProperties(schema)
+  for (const key of schema.required || []) {
+    if (value[key] === undefined && props[key]?.default === undefined) out.push({ path: [...path, key], message: `'${[...path, key].join('.')}' is required` })
+  }
+  for (const [key, v] of Object.entries(value)) {
+    if (props[key] && v !== undefined) checkValue(v, props[key], [...path, key], out)
+  }
+}
+
+/**
+ * Check a config against a component schema: required keys (a schema default counts as
+ * set), types, enums and numeric bounds, recursing into objects and lists. Keys the
+ * schema does not describe are left alone.
+ */
+export function validateAgainstSchema(value: Record<string, any> | undefined, schema: ConfigSchema | undefined): SchemaViolation[] {
+  if (!schema) return []
+  const out: SchemaViolation[] = []
+  checkObject(value || {}, schema, [], out)
+  return out
+}
@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest'
+import { ComponentInfo, StepFlowConfig } from '../types/stepflow'
+import { ConfigRuleSettings, getConfigRules, parseIssueLocation, registerConfigRule, validateConfig } from './config-validator'
+
+const VALID: StepFlowConfig = {
+  settings: { currency: 'EUR' },
+  defaults: { step: { currency: '${settings.currency}' } },
+  steps: {
+    Validate: { type: 'ValidationStep' },
+    Pay: { type: 'PaymentStep', retry: { maxAttempts: 3, delay: 1000 } },
+  },
+  workflows: {
+    Order: {
+      root: 'Validate',
+      edges: [
+        { from: 'Validate', to: 'Pay' },
+        { from: 'Pay', to: 'SUCCESS', onFailure: { strategy: 'ALTERNATIVE', alternativeTarget: 'FAILURE' } },
+      ],
+    },
+  },
+}
+
+const BROKEN: StepFlowConfig = {
+  steps: {
+    Validate: { type: 'ValidationStep', retry: { maxAttempts: 12, delay: -1 } },
+    Ship: { type: '' },
+  },
+  workflows: {
+    Order: {
+      root: 'Validate',
+      edges: [
+        { from: 'Validate', to: 'Pay' },
+        { from: 'Validate', to: 'SUCCESS', guard: 'isPaid', onFailure: { strategy: 'ALTERNATIVE', alternativeTarget: 'Valdate' } },
+        { from: 'Validate', to: 'SUCCESS', call: 'Billing' },
+      ],
+    },
+    Broken: { root: '', edges: [] },
+  },
+}
+
+const summary = (config: StepFlowConfig, settings: ConfigRuleSettings = {}, components: ComponentInfo[] = []) =>
+  validateConfig(config, settings, components).map(i => `${i.type} ${i.rule} ${i.location}`)
+
+describe('validateConfig', () => {
+  it('reports nothing for a valid config', () => {
+    expect(validateConfig(VALID)).toEqual([])
+  })
+
+  it('reports each rule with its default severity and precise location', () => {
+    expect(summary(BROKEN)).toEqual([
+      'error no-root-step workflows.Broken.root',
+      'error undefined-step workflows.Order.edges[0].to',
+      'error unknown-alternative-target workflows.Order.edges[1].onFailure.alternativeTarget',
+      'error undefined-workflow workflows.Order.edges[2].call',
+      'error empty-step-type steps.Ship.type',
+      'error invalid-retry steps.Validate.retry.delay',
+      'warning high-retry-count steps.Validate.retry.maxAttempts',
+      'warning orphaned-node steps.Ship',
+      'warning dead-end-step workflows.Order.edges[0].to',
+      'warning shadowed-edge workflows.Order.edges[1]',
+      'warning shadowed-edge workflows.Order.edges[2]',
+    ])
+  })
+
+  it('suggests the closest name for misspelled references', () => {
+    const issue = validateConfig(BROKEN).find(i => i.rule === 'unknown-alternative-target')!
+    expect(issue).toMatchObject({ didYouMean: 'Validate', workflow: 'Order', step: 'Validate', category: 'structure', title: 'Unknown Alternative Target' })
+    expect(issue.message).toBe("Alternative target 'Valdate' is not defined. Did you mean 'Validate'?")
+  })
+
+  it('applies project overrides: disabled rules, severities and options', () => {
+    const settings: ConfigRuleSettings = {
+      'dead-end-step': { enabled: false },
+      'orphaned-node': { severity: 'info' },
+      'high-retry-count': { options: { maxAttempts: 20 } },
+    }
+    const issues = summary(BROKEN, settings)
+    expect(issues).not.toContain('warning dead-end-step workflows.Order.edges[0].to')
+    expect(issues).toContain('info orphaned-node steps.Ship')
+    expect(issues.some(i => i.includes('high-retry-count'))).toBe(false)
+    expect(summary(BROKEN, { 'high-retry-count': { options: { maxAttempts: 5 } } })).toContain('warning high-retry-count steps.Validate.retry.maxAttempts')
+  })
+
+  it('checks guards only against a catalog that has guards', () => {
+    expect(summary(BROKEN).some(i => i.includes('unknown-guard'))).toBe(false)
+    expect(summary(BROKEN, {}, [{ name: 'isPayed', type: 'guard' }])).toContain('warning unknown-guard workflows.Order.edges[1].guard')
+  })
+
+  it('runs registered rules after the built-in ones', () => {
+    registerConfigRule({
+      id: 'test-no-ship',
+      title: 'No Ship',
+      category: 'logic',
+      severity: 'info',
+      check: (config, report) => {
+        if (config.steps?.Ship) report({ message: 'Ship found', location: 'steps.Ship', step: 'Ship' })
+      },
+    })
+    expect(getConfigRules().map(r => r.id).slice(-1)).toEqual(['test-no-ship'])
+    expect(summary(BROKEN).slice(-1)).toEqual(['info test-no-ship steps.Ship'])
+    expect(summary(BROKEN, { 'test-no-ship': { severity: 'error' } }).slice(-1)).toEqual(['error test-no-ship steps.Ship'])
+  })
+})
+
+describe('parseIssueLocation', () => {
+  it('splits keys and indexes', () => {
+    expect(parseIssueLocation('workflows.a.edges[3].to')).toEqual(['workflows', 'a', 'edges', 3, 'to'])
+    expect(parseIssueLocation('steps.Pay.config.codes[0][1]')).toEqual(['steps', 'Pay', 'config', 'codes', 0, 1])
+    expect(parseIssueLocation('settings.payment')).toEqual(['settings', 'payment'])
+  })
+})
@@ -0,0 +1,570 @@
+import { ComponentInfo, StepFlowConfig, ValidationIssue, WorkflowDef } from '../types/stepflow'
+import { collectGuardNames } from './refactor'
+import { closestMatch } from './utils'
+import { findComponent, validateAgainstSchema } from './config-schema'
+import { resolveConfig } from './config-resolver'
+import { analyzeSettingsUsage, settingsKeys } from './settings-usage'
+import { findCallCycles } from './workflow-calls'
+import { PathFinding, WorkflowPath, analyzeWorkflowPaths } from './path-analysis'
+
+// Validation of a whole StepFlowConfig. The canvas, the DSL editor and the YAML view all
+// report these issues so they agree on what is wrong; `location` is a precise config path
+// such as `workflows.order.edges[3].to`. Checks live in a rule registry so projects can
+// disable rules, change their severity or tune their thresholds.
+
+export type ConfigIssueCategory = 'structure' | 'configuration' | 'logic' | 'performance'
+
+export interface ConfigIssue extends ValidationIssue {
+  /** Id of the rule that reported the issue */
+  rule: string
+  category: ConfigIssueCategory
+  /** Short rule title, e.g. `Unreachable Step` */
+  title: string
+  location: string
+  suggestion?: string
+  /** Workflow the issue belongs to; unset for step-level issues */
+  workflow?: string
+  /** Step the issue is attached to on the canvas */
+  step?: string
+  /** Likely intended name for a misspelled reference */
+  didYouMean?: string
+  /** Path through the workflow to highlight on the canvas */
+  path?: WorkflowPath
+}
+
+export interface ConfigRule {
+  id: string
+  title: string
+  category: ConfigIssueCategory
+  /** Default severity, overridable per project */
+  severity: ValidationIssue['type']
+  suggestion?: string
+  /** Numeric thresholds and their defaults, overridable per project */
+  options?: Record<string, number>
+  check: (config: StepFlowConfig, report: Report, options: Record<string, number>, context: ConfigRuleContext) => void
+}
+
+/** What rules know beyond the config itself */
+export interface ConfigRuleContext {
+  /** Component catalog; guard references are only checked against a catalog with guards */
+  components: ComponentInfo[]
+}
+
+/** Project-level override of a rule's defaults */
+export interface ConfigRuleOverride {
+  enabled?: boolean
+  severity?: ValidationIssue['type']
+  options?: Record<string, number>
+}
+
+/** Rule overrides keyed by rule id, stored with the project */
+export type ConfigRuleSettings = Record<string, ConfigRuleOverride>
+
+type Report = (issue: { message: string; location: string; workflow?: string; step?: string; didYouMean?: string; path?: WorkflowPath }) => void
+
+const TERMINALS = ['SUCCESS', 'FAILURE']
+const isTerminal = (name: string) => TERMINALS.includes(name)
+
+// `Did you mean 'X'?` for a name that is close to a known one
+const didYouMean = (name: string, known: Iterable<string>) => {
+  const match = closestMatch(name, known)
+  return match ? { didYouMean: match, hint: ` Did you mean '${match}'?` } : { hint: '' }
+}
+
+// Report the path findings of one kind, with the message and location for each
+function reportPaths(
+  config: StepFlowConfig,
+  report: Report,
+  kind: PathFinding['kind'],
+  describe: (finding: PathFinding, wf: WorkflowDef, name: string) => { message: string; location: string },
+) {
+  for (const [name, wf] of workflows(config)) {
+    for (const finding of analyzeWorkflowPaths(wf)) {
+      if (finding.kind !== kind) continue
+      report({ ...describe(finding, wf, name), workflow: name, step: finding.step, path: finding.path })
+    }
+  }
+}
+
+// Where the path to a step enters it: the edge's target or ALTERNATIVE target, or the root
+function entryLocation(name: string, wf: WorkflowDef, { step, edge }: PathFinding): string {
+  if (edge === undefined) return `workflows.${name}.root`
+  return `workflows.${name}.edges[${edge}]${wf.edges[edge].to === step ? '.to' : '.onFailure.alternativeTarget'}`
+}
+
+const workflows = (config: StepFlowConfig) => Object.entries(config.workflows || {})
+const steps = (config: StepFlowConfig) => Object.entries(config.steps || {})
+
+/** Steps reachable from the workflow root, following `to` and ALTERNATIVE targets */
+export function reachableSteps(wf: WorkflowDef): Map<string, number> {
+  const depth = new Map<string, number>()
+  if (!wf.root) return depth
+  depth.set(wf.root, 0)
+  const queue = [wf.root]
+  while (queue.length > 0) {
+    const current = queue.shift()!
+    for (const edge of wf.edges || []) {
+      if (edge.from !== current) continue
+      for (const next of [edge.to, edge.onFailure?.alternativeTarget]) {
+        if (next && !depth.has(next)) {
+          depth.set(next, depth.get(current)! + 1)
+          queue.push(next)
+        }
+      }
+    }
+  }
+  return depth
+}
+
+const BUILTIN_RULES: ConfigRule[] = [
+  {
+    id: 'no-root-step',
+    title: 'No Root Step',
+    category: 'structure',
+    severity: 'error',
+    suggestion: 'Set the root step the workflow starts from',
+    check: (config, report) => {
+      for (const [name, wf] of workflows(config)) {
+        if (!wf.root) report({ message: 'Workflow must have a root step', location: `workflows.${name}.root`, workflow: name })
+      }
+    },
+  },
+  {
+    id: 'undefined-step',
+    title: 'Undefined Step',
+    category: 'structure',
+    severity: 'error',
+    suggestion: 'Add a step definition or fix the name',
+    check: (config, report) => {
+      const defined = (name: string) => !name || isTerminal(name) || !!config.steps?.[name]
+      for (const [name, wf] of workflows(config)) {
+        if (!defined(wf.root)) {
+          report({ message: `Root step '${wf.root}' is not defined`, location: `workflows.${name}.root`, workflow: name, step: wf.root })
+        }
+        ;(wf.edges || []).forEach((edge, i) => {
+          if (!defined(edge.from)) {
+            report({ message: `Source step '${edge.from}' is not defined`, location: `workflows.${name}.edges[${i}].from`, workflow: name, step: edge.from })
+          }
+          if (!defined(edge.to)) {
+            report({ message: `Target step '${edge.to}' is not defined`, location: `workflows.${name}.edges[${i}].to`, workflow: name, step: edge.to })
+          }
+        })
+      }
+    },
+  },
+  {
+    id: 'unknown-alternative-target',
+    title: 'Unknown Alternative Target',
+    category: 'structure',
+    severity: 'error',
+    suggestion: 'Point the failure handler at a defined step, SUCCESS or FAILURE',
+    check: (config, report) => {
+      const known = [...TERMINALS, ...Object.keys(config.steps || {})]
+      for (const [name, wf] of workflows(config)) {
+        ;(wf.edges || []).forEach((edge, i) => {
+          const target = edge.onFailure?.strategy === 'ALTERNATIVE' ? edge.onFailure.alternativeTarget : undefined
+          if (!target || isTerminal(target) || config.steps?.[target]) return
+          const { hint, ...match } = didYouMean(target, known)
+          report({
+            message: `Alternative target '${target}' is not defined.${hint}`,
+            location: `workflows.${name}.edges[${i}].onFailure.alternativeTarget`,
+            workflow: name,
+            step: edge.from,
+            ...match,
+          })
+        })
+      }
+    },
+  },
+  {
+    id: 'undefined-workflow',
+    title: 'Undefined Workflow',
+    category: 'structure',
+    severity: 'error',
+    suggestion: 'Define the called workflow or fix the name',
+    check: (config, report) => {
+      for (const [name, wf] of workflows(config)) {
+        ;(wf.edges || []).forEach((edge, i) => {
+          if (edge.call && !config.workflows?.[edge.call]) {
+            report({ message: `Called workflow '${edge.call}' is not defined`, location: `workflows.${name}.edges[${i}].call`, workflow: name })
+          }
+        })
+      }
+    },
+  },
+  {
+    id: 'call-cycle',
+    title: 'Workflow Call Cycle',
+    category: 'logic',
+    severity: 'error',
+    suggestion: 'Break the cycle; a workflow cannot (indirectly) call itself',
+    check: (config, report) => {
+      // Each workflow on a cycle gets the error at its edge into the next one
+      for (const cycle of findCallCycles(config)) {
+        cycle.slice(0, -1).forEach((name, at) => {
+          const i = (config.workflows?.[name]?.edges || []).findIndex(e => e.call === cycle[at + 1])
+          report({ message: `Workflow call cycle: ${cycle.join(' -> ')}`, location: `workflows.${name}.edges[${i}].call`, workflow: name })
+        })
+      }
+    },
+  },
+  {
+    id: 'empty-step-type',
+    title: 'Empty Step Type',
+    category: 'configuration',
+    severity: 'error',
+    suggestion: 'Specify a component type (e.g. "ValidateOrderStep")',
+    check: (config, report) => {
+      for (const [name, step] of steps(config)) {
+        if (!step.type?.trim()) report({ message: 'Step type is required', location: `steps.${name}.type`, step: name })
+      }
+    },
+  },
+  {
+    id: 'invalid-retry',
+    title: 'Invalid Retry Policy',
+    category: 'configuration',
+    severity: 'error',
+    check: (config, report) => {
+      for (const [name, step] of steps(config)) {
+        if (!step.retry) continue
+        if (step.retry.maxAttempts < 1) report({ message: 'Max attempts must be >= 1', location: `steps.${name}.retry.maxAttempts`, step: name })
+        if (step.retry.delay < 0) report({ message: 'Delay must be >= 0', location: `steps.${name}.retry.delay`, step: name })
+      }
+    },
+  },
+  {
+    id: 'unknown-guard',
+    title: 'Unknown Guard',
+    category: 'configuration',
+    severity: 'warning',
+    suggestion: 'Use a guard from the component catalog or a guard step defined in this config',
+    check: (config, report, _options, { components }) => {
+      const catalog = components.filter(c => c.type === 'guard').flatMap(c => [c.name, ...(c.className ? [c.className] : [])])
+      if (catalog.length === 0) return
+      const known = new Set([...catalog, ...Object.keys(config.steps || {})])
+      const check = (guard: string | undefined, location: string, scope: { workflow?: string; step: string }) => {
+        if (!guard || known.has(guard)) return
+        const { hint, ...match } = didYouMean(guard, known)
+        report({ message: `Guard '${guard}' is not a known guard.${hint}`, location, ...scope, ...match })
+      }
+      for (const [name, step] of steps(config)) {
+        step.guards?.forEach((guard, j) => check(guard, `steps.${name}.guards[${j}]`, { step: name }))
+        check(step.retry?.guard, `steps.${name}.retry.guard`, { step: name })
+      }
+      for (const [name, wf] of workflows(config)) {
+        ;(wf.edges || []).forEach((edge, i) => check(edge.guard, `workflows.${name}.edges[${i}].guard`, { workflow: name, step: edge.from }))
+      }
+    },
+  },
+  {
+    id: 'unknown-defaults-key',
+    title: 'Unknown Defaults Key',
+    category: 'configuration',
+    severity: 'warning',
+    suggestion: 'Name-specific defaults apply to a step name, step type or guard type',
+    check: (config, report, _options, { components }) => {
+      const known = new Set<string>([...collectGuardNames(config), ...components.map(c => c.name)])
+      for (const [name, step] of steps(config)) {
+        known.add(name)
+        if (step.type) known.add(step.type)
+      }
+      for (const key of Object.keys(config.defaults || {})) {
+        if (key === 'step' || key === 'guard' || known.has(key)) continue
+        const { hint, ...match } = didYouMean(key, known)
+        report({ message: `Defaults for '${key}' match no step or guard.${hint}`, location: `defaults.${key}`, ...match })
+      }
+    },
+  },
+  {
+    id: 'invalid-step-config',
+    title: 'Invalid Step Config',
+    category: 'configuration',
+    severity: 'error',
+    suggestion: "Match the config to the component's schema",
+    check: (config, report, _options, { components }) => {
+      for (const [name, step] of steps(config)) {
+        const schema = findComponent(components, step.type)?.schema
+        if (!schema) continue
+        const own = `steps.${name}.config`
+        const { value, entries, sources } = resolveConfig(config, 'step', name)
+        for (const { path, message } of validateAgainstSchema(value, schema)) {
+          // Point at the value where it is set: the step, the defaults it inherits, or the config block
+          const origin = entries
+            .filter(e => e.path.every((p, i) => path[i] === p) || path.every((p, i) => e.path[i] === p))
+            .map(e => e.origin)
+            .sort((a, b) => sources.indexOf(b) - sources.indexOf(a))[0]
+          const location = origin ? `${origin}.${path.join('.')}` : step.config ? own : `steps.${name}`
+          report({ message: origin && origin !== own ? `${message} (inherited from ${origin})` : message, location, step: name })
+        }
+      }
+    },
+  },
+  {
+    id: 'undefined-setting',
+    title: 'Undefined Setting',
+    category: 'configuration',
+    severity: 'warning',
+    suggestion: 'Add the key to settings or fix the reference',
+    check: (config, report, _options, { components }) => {
+      // Object paths are valid targets too, so suggestions come from every prefix of every leaf
+      const known = new Set(settingsKeys(config.settings).flatMap(k => k.split('.').map((_, i, parts) => parts.slice(0, i + 1).join('.'))))
+      for (const ref of analyzeSettingsUsage(config, components).undefinedRefs) {
+        const { hint } = didYouMean(ref.key, known)
+        if (!ref.property) {
+          report({ message: `'${ref.location}' reads setting '${ref.key}', which is not defined.${hint}`, location: ref.location, step: ref.steps.length === 1 ? ref.steps[0] : undefined })
+          continue
+        }
+        for (const step of ref.steps) {
+          const key = ref.property.join('.')
+          report({ message: `Step '${step}' leaves '${key}' unset, so ${ref.component} reads setting '${ref.key}', which is not defined.${hint}`, location: `steps.${step}`, step })
+        }
+      }
+    },
+  },
+  {
+    id: 'unused-setting',
+    title: 'Unused Setting',
+    category: 'configuration',
+    severity: 'info',
+    suggestion: 'Remove the setting, or reference it with ${settings.<key>} or a component globalPath',
+    check: (config, report, _options, { components }) => {
+      for (const key of analyzeSettingsUsage(config, components).unused) {
+        report({ message: `Setting '${key}' is not read by any step config, defaults entry or catalog component`, location: `settings.${key}` })
+      }
+    },
+  },
+  {
+    id: 'high-retry-count',
+    title: 'High Retry Count',
+    category: 'performance',
+    severity: 'warning',
+    suggestion: 'Consider reducing the retry count to avoid long delays',
+    options: { maxAttempts: 10 },
+    check: (config, report, { maxAttempts }) => {
+      for (const [name, step] of steps(config)) {
+        const attempts = step.retry?.maxAttempts ?? 0
+        if (attempts > maxAttempts) report({ message: `Step '${name}' retries up to ${attempts} times`, location: `steps.${name}.retry.maxAttempts`, step: name })
+      }
+      for (const [name, wf] of workflows(config)) {
+        ;(wf.edges || []).forEach((edge, i) => {
+          const attempts = edge.onFailure?.strategy === 'RETRY' ? edge.onFailure.retryAttempts ?? 0 : 0
+          if (attempts > maxAttempts) {
+            report({ message: `Edge ${edge.from} -> ${edge.to} retries up to ${attempts} times`, location: `workflows.${name}.edges[${i}].onFailure.retryAttempts`, workflow: name, step: edge.from })
+          }
+        })
+      }
+    },
+  },
+  {
+    id: 'unreachable-node',
+    title: 'Unreachable Step',
+    category: 'structure',
+    severity: 'warning',
+    suggestion: 'Connect the step to a path from the root step',
+    check: (config, report) => {
+      for (const [name, wf] of workflows(config)) {
+        if (!wf.root) continue
+        const reachable = reachableSteps(wf)
+        const seen = new Set<string>()
+        ;(wf.edges || []).forEach((edge, i) => {
+          if (reachable.has(edge.from) || seen.has(edge.from)) return
+          seen.add(edge.from)
+          report({ message: `Step '${edge.from}' cannot be reached from root '${wf.root}'`, location: `workflows.${name}.edges[${i}].from`, workflow: name, step: edge.from })
+        })
+      }
+    },
+  },
+  {
+    id: 'orphaned-node',
+    title: 'Unused Step',
+    category: 'structure',
+    severity: 'warning',
+    suggestion: 'Use the step in a workflow or remove it',
+    check: (config, report) => {
+      const used = collectGuardNames(config)
+      for (const [, wf] of workflows(config)) {
+        if (wf.root) used.add(wf.root)
+        wf.edges?.forEach(e => {
+          used.add(e.from)
+          used.add(e.to)
+          if (e.onFailure?.alternativeTarget) used.add(e.onFailure.alternativeTarget)
+        })
+      }
+      for (const [name] of steps(config)) {
+        if (!used.has(name)) report({ message: `Step '${name}' is not used by any workflow`, location: `steps.${name}`, step: name })
+      }
+    },
+  },
+  {
+    id: 'missing-guard-failure',
+    title: 'Missing Guard Failure Branch',
+    category: 'logic',
+    severity: 'info',
+    suggestion: 'Add a failure branch or an unguarded fallback edge',
+    check: (config, report) => {
+      for (const [name, wf] of workflows(config)) {
+        const edges = wf.edges || []
+        edges.forEach((edge, i) => {
+          if (!edge.guard || edge.onFailure || edges.some(e => e.from === edge.from && !e.guard)) return
+          report({ message: `Guard '${edge.guard}' on ${edge.from} -> ${edge.to} has no failure branch`, location: `workflows.${name}.edges[${i}].guard`, workflow: name, step: edge.from })
+        })
+      }
+    },
+  },
+  {
+    id: 'no-terminal-path',
+    title: 'No Terminal Path',
+    category: 'logic',
+    severity: 'warning',
+    suggestion: 'Make sure some path ends in SUCCESS or FAILURE',
+    check: (config, report) => {
+      for (const [name, wf] of workflows(config)) {
+        if (!wf.root || !wf.edges?.length || isTerminal(wf.root)) continue
+        const reachable = reachableSteps(wf)
+        if (!TERMINALS.some(t => reachable.has(t))) {
+          report({ message: `No path from root '${wf.root}' reaches SUCCESS or FAILURE`, location: `workflows.${name}.root`, workflow: name, step: wf.root })
+        }
+      }
+    },
+  },
+  {
+    id: 'dead-end-step',
+    title: 'Dead-End Step',
+    category: 'logic',
+    severity: 'warning',
+    suggestion: 'Add an edge from the step, e.g. to SUCCESS or FAILURE',
+    check: (config, report) => reportPaths(config, report, 'dead-end', (f, wf, name) => ({
+      message: `Step '${f.step}' has no outgoing edge, so this path never reaches SUCCESS or FAILURE`,
+      location: entryLocation(name, wf, f),
+    })),
+  },
+  {
+    id: 'failure-only-path',
+    title: 'Failure-Only Path',
+    category: 'logic',
+    severity: 'info',
+    suggestion: 'Expected for error handling steps; otherwise add a path to SUCCESS',
+    check: (config, report) => reportPaths(config, report, 'failure-only', (f, wf, name) => ({
+      message: `Only FAILURE can be reached from '${f.step}'`,
+      location: entryLocation(name, wf, f),
+    })),
+  },
+  {
+    id: 'unguarded-cycle',
+    title: 'Endless Loop',
+    category: 'logic',
+    severity: 'error',
+    suggestion: 'Guard an edge of the loop, or add a guarded exit before the looping edge',
+    check: (config, report) => reportPaths(config, report, 'unguarded-cycle', (f, _wf, name) => ({
+      message: `Steps loop forever without a guarded exit: ${[...f.path.steps, f.path.steps[0]].join(' -> ')}`,
+      location: `workflows.${name}.edges[${f.edge}]`,
+    })),
+  },
+  {
+    id: 'shadowed-edge',
+    title: 'Unreachable Edge',
+    category: 'logic',
+    severity: 'warning',
+    suggestion: 'Edges are tried in order; move guarded edges before the unguarded one',
+    check: (config, report) => reportPaths(config, report, 'shadowed-edge', (f, wf, name) => {
+      const [winner, edge] = f.path.edges.map(i => wf.edges[i])
+      return {
+        message: `Edge ${edge.from} -> ${edge.to} is never taken; the earlier unguarded ${winner.from} -> ${winner.to} always wins`,
+        location: `workflows.${name}.edges[${f.edge}]`,
+      }
+    }),
+  },
+  {
+    id: 'high-depth',
+    title: 'Deep Workflow',
+    category: 'performance',
+    severity: 'info',
+    suggestion: 'Consider breaking it into smaller called workflows',
+    options: { maxDepth: 10 },
+    check: (config, report, { maxDepth }) => {
+      for (const [name, wf] of workflows(config)) {
+        const depth = Math.max(0, ...reachableSteps(wf).values())
+        if (depth > maxDepth) report({ message: `Workflow is ${depth} steps deep`, location: `workflows.${name}`, workflow: name })
+      }
+    },
+  },
+  {
+    id: 'high-branching',
+    title: 'Highly Branched Workflow',
+    category: 'performance',
+    severity: 'info',
+    suggestion: 'Consider simplifying the guard logic',
+    options: { maxBranches: 20 },
+    check: (config, report, { maxBranches }) => {
+      for (const [name, wf] of workflows(config)) {
+        const guarded = (wf.edges || []).filter(e => e.guard).length
+        if (guarded > maxBranches) report({ message: `Workflow has ${guarded} guarded edges`, location: `workflows.${name}.edges`, workflow: name })
+      }
+    },
+  },
+  {
+    id: 'complex-config',
+    title: 'Complex Configuration',
+    category: 'performance',
+    severity: 'info',
+    suggestion: 'Consider moving shared values to defaults or settings',
+    options: { maxKeys: 10 },
+    check: (config, report, { maxKeys }) => {
+      for (const [name, step] of steps(config)) {
+        const keys = Object.keys(step.config || {}).length
+        if (keys > maxKeys) report({ message: `Step '${name}' has ${keys} config properties`, location: `steps.${name}.config`, step: name })
+      }
+    },
+  },
+]
+
+const registry = new Map<string, ConfigRule>(BUILTIN_RULES.map(rule => [rule.id, rule]))
+
+/** Add a rule to the registry; a rule with the same id is replaced */
+export function registerConfigRule(rule: ConfigRule): void {
+  registry.set(rule.id, rule)
+}
+
+/** Registered rules in the order they run */
+export function getConfigRules(): ConfigRule[] {
+  return [...registry.values()]
+}
+
+/**
+ * Every issue in the config, across all workflows and steps, with project rule overrides
+ * applied. `components` is the catalog guard and defaults references are checked against.
+ */
+export function validateConfig(config: StepFlowConfig, settings: ConfigRuleSettings = {}, components: ComponentInfo[] = []): ConfigIssue[] {
+  const issues: ConfigIssue[] = []
+  const context: ConfigRuleContext = { components }
+  for (const rule of registry.values()) {
+    const override = settings[rule.id] || {}
+    if (override.enabled === false) continue
+    const options = { ...rule.options, ...override.options }
+    rule.check(config, issue => issues.push({
+      type: override.severity || rule.severity,
+      rule: rule.id,
+      category: rule.category,
+      title: rule.title,
+      suggestion: rule.suggestion,
+      ...issue,
+    }), options, context)
+  }
+  return issues
+}
+
+/** Split an issue location into keys and indexes: `workflows.a.edges[3].to` -> `['workflows', 'a', 'edges', 3, 'to']` */
+export function parseIssueLocation(location: string): Array<string | number> {
+  const path: Array<string | number> = []
+  for (const part of location.split('.')) {
+    const m = part.match(/^([^[]*)((?:\[\d+\])*)$/)
+    if (!m) {
+      path.push(part)
+      continue
+    }
+    if (m[1]) path.push(m[1])
+    for (const idx of m[2].match(/\d+/g) || []) path.push(Number(idx))
+  }
+  return path
+}
@@ -0,0 +1,129 @@
+import { describe, expect, it } from 'vitest'
+import { StepFlowConfig } from '../types/stepflow'
+import { ExecutionTrace, WorkflowSimulator } from './workflow-simulator'
+import { computeCoverage, describeCoverageItem } from './coverage'
+
+const CONFIG: StepFlowConfig = {
+  steps: {
+    Validate: { type: 'ValidationStep', guards: ['hasOrder'] },
+    Pay: { type: 'PaymentStep' },
+    Review: { type: 'ReviewStep' },
+    Ship: { type: 'ShipStep' },
+    Tax: { type: 'TaxStep' },
+  },
+  workflows: {
+    Order: {
+      root: 'Validate',
+      edges: [
+        { from: 'Validate', to: 'Pay', guard: 'isValid', onFailure: { strategy: 'ALTERNATIVE', alternativeTarget: 'Review' } },
+        { from: 'Pay', to: 'SUCCESS', call: 'Billing' },
+        { from: 'Review', to: 'FAILURE' },
+      ],
+    },
+    Billing: {
+      root: 'Tax',
+      edges: [{ from: 'Tax', to: 'SUCCESS', guard: 'taxOk', onFailure: { strategy: 'STOP' } }],
+    },
+  },
+}
+
+const simulate = async (config: StepFlowConfig, guards: Record<string, boolean> = {}): Promise<ExecutionTrace> => {
+  const simulator = new WorkflowSimulator()
+  const id = simulator.createTrace('Order', [], [])
+  await simulator.startSimulation(id, config, 'Order', { seed: 1, scenario: { name: 'test', guards } })
+  return simulator.getTrace(id)!
+}
+
+// Covered items of a workflow by name
+const covered = (config: StepFlowConfig, traces: ExecutionTrace[], workflow: string) => {
+  const coverage = computeCoverage(config, traces).workflows.find(w => w.workflow === workflow)!
+  return coverage.items.filter(i => i.covered).map(i => `${i.kind} ${describeCoverageItem(config, workflow, i)}`)
+}
+
+describe('computeCoverage', () => {
+  it('counts what a run exercised, per kind and in whole percent', async () => {
+    const report = computeCoverage(CONFIG, [await simulate(CONFIG)])
+    const [order, billing] = report.workflows
+    expect(order).toMatchObject({
+      workflow: 'Order',
+      covered: 6,
+      total: 12,
+      percent: 50,
+      byKind: {
+        step: { covered: 2, total: 3, percent: 66 },
+        edge: { covered: 2, total: 3, percent: 66 },
+        guard: { covered: 2, total: 4, percent: 50 },
+        failure: { covered: 0, total: 2, percent: 0 },
+      },
+    })
+    expect(billing).toMatchObject({ workflow: 'Billing', covered: 3, total: 5, percent: 60 })
+    expect(report).toMatchObject({ covered: 9, total: 17, percent: 52, traces: 1 })
+  })
+
+  it('counts a failing call as the failure branch of the callee edge and of the calling edge', async () => {
+    const traces = [await simulate(CONFIG, { taxOk: false })]
+    expect(covered(CONFIG, traces, 'Billing')).toEqual([
+      'step Tax',
+      'guard Tax -> SUCCESS [taxOk = false]',
+      'failure Tax -> SUCCESS on failure (STOP)',
+    ])
+    expect(covered(CONFIG, traces, 'Order')).toContain('failure Pay -> Billing -> SUCCESS on failure (STOP)')
+    expect(covered(CONFIG, traces, 'Order')).not.toContain('edge Pay -> Billing -> SUCCESS')
+  })
+
+  it('counts alternatives, failed step guards and skipped steps', async () => {
+    const traces = [await simulate(CONFIG, { hasOrder: false, isValid: false })]
+    expect(covered(CONFIG, traces, 'Order')).toEqual([
+      'guard Validate [hasOrder = false]',
+      'step Review',
+      'guard Validate -> Pay [isValid = false]',
+      'failure Validate -> Pay on failure (ALTERNATIVE to Review)',
+      'edge Review -> FAILURE',
+    ])
+  })
+
+  it('adds up runs until everything is covered', async () => {
+    const traces = [
+      await simulate(CONFIG),
+      await simulate(CONFIG, { taxOk: false }),
+      await simulate(CONFIG, { hasOrder: false, isValid: false }),
+    ]
+    const report = computeCoverage(CONFIG, traces)
+    expect(report.workflows.map(w => [w.workflow, w.covered, w.total])).toEqual([['Order', 12, 12], ['Billing', 5, 5]])
+    expect(report).toMatchObject({ covered: 17, total: 17, percent: 100, traces: 3 })
+  })
+
+  it('matches edges of a trace against an edited config by what they connect', async () => {
+    const traces = [await simulate(CONFIG)]
+    const edited: StepFlowConfig = {
+      ...CONFIG,
+      workflows: {
+        ...CONFIG.workflows,
+        Order: {
+          root: 'Validate',
+          edges: [
+            { from: 'Review', to: 'FAILURE' },
+            CONFIG.workflows!.Order.edges[0],
+            { from: 'Pay', to: 'Ship', call: 'Billing' },
+            { from: 'Ship', to: 'SUCCESS' },
+          ],
+        },
+      },
+    }
+    expect(covered(edited, traces, 'Order')).toEqual([
+      'step Validate',
+      'guard Validate [hasOrder = true]',
+      'step Pay',
+      'edge Validate -> Pay',
+      'guard Validate -> Pay [isValid = true]',
+    ])
+    expect(computeCoverage(edited, traces).workflows[0].byKind.edge).toEqual({ covered: 1, total: 4, percent: 25 })
+  })
+
+  it('ignores traces without a recorded run and is complete when there is nothing to cover', async () => {
+    const simulator = new WorkflowSimulator()
+    const unrun = simulator.getTrace(simulator.createTrace('Order', [], []))!
+    expect(computeCoverage(CONFIG, [unrun])).toMatchObject({ covered: 0, total: 17, percent: 0, traces: 0 })
+    expect(computeCoverage({ workflows: {} }, [])).toEqual({ workflows: [], traces: 0, covered: 0, total: 0, percent: 100 })
+  })
+})
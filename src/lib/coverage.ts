@@ -0,0 +1,240 @@
+import { EdgeDef, StepFlowConfig } from '../types/stepflow'
+import { ExecutionTrace } from './workflow-simulator'
+
+// Path coverage of simulation traces: which steps ran, which edges were taken, which guard
+// outcomes were seen and which failure branches were exercised, per workflow of the current
+// config. Traces are matched through the config they recorded, so runs made before an edit
+// still count for the edges that are unchanged by it.
+
+export type CoverageItemKind = 'step' | 'edge' | 'guard' | 'failure'
+
+export interface CoverageItem {
+  kind: CoverageItemKind
+  /** Step the item belongs to; for edge items, the edge's source */
+  step: string
+  /** Index of the edge in its workflow's `edges`, for edge items and edge guards */
+  edge?: number
+  guard?: string
+  /** Guard result the item asks for */
+  outcome?: boolean
+  covered: boolean
+}
+
+export interface CoverageCount {
+  covered: number
+  total: number
+  /** Whole percent; 100 when there is nothing to cover */
+  percent: number
+}
+
+export interface WorkflowCoverage extends CoverageCount {
+  workflow: string
+  items: CoverageItem[]
+  byKind: Record<CoverageItemKind, CoverageCount>
+}
+
+export interface CoverageReport extends CoverageCount {
+  workflows: WorkflowCoverage[]
+  /** Traces the report was built from */
+  traces: number
+}
+
+export const COVERAGE_KINDS: CoverageItemKind[] = ['step', 'edge', 'guard', 'failure']
+
+export const COVERAGE_KIND_LABELS: Record<CoverageItemKind, string> = {
+  step: 'Steps',
+  edge: 'Edges',
+  guard: 'Guard outcomes',
+  failure: 'Failure branches',
+}
+
+const isTerminal = (name: string) => name === 'SUCCESS' || name === 'FAILURE'
+
+// Edges are recognised across config versions by what they connect and check
+const edgeKey = (edge: EdgeDef) => JSON.stringify([edge.from, edge.to, edge.call ?? null, edge.guard ?? null])
+
+const count = (covered: number, total: number): CoverageCount => ({
+  covered,
+  total,
+  percent: total === 0 ? 100 : Math.floor((covered / total) * 100),
+})
+
+// What the traces exercised in one workflow
+interface Hits {
+  steps: Set<string>
+  edges: Set<string>
+  /** `step|<step>|<guard>|<outcome>` or `edge|<edge key>|<outcome>` */
+  guards: Set<string>
+  failures: Set<string>
+}
+
+// Hits by workflow name; records of called workflows count for the callee
+function collectHits(traces: ExecutionTrace[]): Map<string, Hits> {
+  const hits = new Map<string, Hits>()
+  const of = (trace: ExecutionTrace, workflow: string | undefined) => {
+    const name = workflow ? workflow.split('/').pop()! : trace.workflowName
+    if (!hits.has(name)) hits.set(name, { steps: new Set(), edges: new Set(), guards: new Set(), failures: new Set() })
+    return { name, hits: hits.get(name)! }
+  }
+
+  for (const trace of traces) {
+    const recorded = trace.input?.config.workflows
+    if (!recorded) continue
+    const recordedEdge = (workflow: string, index: number | undefined) => (index === undefined ? undefined : recorded[workflow]?.edges?.[index])
+
+    for (const step of trace.steps) {
+      if (step.status === 'success' || step.status === 'failed') of(trace, step.workflow).hits.steps.add(step.stepName)
+    }
+    for (const g of trace.guards) {
+      const { name, hits } = of(trace, g.workflow)
+      if (g.kind === 'step') hits.guards.add(`step|${g.step}|${g.guard}|${g.passed}`)
+      const edge = g.kind === 'edge' ? recordedEdge(name, g.edge) : undefined
+      if (!edge) continue
+      hits.guards.add(`edge|${edgeKey(edge)}|${g.passed}`)
+      // A failed guard is handled by the edge's onFailure, even when SKIP leaves no transition
+      if (!g.passed && edge.onFailure) hits.failures.add(edgeKey(edge))
+    }
+    for (const t of trace.transitions) {
+      const { name, hits } = of(trace, t.workflow)
+      const edge = recordedEdge(name, t.edge)
+      if (!edge) continue
+      if (t.kind === 'edge' || t.kind === 'continue') hits.edges.add(edgeKey(edge))
+      if (t.kind === 'continue' || t.kind === 'alternative' || t.kind === 'stop') hits.failures.add(edgeKey(edge))
+    }
+  }
+  return hits
+}
+
+/** Steps of a workflow: its root and every step an edge leaves from or leads to */
+export function workflowStepNames(config: StepFlowConfig, workflow: string): string[] {
+  const wf = config.workflows?.[workflow]
+  if (!wf) return []
+  const names = [wf.root]
+  for (const edge of wf.edges || []) {
+    names.push(edge.from, edge.to)
+    if (edge.onFailure?.strategy === 'ALTERNATIVE' && edge.onFailure.alternativeTarget) names.push(edge.onFailure.alternativeTarget)
+  }
+  return Array.from(new Set(names.filter(n => n && !isTerminal(n))))
+}
+
+// Coverage items of a workflow, checked against its hits
+function workflowItems(config: StepFlowConfig, workflow: string, hits: Hits | undefined): CoverageItem[] {
+  const h = hits ?? { steps: new Set<string>(), edges: new Set<string>(), guards: new Set<string>(), failures: new Set<string>() }
+  const items: CoverageItem[] = []
+  for (const step of workflowStepNames(config, workflow)) {
+    items.push({ kind: 'step', step, covered: h.steps.has(step) })
+    for (const guard of config.steps?.[step]?.guards || []) {
+      for (const outcome of [true, false]) {
+        items.push({ kind: 'guard', step, guard, outcome, covered: h.guards.has(`step|${step}|${guard}|${outcome}`) })
+      }
+    }
+  }
+  ;(config.workflows![workflow].edges || []).forEach((edge, index) => {
+    const key = edgeKey(edge)
+    items.push({ kind: 'edge', step: edge.from, edge: index, covered: h.edges.has(key) })
+    if (edge.guard) {
+      for (const outcome of [true, false]) {
+        items.push({ kind: 'guard', step: edge.from, edge: index, guard: edge.guard, outcome, covered: h.guards.has(`edge|${key}|${outcome}`) })
+      }
+    }
+    // A failed call ends the caller in FAILURE even without onFailure
+    if (edge.onFailure || edge.call) items.push({ kind: 'failure', step: edge.from, edge: index, covered: h.failures.has(key) })
+  })
+  return items
+}
+
+/**
+ * Coverage of every workflow in `config` by `traces`. Steps count once they ran (skipped
+ * steps do not), edges once taken, step and edge guards need both a passing and a failing
+ * evaluation, and the failure branch of an edge with `onFailure` or a `call` once its guard
+ * or call failed. Traces without a recorded run are ignored.
+ */
+export function computeCoverage(config: StepFlowConfig, traces: ExecutionTrace[]): CoverageReport {
+  const hits = collectHits(traces)
+  const workflows = Object.keys(config.workflows || {}).map(workflow => {
+    const items = workflowItems(config, workflow, hits.get(workflow))
+    const byKind = Object.fromEntries(
+      COVERAGE_KINDS.map(kind => {
+        const ofKind = items.filter(i => i.kind === kind)
+        return [kind, count(ofKind.filter(i => i.covered).length, ofKind.length)]
+      })
+    ) as Record<CoverageItemKind, CoverageCount>
+    return { workflow, items, byKind, ...count(items.filter(i => i.covered).length, items.length) }
+  })
+  const covered = workflows.reduce((n, w) => n + w.covered, 0)
+  const total = workflows.reduce((n, w) => n + w.total, 0)
+  return { workflows, traces: traces.filter(t => t.input).length, ...count(covered, total) }
+}
+
+/** Readable name of an item, e.g. `Pay -> Ship [isPaid = false]` */
+export function describeCoverageItem(config: StepFlowConfig, workflow: string, item: CoverageItem): string {
+  const edge = item.edge === undefined ? undefined : config.workflows?.[workflow]?.edges?.[item.edge]
+  const edgeName = edge ? `${edge.from} -> ${edge.call ? `${edge.call} -> ` : ''}${edge.to}` : item.step
+  switch (item.kind) {
+    case 'step':
+      return item.step
+    case 'edge':
+      return edgeName
+    case 'guard':
+      return `${edge ? edgeName : item.step} [${item.guard} = ${item.outcome}]`
+    case 'failure': {
+      const strategy = edge?.onFailure?.strategy
+      const target = strategy === 'ALTERNATIVE' ? ` to ${edge!.onFailure!.alternativeTarget || 'FAILURE'}` : ''
+      return `${edgeName} on failure (${strategy ?? 'STOP'}${target})`
+    }
+  }
+}
+
+export function formatCoverageJson(config: StepFlowConfig, report: CoverageReport): string {
+  return JSON.stringify(
+    {
+      ...report,
+      workflows: report.workflows.map(w => ({
+        ...w,
+        items: w.items.map(item => ({ ...item, name: describeCoverageItem(config, w.workflow, item) })),
+      })),
+    },
+    null,
+    2
+  )
+}
+
+const escapeHtml = (text: string) =>
+  text.replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[c]!)
+
+/** Standalone HTML page of the report, with the uncovered items of each workflow */
+export function formatCoverageHtml(config: StepFlowConfig, report: CoverageReport): string {
+  const ratio = (c: CoverageCount) => `${c.percent}% (${c.covered}/${c.total})`
+  const sections = report.workflows.map(w => {
+    const kinds = COVERAGE_KINDS.filter(k => w.byKind[k].total > 0)
+      .map(k => `<tr><td>${COVERAGE_KIND_LABELS[k]}</td><td>${ratio(w.byKind[k])}</td></tr>`)
+      .join('')
+    const missed = w.items.filter(i => !i.covered)
+    const list = missed.length === 0
+      ? '<p>Everything covered.</p>'
+      : `<ul>${missed.map(i => `<li><span class="kind">${i.kind}</span> ${escapeHtml(describeCoverageItem(config, w.workflow, i))}</li>`).join('')}</ul>`
+    return `<section><h2>${escapeHtml(w.workflow)} <span class="${w.percent === 100 ? 'full' : 'partial'}">${w.percent}%</span></h2><table>${kinds}</table>${list}</section>`
+  })
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>Workflow coverage</title>
+<style>
+body { font: 14px system-ui, sans-serif; margin: 2rem; color: #1f2937; }
+table { border-collapse: collapse; margin: .5rem 0; }
+td { padding: 2px 12px 2px 0; }
+.kind { display: inline-block; min-width: 4.5rem; color: #6b7280; }
+.full { color: #16a34a; }
+.partial { color: #dc2626; }
+li { color: #dc2626; }
+</style>
+</head>
+<body>
+<h1>Workflow coverage: ${ratio(report)}</h1>
+<p>From ${report.traces} simulation run${report.traces === 1 ? '' : 's'}.</p>
+${sections.join('\n')}
+</body>
+</html>
+`
+}
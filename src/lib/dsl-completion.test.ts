@@ -0,0 +1,129 @@
+import { describe, expect, it } from 'vitest'
+import { ComponentInfo, StepFlowConfig } from '../types/stepflow'
+import { DslCompletionKind, getDslCompletions } from './dsl-completion'
+
+const CONFIG: StepFlowConfig = {
+  steps: {
+    Validate: { type: 'ValidationStep', guards: ['hasOrder'] },
+    Pay: { type: 'PaymentStep', retry: { maxAttempts: 3, delay: 1000, guard: 'isRetryable' } },
+  },
+  workflows: {
+    Order: { root: 'Validate', edges: [{ from: 'Validate', to: 'Pay', guard: 'isValid' }, { from: 'Pay', to: 'SUCCESS' }] },
+    Billing: { root: 'Pay', edges: [{ from: 'Pay', to: 'SUCCESS' }] },
+  },
+}
+
+const COMPONENTS: ComponentInfo[] = [
+  {
+    name: 'PaymentStep',
+    type: 'step',
+    package: 'com.shop.pay',
+    schema: {
+      properties: {
+        currency: { type: 'string', enum: ['EUR', 'USD'], default: 'EUR' },
+        live: { type: 'boolean' },
+        gateway: { type: 'object', properties: { url: { type: 'string' } } },
+      },
+      required: ['currency'],
+    },
+  },
+  { name: 'FraudCheck', type: 'guard' },
+]
+
+const DOC = [
+  'settings:',
+  '  timeout = 30',
+  '',
+  'defaults:',
+  '  step.timeout = 10',
+  '',
+  'workflow Order:',
+  '  root: Validate',
+  '  Validate -> Pay ? isValid',
+  '',
+  'step Pay: PaymentStep',
+  '  retry: 3x / 1s',
+  '  config:',
+  '    currency = EUR',
+  '    gateway:',
+  '      url = http://pay',
+].join('\n')
+
+// Completions with the caret at the end of `typed`, inserted as a new line after `after`
+const complete = (after: string, typed: string, explicit = false) => {
+  const at = DOC.indexOf(after) + after.length
+  const text = `${DOC.slice(0, at)}\n${typed}${DOC.slice(at)}`
+  return getDslCompletions(text, at + 1 + typed.length, { config: CONFIG, components: COMPONENTS, explicit })
+}
+
+const labels = (after: string, typed: string, explicit = false, kind?: DslCompletionKind) =>
+  complete(after, typed, explicit).items.filter(i => !kind || i.kind === kind).map(i => i.label)
+
+describe('getDslCompletions', () => {
+  it('offers section keywords and snippets at the top level', () => {
+    expect(labels('', '', true)).toEqual(['workflow', 'step', 'settings:', 'defaults:', 'import', 'workflow', 'step: PaymentStep'])
+    expect(labels('', 'st')).toEqual(['step', 'step: PaymentStep'])
+  })
+
+  it('only offers without a typed prefix at trigger points', () => {
+    expect(labels('', '')).toEqual([])
+    expect(labels('  root: Validate', '  ')).toEqual([])
+  })
+
+  it('offers step types after a step header', () => {
+    expect(labels('', 'step Ship: ')).toEqual(['PaymentStep', 'ValidationStep'])
+  })
+
+  it('offers steps after `root:` and an arrow, and call only once', () => {
+    expect(labels('  root: Validate', '  root: ')).toEqual(['Validate', 'Pay'])
+    expect(labels('  root: Validate', '  Pay -> ')).toEqual(['Validate', 'Pay', 'SUCCESS', 'FAILURE', 'call'])
+    expect(labels('  root: Validate', '  Pay -> call Billing -> ')).toEqual(['Validate', 'Pay', 'SUCCESS', 'FAILURE'])
+  })
+
+  it('offers other workflows after `call`', () => {
+    expect(labels('  root: Validate', '  Pay -> call ')).toEqual(['Billing'])
+  })
+
+  it('offers guards after `?` and strategies after `fail`', () => {
+    expect(labels('  root: Validate', '  Pay -> SUCCESS ? ')).toEqual(['FraudCheck', 'hasOrder', 'isRetryable', 'isValid'])
+    expect(labels('  root: Validate', '  Pay -> SUCCESS fail ')).toEqual(['skip', 'stop', 'continue', 'retry 3x / 1s', '->'])
+    expect(labels('  root: Validate', '  Pay -> SUCCESS on failure ')).toContain('skip')
+  })
+
+  it('offers steps only after `fail ->`', () => {
+    expect(labels('  root: Validate', '  Pay -> SUCCESS fail -> ')).toEqual(['Validate', 'Pay'])
+  })
+
+  it('offers a failure clause after a complete target when asked', () => {
+    expect(labels('  root: Validate', '  Pay -> SUCCESS ', true)).toEqual(['?', 'fail', 'on failure'])
+  })
+
+  it('offers step directives and guards inside a step', () => {
+    expect(labels('  retry: 3x / 1s', '  ', true)).toEqual(['requires:', 'retry:', 'config:'])
+    expect(labels('  retry: 3x / 1s', '  requires: hasOrder, ')).toEqual(['FraudCheck', 'isRetryable', 'isValid'])
+    expect(labels('  retry: 3x / 1s', '  retry: 3x / 1s ? ')).toContain('FraudCheck')
+  })
+
+  it('offers schema keys and values along the config path', () => {
+    expect(complete('    currency = EUR', '    ', true).items.map(i => i.insertText)).toEqual(['currency = ', 'live = ', 'gateway:'])
+    expect(labels('      url = http://pay', '      ', true)).toEqual(['url'])
+    expect(labels('    currency = EUR', '    currency = ')).toEqual(['EUR', 'USD'])
+    expect(labels('    currency = EUR', '    live = ')).toEqual(['true', 'false'])
+  })
+
+  it('offers settings keys and defaults heads', () => {
+    expect(labels('  timeout = 30', '  log')).toEqual(['logLevel'])
+    expect(labels('  step.timeout = 10', '  ', true, 'keyword')).toEqual(['step.', 'guard.'])
+    expect(labels('  step.timeout = 10', '  PaymentStep.')).toEqual(['PaymentStep.currency', 'PaymentStep.live', 'PaymentStep.gateway'])
+  })
+
+  it('offers nothing inside comments and strings', () => {
+    expect(labels('  root: Validate', '  # Pay -> ', true)).toEqual([])
+    expect(labels('    currency = EUR', '    currency = "E', true)).toEqual([])
+  })
+
+  it('replaces from the start of the word being typed', () => {
+    const text = 'workflow W:\n  root: Va'
+    expect(getDslCompletions(text, text.length, { config: CONFIG, components: COMPONENTS }).from).toBe(text.length - 2)
+  })
+})
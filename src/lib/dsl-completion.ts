@@ -0,0 +1,271 @@
+import { ComponentInfo, StepFlowConfig } from '../types/stepflow'
+import { DslLine, DslToken, tokenizeDSL } from './dsl-parser'
+import { collectGuardNames } from './refactor'
+import { findComponent, schemaProperties } from './config-schema'
+
+// Context-aware completion for the DSL editor. The cursor's line is tokenized up to the
+// word being typed and its enclosing section/config block is found by indentation, so
+// completion works on half-typed documents the parser would reject.
+
+export type DslCompletionKind = 'step' | 'guard' | 'workflow' | 'type' | 'keyword' | 'key' | 'value' | 'snippet'
+
+export interface DslCompletion {
+  label: string
+  /** Replaces the word being typed; `$0` marks the caret, `\n` continues at the line's indent */
+  insertText: string
+  kind: DslCompletionKind
+  detail?: string
+}
+
+export interface DslCompletionList {
+  /** Offset where the word being typed starts */
+  from: number
+  items: DslCompletion[]
+}
+
+export interface DslCompletionOptions {
+  config: StepFlowConfig
+  components: ComponentInfo[]
+  /** Requested explicitly (Ctrl+Space): also complete at positions that aren't trigger points */
+  explicit?: boolean
+}
+
+interface CursorContext {
+  section: 'top' | 'workflow' | 'step' | 'settings' | 'defaults'
+  /** Header name, e.g. the step or workflow name */
+  name?: string
+  /** Step type from a `step X: Type` header */
+  type?: string
+  /** Key path inside a step's `config:` block, undefined outside it */
+  configPath?: string[]
+  /** Tokens on the cursor line before the word being typed */
+  tokens: DslToken[]
+}
+
+const TERMINALS = ['SUCCESS', 'FAILURE']
+const SETTINGS_KEYS = ['timeout', 'debug', 'environment', 'maxRetries', 'defaultDelay', 'logLevel', 'tracing']
+
+function headerOf(l: DslLine): Pick<CursorContext, 'section' | 'name' | 'type'> | undefined {
+  const [kw, name, colon, type] = l.tokens
+  const word = kw?.type === 'word' ? kw.text.toLowerCase() : ''
+  if ((word === 'workflow' || word === 'step') && name?.type === 'word' && colon?.type === 'colon') {
+    return { section: word, name: name.text, type: type?.type === 'word' ? type.text : undefined }
+  }
+  if ((word === 'settings' || word === 'defaults') && name?.type === 'colon') return { section: word }
+  return undefined
+}
+
+function cursorContext(lines: DslLine[], line: number, before: string): CursorContext {
+  const tokens = tokenizeDSL(before)[0].tokens
+  const indent = before.match(/^\s*/)![0].length
+  if (indent === 0) return { section: 'top', tokens }
+
+  // Walk up through lines of decreasing indent; the first header is the enclosing section
+  const parents: DslLine[] = []
+  let limit = indent
+  for (let n = line - 1; n >= 0; n--) {
+    const l = lines[n]
+    if (l.tokens.length === 0 || l.indent >= limit) continue
+    const header = headerOf(l)
+    if (header) {
+      const keys = parents.map(p => p.tokens[0].text).reverse()
+      const configPath = header.section === 'step' && keys[0]?.toLowerCase() === 'config' ? keys.slice(1) : undefined
+      return { ...header, configPath, tokens }
+    }
+    parents.push(l)
+    limit = l.indent
+    if (limit === 0) break
+  }
+  return { section: 'top', tokens }
+}
+
+/** Step names declared or referenced anywhere in the config */
+function stepNames(config: StepFlowConfig): string[] {
+  const names = new Set(Object.keys(config.steps || {}))
+  for (const wf of Object.values(config.workflows || {})) {
+    if (wf.root) names.add(wf.root)
+    wf.edges?.forEach(e => { names.add(e.from); names.add(e.to) })
+  }
+  TERMINALS.forEach(t => names.delete(t))
+  return [...names]
+}
+
+function guardItems(config: StepFlowConfig, components: ComponentInfo[]): DslCompletion[] {
+  const items: DslCompletion[] = components
+    .filter(c => c.type === 'guard')
+    .map(c => ({ label: c.name, insertText: c.name, kind: 'guard', detail: c.package }))
+  collectGuardNames(config).forEach(name => items.push({ label: name, insertText: name, kind: 'guard' }))
+  return items
+}
+
+function stepTypeItems(config: StepFlowConfig, components: ComponentInfo[]): DslCompletion[] {
+  const items: DslCompletion[] = components
+    .filter(c => c.type === 'step')
+    .map(c => ({ label: c.name, insertText: c.name, kind: 'type', detail: c.package }))
+  const guards = new Set(components.filter(c => c.type === 'guard').map(c => c.name))
+  Object.values(config.steps || {}).forEach(s => {
+    if (s.type && !guards.has(s.type)) items.push({ label: s.type, insertText: s.type, kind: 'type' })
+  })
+  return items
+}
+
+function componentSchema(config: StepFlowConfig, components: ComponentInfo[], nameOrType: string | undefined, path: string[] = []) {
+  const type = (nameOrType && config.steps?.[nameOrType]?.type) || nameOrType
+  let props: Record<string, any> = schemaProperties(findComponent(components, type)?.schema)
+  for (const key of path) props = schemaProperties(props[key])
+  return props
+}
+
+const isObjectProperty = (p: any) => !!p && typeof p === 'object' && (p.type === 'object' || !!p.properties)
+
+function keyItems(props: Record<string, any>, prefix = ''): DslCompletion[] {
+  return Object.entries(props).map(([key, p]) => ({
+    label: prefix + key,
+    insertText: isObjectProperty(p) ? `${prefix}${key}:` : `${prefix}${key} = `,
+    kind: 'key',
+    detail: [p?.type, p?.description].filter(Boolean).join(' — ') || undefined,
+  }))
+}
+
+function valueItems(property: any): DslCompletion[] {
+  if (!property || typeof property !== 'object') return []
+  const values: any[] = Array.isArray(property.enum) ? property.enum : property.type === 'boolean' ? [true, false] : []
+  if (property.default !== undefined && !values.includes(property.default)) values.push(property.default)
+  return values.map(v => ({
+    label: String(v),
+    insertText: typeof v === 'string' && /[\s#=:]/.test(v) ? JSON.stringify(v) : String(v),
+    kind: 'value',
+    detail: v === property.default ? 'default' : undefined,
+  }))
+}
+
+function snippetItems(components: ComponentInfo[]): DslCompletion[] {
+  const items: DslCompletion[] = [{
+    label: 'workflow',
+    insertText: 'workflow $0:\n  root: Start\n  Start -> SUCCESS',
+    kind: 'snippet',
+    detail: 'Workflow block',
+  }]
+  for (const c of components.filter(c => c.type === 'step')) {
+    // Pre-fill required config keys with their defaults
+    const props = schemaProperties(c.schema)
+    const required: string[] = Array.isArray(c.schema?.required) ? c.schema!.required : []
+    const entries = required.map(k => `\n    ${k} = ${props[k]?.default ?? ''}`).join('')
+    items.push({
+      label: `step: ${c.name}`,
+      insertText: `step $0: ${c.name}${entries ? `\n  config:${entries}` : ''}`,
+      kind: 'snippet',
+      detail: 'Step block',
+    })
+  }
+  return items
+}
+
+const keywords = (words: string[], detail?: string): DslCompletion[] =>
+  words.map(w => ({ label: w.trim(), insertText: w, kind: 'keyword', detail }))
+
+const named = (names: string[], kind: DslCompletionKind, detail?: string): DslCompletion[] =>
+  names.map(n => ({ label: n, insertText: n, kind, detail }))
+
+// Items for the context plus whether the position is a trigger point (offered without a prefix)
+function completionsFor(ctx: CursorContext, prefix: string, options: DslCompletionOptions): [DslCompletion[], boolean] {
+  const { config, components } = options
+  const { tokens } = ctx
+  const last = tokens[tokens.length - 1]
+  const prev = tokens[tokens.length - 2]
+  const isWord = (t: DslToken | undefined, text: string) => t?.type === 'word' && t.text.toLowerCase() === text
+  const steps = named(stepNames(config), 'step')
+
+  if (ctx.section === 'top') {
+    if (tokens.length === 0) {
+      return [[...keywords(['workflow ', 'step ', 'settings:', 'defaults:', 'import ']), ...snippetItems(components)], false]
+    }
+    if (isWord(tokens[0], 'step') && tokens.length === 3 && last.type === 'colon') return [stepTypeItems(config, components), true]
+    return [[], false]
+  }
+
+  if (ctx.section === 'workflow') {
+    if (tokens.length === 0) return [[...keywords(['root: ']), ...steps], false]
+    if (isWord(tokens[0], 'root') && tokens.length === 2 && last.type === 'colon') return [steps, true]
+    const failAt = tokens.findIndex((t, i) => isWord(t, 'fail') || (isWord(t, 'failure') && isWord(tokens[i - 1], 'on')))
+    if (last.type === 'arrow') {
+      // `fail -> X` names an alternative step; a plain arrow may also start a call
+      if (failAt >= 0) return [steps, true]
+      const callee = tokens.some(t => isWord(t, 'call'))
+      return [[...steps, ...named(TERMINALS, 'step', 'terminal'), ...(callee ? [] : keywords(['call '], 'Invoke a sub-workflow'))], true]
+    }
+    if (isWord(last, 'call') && prev?.type === 'arrow') {
+      return [named(Object.keys(config.workflows || {}).filter(w => w !== ctx.name), 'workflow'), true]
+    }
+    if (last.type === 'question') return [guardItems(config, components), true]
+    if (failAt === tokens.length - 1) {
+      return [[...keywords(['skip', 'stop', 'continue', 'retry 3x / 1s', '-> '], 'failure strategy')], true]
+    }
+    // After a complete target or guard the line can continue with a failure clause
+    if (failAt < 0 && last.type === 'word' && (prev?.type === 'arrow' || prev?.type === 'question')) {
+      return [keywords(['? ', 'fail ', 'on failure ']), false]
+    }
+    return [[], false]
+  }
+
+  if (ctx.section === 'step') {
+    if (ctx.configPath) {
+      const props = componentSchema(config, components, ctx.type, ctx.configPath)
+      if (tokens.length === 0) return [keyItems(props), false]
+      if (tokens.length === 2 && last.type === 'equals') return [valueItems(props[tokens[0].text]), true]
+      return [[], false]
+    }
+    if (tokens.length === 0) return [keywords(['requires: ', 'retry: ', 'config:']), false]
+    if (isWord(tokens[0], 'requires') && (last.type === 'colon' || last.type === 'comma')) {
+      const used = new Set(tokens.map(t => t.text))
+      return [guardItems(config, components).filter(g => !used.has(g.label)), true]
+    }
+    if (isWord(tokens[0], 'retry') && last.type === 'question') return [guardItems(config, components), true]
+    return [[], false]
+  }
+
+  if (ctx.section === 'settings') {
+    return [tokens.length === 0 ? SETTINGS_KEYS.map(k => ({ label: k, insertText: `${k} = `, kind: 'key' as const })) : [], false]
+  }
+
+  // defaults: `step.`/`guard.`/type or step name, then a schema key after the dot
+  if (tokens.length > 0) return [[], false]
+  const dot = prefix.lastIndexOf('.')
+  if (dot > 0) {
+    const head = prefix.slice(0, dot)
+    return [keyItems(componentSchema(config, components, head), `${head}.`), false]
+  }
+  const heads = [...keywords(['step.', 'guard.'], 'all steps / guards'), ...stepTypeItems(config, components), ...steps]
+  return [heads.map(h => ({ ...h, insertText: h.insertText.endsWith('.') ? h.insertText : `${h.insertText}.` })), false]
+}
+
+/** Completions at `offset`, filtered by the word being typed and de-duplicated per kind */
+export function getDslCompletions(text: string, offset: number, options: DslCompletionOptions): DslCompletionList {
+  const before = text.slice(0, offset)
+  const lineStart = before.lastIndexOf('\n') + 1
+  const lineBefore = before.slice(lineStart)
+  // Names can't start with '-', so a typed `-` is the start of an arrow rather than a word
+  const prefix = lineBefore.match(/[\w.-]*$/)![0].replace(/^-+/, '')
+  const from = offset - prefix.length
+
+  const empty = { from, items: [] }
+  const current = tokenizeDSL(lineBefore)[0]
+  if (current.comment || (current.tokens.length > 0 && current.tokens[current.tokens.length - 1].type === 'string')) return empty
+
+  const lines = tokenizeDSL(text.slice(0, lineStart))
+  const ctx = cursorContext(lines, lines.length - 1, lineBefore.slice(0, lineBefore.length - prefix.length))
+  const [items, trigger] = completionsFor(ctx, prefix, options)
+  if (!prefix && !trigger && !options.explicit) return empty
+
+  const seen = new Set<string>()
+  const p = prefix.toLowerCase()
+  return {
+    from,
+    items: items.filter(item => {
+      const key = `${item.kind}:${item.label}`
+      if (seen.has(key) || !item.label.toLowerCase().startsWith(p)) return false
+      seen.add(key)
+      return true
+    }),
+  }
+}
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest'
+import { StepFlowConfig } from '../types/stepflow'
+import { parseDSL, stringifyDSL } from './dsl-converter'
+
+const roundTrip = (config: StepFlowConfig) => {
+  const result = parseDSL(stringifyDSL(config))
+  expect(result.errors).toEqual([])
+  return result.config
+}
+
+const ORDER_CONFIG: StepFlowConfig = {
+  settings: { payment: { timeout: 5000, url: 'http://pay.example.com:8080/v1' }, regions: ['eu', 'us'] },
+  defaults: { step: { timeout: 1000 }, PaymentStep: { currency: 'EUR' } },
+  steps: {
+    Validate: { type: 'ValidationStep', guards: ['hasOrder', 'isOpen'], config: { strict: true } },
+    Pay: {
+      type: 'PaymentStep',
+      retry: { maxAttempts: 3, delay: 2000, guard: 'isRetryable' },
+      config: { amount: '${order.total}', headers: { 'Content-Type': 'application/json' }, codes: [502, 503], note: null },
+    },
+    Ship: { type: 'ShipStep', config: { label: 'a # b', flag: 'true', count: '123' } },
+    Refund: { type: 'RefundStep' },
+  },
+  workflows: {
+    Order: {
+      root: 'Validate',
+      edges: [
+        { from: 'Validate', to: 'Pay', guard: 'isValid', onFailure: { strategy: 'ALTERNATIVE', alternativeTarget: 'Refund' } },
+        { from: 'Pay', to: 'Ship', call: 'Billing', onFailure: { strategy: 'RETRY', retryAttempts: 2, retryDelay: 500 } },
+        { from: 'Ship', to: 'SUCCESS', guard: 'shipped', onFailure: { strategy: 'CONTINUE' } },
+        { from: 'Refund', to: 'FAILURE' },
+      ],
+    },
+    Billing: { root: 'Pay', edges: [{ from: 'Pay', to: 'SUCCESS' }] },
+  },
+}
+
+describe('stringifyDSL / parseDSL', () => {
+  it('round-trips a config', () => {
+    expect(roundTrip(ORDER_CONFIG)).toEqual(ORDER_CONFIG)
+  })
+
+  it('keeps step config keys named like sections inside the step', () => {
+    const config: StepFlowConfig = {
+      settings: { global: 1 },
+      defaults: {},
+      steps: { A: { type: 'T', config: { settings: { x: 1 }, defaults: { y: 2 }, workflow: 'w' } } },
+      workflows: { W: { root: 'A', edges: [{ from: 'A', to: 'SUCCESS' }] } },
+    }
+    expect(roundTrip(config)).toEqual(config)
+  })
+
+  it('is stable: stringifying the parsed config gives the same text', () => {
+    const text = stringifyDSL(ORDER_CONFIG)
+    expect(stringifyDSL(parseDSL(text).config!)).toBe(text)
+  })
+})
@@ -1,289 +1,255 @@
-import { StepFlowConfig, WorkflowDef, EdgeDef, StepDef } from '../types/stepflow'
+import { StepFlowConfig, WorkflowDef, EdgeDef, StepDef, RetryPolicy } from '../types/stepflow'
+import { DslConfigEntry, DslDiagnostic, DslDocument, DslEdge, DslSection, DslValue, parseDslDocument, parseScalar } from './dsl-parser'
+import { isPlainObject } from './utils'
 
 export interface DslParseResult {
   config?: StepFlowConfig
-  errors: { line: number; message: string }[]
+  errors: DslDiagnostic[]
+  document?: DslDocument
+  /** Config contributed by imported files alone */
+  imported?: StepFlowConfig
 }
 
-const trim = (s: string) => s.trim()
-
-function parseScalar(raw: string): any {
-  const s = raw.trim()
-  if (s === 'true') return true
-  if (s === 'false') return false
-  if ((s.startsWith('"') && s.endsWith('"')) || (s.startsWith("'") && s.endsWith("'"))) {
-    return s.slice(1, -1)
-  }
-  if (!isNaN(Number(s))) return Number(s)
-  return s
+export interface DslProjectOptions {
+  /** Virtual file set keyed by normalized path (e.g. `shared/common.dsl`) */
+  files?: Record<string, string>
+  /** Path of the document being parsed; relative imports resolve against it */
+  path?: string
 }
 
-function parseDuration(raw?: string): number | undefined {
-  if (!raw) return undefined
-  const m = raw.trim().match(/^(\d+)(ms|s|m)$/)
-  if (!m) return undefined
-  const n = parseInt(m[1], 10)
-  const unit = m[2]
-  if (unit === 'ms') return n
-  if (unit === 's') return n * 1000
-  if (unit === 'm') return n * 60_000
-  return undefined
+/** Resolve an import path relative to the importing file */
+export function resolveImportPath(from: string | undefined, target: string): string {
+  const base = target.startsWith('/') || !from ? [] : from.split('/').slice(0, -1)
+  const parts: string[] = []
+  for (const part of [...base, ...target.split('/')]) {
+    if (!part || part === '.') continue
+    if (part === '..') parts.pop()
+    else parts.push(part)
+  }
+  return parts.join('/')
 }
 
-function setPath(obj: Record<string, any>, path: string, value: any) {
-  const parts = path.split('.')
+// Assigns along a key path, deep-merging objects so `a.b = 1` and an `a:` block can coexist
+function setPath(obj: Record<string, any>, path: string[], value: any) {
   let cur = obj
-  for (let i = 0; i < parts.length - 1; i++) {
-    const k = parts[i]
-    if (cur[k] == null || typeof cur[k] !== 'object') cur[k] = {}
+  for (let i = 0; i < path.length - 1; i++) {
+    const k = path[i]
+    if (!isPlainObject(cur[k])) cur[k] = {}
     cur = cur[k]
   }
-  cur[parts[parts.length - 1]] = value
+  const last = path[path.length - 1]
+  if (isPlainObject(value) && isPlainObject(cur[last])) {
+    Object.entries(value).forEach(([k, v]) => setPath(cur[last], [k], v))
+  } else {
+    cur[last] = value
+  }
 }
 
-function flatten(obj: Record<string, any>, prefix = ''): Record<string, any> {
-  const out: Record<string, any> = {}
-  Object.entries(obj || {}).forEach(([k, v]) => {
-    const key = prefix ? `${prefix}.${k}` : k
-    if (v && typeof v === 'object' && !Array.isArray(v)) {
-      Object.assign(out, flatten(v, key))
-    } else {
-      out[key] = v
-    }
-  })
-  return out
+function toValue(value: DslValue): any {
+  if (value.kind === 'Scalar') return value.value
+  if (value.kind === 'List') return value.items.map(toValue)
+  return entriesToObject(value.entries)
 }
 
-export function parseDSL(text: string): DslParseResult {
-  console.log('DSL Parser - Starting to parse:', text.substring(0, 100) + '...')
-  const lines = text.replace(/\r\n?/g, '\n').split('\n')
-  const cfg: StepFlowConfig = { settings: {}, defaults: {}, steps: {}, workflows: {} }
-  const errors: { line: number; message: string }[] = []
-
-  type Ctx = { type: 'root' } | { type: 'settings' } | { type: 'defaults' } | { type: 'workflow'; name: string } | { type: 'step'; name: string } | { type: 'step-config'; name: string }
-  let ctx: Ctx = { type: 'root' }
-
-  // Allow hyphens in identifiers (names, guards) while still disallowing leading hyphens
-  const edgeRe = /^\s*([A-Za-z_][\w-]*)\s*->\s*([A-Za-z_][\w-]*|SUCCESS|FAILURE)(?:\s*\?\s*([A-Za-z_][\w-]*))?(?:\s*(?:fail|on\s+failure)\s*(?:(?:->\s*([A-Za-z_][\w-]*))|(?:retry\s+(\d+)x(?:\s*\/\s*([0-9]+(?:ms|s|m)))?)|skip|stop|continue))?\s*$/i
-  // Keys can be dot-separated segments; allow hyphens within segments
-  const kvRe = /^\s*([A-Za-z_][A-Za-z0-9_\.-]*?)\s*=\s*(.+?)\s*$/
-  const requiresRe = /^\s*requires:\s*(.+)\s*$/i
-  const retryRe = /^\s*retry:\s*(\d+)x(?:\s*\/\s*([0-9]+(?:ms|s|m)))?(?:\s*\?\s*([A-Za-z_][\w-]*))?\s*$/i
+export function entriesToObject(entries: DslConfigEntry[], target: Record<string, any> = {}): Record<string, any> {
+  for (const entry of entries) setPath(target, entry.path, toValue(entry.value))
+  return target
+}
 
-  const indentOf = (line: string) => line.match(/^\s*/)?.[0].length ?? 0
+export function lowerDslEdge(e: DslEdge): EdgeDef {
+  const edge: EdgeDef = { from: e.from.name, to: e.to.name, guard: e.guard?.name }
+  if (e.call) edge.call = e.call.name
+  const f = e.failure
+  if (f?.strategy === 'ALTERNATIVE') edge.onFailure = { strategy: 'ALTERNATIVE', alternativeTarget: f.target?.name }
+  else if (f?.strategy === 'RETRY') edge.onFailure = { strategy: 'RETRY', retryAttempts: f.attempts ?? 1, retryDelay: f.delay }
+  else if (f) edge.onFailure = { strategy: f.strategy }
+  return edge
+}
 
-  for (let i = 0; i < lines.length; i++) {
-    const raw = lines[i]
-    const line = raw.trim()
-    if (!line || line.startsWith('#')) continue
+/** Lower a parsed DSL document into a StepFlowConfig */
+export function lowerDslDocument(document: DslDocument): StepFlowConfig {
+  const cfg: StepFlowConfig = { settings: {}, defaults: {}, steps: {}, workflows: {} }
 
-    // section headers
-    if (/^settings:\s*$/i.test(line)) { ctx = { type: 'settings' }; continue }
-    if (/^defaults:\s*$/i.test(line)) { ctx = { type: 'defaults' }; continue }
-    const wfMatch = line.match(/^workflow\s+([A-Za-z_][\w-]*)\s*:\s*$/i)
-    if (wfMatch) { ctx = { type: 'workflow', name: wfMatch[1] }; if (!cfg.workflows![wfMatch[1]]) cfg.workflows![wfMatch[1]] = { root: '', edges: [] }; continue }
-    const stepMatch = line.match(/^step\s+([A-Za-z_][\w-]*)\s*:\s*([A-Za-z_][A-Za-z0-9_\.-]*)\s*$/i)
-    if (stepMatch) {
-      const [, name, type] = stepMatch
-      if (!cfg.steps![name]) cfg.steps![name] = { type } as StepDef
-      else cfg.steps![name].type = type
-      ctx = { type: 'step', name }
-      continue
+  for (const section of document.sections) {
+    switch (section.kind) {
+      case 'Settings':
+        entriesToObject(section.entries, cfg.settings)
+        break
+      case 'Defaults':
+        // keys are step.timeout_ms, guard.log or ComponentName.key
+        entriesToObject(section.entries, cfg.defaults)
+        break
+      case 'Workflow': {
+        const wf: WorkflowDef = cfg.workflows![section.name.name] || (cfg.workflows![section.name.name] = { root: '', edges: [] })
+        if (section.root) wf.root = section.root.target.name
+        for (const e of section.edges) wf.edges.push(lowerDslEdge(e))
+        break
+      }
+      case 'Step': {
+        const name = section.name.name
+        if (!cfg.steps![name]) cfg.steps![name] = { type: section.type.name } as StepDef
+        else cfg.steps![name].type = section.type.name
+        const step = cfg.steps![name]
+        if (section.requires) step.guards = section.requires.guards.map(g => g.name)
+        if (section.retry) {
+          step.retry = { maxAttempts: section.retry.attempts, delay: section.retry.delay || 0, guard: section.retry.guard?.name }
+        }
+        if (section.config) {
+          step.config = entriesToObject(section.config.entries, step.config || {})
+        }
+        break
+      }
     }
+  }
 
-    // within contexts
-    if (ctx.type === 'settings') {
-      const m = raw.match(kvRe)
-      if (!m) { errors.push({ line: i + 1, message: 'Expected key = value in settings' }); continue }
-      const [, key, value] = m
-      setPath(cfg.settings!, key, parseScalar(value))
-      continue
+  // Post-process: ensure steps exist for any referenced names in workflows
+  const referenced = new Set<string>()
+  const isTerminal = (n: string) => n === 'SUCCESS' || n === 'FAILURE'
+  for (const wf of Object.values(cfg.workflows || {})) {
+    if (wf.root && !isTerminal(wf.root)) referenced.add(wf.root)
+    for (const e of wf.edges || []) {
+      if (e.from && !isTerminal(e.from)) referenced.add(e.from)
+      if (e.to && !isTerminal(e.to)) referenced.add(e.to)
+      const t = e.onFailure?.strategy === 'ALTERNATIVE' ? e.onFailure.alternativeTarget : undefined
+      if (t && !isTerminal(t)) referenced.add(t)
     }
+  }
+  for (const name of referenced) {
+    if (!cfg.steps![name]) cfg.steps![name] = { type: name } as StepDef
+  }
 
-    if (ctx.type === 'defaults') {
-      const m = raw.match(kvRe)
-      if (!m) { errors.push({ line: i + 1, message: 'Expected key = value in defaults' }); continue }
-      const [, key, value] = m
-      // key can be step.timeout_ms or guard.log or ComponentName.key
-      const [first, ...rest] = key.split('.')
-      if (first === 'step' || first === 'guard') {
-        cfg.defaults![first] = cfg.defaults![first] || {}
-        setPath(cfg.defaults![first]!, rest.join('.'), parseScalar(value))
-      } else {
-        cfg.defaults![first] = (cfg.defaults![first] as any) || {}
-        if (rest.length) setPath(cfg.defaults![first] as any, rest.join('.'), parseScalar(value))
-        else (cfg.defaults as any)[first] = parseScalar(value)
-      }
-      continue
-    }
+  return cfg
+}
 
-    if (ctx.type === 'workflow') {
-      if (/^root\s*:\s*[A-Za-z_][\w-]*\s*$/i.test(line)) {
-        const root = line.split(':')[1].trim()
-        ;(cfg.workflows![ctx.name] as WorkflowDef).root = root
-        continue
-      }
-      const m = raw.match(edgeRe)
-      if (!m) { errors.push({ line: i + 1, message: 'Invalid edge syntax' }); continue }
-      const [, from, to, guard, altTarget, retryCount, retryDelay] = m
-      console.log('DSL Parser - Edge match:', { line: raw.trim(), groups: { from, to, guard, altTarget, retryCount, retryDelay } })
-      const edge: EdgeDef = { from, to, guard: guard || undefined }
-      const tail = line.replace(/^.*?(\?|$)/, '').trim() // after '?' or nothing
-      console.log('DSL Parser - Checking failure condition:', { line: raw.trim(), hasFailure: /\b(on\s+failure|fail)\b/i.test(line) })
-      if (/\b(on\s+failure|fail)\b/i.test(line)) {
-        console.log('DSL Parser - Inside failure block, checking arrow:', { line: raw.trim(), hasArrow: /\b->\b/i.test(line) })
-        if (/(?:fail|on\s+failure)\s*->/i.test(line)) {
-          // Extract alternative target from the line after "fail ->"
-          const altMatch = line.match(/(?:fail|on\s+failure)\s*->\s*([A-Za-z_][\w]*)/i)
-          const alternativeTarget = altMatch ? altMatch[1] : altTarget
-          console.log('DSL Parser - Alternative failure detected:', { line, altMatch, alternativeTarget, altTarget })
-          edge.onFailure = { strategy: 'ALTERNATIVE', alternativeTarget }
-        } else if (/\bretry\b/i.test(line)) {
-          edge.onFailure = { strategy: 'RETRY', retryAttempts: retryCount ? parseInt(retryCount, 10) : 1, retryDelay: parseDuration(retryDelay) }
-        } else if (/\bskip\b/i.test(line)) {
-          edge.onFailure = { strategy: 'SKIP' }
-        } else if (/\bstop\b/i.test(line)) {
-          edge.onFailure = { strategy: 'STOP' }
-        } else if (/\bcontinue\b/i.test(line)) {
-          edge.onFailure = { strategy: 'CONTINUE' }
-        }
-      }
-      ;(cfg.workflows![ctx.name] as WorkflowDef).edges.push(edge)
-      console.log('DSL Parser - Final edge added:', edge)
-      continue
-    }
+export function parseDSL(text: string, options: DslProjectOptions = {}): DslParseResult {
+  const { document, errors: ownErrors } = parseDslDocument(text)
+  const errors: DslDiagnostic[] = ownErrors.map(e => (options.path ? { ...e, file: options.path } : e))
+  const importedSections: DslSection[] = []
+  const loaded = new Set<string>(options.path ? [options.path] : [])
 
-    if (ctx.type === 'step') {
-      if (/^config:\s*$/i.test(line)) { ctx = { type: 'step-config', name: ctx.name }; continue }
-      const rm = raw.match(requiresRe)
-      if (rm) {
-        const parts = rm[1].split(',').map(s => s.trim()).filter(Boolean)
-        cfg.steps![ctx.name] = cfg.steps![ctx.name] || { type: '' }
-        ;(cfg.steps![ctx.name] as StepDef).guards = parts
+  // Depth-first so imported sections come before the importer and can be overridden by it
+  const visit = (doc: DslDocument, from: string | undefined, stack: string[]) => {
+    for (const section of doc.sections) {
+      if (section.kind !== 'Import') continue
+      const path = resolveImportPath(from, section.path)
+      const at = {
+        line: section.pathSpan.start.line,
+        column: section.pathSpan.start.column,
+        endLine: section.pathSpan.end.line,
+        endColumn: section.pathSpan.end.column,
+        severity: 'error' as const,
+        file: from,
+      }
+      if (stack.includes(path)) {
+        errors.push({ ...at, message: `Import cycle: ${[...stack, path].join(' -> ')}` })
         continue
       }
-      const rtm = raw.match(retryRe)
-      if (rtm) {
-        const [, count, delayStr, guard] = rtm
-        cfg.steps![ctx.name] = cfg.steps![ctx.name] || { type: '' }
-        ;(cfg.steps![ctx.name] as StepDef).retry = { maxAttempts: parseInt(count, 10), delay: parseDuration(delayStr) || 0, guard: guard || undefined }
+      if (loaded.has(path)) continue
+      const content = options.files?.[path]
+      if (content === undefined) {
+        errors.push({ ...at, message: `Cannot find imported file "${section.path}"` })
         continue
       }
-      errors.push({ line: i + 1, message: 'Unknown step directive' })
-      continue
-    }
-
-    if (ctx.type === 'step-config') {
-      if (raw.trim().endsWith(':')) { errors.push({ line: i + 1, message: 'Nested blocks not supported in config' }); continue }
-      const m = raw.match(kvRe)
-      if (!m) { errors.push({ line: i + 1, message: 'Expected key = value in config' }); continue }
-      const [, key, value] = m
-      cfg.steps![ctx.name] = cfg.steps![ctx.name] || { type: '' }
-      const step = cfg.steps![ctx.name] as StepDef
-      step.config = step.config || {}
-      setPath(step.config, key, parseScalar(value))
-      continue
+      loaded.add(path)
+      const child = parseDslDocument(content)
+      errors.push(...child.errors.map(e => ({ ...e, file: path })))
+      visit(child.document, path, [...stack, path])
+      importedSections.push(...child.document.sections)
     }
-
-    errors.push({ line: i + 1, message: 'Unknown syntax' })
   }
+  visit(document, options.path, options.path ? [options.path] : [])
 
-  // Post-process: ensure steps exist for any referenced names in workflows
-  try {
-    const referenced = new Set<string>()
-    const workflows = cfg.workflows || {}
-    for (const wf of Object.values(workflows)) {
-      const w = wf as WorkflowDef
-      if (w?.root && w.root !== 'SUCCESS' && w.root !== 'FAILURE') referenced.add(w.root)
-      for (const e of (w?.edges || [])) {
-        if (e.from && e.from !== 'SUCCESS' && e.from !== 'FAILURE') referenced.add(e.from)
-        if (e.to && e.to !== 'SUCCESS' && e.to !== 'FAILURE') referenced.add(e.to)
-        if (e.onFailure?.strategy === 'ALTERNATIVE' && e.onFailure.alternativeTarget) {
-          const t = e.onFailure.alternativeTarget
-          if (t !== 'SUCCESS' && t !== 'FAILURE') referenced.add(t)
-        }
-      }
-    }
-    cfg.steps = cfg.steps || {}
-    for (const name of referenced) {
-      if (!cfg.steps[name]) cfg.steps[name] = { type: name } as StepDef
-    }
-  } catch {
-    // best-effort; ignore
+  if (importedSections.length === 0) return { config: lowerDslDocument(document), errors, document }
+  return {
+    config: lowerDslDocument({ ...document, sections: [...importedSections, ...document.sections] }),
+    errors,
+    document,
+    imported: lowerDslDocument({ ...document, sections: importedSections }),
   }
-
-  return { config: cfg, errors }
 }
 
 export function stringifyDSL(config: StepFlowConfig): string {
   const result: string[] = []
-  const push = (s: string) => { result.push(s) }
+  const push = (lines: string[]) => { result.push(...lines, '') }
   const { settings = {}, defaults = {}, steps = {}, workflows = {} } = config || {}
 
-  // settings
-  if (Object.keys(settings).length > 0) {
-    push('settings:')
-    const flatSettings = flatten(settings)
-    for (const [k, v] of Object.entries(flatSettings)) push(`  ${k} = ${formatScalar(v)}`)
-    push('')
-  }
+  if (Object.keys(settings).length > 0) push(['settings:', ...stringifyEntries(settings, '  ')])
+  if (Object.keys(defaults).length > 0) push(['defaults:', ...stringifyEntries(defaults, '  ')])
+  for (const [wfName, wf] of Object.entries(workflows)) push(stringifyWorkflow(wfName, wf))
+  for (const [name, step] of Object.entries(steps)) push(stringifyStep(name, step))
 
-  // defaults
-  if (Object.keys(defaults).length > 0) {
-    push('defaults:')
-    const { step = {}, guard = {}, ...named } = defaults
-    const flatStep = flatten(step)
-    const flatGuard = flatten(guard)
-    for (const [k, v] of Object.entries(flatStep)) push(`  step.${k} = ${formatScalar(v)}`)
-    for (const [k, v] of Object.entries(flatGuard)) push(`  guard.${k} = ${formatScalar(v)}`)
-    for (const [name, obj] of Object.entries(named)) {
-      const flat = flatten(obj as any)
-      for (const [k, v] of Object.entries(flat)) push(`  ${name}.${k} = ${formatScalar(v)}`)
-    }
-    push('')
-  }
+  return result.join('\n').trim() + '\n'
+}
 
-  // workflows
-  for (const [wfName, wf] of Object.entries(workflows)) {
-    push(`workflow ${wfName}:`)
-    if ((wf as any)?.root) push(`  root: ${(wf as any).root}`)
-    for (const edge of ((wf as any)?.edges || [])) push(`  ${formatEdge(edge)}`)
-    push('')
-  }
+export function stringifyWorkflow(name: string, wf: WorkflowDef): string[] {
+  const out = [`workflow ${name}:`]
+  if (wf?.root) out.push(`  root: ${wf.root}`)
+  for (const edge of (wf?.edges || [])) out.push(`  ${formatEdge(edge)}`)
+  return out
+}
 
-  // steps
-  for (const [name, step] of Object.entries(steps)) {
-    push(`step ${name}: ${(step as any)?.type}`)
-    const guards = (step as any)?.guards as string[] | undefined
-    if (guards && guards.length > 0) push(`  requires: ${guards.join(', ')}`)
-    const retry = (step as any)?.retry
-    if (retry) {
-      const d = retry.delay || 0
-      const dur = d % 60000 === 0 ? `${d / 60000}m` : d % 1000 === 0 ? `${d / 1000}s` : `${d}ms`
-      push(`  retry: ${retry.maxAttempts}x / ${dur}${retry.guard ? ` ? ${retry.guard}` : ''}`)
-    }
-    const cfg = (step as any)?.config || {}
-    if (cfg && Object.keys(cfg).length > 0) {
-      push('  config:')
-      const flatCfg = flatten(cfg)
-      for (const [k, v] of Object.entries(flatCfg)) push(`    ${k} = ${formatScalar(v)}`)
+export function stringifyStep(name: string, step: StepDef): string[] {
+  const out = [`step ${name}: ${step?.type}`]
+  if (step?.guards && step.guards.length > 0) out.push(`  ${formatRequires(step.guards)}`)
+  if (step?.retry) out.push(`  ${formatRetry(step.retry)}`)
+  const cfg = step?.config || {}
+  if (Object.keys(cfg).length > 0) out.push('  config:', ...stringifyEntries(cfg, '    '))
+  return out
+}
+
+// Objects become indented blocks; everything else is a `key = value` line
+export function stringifyEntries(obj: Record<string, any>, indent: string): string[] {
+  const out: string[] = []
+  for (const [k, v] of Object.entries(obj)) {
+    if (v === undefined) continue
+    if (isPlainObject(v) && Object.keys(v).length > 0) {
+      out.push(`${indent}${formatKey(k)}:`, ...stringifyEntries(v, indent + '  '))
+    } else {
+      out.push(`${indent}${formatKey(k)} = ${formatValue(v)}`)
     }
-    push('')
   }
+  return out
+}
 
-  return result.join('\n').trim() + '\n'
+export function formatRequires(guards: string[]): string {
+  return `requires: ${guards.join(', ')}`
+}
+
+export function formatRetry(retry: RetryPolicy): string {
+  return `retry: ${retry.maxAttempts}x / ${formatDuration(retry.delay || 0)}${retry.guard ? ` ? ${retry.guard}` : ''}`
+}
+
+export function formatDuration(d: number): string {
+  return d % 60000 === 0 ? `${d / 60000}m` : d % 1000 === 0 ? `${d / 1000}s` : `${d}ms`
+}
+
+function formatKey(k: string): string {
+  return /^[A-Za-z_][A-Za-z0-9_-]*$/.test(k) ? k : JSON.stringify(k)
+}
+
+function formatValue(v: any): string {
+  if (v === null) return 'null'
+  if (Array.isArray(v)) return `[${v.map(formatValue).join(', ')}]`
+  if (isPlainObject(v)) {
+    const entries = Object.entries(v).filter(([, x]) => x !== undefined)
+    return entries.length ? `{${entries.map(([k, x]) => `${formatKey(k)} = ${formatValue(x)}`).join(', ')}}` : '{}'
+  }
+  return formatScalar(v)
 }
 
 function formatScalar(v: any): string {
   if (typeof v === 'string') {
-    if (/^[-A-Za-z0-9_.]+$/.test(v)) return v
+    // Quote anything that would read back as another literal type
+    if (/^[-A-Za-z0-9_.]+$/.test(v) && typeof parseScalar(v) === 'string') return v
     return JSON.stringify(v)
   }
   return String(v)
 }
 
-function formatEdge(edge: EdgeDef): string {
-  const base = `${edge.from} -> ${edge.to}`
+export function formatEdge(edge: EdgeDef): string {
+  const base = !edge.call
+    ? `${edge.from} -> ${edge.to}`
+    : edge.to === 'SUCCESS' ? `${edge.from} -> call ${edge.call}` : `${edge.from} -> call ${edge.call} -> ${edge.to}`
   const guard = edge.guard ? ` ? ${edge.guard}` : ''
   let fail = ''
   const of = edge.onFailure
@@ -291,7 +257,7 @@ function formatEdge(edge: EdgeDef): string {
     if (of.strategy === 'ALTERNATIVE') fail = ` fail -> ${of.alternativeTarget}`
     else if (of.strategy === 'RETRY') {
       const d = of.retryDelay || (of as any).delay || 0
-      const dur = d ? (d % 60000 === 0 ? `${d / 60000}m` : d % 1000 === 0 ? `${d / 1000}s` : `${d}ms`) : ''
+      const dur = d ? formatDuration(d) : ''
       // Support both retryAttempts (internal format) and attempts (YAML format)
       const attempts = of.retryAttempts || (of as any).attempts || 1
       fail = ` fail retry ${attempts}x${dur ? ` / ${dur}` : ''}`
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest'
+import { parseDSL } from './dsl-converter'
+import { formatDSL } from './dsl-formatter'
+
+const SOURCE = [
+  '# Order handling',
+  'settings:',
+  '    endpoint=http://pay.example.com:8080/v1?mode=live',
+  '    inbox =   /var/data/in-flight.json',
+  '    title = Order   of  the day',
+  '    sum = a+b',
+  '    timeout = 30  # seconds',
+  '',
+  '',
+  'workflow Order:',
+  '    root: Pay',
+  '    Pay -> SUCCESS ? paid fail retry 2x / 500ms',
+  'step Pay: PaymentStep',
+  '    retry: 3x / 5000ms',
+  '    config:',
+  '        callback = https://shop.example.com/orders/${order.id}/paid',
+  '        headers:',
+  '            Accept = application/json, text/plain',
+].join('\n')
+
+const parse = (text: string) => {
+  const result = parseDSL(text)
+  expect(result.errors).toEqual([])
+  return result.config
+}
+
+describe('formatDSL', () => {
+  it('keeps values as written and normalises indentation, key spacing and =', () => {
+    expect(formatDSL(SOURCE)).toBe([
+      '# Order handling',
+      'settings:',
+      '  endpoint = http://pay.example.com:8080/v1?mode=live',
+      '  inbox    = /var/data/in-flight.json',
+      '  title    = Order   of  the day',
+      '  sum      = a+b',
+      '  timeout  = 30  # seconds',
+      '',
+      'workflow Order:',
+      '  root: Pay',
+      '  Pay -> SUCCESS ? paid fail retry 2x / 500ms',
+      '',
+      'step Pay: PaymentStep',
+      '  retry: 3x / 5s',
+      '  config:',
+      '    callback = https://shop.example.com/orders/${order.id}/paid',
+      '    headers:',
+      '      Accept = application/json, text/plain',
+      '',
+    ].join('\n'))
+  })
+
+  it('reads back as the same config', () => {
+    expect(parse(formatDSL(SOURCE))).toEqual(parse(SOURCE))
+    expect(parse(formatDSL(SOURCE, { indent: 4, alignEquals: false, canonicalDurations: false }))).toEqual(parse(SOURCE))
+  })
+
+  it('is idempotent', () => {
+    const formatted = formatDSL(SOURCE)
+    expect(formatDSL(formatted)).toBe(formatted)
+  })
+
+  it('returns documents with errors unchanged', () => {
+    const broken = 'step Pay PaymentStep\n    config:'
+    expect(formatDSL(broken)).toBe(broken)
+  })
+})
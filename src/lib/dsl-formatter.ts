@@ -0,0 +1,180 @@
+import { DslConfigEntry, DslLine, DslToken, parseDslDocument, parseDuration } from './dsl-parser'
+import { formatDuration } from './dsl-converter'
+
+// Re-lays out DSL text: indentation comes from the AST, and only key spacing and `=`
+// are normalised. Everything after a key is kept as written, since unquoted values may
+// hold spaces and symbols the tokens alone cannot reproduce. Comments stay attached to
+// the lines they annotate.
+
+export interface DslFormatOptions {
+  /** Spaces per nesting level (default 2) */
+  indent?: number
+  /** Align `=` across the entries of each settings/defaults/config block (default true) */
+  alignEquals?: boolean
+  /** Keep steps in source order or sort them by name (default 'preserve') */
+  stepOrder?: 'preserve' | 'alphabetical'
+  /** Rewrite retry delays in their largest whole unit, e.g. `5000ms` -> `5s` (default true) */
+  canonicalDurations?: boolean
+}
+
+interface LineLayout {
+  depth: number
+  /** Index of the owning section in document order */
+  section: number
+  /** Siblings whose `=` are aligned share a group */
+  group?: DslConfigEntry[]
+}
+
+interface Chunk {
+  lines: string[]
+  /** Step name when the chunk is a step section */
+  step?: string
+  isImport: boolean
+}
+
+// No space after an opener, none before a closer or separator
+function joinTokens(tokens: DslToken[]): string {
+  let out = ''
+  tokens.forEach((t, i) => {
+    const prev = tokens[i - 1]
+    const tight = !prev
+      || prev.type === 'lbracket' || prev.type === 'lbrace'
+      || t.type === 'rbracket' || t.type === 'rbrace' || t.type === 'comma' || t.type === 'colon'
+    out += (tight ? '' : ' ') + t.text
+  })
+  return out
+}
+
+// Source text from the first token to the last, gaps included; tokens carry their
+// original spans, so a rewritten token text slots into place
+function sourceSlice(l: DslLine, tokens: DslToken[]): string {
+  let out = ''
+  tokens.forEach((t, i) => {
+    if (i > 0) out += l.text.slice(tokens[i - 1].span.end.column - 1, t.span.start.column - 1)
+    out += t.text
+  })
+  return out
+}
+
+function canonicalizeDurations(tokens: DslToken[]): DslToken[] {
+  return tokens.map((t, i) => {
+    if (t.type !== 'word' || tokens[i - 1]?.type !== 'slash') return t
+    const ms = parseDuration(t.text)
+    return ms === undefined ? t : { ...t, text: formatDuration(ms) }
+  })
+}
+
+/**
+ * Format DSL text. Documents with syntax errors are returned unchanged since
+ * their structure (and therefore indentation) is ambiguous.
+ */
+export function formatDSL(text: string, options: DslFormatOptions = {}): string {
+  const { indent = 2, alignEquals = true, stepOrder = 'preserve', canonicalDurations = true } = options
+  const { document, lines, errors } = parseDslDocument(text)
+  if (errors.length > 0 || text.trim() === '') return text
+
+  // Depth and alignment group of every code line, derived from the AST
+  const layout = new Map<number, LineLayout>()
+  const addEntries = (entries: DslConfigEntry[], depth: number, section: number) => {
+    for (const entry of entries) {
+      const nested = entry.value.kind === 'Map' && !entry.value.inline
+      layout.set(entry.span.start.line, { depth, section, group: nested ? undefined : entries })
+      if (entry.value.kind === 'Map' && !entry.value.inline) addEntries(entry.value.entries, depth + 1, section)
+    }
+  }
+  document.sections.forEach((section, idx) => {
+    const first = section.span.start.line
+    const last = section.span.end.line
+    // Body lines default to one level in; entry blocks refine that below
+    for (let n = first; n <= last; n++) {
+      if (lines[n - 1].tokens.length > 0) layout.set(n, { depth: n === first ? 0 : 1, section: idx })
+    }
+    if (section.kind === 'Settings' || section.kind === 'Defaults') addEntries(section.entries, 1, idx)
+    if (section.kind === 'Step' && section.config) addEntries(section.config.entries, 2, idx)
+  })
+
+  // Widest key per alignment group
+  const keyWidth = new Map<DslConfigEntry[], number>()
+  const splitEntry = (l: DslLine) => {
+    const eq = l.tokens.findIndex(t => t.type === 'equals')
+    return { key: joinTokens(l.tokens.slice(0, eq)), value: sourceSlice(l, l.tokens.slice(eq + 1)) }
+  }
+  if (alignEquals) {
+    layout.forEach((info, n) => {
+      if (!info.group) return
+      const width = splitEntry(lines[n - 1]).key.length
+      keyWidth.set(info.group, Math.max(keyWidth.get(info.group) ?? 0, width))
+    })
+  }
+
+  const codeLine = (l: DslLine): string => {
+    const info = layout.get(l.line)!
+    let body: string
+    if (info.group) {
+      const { key, value } = splitEntry(l)
+      body = `${alignEquals ? key.padEnd(keyWidth.get(info.group)!) : key} = ${value}`
+    } else {
+      body = sourceSlice(l, canonicalDurations ? canonicalizeDurations(l.tokens) : l.tokens)
+    }
+    return ' '.repeat(info.depth * indent) + body + (l.comment ? `  ${l.comment.text.trimEnd()}` : '')
+  }
+
+  // Comment-only lines indent like the code they annotate: the next code line of the
+  // same section, else the code line they directly follow, else top level
+  const commentDepth = (n: number, section: number | undefined): number => {
+    if (section === undefined) return 0
+    for (let k = n + 1; k <= lines.length; k++) {
+      const info = layout.get(k)
+      if (info) return info.section === section ? info.depth : 0
+    }
+    for (let k = n - 1; k >= 1; k--) {
+      if (lines[k - 1].tokens.length === 0 && !lines[k - 1].comment) return 0
+      const info = layout.get(k)
+      if (info) return info.section === section ? info.depth : 0
+    }
+    return 0
+  }
+
+  // Split the source into a preamble and one chunk per section; a section's chunk starts
+  // at the comment lines directly above its header and runs until the next chunk
+  const starts = document.sections.map(section => {
+    let n = section.span.start.line
+    while (n > 1 && lines[n - 2].tokens.length === 0 && lines[n - 2].comment) n--
+    return n
+  })
+  const render = (from: number, to: number, section: number | undefined): string[] => {
+    const out: string[] = []
+    for (let n = from; n <= to; n++) {
+      const l = lines[n - 1]
+      if (l.tokens.length > 0) out.push(codeLine(l))
+      else if (l.comment) out.push(' '.repeat(commentDepth(n, section) * indent) + l.comment.text.trimEnd())
+      // Collapse blank runs to a single line
+      else if (out.length > 0 && out[out.length - 1] !== '') out.push('')
+    }
+    while (out.length > 0 && out[out.length - 1] === '') out.pop()
+    return out
+  }
+
+  const preamble = render(1, (starts[0] ?? lines.length + 1) - 1, undefined)
+  const chunks: Chunk[] = document.sections.map((section, idx) => ({
+    lines: render(starts[idx], (starts[idx + 1] ?? lines.length + 1) - 1, idx),
+    step: section.kind === 'Step' ? section.name.name : undefined,
+    isImport: section.kind === 'Import',
+  }))
+
+  if (stepOrder === 'alphabetical') {
+    // Steps trade places among the slots steps already occupy
+    const sorted = chunks.filter(c => c.step !== undefined).sort((a, b) => a.step!.localeCompare(b.step!))
+    let next = 0
+    chunks.forEach((c, idx) => { if (c.step !== undefined) chunks[idx] = sorted[next++] })
+  }
+
+  const out: string[] = [...preamble]
+  chunks.forEach((chunk, idx) => {
+    // Sections are separated by one blank line; consecutive imports stay together
+    const prev = chunks[idx - 1]
+    if (out.length > 0 && !(prev?.isImport && chunk.isImport)) out.push('')
+    out.push(...chunk.lines)
+  })
+  return out.join('\n') + '\n'
+}
@@ -54,6 +54,12 @@ export class DslHighlighter {
     // Escape HTML first, then add our spans
     result = this.escapeHtml(result)
 
+    // Handle import directives (import "common.dsl")
+    result = result.replace(
+      /^(import|include)(\s+)(&quot;.*?&quot;|&#39;.*?&#39;)(.*)$/gi,
+      '<span class="dsl-keyword">$1</span>$2<span class="dsl-value">$3</span>$4'
+    )
+
     // Handle section headers (settings:, defaults:)
     result = result.replace(
       /^(settings|defaults)(\s*):(.*)$/gi,
@@ -92,7 +98,7 @@ export class DslHighlighter {
 
     // Handle special keywords
     result = result.replace(
-      /\b(fail|retry|skip|stop|continue|requires|config|SUCCESS|FAILURE)\b/gi,
+      /\b(fail|retry|call|skip|stop|continue|requires|config|SUCCESS|FAILURE)\b/gi,
       '<span class="dsl-keyword">$1</span>'
     )
 
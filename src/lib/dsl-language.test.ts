@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest'
+import { parseDslDocument } from './dsl-parser'
+import { findDefinition, findReferences, symbolAt } from './dsl-language'
+
+const FILES = {
+  'shared/common.dsl': ['import "steps.dsl"', '', 'workflow Billing:', '  root: Charge', '  Charge -> SUCCESS'].join('\n'),
+  'shared/steps.dsl': ['step Charge: ChargeStep', '  config:', '    currency = EUR'].join('\n'),
+}
+const PROJECT = { files: FILES, path: 'main.dsl' }
+
+const MAIN = [
+  'import "shared/common.dsl"',
+  '',
+  'workflow Order:',
+  '  root: Charge',
+  '  Charge -> call Billing -> Ship',
+  '  Ship -> SUCCESS',
+  '',
+  'step Ship: ShipStep',
+].join('\n')
+
+const { document, lines } = parseDslDocument(MAIN)
+const at = (line: number, column: number) => symbolAt(document, { line, column })!
+
+describe('findDefinition', () => {
+  it('finds declarations in the open document', () => {
+    expect(findDefinition(document, at(6, 3), PROJECT)).toMatchObject({ file: 'main.dsl', symbol: { name: 'Ship', span: { start: { line: 8 } } } })
+  })
+
+  it('follows imports, including nested ones', () => {
+    expect(findDefinition(document, at(4, 9), PROJECT)).toMatchObject({ file: 'shared/steps.dsl', symbol: { name: 'Charge', definition: true } })
+    expect(findDefinition(document, at(5, 18), PROJECT)).toMatchObject({ file: 'shared/common.dsl', symbol: { name: 'Billing' } })
+  })
+
+  it('finds nothing for names no loaded file declares', () => {
+    expect(findDefinition(document, at(4, 9))).toBeUndefined()
+  })
+})
+
+describe('findReferences', () => {
+  it('lists occurrences across the open document and its imports', () => {
+    const refs = findReferences(document, lines, at(4, 9), PROJECT)
+    expect(refs.map(r => [r.file, r.symbol.span.start.line, r.section])).toEqual([
+      ['main.dsl', 4, 'workflow Order'],
+      ['main.dsl', 5, 'workflow Order'],
+      ['shared/common.dsl', 4, 'workflow Billing'],
+      ['shared/common.dsl', 5, 'workflow Billing'],
+      ['shared/steps.dsl', 1, 'step Charge'],
+    ])
+    expect(refs[4].text).toBe('step Charge: ChargeStep')
+  })
+})
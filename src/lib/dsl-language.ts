@@ -0,0 +1,130 @@
+import { StepFlowConfig } from '../types/stepflow'
+import { DslDocument, DslLine, SourcePosition, SourceSpan, parseDslDocument } from './dsl-parser'
+import { DslSymbol, collectDslSymbols } from './dsl-symbols'
+import { DslProjectOptions, formatRetry, resolveImportPath, stringifyEntries } from './dsl-converter'
+import { resolveConfig } from './config-resolver'
+
+// Editor navigation on top of the DSL AST: symbol lookup, definitions, references and hovers
+
+export interface DslLocation {
+  symbol: DslSymbol
+  /** Project file the symbol sits in; `options.path` for the open document */
+  file?: string
+}
+
+export interface DslReference extends DslLocation {
+  /** Enclosing section header, e.g. `workflow Main` */
+  section: string
+  /** Trimmed source line the reference sits on */
+  text: string
+}
+
+export interface DslHover {
+  title: string
+  /** Detail lines, rendered monospace */
+  lines: string[]
+}
+
+const contains = (span: SourceSpan, p: SourcePosition) =>
+  p.line === span.start.line && p.column >= span.start.column && p.column <= span.end.column
+
+/** Symbol under a 1-based position; a caret right after a name still counts */
+export function symbolAt(document: DslDocument, position: SourcePosition): DslSymbol | undefined {
+  return collectDslSymbols(document).find(s => contains(s.span, position))
+}
+
+interface ProjectDocument {
+  file?: string
+  document: DslDocument
+  lines: DslLine[]
+}
+
+// Every file the open document imports, transitively and each once, in the order
+// parseDSL loads them. Missing files are skipped.
+function importedDocuments(document: DslDocument, options: DslProjectOptions): ProjectDocument[] {
+  const out: ProjectDocument[] = []
+  const loaded = new Set<string>(options.path ? [options.path] : [])
+  const visit = (doc: DslDocument, from: string | undefined) => {
+    for (const section of doc.sections) {
+      if (section.kind !== 'Import') continue
+      const path = resolveImportPath(from, section.path)
+      const content = options.files?.[path]
+      if (loaded.has(path) || content === undefined) continue
+      loaded.add(path)
+      const child = parseDslDocument(content)
+      out.push({ file: path, document: child.document, lines: child.lines })
+      visit(child.document, path)
+    }
+  }
+  visit(document, options.path)
+  return out
+}
+
+/**
+ * Declaring occurrence for a symbol, looked up in the open document first and then
+ * through its imports; guards resolve to a `step` section of the same name
+ */
+export function findDefinition(document: DslDocument, symbol: DslSymbol, options: DslProjectOptions = {}): DslLocation | undefined {
+  const kind = symbol.kind === 'workflow' ? 'workflow' : 'step'
+  for (const { file, document: doc } of [{ file: options.path, document }, ...importedDocuments(document, options)]) {
+    const definition = collectDslSymbols(doc).find(s => s.definition && s.kind === kind && s.name === symbol.name)
+    if (definition) return { symbol: definition, file }
+  }
+  return undefined
+}
+
+/**
+ * Every occurrence of the symbol, definition included, with its enclosing section.
+ * Covers the open document and the files it imports, not files importing it.
+ */
+export function findReferences(document: DslDocument, lines: DslLine[], symbol: DslSymbol, options: DslProjectOptions = {}): DslReference[] {
+  const sameSymbol = (s: DslSymbol) =>
+    s.name === symbol.name && (s.kind === symbol.kind || (symbol.kind !== 'workflow' && s.kind !== 'workflow' && s.definition))
+  const documents = [{ file: options.path, document, lines }, ...importedDocuments(document, options)]
+  return documents.flatMap(({ file, document: doc, lines: docLines }) =>
+    collectDslSymbols(doc)
+      .filter(sameSymbol)
+      .map(s => {
+        const section = doc.sections.find(sec => sec.span.start.line <= s.span.start.line && s.span.start.line <= sec.span.end.line)
+        const header = section?.kind === 'Workflow' ? `workflow ${section.name.name}`
+          : section?.kind === 'Step' ? `step ${section.name.name}`
+          : section?.kind.toLowerCase() ?? ''
+        return { symbol: s, file, section: header, text: docLines[s.span.start.line - 1]?.text.trim() ?? '' }
+      })
+  )
+}
+
+/** Hover card for a symbol, using the (import-resolved) project config */
+export function hoverInfo(config: StepFlowConfig, symbol: DslSymbol): DslHover | undefined {
+  if (symbol.kind === 'workflow') {
+    const wf = config.workflows?.[symbol.name]
+    if (!wf) return { title: `workflow ${symbol.name}`, lines: ['Not defined'] }
+    const callers = Object.entries(config.workflows || {})
+      .filter(([, w]) => w.edges?.some(e => e.call === symbol.name))
+      .map(([n]) => n)
+    return {
+      title: `workflow ${symbol.name}`,
+      lines: [
+        `root: ${wf.root || '(none)'}`,
+        `${wf.edges?.length ?? 0} edge(s)`,
+        ...(callers.length ? [`called by: ${callers.join(', ')}`] : []),
+      ],
+    }
+  }
+
+  const step = config.steps?.[symbol.name]
+  if (!step) {
+    if (symbol.kind === 'guard') {
+      const users = Object.entries(config.steps || {}).filter(([, s]) => s.guards?.includes(symbol.name) || s.retry?.guard === symbol.name)
+      return { title: `guard ${symbol.name}`, lines: [`Guard component${users.length ? `, required by ${users.map(([n]) => n).join(', ')}` : ''}`] }
+    }
+    return { title: `step ${symbol.name}`, lines: ['Not defined'] }
+  }
+
+  const lines = [`type: ${step.type}`]
+  if (step.guards?.length) lines.push(`guards: ${step.guards.join(', ')}`)
+  if (step.retry) lines.push(formatRetry(step.retry))
+  const resolved = resolveConfig(config, 'step', symbol.name).value
+  if (Object.keys(resolved).length > 0) lines.push('config (with defaults):', ...stringifyEntries(resolved, '  '))
+  return { title: `${symbol.kind} ${symbol.name}`, lines }
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest'
+import { parseDSL } from './dsl-converter'
+import { tokenizeDSL } from './dsl-parser'
+
+const parse = (text: string) => {
+  const result = parseDSL(text)
+  expect(result.errors).toEqual([])
+  return result.config!
+}
+
+describe('comments', () => {
+  it('strips full-line and trailing comments', () => {
+    const config = parse(['# settings for the demo', 'settings:', '  timeout = 30  # seconds', '  name = demo'].join('\n'))
+    expect(config.settings).toEqual({ timeout: 30, name: 'demo' })
+  })
+
+  it('reads a # where a value must follow as part of the value', () => {
+    const config = parse(['settings:', '  color = #fff', '  palette = [ #fff, #000 ]', '  theme = {accent = #f00}'].join('\n'))
+    expect(config.settings).toEqual({ color: '#fff', palette: ['#fff', '#000'], theme: { accent: '#f00' } })
+  })
+
+  it('ends a value at a comment after it', () => {
+    const config = parse(['settings:', '  color = #fff # white'].join('\n'))
+    expect(config.settings).toEqual({ color: '#fff' })
+    expect(tokenizeDSL('  color = #fff # white')[0].comment?.text).toBe('# white')
+  })
+
+  it('keeps # inside words and strings', () => {
+    const config = parse(['settings:', '  anchor = page#top', '  label = "a # b"'].join('\n'))
+    expect(config.settings).toEqual({ anchor: 'page#top', label: 'a # b' })
+  })
+})
+
+describe('call edges', () => {
+  const edges = (line: string) => {
+    const config = parse(['workflow W:', '  root: A', `  ${line}`, '', 'workflow Billing:', '  root: B', '  B -> SUCCESS'].join('\n'))
+    return config.workflows!.W.edges
+  }
+
+  it('reads `call W` as a call to the workflow', () => {
+    expect(edges('A -> call Billing -> C')).toEqual([{ from: 'A', to: 'C', call: 'Billing' }])
+    expect(edges('A -> call Billing ? g fail skip')).toEqual([
+      { from: 'A', to: 'SUCCESS', call: 'Billing', guard: 'g', onFailure: { strategy: 'SKIP' } },
+    ])
+  })
+
+  it('reads a bare `call` as a step name', () => {
+    expect(edges('A -> call')).toEqual([{ from: 'A', to: 'call' }])
+  })
+
+  it('reads a step named `call` with a failure strategy', () => {
+    expect(edges('A -> call fail skip')).toEqual([{ from: 'A', to: 'call', onFailure: { strategy: 'SKIP' } }])
+    expect(edges('A -> call on failure -> B')).toEqual([
+      { from: 'A', to: 'call', onFailure: { strategy: 'ALTERNATIVE', alternativeTarget: 'B' } },
+    ])
+  })
+
+  it('reads a step named `call` with a guard', () => {
+    expect(edges('A -> call ? g')).toEqual([{ from: 'A', to: 'call', guard: 'g' }])
+  })
+})
@@ -0,0 +1,845 @@
+import { EdgeFailureStrategy } from '../types/stepflow'
+
+// Tokenizer + recursive-descent parser for the StepFlow DSL.
+// Every AST node carries a source span so editor tooling (diagnostics, navigation,
+// formatting) can work from positions instead of re-scanning the text.
+
+// ===== Source locations =====
+
+export interface SourcePosition {
+  /** 1-based line number */
+  line: number
+  /** 1-based column number */
+  column: number
+}
+
+export interface SourceSpan {
+  start: SourcePosition
+  /** Exclusive end position */
+  end: SourcePosition
+}
+
+export interface DslDiagnostic {
+  line: number
+  message: string
+  /** Project file the diagnostic belongs to (multi-file projects) */
+  file?: string
+  column?: number
+  endLine?: number
+  endColumn?: number
+  severity?: 'error' | 'warning' | 'info'
+  /** Validation rule that reported it; usable in `# stepflow-disable-next-line` comments */
+  rule?: string
+  /** Code actions that resolve the diagnostic, preferred first */
+  fixes?: DslFix[]
+}
+
+/** Replace the text in `span` (an empty span inserts) */
+export interface DslTextEdit {
+  span: SourceSpan
+  newText: string
+}
+
+export interface DslFix {
+  title: string
+  edits: DslTextEdit[]
+}
+
+// ===== Tokens =====
+
+export type DslTokenType =
+  | 'word'
+  | 'string'
+  | 'arrow'
+  | 'colon'
+  | 'equals'
+  | 'question'
+  | 'comma'
+  | 'slash'
+  | 'lbracket'
+  | 'rbracket'
+  | 'lbrace'
+  | 'rbrace'
+  | 'comment'
+  | 'other'
+
+export interface DslToken {
+  type: DslTokenType
+  text: string
+  span: SourceSpan
+}
+
+/** One physical source line with its tokens (comment split out) */
+export interface DslLine {
+  line: number
+  text: string
+  /** Number of leading whitespace characters */
+  indent: number
+  tokens: DslToken[]
+  comment?: DslToken
+}
+
+// ===== AST =====
+
+interface DslNodeBase {
+  span: SourceSpan
+}
+
+export interface DslIdentifier extends DslNodeBase {
+  kind: 'Identifier'
+  name: string
+}
+
+export interface DslScalar extends DslNodeBase {
+  kind: 'Scalar'
+  value: string | number | boolean | null
+  raw: string
+}
+
+export interface DslList extends DslNodeBase {
+  kind: 'List'
+  items: DslValue[]
+}
+
+export interface DslMap extends DslNodeBase {
+  kind: 'Map'
+  entries: DslConfigEntry[]
+  /** `{k = v}` literal vs. indented block */
+  inline: boolean
+}
+
+export type DslValue = DslScalar | DslList | DslMap
+
+export interface DslConfigEntry extends DslNodeBase {
+  kind: 'ConfigEntry'
+  /** Key as written, e.g. `payment.timeout` or `"Content-Type"` */
+  key: DslIdentifier
+  /** Key segments; bare keys are dotted paths, quoted keys are a single segment */
+  path: string[]
+  value: DslValue
+}
+
+export interface DslSettingsSection extends DslNodeBase {
+  kind: 'Settings'
+  header: SourceSpan
+  entries: DslConfigEntry[]
+}
+
+export interface DslDefaultsSection extends DslNodeBase {
+  kind: 'Defaults'
+  header: SourceSpan
+  entries: DslConfigEntry[]
+}
+
+export interface DslRootDecl extends DslNodeBase {
+  kind: 'Root'
+  target: DslIdentifier
+}
+
+export interface DslFailure extends DslNodeBase {
+  kind: 'Failure'
+  strategy: EdgeFailureStrategy
+  /** ALTERNATIVE target */
+  target?: DslIdentifier
+  /** RETRY attempts */
+  attempts?: number
+  /** RETRY delay in milliseconds */
+  delay?: number
+}
+
+export interface DslEdge extends DslNodeBase {
+  kind: 'Edge'
+  from: DslIdentifier
+  to: DslIdentifier
+  /** Sub-workflow invoked between `from` and `to` (`A -> call W -> B`) */
+  call?: DslIdentifier
+  guard?: DslIdentifier
+  failure?: DslFailure
+}
+
+export interface DslWorkflowSection extends DslNodeBase {
+  kind: 'Workflow'
+  header: SourceSpan
+  name: DslIdentifier
+  root?: DslRootDecl
+  edges: DslEdge[]
+}
+
+export interface DslRequires extends DslNodeBase {
+  kind: 'Requires'
+  guards: DslIdentifier[]
+}
+
+export interface DslRetry extends DslNodeBase {
+  kind: 'Retry'
+  attempts: number
+  delay?: number
+  guard?: DslIdentifier
+}
+
+export interface DslConfigBlock extends DslNodeBase {
+  kind: 'Config'
+  entries: DslConfigEntry[]
+}
+
+export interface DslStepSection extends DslNodeBase {
+  kind: 'Step'
+  header: SourceSpan
+  name: DslIdentifier
+  type: DslIdentifier
+  requires?: DslRequires
+  retry?: DslRetry
+  config?: DslConfigBlock
+}
+
+export interface DslImport extends DslNodeBase {
+  kind: 'Import'
+  header: SourceSpan
+  /** Path as written, relative to the importing file */
+  path: string
+  pathSpan: SourceSpan
+}
+
+export type DslSection = DslImport | DslSettingsSection | DslDefaultsSection | DslWorkflowSection | DslStepSection
+
+export interface DslDocument extends DslNodeBase {
+  kind: 'Document'
+  sections: DslSection[]
+}
+
+export interface DslParseOutput {
+  document: DslDocument
+  lines: DslLine[]
+  errors: DslDiagnostic[]
+}
+
+// ===== Helpers =====
+
+const NAME_RE = /^[A-Za-z_][\w-]*$/
+const TYPE_RE = /^[A-Za-z_][A-Za-z0-9_.-]*$/
+const KEY_RE = /^[A-Za-z_][A-Za-z0-9_.-]*$/
+const DURATION_RE = /^(\d+)(ms|s|m)$/
+const COUNT_RE = /^(\d+)x$/i
+
+const pos = (line: number, column: number): SourcePosition => ({ line, column })
+const spanOf = (from: { span: SourceSpan }, to: { span: SourceSpan }): SourceSpan => ({ start: from.span.start, end: to.span.end })
+
+/** Span covering the non-whitespace content of a line (comment excluded) */
+function lineSpan(l: DslLine): SourceSpan {
+  const first = l.tokens[0]
+  const last = l.tokens[l.tokens.length - 1]
+  if (!first) return { start: pos(l.line, l.indent + 1), end: pos(l.line, l.text.length + 1) }
+  return spanOf(first, last)
+}
+
+export function parseDuration(raw?: string): number | undefined {
+  if (!raw) return undefined
+  const m = raw.trim().match(DURATION_RE)
+  if (!m) return undefined
+  const n = parseInt(m[1], 10)
+  const unit = m[2]
+  if (unit === 'ms') return n
+  if (unit === 's') return n * 1000
+  if (unit === 'm') return n * 60_000
+  return undefined
+}
+
+export function parseScalar(raw: string): string | number | boolean | null {
+  const s = raw.trim()
+  if (s === 'true') return true
+  if (s === 'false') return false
+  if (s === 'null') return null
+  if (s.length >= 2 && s.startsWith('"') && s.endsWith('"')) {
+    try { return JSON.parse(s) } catch { return s.slice(1, -1) }
+  }
+  if (s.length >= 2 && s.startsWith("'") && s.endsWith("'")) {
+    return s.slice(1, -1)
+  }
+  if (s !== '' && !isNaN(Number(s))) return Number(s)
+  return s
+}
+
+// ===== Tokenizer =====
+
+const isWordChar = (ch: string) => /[A-Za-z0-9_.\-]/.test(ch)
+
+// Whether the line so far leaves a value unfinished: after `=`, `[`, `{`, or `,` inside brackets
+function expectsValue(tokens: DslToken[]): boolean {
+  const last = tokens[tokens.length - 1]
+  if (!last) return false
+  if (last.type === 'equals' || last.type === 'lbracket' || last.type === 'lbrace') return true
+  if (last.type !== 'comma') return false
+  let depth = 0
+  for (const t of tokens) {
+    if (t.type === 'lbracket' || t.type === 'lbrace') depth++
+    else if (t.type === 'rbracket' || t.type === 'rbrace') depth--
+  }
+  return depth > 0
+}
+
+function tokenizeLine(text: string, line: number): DslLine {
+  const tokens: DslToken[] = []
+  let comment: DslToken | undefined
+  const indent = text.match(/^\s*/)?.[0].length ?? 0
+  let i = indent
+
+  const push = (type: DslTokenType, start: number, end: number) => {
+    tokens.push({ type, text: text.slice(start, end), span: { start: pos(line, start + 1), end: pos(line, end + 1) } })
+  }
+
+  while (i < text.length) {
+    const ch = text[i]
+    if (/\s/.test(ch)) { i++; continue }
+
+    // Comments start with '#' at line start or after whitespace, but not where a value must
+    // follow (`color = #fff`, `[#fff, #000]`): a value may begin with '#'
+    if (ch === '#' && (i === 0 || /\s/.test(text[i - 1])) && !expectsValue(tokens)) {
+      comment = { type: 'comment', text: text.slice(i), span: { start: pos(line, i + 1), end: pos(line, text.length + 1) } }
+      break
+    }
+
+    if (ch === '-' && text[i + 1] === '>') { push('arrow', i, i + 2); i += 2; continue }
+
+    if (ch === '"' || ch === "'") {
+      let j = i + 1
+      while (j < text.length && text[j] !== ch) {
+        if (text[j] === '\\') j++
+        j++
+      }
+      const end = Math.min(j + 1, text.length)
+      push('string', i, end)
+      i = end
+      continue
+    }
+
+    const single: Record<string, DslTokenType> = {
+      ':': 'colon', '=': 'equals', '?': 'question', ',': 'comma', '/': 'slash',
+      '[': 'lbracket', ']': 'rbracket', '{': 'lbrace', '}': 'rbrace',
+    }
+    if (single[ch]) { push(single[ch], i, i + 1); i++; continue }
+
+    if (isWordChar(ch)) {
+      let j = i
+      while (j < text.length && isWordChar(text[j]) && !(text[j] === '-' && text[j + 1] === '>')) j++
+      push('word', i, j)
+      i = j
+      continue
+    }
+
+    push('other', i, i + 1)
+    i++
+  }
+
+  return { line, text, indent, tokens, comment }
+}
+
+export function tokenizeDSL(text: string): DslLine[] {
+  return text.replace(/\r\n?/g, '\n').split('\n').map((t, idx) => tokenizeLine(t, idx + 1))
+}
+
+// ===== Parser =====
+
+class LineCursor {
+  private i = 0
+  constructor(private readonly l: DslLine) {}
+
+  peek(offset = 0): DslToken | undefined { return this.l.tokens[this.i + offset] }
+  next(): DslToken | undefined { return this.l.tokens[this.i++] }
+  atEnd(): boolean { return this.i >= this.l.tokens.length }
+
+  isWord(text?: string, offset = 0): boolean {
+    const t = this.peek(offset)
+    return !!t && t.type === 'word' && (text === undefined || t.text.toLowerCase() === text)
+  }
+
+  is(type: DslTokenType, offset = 0): boolean {
+    return this.peek(offset)?.type === type
+  }
+
+  /** Span from the current token to the end of the line (or the line end if exhausted) */
+  restSpan(): SourceSpan {
+    const t = this.peek()
+    const last = this.l.tokens[this.l.tokens.length - 1]
+    if (!t || !last) {
+      const end = last ? last.span.end : pos(this.l.line, this.l.text.length + 1)
+      return { start: end, end: { line: end.line, column: end.column + 1 } }
+    }
+    return { start: t.span.start, end: last.span.end }
+  }
+
+  /** Raw source text from the current token to the end of the line, comment excluded */
+  rest(): string {
+    const t = this.peek()
+    const last = this.l.tokens[this.l.tokens.length - 1]
+    if (!t || !last) return ''
+    return this.l.text.slice(t.span.start.column - 1, last.span.end.column - 1)
+  }
+}
+
+class DslSyntaxError extends Error {
+  constructor(message: string, readonly span: SourceSpan) {
+    super(message)
+  }
+}
+
+/** Scans list / map literals (`[a, b]`, `{k = v}`) within a single line */
+class ValueScanner {
+  private i: number
+
+  constructor(private readonly text: string, private readonly line: number, start: number, private readonly end: number) {
+    this.i = start
+  }
+
+  private at(i = this.i) { return pos(this.line, i + 1) }
+  private skipWs() { while (this.i < this.end && /\s/.test(this.text[this.i])) this.i++ }
+  private fail(message: string): never {
+    throw new DslSyntaxError(message, { start: this.at(), end: this.at(Math.max(this.end, this.i + 1)) })
+  }
+
+  /** Parses the whole remaining text as one value */
+  parseAll(): DslValue {
+    this.skipWs()
+    const ch = this.text[this.i]
+    if (ch !== '[' && ch !== '{') {
+      // Top-level bare values keep their full text (e.g. `hello world`, URLs)
+      const raw = this.text.slice(this.i, this.end).trim()
+      return { kind: 'Scalar', value: parseScalar(raw), raw, span: { start: this.at(), end: this.at(this.end) } }
+    }
+    const value = this.parseValue()
+    this.skipWs()
+    if (this.i < this.end) this.fail('Unexpected text after value')
+    return value
+  }
+
+  private parseValue(): DslValue {
+    this.skipWs()
+    const start = this.i
+    const ch = this.text[this.i]
+    if (ch === '[') {
+      this.i++
+      const items: DslValue[] = []
+      this.skipWs()
+      while (this.text[this.i] !== ']') {
+        if (this.i >= this.end) this.fail('Unterminated list')
+        items.push(this.parseValue())
+        this.skipWs()
+        if (this.text[this.i] === ',') { this.i++; this.skipWs(); continue }
+        if (this.text[this.i] !== ']') this.fail(this.i >= this.end ? 'Unterminated list' : 'Expected , or ] in list')
+      }
+      this.i++
+      return { kind: 'List', items, span: { start: this.at(start), end: this.at() } }
+    }
+    if (ch === '{') {
+      this.i++
+      const entries: DslConfigEntry[] = []
+      this.skipWs()
+      while (this.text[this.i] !== '}') {
+        if (this.i >= this.end) this.fail('Unterminated map')
+        entries.push(this.parseMapEntry())
+        this.skipWs()
+        if (this.text[this.i] === ',') { this.i++; this.skipWs(); continue }
+        if (this.text[this.i] !== '}') this.fail(this.i >= this.end ? 'Unterminated map' : 'Expected , or } in map')
+      }
+      this.i++
+      return { kind: 'Map', entries, inline: true, span: { start: this.at(start), end: this.at() } }
+    }
+    const raw = ch === '"' || ch === "'" ? this.readQuoted() : this.readBare()
+    if (!raw) this.fail('Expected value')
+    return { kind: 'Scalar', value: parseScalar(raw), raw, span: { start: this.at(start), end: this.at() } }
+  }
+
+  private parseMapEntry(): DslConfigEntry {
+    const start = this.i
+    const quoted = this.text[this.i] === '"' || this.text[this.i] === "'"
+    const raw = quoted ? this.readQuoted() : this.readBare(/[=,}\s]/)
+    if (!raw || (!quoted && !KEY_RE.test(raw))) this.fail('Expected key in map')
+    const key: DslIdentifier = { kind: 'Identifier', name: quoted ? String(parseScalar(raw)) : raw, span: { start: this.at(start), end: this.at() } }
+    this.skipWs()
+    if (this.text[this.i] !== '=') this.fail('Expected = in map')
+    this.i++
+    const value = this.parseValue()
+    return { kind: 'ConfigEntry', key, path: quoted ? [key.name] : raw.split('.'), value, span: { start: key.span.start, end: value.span.end } }
+  }
+
+  private readQuoted(): string {
+    const q = this.text[this.i]
+    const start = this.i++
+    while (this.i < this.end && this.text[this.i] !== q) {
+      if (this.text[this.i] === '\\') this.i++
+      this.i++
+    }
+    if (this.i >= this.end) this.fail('Unterminated string')
+    this.i++
+    return this.text.slice(start, this.i)
+  }
+
+  private readBare(stop = /[,\]}]/): string {
+    const start = this.i
+    while (this.i < this.end && !stop.test(this.text[this.i])) this.i++
+    return this.text.slice(start, this.i).trim()
+  }
+}
+
+function identifier(t: DslToken | undefined, re: RegExp, what: string, fallback: SourceSpan): DslIdentifier {
+  if (!t || t.type !== 'word' || !re.test(t.text)) {
+    throw new DslSyntaxError(`Expected ${what}`, t ? t.span : fallback)
+  }
+  return { kind: 'Identifier', name: t.text, span: t.span }
+}
+
+type HeaderKind = 'import' | 'settings' | 'defaults' | 'workflow' | 'step'
+
+// Sections start at column 1; an indented `settings:` or `defaults:` is a nested config key
+function headerKind(l: DslLine): HeaderKind | undefined {
+  if (l.indent > 0) return undefined
+  const c = new LineCursor(l)
+  if ((c.isWord('import') || c.isWord('include')) && c.is('string', 1) && l.tokens.length === 2) return 'import'
+  if ((c.isWord('settings') || c.isWord('defaults')) && c.is('colon', 1) && l.tokens.length === 2) {
+    return c.peek()!.text.toLowerCase() as HeaderKind
+  }
+  if (c.isWord('workflow') && c.is('word', 1) && c.is('colon', 2) && l.tokens.length === 3) return 'workflow'
+  if (c.isWord('step') && c.is('word', 1) && c.is('colon', 2) && c.is('word', 3) && l.tokens.length === 4) return 'step'
+  return undefined
+}
+
+function isStepDirective(l: DslLine): boolean {
+  const c = new LineCursor(l)
+  return (c.isWord('requires') || c.isWord('retry') || c.isWord('config')) && c.is('colon', 1)
+}
+
+class DslParser {
+  private idx = 0
+  readonly errors: DslDiagnostic[] = []
+
+  constructor(private readonly lines: DslLine[]) {}
+
+  parseDocument(): DslDocument {
+    const sections: DslSection[] = []
+    while (this.idx < this.lines.length) {
+      const l = this.lines[this.idx]
+      if (l.tokens.length === 0) { this.idx++; continue }
+      const kind = headerKind(l)
+      if (!kind) {
+        this.error('Unknown syntax', lineSpan(l))
+        this.idx++
+        continue
+      }
+      sections.push(this.parseSection(kind))
+    }
+    const lastLine = this.lines[this.lines.length - 1]
+    return {
+      kind: 'Document',
+      sections,
+      span: { start: pos(1, 1), end: pos(lastLine?.line ?? 1, (lastLine?.text.length ?? 0) + 1) },
+    }
+  }
+
+  private error(message: string, span: SourceSpan) {
+    this.errors.push({
+      line: span.start.line,
+      column: span.start.column,
+      endLine: span.end.line,
+      endColumn: span.end.column,
+      message,
+      severity: 'error',
+    })
+  }
+
+  /** Yields body lines until the next section header; blank/comment-only lines are skipped */
+  private *bodyLines(): Generator<DslLine> {
+    while (this.idx < this.lines.length) {
+      const l = this.lines[this.idx]
+      if (l.tokens.length === 0) { this.idx++; continue }
+      if (headerKind(l)) return
+      this.idx++
+      yield l
+    }
+  }
+
+  private parseSection(kind: HeaderKind): DslSection {
+    const headerLine = this.lines[this.idx++]
+    const header = lineSpan(headerLine)
+    switch (kind) {
+      case 'import': {
+        const t = headerLine.tokens[1]
+        return { kind: 'Import', header, path: String(parseScalar(t.text)), pathSpan: t.span, span: header }
+      }
+      case 'settings':
+      case 'defaults': {
+        const body = [...this.bodyLines()]
+        const entries = this.parseEntries(body, `Expected key = value in ${kind}`)
+        const span = { start: header.start, end: body.length ? lineSpan(body[body.length - 1]).end : header.end }
+        return kind === 'settings'
+          ? { kind: 'Settings', header, entries, span }
+          : { kind: 'Defaults', header, entries, span }
+      }
+      case 'workflow': {
+        const c = new LineCursor(headerLine)
+        c.next()
+        const name = this.headerIdentifier(c.next()!, NAME_RE, 'workflow name')
+        const wf: DslWorkflowSection = { kind: 'Workflow', header, name, edges: [], span: header }
+        for (const l of this.bodyLines()) {
+          wf.span = { start: header.start, end: lineSpan(l).end }
+          try {
+            this.parseWorkflowLine(new LineCursor(l), wf)
+          } catch (e) {
+            this.recover(e)
+          }
+        }
+        return wf
+      }
+      case 'step': {
+        const c = new LineCursor(headerLine)
+        c.next()
+        const name = this.headerIdentifier(c.next()!, NAME_RE, 'step name')
+        c.next()
+        const type = this.headerIdentifier(c.next()!, TYPE_RE, 'step type')
+        const step: DslStepSection = { kind: 'Step', header, name, type, span: header }
+        const body = [...this.bodyLines()]
+        for (let i = 0; i < body.length; i++) {
+          const l = body[i]
+          step.span = { start: header.start, end: lineSpan(l).end }
+          try {
+            if (!this.parseStepDirective(new LineCursor(l), l, step)) continue
+          } catch (e) {
+            this.recover(e)
+            continue
+          }
+          // config: block holds deeper-indented lines, plus flush lines that are not step directives
+          const block: DslLine[] = []
+          while (i + 1 < body.length && (body[i + 1].indent > l.indent || !isStepDirective(body[i + 1]))) block.push(body[++i])
+          const entries = this.parseEntries(block, 'Expected key = value in config')
+          step.config!.entries.push(...entries)
+          if (block.length) {
+            step.config!.span = { start: step.config!.span.start, end: lineSpan(block[block.length - 1]).end }
+            step.span = { start: header.start, end: step.config!.span.end }
+          }
+        }
+        return step
+      }
+    }
+  }
+
+  // Header tokens are known to be words; report bad names but keep the section
+  private headerIdentifier(t: DslToken, re: RegExp, what: string): DslIdentifier {
+    if (!re.test(t.text)) this.error(`Invalid ${what}`, t.span)
+    return { kind: 'Identifier', name: t.text, span: t.span }
+  }
+
+  private recover(e: unknown) {
+    if (e instanceof DslSyntaxError) this.error(e.message, e.span)
+    else throw e
+  }
+
+  /** Parses `key = value` lines; `key:` opens a nested block of deeper-indented lines */
+  private parseEntries(lines: DslLine[], message: string): DslConfigEntry[] {
+    const entries: DslConfigEntry[] = []
+    for (let i = 0; i < lines.length; i++) {
+      const l = lines[i]
+      const c = new LineCursor(l)
+      try {
+        if ((c.is('word') || c.is('string')) && c.is('colon', 1) && l.tokens.length === 2) {
+          const key = this.entryKey(c.next()!, message, l)
+          const children: DslLine[] = []
+          while (i + 1 < lines.length && lines[i + 1].indent > l.indent) children.push(lines[++i])
+          const nested = this.parseEntries(children, message)
+          const end = children.length ? lineSpan(children[children.length - 1]).end : lineSpan(l).end
+          const value: DslMap = { kind: 'Map', entries: nested, inline: false, span: { start: lineSpan(l).start, end } }
+          entries.push({ kind: 'ConfigEntry', key: key.key, path: key.path, value, span: value.span })
+          continue
+        }
+        entries.push(this.parseEntry(c, l, message))
+      } catch (e) {
+        this.recover(e)
+      }
+    }
+    return entries
+  }
+
+  private entryKey(t: DslToken, message: string, l: DslLine): { key: DslIdentifier; path: string[] } {
+    if (t.type === 'string') {
+      const name = String(parseScalar(t.text))
+      return { key: { kind: 'Identifier', name, span: t.span }, path: [name] }
+    }
+    if (t.type !== 'word' || !KEY_RE.test(t.text)) throw new DslSyntaxError(message, lineSpan(l))
+    return { key: { kind: 'Identifier', name: t.text, span: t.span }, path: t.text.split('.') }
+  }
+
+  private parseEntry(c: LineCursor, l: DslLine, message: string): DslConfigEntry {
+    const keyTok = c.next()
+    if (!keyTok || !c.is('equals') || c.peek(1) === undefined) throw new DslSyntaxError(message, lineSpan(l))
+    const { key, path } = this.entryKey(keyTok, message, l)
+    c.next()
+    const last = l.tokens[l.tokens.length - 1]
+    const value = new ValueScanner(l.text, l.line, c.peek()!.span.start.column - 1, last.span.end.column - 1).parseAll()
+    return { kind: 'ConfigEntry', key, path, value, span: { start: key.span.start, end: value.span.end } }
+  }
+
+  private parseWorkflowLine(c: LineCursor, wf: DslWorkflowSection) {
+    if (c.isWord('root') && c.is('colon', 1)) {
+      const start = c.next()!
+      c.next()
+      const target = identifier(c.next(), NAME_RE, 'root step name', c.restSpan())
+      if (!c.atEnd()) throw new DslSyntaxError('Unexpected tokens after root', c.restSpan())
+      wf.root = { kind: 'Root', target, span: spanOf(start, target) }
+      return
+    }
+    wf.edges.push(this.parseEdge(c))
+  }
+
+  private parseEdge(c: LineCursor): DslEdge {
+    const invalid = (span: SourceSpan) => new DslSyntaxError('Invalid edge syntax', span)
+    const fromTok = c.peek()
+    if (!fromTok || fromTok.type !== 'word' || !NAME_RE.test(fromTok.text)) throw invalid(c.restSpan())
+    c.next()
+    const from: DslIdentifier = { kind: 'Identifier', name: fromTok.text, span: fromTok.span }
+    if (!c.is('arrow')) throw invalid(c.restSpan())
+    c.next()
+
+    // `call W` is only a keyword when a workflow name follows, so a step named `call` still
+    // works, also with a guard (`-> call ? g`) or failure strategy (`-> call fail skip`)
+    const startsFailure = c.isWord('fail', 1) || (c.isWord('on', 1) && c.isWord('failure', 2))
+    let call: DslIdentifier | undefined
+    if (c.isWord('call') && c.isWord(undefined, 1) && !startsFailure) {
+      c.next()
+      const w = c.next()!
+      if (!NAME_RE.test(w.text)) throw invalid(w.span)
+      call = { kind: 'Identifier', name: w.text, span: w.span }
+    }
+
+    let to: DslIdentifier
+    if (call && !c.is('arrow')) {
+      // Tail call: the workflow's outcome is this edge's outcome
+      to = { kind: 'Identifier', name: 'SUCCESS', span: { start: call.span.end, end: call.span.end } }
+    } else {
+      if (call) c.next()
+      const toTok = c.peek()
+      if (!toTok || toTok.type !== 'word' || !NAME_RE.test(toTok.text)) throw invalid(c.restSpan())
+      c.next()
+      to = { kind: 'Identifier', name: toTok.text, span: toTok.span }
+    }
+    const edge: DslEdge = { kind: 'Edge', from, to, span: spanOf(from, to) }
+    if (call) edge.call = call
+
+    if (c.is('question')) {
+      c.next()
+      const g = c.peek()
+      if (!g || g.type !== 'word' || !NAME_RE.test(g.text)) throw invalid(c.restSpan())
+      c.next()
+      edge.guard = { kind: 'Identifier', name: g.text, span: g.span }
+      edge.span = spanOf(edge, edge.guard)
+    }
+
+    if (!c.atEnd()) {
+      edge.failure = this.parseFailure(c)
+      edge.span = spanOf(edge, edge.failure)
+    }
+    if (!c.atEnd()) throw invalid(c.restSpan())
+    return edge
+  }
+
+  private parseFailure(c: LineCursor): DslFailure {
+    const invalid = (span: SourceSpan) => new DslSyntaxError('Invalid edge syntax', span)
+    const start = c.peek()!
+    if (c.isWord('fail')) {
+      c.next()
+    } else if (c.isWord('on') && c.isWord('failure', 1)) {
+      c.next(); c.next()
+    } else {
+      throw invalid(c.restSpan())
+    }
+
+    if (c.is('arrow')) {
+      c.next()
+      const t = c.peek()
+      if (!t || t.type !== 'word' || !NAME_RE.test(t.text)) throw invalid(c.restSpan())
+      c.next()
+      const target: DslIdentifier = { kind: 'Identifier', name: t.text, span: t.span }
+      return { kind: 'Failure', strategy: 'ALTERNATIVE', target, span: spanOf(start, target) }
+    }
+
+    const kw = c.peek()
+    if (!kw || kw.type !== 'word') throw invalid(c.restSpan())
+    const word = kw.text.toLowerCase()
+    if (word === 'skip' || word === 'stop' || word === 'continue') {
+      c.next()
+      return { kind: 'Failure', strategy: word.toUpperCase() as EdgeFailureStrategy, span: spanOf(start, kw) }
+    }
+    if (word === 'retry') {
+      c.next()
+      const countTok = c.peek()
+      const count = countTok?.type === 'word' ? countTok.text.match(COUNT_RE) : null
+      if (!count) throw invalid(c.restSpan())
+      c.next()
+      let last: DslToken = countTok!
+      let delay: number | undefined
+      if (c.is('slash')) {
+        c.next()
+        const d = c.peek()
+        delay = d?.type === 'word' ? parseDuration(d.text) : undefined
+        if (delay === undefined) throw invalid(c.restSpan())
+        c.next()
+        last = d!
+      }
+      return { kind: 'Failure', strategy: 'RETRY', attempts: parseInt(count[1], 10), delay, span: spanOf(start, last) }
+    }
+    throw invalid(c.restSpan())
+  }
+
+  /** Returns true when the line opens a `config:` block */
+  private parseStepDirective(c: LineCursor, l: DslLine, step: DslStepSection): boolean {
+    if (!isStepDirective(l)) throw new DslSyntaxError('Unknown step directive', lineSpan(l))
+    const kwTok = c.next()!
+    const kw = kwTok.text.toLowerCase()
+    c.next()
+
+    if (kw === 'config') {
+      if (!c.atEnd()) throw new DslSyntaxError('Unexpected tokens after config:', c.restSpan())
+      if (!step.config) step.config = { kind: 'Config', entries: [], span: lineSpan(l) }
+      return true
+    }
+
+    if (kw === 'requires') {
+      const guards: DslIdentifier[] = []
+      while (!c.atEnd()) {
+        guards.push(identifier(c.next(), NAME_RE, 'guard name', c.restSpan()))
+        if (c.atEnd()) break
+        if (!c.is('comma')) throw new DslSyntaxError('Expected , between guards', c.restSpan())
+        c.next()
+      }
+      if (guards.length === 0) throw new DslSyntaxError('Expected at least one guard', c.restSpan())
+      step.requires = { kind: 'Requires', guards, span: spanOf(kwTok, guards[guards.length - 1]) }
+      return false
+    }
+
+    // retry: Nx [/ duration] [? guard]
+    const invalid = () => new DslSyntaxError('Unknown step directive', lineSpan(l))
+    const countTok = c.next()
+    const count = countTok?.type === 'word' ? countTok.text.match(COUNT_RE) : null
+    if (!count) throw invalid()
+    const retry: DslRetry = { kind: 'Retry', attempts: parseInt(count[1], 10), span: spanOf(kwTok, countTok!) }
+    if (c.is('slash')) {
+      c.next()
+      const d = c.next()
+      retry.delay = d?.type === 'word' ? parseDuration(d.text) : undefined
+      if (retry.delay === undefined) throw invalid()
+      retry.span = spanOf(kwTok, d!)
+    }
+    if (c.is('question')) {
+      c.next()
+      retry.guard = identifier(c.next(), NAME_RE, 'retry guard', c.restSpan())
+      retry.span = spanOf(kwTok, retry.guard)
+    }
+    if (!c.atEnd()) throw invalid()
+    step.retry = retry
+    return false
+  }
+}
+
+/** Tokenize and parse DSL text into an AST with source spans */
+export function parseDslDocument(text: string): DslParseOutput {
+  const lines = tokenizeDSL(text)
+  const parser = new DslParser(lines)
+  const document = parser.parseDocument()
+  return { document, lines, errors: parser.errors }
+}
@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest'
+import { StepFlowConfig } from '../types/stepflow'
+import { parseDSL } from './dsl-converter'
+import { patchDSL } from './dsl-patcher'
+
+const FILES = {
+  'shared/common.dsl': ['step Audit: AuditStep', '  config:', '    level = info'].join('\n'),
+}
+const OPTIONS = { files: FILES, path: 'main.dsl' }
+
+const SOURCE = [
+  'import "shared/common.dsl"',
+  '',
+  '# Order handling',
+  'workflow Order:',
+  '  root: Validate',
+  '  Validate -> Pay  # happy path',
+  '  Pay -> Audit',
+  '  Audit -> SUCCESS',
+  '',
+  'step Pay: PaymentStep',
+  '  config:',
+  '    # in cents',
+  '    amount = 100',
+  '    currency = EUR',
+].join('\n')
+
+const configOf = (text: string) => {
+  const result = parseDSL(text, OPTIONS)
+  expect(result.errors).toEqual([])
+  return result.config!
+}
+
+const edit = (text: string, change: (config: StepFlowConfig) => void) => {
+  const config = structuredClone(configOf(text))
+  change(config)
+  return config
+}
+
+describe('patchDSL', () => {
+  it('leaves the source as it is when nothing changed', () => {
+    expect(patchDSL(SOURCE, configOf(SOURCE), OPTIONS)).toEqual({ text: SOURCE })
+  })
+
+  it('changes only the edited lines and reads back as the new config', () => {
+    const config = edit(SOURCE, c => {
+      c.steps!.Pay.config!.amount = 250
+      c.workflows!.Order.edges.push({ from: 'Pay', to: 'FAILURE', guard: 'declined' })
+    })
+    const { text, error } = patchDSL(SOURCE, config, OPTIONS)
+    expect(error).toBeUndefined()
+    expect(configOf(text)).toEqual(config)
+    expect(text).toContain('import "shared/common.dsl"')
+    expect(text).toContain('# Order handling')
+    expect(text).toContain('Validate -> Pay  # happy path')
+    expect(text).toContain('    # in cents\n    amount = 250')
+    expect(text).not.toContain('AuditStep')
+  })
+
+  it('renders repeated sections whole and keeps the rest of the document', () => {
+    const source = `${SOURCE}\n\nstep Pay: PaymentStep\n  config:\n    method = card`
+    const config = edit(source, c => {
+      c.steps!.Pay.config!.method = 'iban'
+    })
+    const { text, error } = patchDSL(source, config, OPTIONS)
+    expect(error).toBeUndefined()
+    expect(configOf(text)).toEqual(config)
+    expect(text.match(/^step Pay:/gm)).toHaveLength(1)
+    expect(text).toContain('import "shared/common.dsl"')
+    expect(text).toContain('Validate -> Pay  # happy path')
+  })
+
+  it('keeps a source with errors unchanged and says why', () => {
+    const source = `${SOURCE}\n\nstep Broken PaymentStep`
+    const config = edit(SOURCE, c => {
+      c.steps!.Pay.config!.amount = 250
+    })
+    const { text, error } = patchDSL(source, config, OPTIONS)
+    expect(text).toBe(source)
+    expect(error).toMatch(/errors/)
+  })
+
+  it('adds new sections without touching imports', () => {
+    const config = edit(SOURCE, c => {
+      c.workflows!.Refund = { root: 'Pay', edges: [{ from: 'Pay', to: 'SUCCESS' }] }
+    })
+    const { text, error } = patchDSL(SOURCE, config, OPTIONS)
+    expect(error).toBeUndefined()
+    expect(text.startsWith(`${SOURCE}\n\nworkflow Refund:`)).toBe(true)
+    expect(configOf(text)).toEqual(config)
+  })
+})
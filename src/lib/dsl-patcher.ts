@@ -0,0 +1,442 @@
+import { StepFlowConfig, StepDef, WorkflowDef } from '../types/stepflow'
+import { DslConfigEntry, DslDocument, DslLine, DslSection, DslStepSection, DslWorkflowSection, parseDslDocument } from './dsl-parser'
+import {
+  DslProjectOptions,
+  entriesToObject,
+  formatEdge,
+  formatRequires,
+  formatRetry,
+  lowerDslEdge,
+  parseDSL,
+  stringifyDSL,
+  stringifyEntries,
+  stringifyStep,
+  stringifyWorkflow,
+} from './dsl-converter'
+import { isPlainObject } from './utils'
+
+// Applies StepFlowConfig changes to the user's DSL text as minimal line patches,
+// so comments, blank lines and section order survive canvas edits.
+
+interface LineEdit {
+  /** 0-based first line replaced */
+  start: number
+  /** 0-based exclusive end; equal to start for insertions */
+  end: number
+  lines: string[]
+  order: number
+}
+
+// Structural equality that ignores key order and undefined properties
+function deepEqual(a: any, b: any): boolean {
+  if (a === b) return true
+  if (Array.isArray(a) || Array.isArray(b)) {
+    return Array.isArray(a) && Array.isArray(b) && a.length === b.length && a.every((x, i) => deepEqual(x, b[i]))
+  }
+  if (!isPlainObject(a) || !isPlainObject(b)) return false
+  const ka = Object.keys(a).filter(k => a[k] !== undefined)
+  const kb = Object.keys(b).filter(k => b[k] !== undefined)
+  return ka.length === kb.length && ka.every(k => deepEqual(a[k], b[k]))
+}
+
+class PatchBuilder {
+  private edits: LineEdit[] = []
+
+  constructor(private readonly lines: DslLine[]) {}
+
+  line(n: number): DslLine { return this.lines[n - 1] }
+
+  indentOf(n: number): string {
+    const l = this.line(n)
+    return l.text.slice(0, l.indent)
+  }
+
+  /** Replace 1-based lines [from, to] */
+  replace(from: number, to: number, lines: string[]) {
+    this.edits.push({ start: from - 1, end: to, lines, order: this.edits.length })
+  }
+
+  /** Replace a single line, keeping its trailing comment */
+  replaceLine(n: number, text: string) {
+    const l = this.line(n)
+    if (!l.comment) return this.replace(n, n, [text])
+    const last = l.tokens[l.tokens.length - 1]
+    const gap = last ? l.text.slice(last.span.end.column - 1, l.comment.span.start.column - 1) : ' '
+    this.replace(n, n, [`${text}${gap || ' '}${l.comment.text}`])
+  }
+
+  remove(from: number, to: number) { this.replace(from, to, []) }
+
+  insertAfter(n: number, lines: string[]) { this.replace(n + 1, n, lines) }
+
+  apply(): string {
+    const out = this.lines.map(l => l.text)
+    const sorted = [...this.edits].sort((a, b) => b.start - a.start || b.order - a.order)
+    for (const e of sorted) out.splice(e.start, e.end - e.start, ...e.lines)
+    return out.join('\n')
+  }
+}
+
+type SectionKey = string
+
+// Identity of a section; repeated sections with the same key merge when parsed
+function sectionKey(s: DslSection): SectionKey {
+  if (s.kind === 'Workflow' || s.kind === 'Step') return `${s.kind}:${s.name.name}`
+  return s.kind === 'Import' ? `Import:${s.path}` : s.kind
+}
+
+// Keys of sections declared more than once; repeated imports are harmless
+function duplicateSections(doc: DslDocument): Set<SectionKey> {
+  const seen = new Set<SectionKey>()
+  const duplicates = new Set<SectionKey>()
+  for (const s of doc.sections) {
+    const key = sectionKey(s)
+    if (s.kind !== 'Import' && seen.has(key)) duplicates.add(key)
+    seen.add(key)
+  }
+  return duplicates
+}
+
+function referencedSteps(config: StepFlowConfig): Set<string> {
+  const names = new Set<string>()
+  for (const wf of Object.values(config.workflows || {})) {
+    if (wf.root) names.add(wf.root)
+    for (const e of wf.edges || []) {
+      names.add(e.from)
+      names.add(e.to)
+      if (e.onFailure?.alternativeTarget) names.add(e.onFailure.alternativeTarget)
+    }
+  }
+  return names
+}
+
+function removeSection(pb: PatchBuilder, section: DslSection, lineCount: number) {
+  let from = section.span.start.line
+  // Comment lines directly above a header document that section
+  while (from > 1 && pb.line(from - 1).tokens.length === 0 && pb.line(from - 1).comment) from--
+  let to = section.span.end.line
+  if (to < lineCount && pb.line(to + 1).text.trim() === '') to++
+  pb.remove(from, to)
+}
+
+function patchEntries(
+  pb: PatchBuilder,
+  entries: DslConfigEntry[],
+  baseline: Record<string, any>,
+  target: Record<string, any>,
+  indent: string,
+  anchorLine: number,
+) {
+  const groups = new Map<string, DslConfigEntry[]>()
+  let lastLine = anchorLine
+  for (const e of entries) {
+    const key = e.path[0]
+    groups.set(key, [...(groups.get(key) || []), e])
+    lastLine = Math.max(lastLine, e.span.end.line)
+  }
+
+  for (const [key, group] of groups) {
+    const next = target[key]
+    if (next === undefined) {
+      group.forEach(e => pb.remove(e.span.start.line, e.span.end.line))
+      continue
+    }
+    if (deepEqual(baseline[key], next)) continue
+
+    const [first, ...rest] = group
+    const value = first.value
+    if (rest.length === 0 && first.path.length === 1 && value.kind === 'Map' && !value.inline && isPlainObject(next) && Object.keys(next).length > 0) {
+      // Recurse into indented blocks so untouched children keep their comments
+      const childIndent = value.entries.length ? pb.indentOf(value.entries[0].span.start.line) : indent + '  '
+      patchEntries(pb, value.entries, isPlainObject(baseline[key]) ? baseline[key] : {}, next, childIndent, first.span.start.line)
+      continue
+    }
+
+    const rendered = stringifyEntries({ [key]: next }, indent)
+    if (rendered.length === 1 && first.span.start.line === first.span.end.line) pb.replaceLine(first.span.start.line, rendered[0])
+    else pb.replace(first.span.start.line, first.span.end.line, rendered)
+    rest.forEach(e => pb.remove(e.span.start.line, e.span.end.line))
+  }
+
+  const added: Record<string, any> = {}
+  for (const [k, v] of Object.entries(target)) {
+    if (!groups.has(k) && v !== undefined) added[k] = v
+  }
+  if (Object.keys(added).length > 0) pb.insertAfter(lastLine, stringifyEntries(added, indent))
+}
+
+function patchWorkflow(pb: PatchBuilder, section: DslWorkflowSection, target: WorkflowDef) {
+  const headerLine = section.header.start.line
+  const firstBody = section.root?.span.start.line ?? section.edges[0]?.span.start.line
+  const indent = firstBody ? pb.indentOf(firstBody) : '  '
+
+  const root = target.root || ''
+  if (section.root) {
+    const line = section.root.span.start.line
+    if (!root) pb.remove(line, line)
+    else if (root !== section.root.target.name) pb.replaceLine(line, `${indent}root: ${root}`)
+  } else if (root) {
+    pb.insertAfter(headerLine, [`${indent}root: ${root}`])
+  }
+
+  // LCS over rendered edges keeps unchanged lines (and their comments) in place
+  const a = section.edges.map(e => formatEdge(lowerDslEdge(e)))
+  const b = (target.edges || []).map(formatEdge)
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0))
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1])
+    }
+  }
+
+  let anchor = section.edges.length
+    ? section.edges[0].span.start.line - 1
+    : Math.max(headerLine, section.root?.span.start.line ?? 0)
+  let removed: number[] = []
+  let inserted: string[] = []
+  const flush = () => {
+    const paired = Math.min(removed.length, inserted.length)
+    for (let k = 0; k < paired; k++) pb.replaceLine(removed[k], `${indent}${inserted[k]}`)
+    removed.slice(paired).forEach(line => pb.remove(line, line))
+    if (inserted.length > paired) pb.insertAfter(removed.length ? removed[removed.length - 1] : anchor, inserted.slice(paired).map(t => `${indent}${t}`))
+    if (removed.length) anchor = removed[removed.length - 1]
+    removed = []
+    inserted = []
+  }
+
+  let i = 0
+  let j = 0
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      flush()
+      anchor = section.edges[i].span.start.line
+      i++
+      j++
+    } else if (j >= b.length || (i < a.length && lcs[i + 1][j] >= lcs[i][j + 1])) {
+      removed.push(section.edges[i++].span.start.line)
+    } else {
+      inserted.push(b[j++])
+    }
+  }
+  flush()
+}
+
+function patchStep(pb: PatchBuilder, section: DslStepSection, target: StepDef) {
+  const headerLine = section.header.start.line
+  const bodyLines = [section.requires, section.retry, section.config].filter(Boolean).map(n => n!.span.start.line)
+  const indent = bodyLines.length ? pb.indentOf(Math.min(...bodyLines)) : '  '
+
+  if (target.type && target.type !== section.type.name) {
+    const l = pb.line(headerLine)
+    const { start, end } = section.type.span
+    pb.replaceLine(headerLine, l.text.slice(0, start.column - 1) + target.type + l.text.slice(end.column - 1, l.tokens[l.tokens.length - 1].span.end.column - 1))
+  }
+
+  const guards = target.guards || []
+  if (section.requires) {
+    const line = section.requires.span.start.line
+    const current = formatRequires(section.requires.guards.map(g => g.name))
+    if (guards.length === 0) pb.remove(line, line)
+    else if (formatRequires(guards) !== current) pb.replaceLine(line, `${indent}${formatRequires(guards)}`)
+  } else if (guards.length > 0) {
+    pb.insertAfter(headerLine, [`${indent}${formatRequires(guards)}`])
+  }
+
+  if (section.retry) {
+    const line = section.retry.span.start.line
+    const r = section.retry
+    const current = formatRetry({ maxAttempts: r.attempts, delay: r.delay || 0, guard: r.guard?.name })
+    if (!target.retry) pb.remove(line, line)
+    else if (formatRetry(target.retry) !== current) pb.replaceLine(line, `${indent}${formatRetry(target.retry)}`)
+  } else if (target.retry) {
+    pb.insertAfter(section.requires?.span.start.line ?? headerLine, [`${indent}${formatRetry(target.retry)}`])
+  }
+
+  const next = target.config || {}
+  if (section.config) {
+    const base = entriesToObject(section.config.entries)
+    if (deepEqual(base, next)) return
+    const { start, end } = section.config.span
+    if (Object.keys(next).length === 0) {
+      pb.remove(start.line, end.line)
+      return
+    }
+    const entryIndent = section.config.entries.length ? pb.indentOf(section.config.entries[0].span.start.line) : indent + '  '
+    patchEntries(pb, section.config.entries, base, next, entryIndent, start.line)
+  } else if (Object.keys(next).length > 0) {
+    pb.insertAfter(section.span.end.line, [`${indent}config:`, ...stringifyEntries(next, indent + '  ')])
+  }
+}
+
+// Drop items that only exist because an imported file provides them unchanged
+function withoutImported(config: StepFlowConfig, imported: StepFlowConfig | undefined, doc: DslDocument): StepFlowConfig {
+  if (!imported) return config
+  const own = (kind: DslSection['kind']) => {
+    const keys = new Set<string>()
+    for (const s of doc.sections) {
+      if (s.kind !== kind) continue
+      if (s.kind === 'Settings' || s.kind === 'Defaults') s.entries.forEach(e => keys.add(e.path[0]))
+      else if (s.kind === 'Workflow' || s.kind === 'Step') keys.add(s.name.name)
+    }
+    return keys
+  }
+  const pick = (target: Record<string, any> | undefined, base: Record<string, any> | undefined, keys: Set<string>) => {
+    const out: Record<string, any> = {}
+    for (const [k, v] of Object.entries(target || {})) {
+      if (keys.has(k) || !deepEqual(base?.[k], v)) out[k] = v
+    }
+    return out
+  }
+  return {
+    ...config,
+    settings: pick(config.settings, imported.settings, own('Settings')),
+    defaults: pick(config.defaults, imported.defaults, own('Defaults')),
+    workflows: pick(config.workflows, imported.workflows, own('Workflow')),
+    steps: pick(config.steps, imported.steps, own('Step')),
+  }
+}
+
+export interface DslPatchResult {
+  text: string
+  /** Why `config` could not be written into the source; `text` is then the source unchanged */
+  error?: string
+}
+
+// Sections whose lowered config differs between `actual` and `expected`
+function mismatchedSections(actual: StepFlowConfig, expected: StepFlowConfig): Set<SectionKey> {
+  const keys = new Set<SectionKey>()
+  if (!deepEqual(actual.settings || {}, expected.settings || {})) keys.add('Settings')
+  if (!deepEqual(actual.defaults || {}, expected.defaults || {})) keys.add('Defaults')
+  const named: Array<['Workflow' | 'Step', Record<string, any> | undefined, Record<string, any> | undefined]> = [
+    ['Workflow', actual.workflows, expected.workflows],
+    ['Step', actual.steps, expected.steps],
+  ]
+  for (const [kind, a, b] of named) {
+    for (const name of new Set([...Object.keys(a || {}), ...Object.keys(b || {})])) {
+      if (!deepEqual(a?.[name], b?.[name])) keys.add(`${kind}:${name}`)
+    }
+  }
+  return keys
+}
+
+// Section lines for `target`, or none when the section goes away
+function renderSection(section: DslSection, own: StepFlowConfig): string[] {
+  switch (section.kind) {
+    case 'Settings':
+    case 'Defaults': {
+      const target = (section.kind === 'Settings' ? own.settings : own.defaults) || {}
+      return Object.keys(target).length ? [`${section.kind.toLowerCase()}:`, ...stringifyEntries(target, '  ')] : []
+    }
+    case 'Workflow': {
+      const target = own.workflows?.[section.name.name]
+      return target ? stringifyWorkflow(section.name.name, target) : []
+    }
+    case 'Step': {
+      const target = own.steps?.[section.name.name]
+      return target ? stringifyStep(section.name.name, target) : []
+    }
+    default:
+      return []
+  }
+}
+
+// Patches `own` onto the source lines; sections in `rewrite` are rendered whole instead,
+// into their first declaration, with any repeats removed
+function buildPatch(lines: DslLine[], document: DslDocument, own: StepFlowConfig, rewrite: Set<SectionKey>): string {
+  const pb = new PatchBuilder(lines)
+  const appended: string[][] = []
+  const { settings = {}, defaults = {}, workflows = {}, steps = {} } = own
+
+  const rewritten = new Set<SectionKey>()
+  const rewriteSection = (section: DslSection) => {
+    const key = sectionKey(section)
+    const rendered = rewritten.has(key) ? [] : renderSection(section, own)
+    rewritten.add(key)
+    if (rendered.length) pb.replace(section.span.start.line, section.span.end.line, rendered)
+    else removeSection(pb, section, lines.length)
+  }
+
+  const blocks: Array<['Settings' | 'Defaults', Record<string, any>]> = [['Settings', settings], ['Defaults', defaults]]
+  for (const [kind, target] of blocks) {
+    const sections = document.sections.filter(s => s.kind === kind)
+    const section = sections[0]
+    if (rewrite.has(kind)) {
+      sections.forEach(rewriteSection)
+    } else if (section?.kind === 'Settings' || section?.kind === 'Defaults') {
+      const base = entriesToObject(section.entries)
+      if (deepEqual(base, target)) continue
+      if (Object.keys(target).length === 0) removeSection(pb, section, lines.length)
+      else {
+        const indent = section.entries.length ? pb.indentOf(section.entries[0].span.start.line) : '  '
+        patchEntries(pb, section.entries, base, target, indent, section.header.start.line)
+      }
+    } else if (Object.keys(target).length > 0) {
+      appended.push([`${kind.toLowerCase()}:`, ...stringifyEntries(target, '  ')])
+    }
+  }
+
+  for (const section of document.sections) {
+    if (section.kind !== 'Workflow' && section.kind !== 'Step') continue
+    if (rewrite.has(sectionKey(section))) {
+      rewriteSection(section)
+    } else if (section.kind === 'Workflow') {
+      const target = workflows[section.name.name]
+      if (!target) removeSection(pb, section, lines.length)
+      else patchWorkflow(pb, section, target)
+    } else {
+      const target = steps[section.name.name]
+      if (!target) removeSection(pb, section, lines.length)
+      else patchStep(pb, section, target)
+    }
+  }
+
+  const declared = (kind: 'Workflow' | 'Step', name: string) =>
+    document.sections.some(s => s.kind === kind && s.name.name === name)
+  for (const [name, wf] of Object.entries(workflows)) {
+    if (!declared('Workflow', name)) appended.push(stringifyWorkflow(name, wf))
+  }
+  const referenced = referencedSteps(own)
+  for (const [name, step] of Object.entries(steps)) {
+    // Steps implied by edges only need a section when they carry more than their type
+    if (declared('Step', name) || (referenced.has(name) && deepEqual(step, { type: name }))) continue
+    appended.push(stringifyStep(name, step))
+  }
+
+  if (appended.length > 0) {
+    let last = lines.length
+    while (last > 0 && lines[last - 1].text.trim() === '') last--
+    const out: string[] = []
+    appended.forEach(section => out.push(...(last > 0 || out.length ? [''] : []), ...section))
+    pb.insertAfter(last, out)
+  }
+
+  return pb.apply()
+}
+
+/**
+ * Re-render `config` on top of existing DSL `source`, touching only the lines whose
+ * meaning changed. Repeated sections, and sections whose patch does not read back as
+ * `config`, are rendered whole in place; imports and every other section keep their text.
+ * When the source has errors or still does not read back, the source is returned unchanged
+ * with an `error`.
+ */
+export function patchDSL(source: string, config: StepFlowConfig, options: DslProjectOptions = {}): DslPatchResult {
+  const project = parseDSL(source, options)
+  if (project.errors.length > 0) {
+    return { text: source, error: 'The DSL has errors, so canvas changes cannot be written into it. Fix the errors to bring it up to date.' }
+  }
+  const { document, lines } = parseDslDocument(source)
+  const own = withoutImported(config, project.imported, document)
+  const expected = parseDSL(stringifyDSL(config)).config!
+
+  const rewrite = duplicateSections(document)
+  for (let pass = 0; pass < 2; pass++) {
+    const text = buildPatch(lines, document, own, rewrite)
+    const patched = parseDSL(text, options)
+    if (patched.errors.length > 0) break
+    const mismatched = mismatchedSections(patched.config!, expected)
+    if (mismatched.size === 0) return { text }
+    mismatched.forEach(key => rewrite.add(key))
+  }
+  return { text: source, error: 'Canvas changes could not be written into the DSL without changing what it means.' }
+}
@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest'
+import { parseDSL } from './dsl-converter'
+import { applyDslFix, lintDSL, withQuickFixes } from './dsl-quickfix'
+
+const WORKFLOW = ['workflow Order:', '  root: Validate', '  Validate -> SUCCESS', '', 'step Validate: ValidationStep']
+
+// Parse errors of `text` with their fixes attached
+const errorFixes = (text: string) => withQuickFixes(text, parseDSL(text).errors)
+
+// Apply the first fix of the first diagnostic
+const fixOnce = (text: string) => applyDslFix(text, errorFixes(text)[0].fixes![0])
+
+describe('applyDslFix', () => {
+  it('applies edits right to left so earlier offsets stay valid', () => {
+    const text = 'ab\ncd'
+    const fix = {
+      title: 'edit',
+      edits: [
+        { span: { start: { line: 1, column: 1 }, end: { line: 1, column: 2 } }, newText: 'AAA' },
+        { span: { start: { line: 1, column: 3 }, end: { line: 1, column: 3 } }, newText: '!' },
+        { span: { start: { line: 2, column: 2 }, end: { line: 2, column: 3 } }, newText: '' },
+      ],
+    }
+    expect(applyDslFix(text, fix)).toBe('AAAb!\nc')
+  })
+
+  it('reads CRLF text by its lines', () => {
+    const fix = { title: 'edit', edits: [{ span: { start: { line: 2, column: 1 }, end: { line: 2, column: 1 } }, newText: 'x' }] }
+    expect(applyDslFix('a\r\nb', fix)).toBe('a\nxb')
+  })
+})
+
+describe('withQuickFixes', () => {
+  it.each([
+    ['settings', 'settings:'],
+    ['workflow Order', 'workflow Order:'],
+    ['step Pay PaymentStep', 'step Pay: PaymentStep'],
+  ])('adds the missing colon to `%s`', (header, fixed) => {
+    const text = `${header}\n`
+    expect(fixOnce(text)).toBe(`${fixed}\n`)
+  })
+
+  it('adds the missing colon to `root` and step directives', () => {
+    const root = WORKFLOW.join('\n').replace('root:', 'root')
+    expect(fixOnce(root)).toBe(WORKFLOW.join('\n'))
+    const directive = [...WORKFLOW, '  config', '    strict = true'].join('\n')
+    expect(fixOnce(directive)).toBe([...WORKFLOW, '  config:', '    strict = true'].join('\n'))
+  })
+
+  it("replaces '=>' with '->'", () => {
+    const text = WORKFLOW.join('\n').replace('->', '=>')
+    const [error] = errorFixes(text)
+    expect(error.fixes!.map(f => f.title)).toEqual(["Replace '=>' with '->'"])
+    expect(applyDslFix(text, error.fixes![0])).toBe(WORKFLOW.join('\n'))
+  })
+
+  it('leaves errors it has no fix for alone', () => {
+    const [error] = errorFixes(WORKFLOW.join('\n').replace('->', '-> ->'))
+    expect(error.fixes).toBeUndefined()
+  })
+})
+
+describe('lintDSL', () => {
+  it('converts tab indentation with one fix for every line', () => {
+    const text = ['workflow Order:', '\troot: Validate', '\tValidate -> SUCCESS', '', 'step Validate: ValidationStep'].join('\n')
+    const warnings = lintDSL(text)
+    expect(warnings.map(w => [w.rule, w.line])).toEqual([['tab-indentation', 2], ['tab-indentation', 3]])
+    expect(applyDslFix(text, warnings[0].fixes![0])).toBe(WORKFLOW.join('\n'))
+  })
+
+  it('offers to create undeclared steps or fix a misspelled terminal', () => {
+    const text = [...WORKFLOW.slice(0, 3), '  Validate -> Ship', '  Ship -> Failed', '', WORKFLOW[4]].join('\n')
+    const warnings = lintDSL(text)
+    expect(warnings.map(w => [w.message, w.fixes!.map(f => f.title)])).toEqual([
+      ["Target step 'Ship' is not declared", ["Create missing step 'Ship'"]],
+      ["Source step 'Ship' is not declared", ["Create missing step 'Ship'"]],
+      ["Target step 'Failed' is not declared", ["Replace 'Failed' with 'FAILURE'", "Create missing step 'Failed'"]],
+    ])
+    const created = applyDslFix(text, warnings[0].fixes![0])
+    expect(created.endsWith(`${WORKFLOW[4]}\n\nstep Ship: Ship\n`)).toBe(true)
+    expect(lintDSL(created).map(w => w.message)).toEqual(["Target step 'Failed' is not declared"])
+    expect(lintDSL(applyDslFix(text, warnings[2].fixes![0])).some(w => w.message.includes('Failed'))).toBe(false)
+  })
+
+  it('finds steps declared in imported files', () => {
+    const text = ['import "steps.dsl"', '', ...WORKFLOW.slice(0, 3), '  Validate -> Ship'].join('\n')
+    expect(lintDSL(text).map(w => w.message)).toEqual([
+      "Root step 'Validate' is not declared",
+      "Source step 'Validate' is not declared",
+      "Source step 'Validate' is not declared",
+      "Target step 'Ship' is not declared",
+    ])
+    const files = { 'lib/steps.dsl': 'step Validate: ValidationStep\nstep Ship: ShipStep' }
+    expect(lintDSL(text, { files, path: 'lib/main.dsl' })).toEqual([])
+  })
+
+  it('honours suppression comments for the next line', () => {
+    const text = [
+      'workflow Order:',
+      '  root: Validate',
+      '  # stepflow-disable-next-line undeclared-step',
+      '  Validate -> Ship',
+      '  # stepflow-disable-next-line tab-indentation',
+      '  Ship -> Pay',
+      '  # stepflow-disable-next-line',
+      '  Pay -> SUCCESS',
+      '',
+      'step Validate: ValidationStep',
+    ].join('\n')
+    expect(lintDSL(text).map(w => [w.line, w.message])).toEqual([
+      [6, "Source step 'Ship' is not declared"],
+      [6, "Target step 'Pay' is not declared"],
+    ])
+  })
+})
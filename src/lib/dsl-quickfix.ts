@@ -0,0 +1,140 @@
+import {
+  DslDiagnostic, DslFix, DslIdentifier, DslLine, DslSection, DslTextEdit, SourcePosition, SourceSpan,
+  parseDslDocument, tokenizeDSL,
+} from './dsl-parser'
+import { DslProjectOptions, resolveImportPath } from './dsl-converter'
+import { dslSuppressions, isSuppressed } from './dsl-validation'
+
+// Code actions for DSL diagnostics. Parse errors get fixes attached from the tokens of
+// the offending line; `lintDSL` adds non-blocking warnings that always come with a fix.
+
+const TERMINALS = ['SUCCESS', 'FAILURE']
+
+const at = (line: number, column: number): SourcePosition => ({ line, column })
+const insertAt = (line: number, column: number, newText: string): DslTextEdit => ({ span: { start: at(line, column), end: at(line, column) }, newText })
+
+/** Apply a fix's (non-overlapping) edits to the text */
+export function applyDslFix(text: string, fix: DslFix): string {
+  const lines = text.replace(/\r\n?/g, '\n').split('\n')
+  const offset = (p: SourcePosition) => lines.slice(0, p.line - 1).reduce((n, l) => n + l.length + 1, 0) + p.column - 1
+  // Right to left so earlier offsets stay valid
+  return [...fix.edits]
+    .sort((a, b) => offset(b.span.start) - offset(a.span.start))
+    .reduce((out, e) => out.slice(0, offset(e.span.start)) + e.newText + out.slice(offset(e.span.end)), lines.join('\n'))
+}
+
+function parseErrorFixes(l: DslLine, message: string): DslFix[] {
+  const t = l.tokens
+  const word = (i: number) => (t[i]?.type === 'word' ? t[i].text.toLowerCase() : undefined)
+  const addColonAfter = (i: number): DslFix => ({ title: `Add missing ':' after '${t[i].text}'`, edits: [insertAt(l.line, t[i].span.end.column, ':')] })
+
+  if (message === 'Unknown syntax') {
+    // Section headers without their colon
+    if ((word(0) === 'settings' || word(0) === 'defaults') && t.length === 1) return [addColonAfter(0)]
+    if (word(0) === 'workflow' && t.length === 2 && t[1].type === 'word') return [addColonAfter(1)]
+    if (word(0) === 'step' && t.length === 3 && t[1].type === 'word' && t[2].type === 'word') return [addColonAfter(1)]
+  }
+  if (message === 'Unknown step directive' && ['requires', 'retry', 'config'].includes(word(0)!) && t[1]?.type !== 'colon') {
+    return [addColonAfter(0)]
+  }
+  if (message === 'Invalid edge syntax') {
+    if (word(0) === 'root' && t.length === 2 && t[1].type === 'word') return [addColonAfter(0)]
+    const eq = t.findIndex((tok, i) => tok.type === 'equals' && t[i + 1]?.text === '>' && t[i + 1].span.start.column === tok.span.end.column)
+    if (eq > 0) return [{ title: "Replace '=>' with '->'", edits: [{ span: { start: t[eq].span.start, end: t[eq + 1].span.end }, newText: '->' }] }]
+  }
+  return []
+}
+
+/** Attach quick fixes to parse diagnostics of `text` where one is known */
+export function withQuickFixes(text: string, diagnostics: DslDiagnostic[]): DslDiagnostic[] {
+  const lines = tokenizeDSL(text)
+  return diagnostics.map(d => {
+    const l = lines[d.line - 1]
+    const fixes = l && !d.fixes ? parseErrorFixes(l, d.message) : []
+    return fixes.length > 0 ? { ...d, fixes } : d
+  })
+}
+
+// Sections of every (transitively) imported file
+function importedSections(sections: DslSection[], project: DslProjectOptions): DslSection[] {
+  const out: DslSection[] = []
+  const seen = new Set<string>(project.path ? [project.path] : [])
+  const visit = (from: string | undefined, list: DslSection[]) => {
+    for (const section of list) {
+      if (section.kind !== 'Import') continue
+      const path = resolveImportPath(from, section.path)
+      const content = project.files?.[path]
+      if (seen.has(path) || content === undefined) continue
+      seen.add(path)
+      const child = parseDslDocument(content).document.sections
+      out.push(...child)
+      visit(path, child)
+    }
+  }
+  visit(project.path, sections)
+  return out
+}
+
+/**
+ * Non-blocking editor diagnostics that come with fixes: tab indentation and step
+ * references without a `step` declaration anywhere in the project (the converter
+ * silently creates those with the name as their type). Config-level issues such as
+ * a missing `root:` come from `configDiagnostics`.
+ */
+export function lintDSL(text: string, project: DslProjectOptions = {}): DslDiagnostic[] {
+  const { document, lines } = parseDslDocument(text)
+  const sections = [...importedSections(document.sections, project), ...document.sections]
+  const out: DslDiagnostic[] = []
+  const suppressions = dslSuppressions(lines)
+  const warn = (rule: string, span: SourceSpan, message: string, fixes: DslFix[]) => {
+    if (isSuppressed(suppressions, span.start.line, rule)) return
+    out.push({
+      line: span.start.line,
+      column: span.start.column,
+      endLine: span.end.line,
+      endColumn: span.end.column,
+      message,
+      severity: 'warning',
+      rule,
+      fixes,
+    })
+  }
+
+  const tabbed = lines.filter(l => /^\s*\t/.test(l.text))
+  const leading = (l: DslLine): SourceSpan => ({ start: at(l.line, 1), end: at(l.line, l.text.match(/^\s*/)![0].length + 1) })
+  if (tabbed.length > 0) {
+    const fix: DslFix = {
+      title: 'Convert tabs to spaces',
+      edits: tabbed.map(l => ({ span: leading(l), newText: l.text.match(/^\s*/)![0].replace(/\t/g, '  ') })),
+    }
+    tabbed.forEach(l => warn('tab-indentation', leading(l), 'Tab used for indentation', [fix]))
+  }
+
+  // New steps go after everything else, separated by a blank line
+  const last = lines[lines.length - 1]
+  const createStep = (name: string): DslFix => ({
+    title: `Create missing step '${name}'`,
+    edits: [insertAt(last.line, last.text.length + 1, `${last.text.trim() === '' ? '' : '\n'}\nstep ${name}: ${name}\n`)],
+  })
+  const declared = new Set(sections.flatMap(s => (s.kind === 'Step' ? [s.name.name] : [])))
+  const checkStep = (id: DslIdentifier | undefined, role: string, terminalTypo: boolean) => {
+    if (!id || TERMINALS.includes(id.name) || declared.has(id.name)) return
+    const fixes: DslFix[] = []
+    // `FAILED`, `Success`, `failure`, ... almost certainly mean a terminal
+    const terminal = terminalTypo && id.name.length >= 4 ? TERMINALS.find(t => t.startsWith(id.name.slice(0, 4).toUpperCase())) : undefined
+    if (terminal) fixes.push({ title: `Replace '${id.name}' with '${terminal}'`, edits: [{ span: id.span, newText: terminal }] })
+    fixes.push(createStep(id.name))
+    warn('undeclared-step', id.span, `${role} step '${id.name}' is not declared`, fixes)
+  }
+
+  for (const section of document.sections) {
+    if (section.kind !== 'Workflow') continue
+    checkStep(section.root?.target, 'Root', true)
+    for (const edge of section.edges) {
+      checkStep(edge.from, 'Source', false)
+      checkStep(edge.to, 'Target', true)
+      checkStep(edge.failure?.target, 'Alternative', true)
+    }
+  }
+  return out
+}
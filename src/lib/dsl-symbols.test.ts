@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest'
+import { parseDSL } from './dsl-converter'
+import { renameDslSymbol } from './dsl-symbols'
+
+const SOURCE = [
+  'defaults:',
+  '  Pay.timeout = 5  # per step',
+  '  "Pay" = {currency = EUR}',
+  "  'Pay':",
+  '    retries = 2',
+  '  "Pay.method" = card',
+  '',
+  'workflow Order:',
+  '  root: Pay',
+  '  Pay -> SUCCESS ? isPaid',
+  '',
+  'step Pay: PaymentStep',
+].join('\n')
+
+describe('renameDslSymbol', () => {
+  it('renames declarations, references and defaults keys in place', () => {
+    expect(renameDslSymbol(SOURCE, 'step', 'Pay', 'Charge')).toBe([
+      'defaults:',
+      '  Charge.timeout = 5  # per step',
+      '  "Charge" = {currency = EUR}',
+      "  'Charge':",
+      '    retries = 2',
+      '  "Pay.method" = card',
+      '',
+      'workflow Order:',
+      '  root: Charge',
+      '  Charge -> SUCCESS ? isPaid',
+      '',
+      'step Charge: PaymentStep',
+    ].join('\n'))
+  })
+
+  it('keeps quoted defaults keys valid', () => {
+    const result = parseDSL(renameDslSymbol(SOURCE, 'step', 'Pay', 'Charge'))
+    expect(result.errors).toEqual([])
+    expect(result.config!.defaults).toEqual({ Charge: { timeout: 5, currency: 'EUR', retries: 2 }, 'Pay.method': 'card' })
+  })
+
+  it('renames guards without touching steps of other names', () => {
+    expect(renameDslSymbol(SOURCE, 'guard', 'isPaid', 'paid')).toBe(SOURCE.replace('? isPaid', '? paid'))
+    expect(renameDslSymbol(SOURCE, 'step', 'Missing', 'Other')).toBe(SOURCE)
+  })
+})
@@ -0,0 +1,90 @@
+import { DslConfigEntry, DslDocument, DslIdentifier, SourceSpan, parseDslDocument } from './dsl-parser'
+
+// Symbol occurrences in a parsed DSL document, shared by rename and editor navigation
+
+export type DslSymbolKind = 'step' | 'guard' | 'workflow'
+
+export interface DslSymbol {
+  kind: DslSymbolKind
+  name: string
+  span: SourceSpan
+  /** Declaring occurrence (`step X:` / `workflow X:`) rather than a reference */
+  definition: boolean
+}
+
+const isTerminal = (name: string) => name === 'SUCCESS' || name === 'FAILURE'
+
+/** Every step, guard and workflow name occurrence, in document order */
+export function collectDslSymbols(document: DslDocument): DslSymbol[] {
+  const out: DslSymbol[] = []
+  const add = (kind: DslSymbolKind, id: DslIdentifier | undefined, definition = false) => {
+    if (id && !isTerminal(id.name)) out.push({ kind, name: id.name, span: id.span, definition })
+  }
+
+  for (const section of document.sections) {
+    if (section.kind === 'Workflow') {
+      add('workflow', section.name, true)
+      add('step', section.root?.target)
+      for (const edge of section.edges) {
+        add('step', edge.from)
+        add('workflow', edge.call)
+        add('step', edge.to)
+        add('guard', edge.guard)
+        add('step', edge.failure?.target)
+      }
+    } else if (section.kind === 'Step') {
+      // Guards are declared as steps too, so the declaration is recorded as a step
+      add('step', section.name, true)
+      section.requires?.guards.forEach(g => add('guard', g))
+      add('guard', section.retry?.guard)
+    }
+  }
+  return out
+}
+
+// Spans of the leading key segment of name-specific defaults (`Name.key = ...` / `Name:`).
+// A quoted key's name excludes the quotes its span covers, so only the text between
+// them is taken; `"Name.key"` is one opaque segment and never matches.
+function defaultsKeySpans(document: DslDocument, lines: string[], name: string): SourceSpan[] {
+  const spans: SourceSpan[] = []
+  const visit = (entries: DslConfigEntry[]) => {
+    for (const entry of entries) {
+      if (entry.path[0] !== name) continue
+      const { line, column } = entry.key.span.start
+      const quoted = /["']/.test(lines[line - 1]?.[column - 1] ?? '')
+      const start = { line, column: quoted ? column + 1 : column }
+      spans.push({ start, end: { line, column: start.column + name.length } })
+    }
+  }
+  for (const section of document.sections) {
+    if (section.kind === 'Defaults') visit(section.entries)
+  }
+  return spans
+}
+
+/**
+ * Rename a step or guard in DSL text by rewriting only the spans that refer to it,
+ * so formatting and comments are untouched. Step declarations are renamed for
+ * either kind since guards are declared with `step` sections as well.
+ */
+export function renameDslSymbol(text: string, kind: 'step' | 'guard', oldName: string, newName: string): string {
+  if (oldName === newName) return text
+  const { document } = parseDslDocument(text)
+  const lines = text.replace(/\r\n?/g, '\n').split('\n')
+  const spans = [
+    ...collectDslSymbols(document)
+      .filter(s => s.name === oldName && (s.kind === kind || (s.definition && s.kind === 'step')))
+      .map(s => s.span),
+    ...defaultsKeySpans(document, lines, oldName),
+  ]
+  if (spans.length === 0) return text
+
+  // Right to left so earlier columns on the same line stay valid
+  spans
+    .sort((a, b) => b.start.line - a.start.line || b.start.column - a.start.column)
+    .forEach(({ start, end }) => {
+      const l = lines[start.line - 1]
+      lines[start.line - 1] = l.slice(0, start.column - 1) + newName + l.slice(end.column - 1)
+    })
+  return lines.join('\n')
+}
@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest'
+import { DslProjectOptions, parseDSL } from './dsl-converter'
+import { ConfigRuleSettings, validateConfig } from './config-validator'
+import { configDiagnostics, dslSuppressions, isSuppressed, withoutDslSuppressed } from './dsl-validation'
+import { applyDslFix } from './dsl-quickfix'
+import { parseDslDocument } from './dsl-parser'
+
+const SOURCE = [
+  'defaults:',
+  '  Pai.timeout = 5',
+  '',
+  'workflow Order:',
+  '  root: Validate',
+  '  Validate -> Pay',
+  '  Pay -> SUCCESS',
+  '',
+  'step Validate: ValidationStep',
+  '',
+  'step Pay: PaymentStep',
+  '  retry: 12x / 1s',
+].join('\n')
+
+const summary = (text: string, project: DslProjectOptions = {}, rules: ConfigRuleSettings = {}) =>
+  configDiagnostics(text, project, rules).map(d => `${d.line}:${d.column} ${d.severity} ${d.rule}`)
+
+describe('configDiagnostics', () => {
+  it('maps config issues onto the text they come from', () => {
+    expect(summary(SOURCE)).toEqual([
+      '2:3 warning unknown-defaults-key',
+      '12:3 warning high-retry-count',
+    ])
+  })
+
+  it('applies rule overrides', () => {
+    expect(summary(SOURCE, {}, { 'high-retry-count': { severity: 'error', options: { maxAttempts: 20 } } })).toEqual([
+      '2:3 warning unknown-defaults-key',
+    ])
+    expect(summary(SOURCE, {}, { 'unknown-defaults-key': { severity: 'error' }, 'high-retry-count': { enabled: false } })).toEqual([
+      '2:3 error unknown-defaults-key',
+    ])
+  })
+
+  it('fixes misspelled references where they are written', () => {
+    const [diagnostic] = configDiagnostics(SOURCE)
+    expect(diagnostic.fixes!.map(f => f.title)).toEqual(["Replace 'Pai' with 'Pay'"])
+    expect(applyDslFix(SOURCE, diagnostic.fixes![0])).toBe(SOURCE.replace('Pai.', 'Pay.'))
+  })
+
+  it('adds a missing root from the first edge', () => {
+    const text = SOURCE.replace('  root: Validate\n', '')
+    const [diagnostic] = configDiagnostics(text)
+    expect(diagnostic.rule).toBe('no-root-step')
+    expect(applyDslFix(text, diagnostic.fixes![0])).toBe(SOURCE)
+  })
+
+  it('leaves issues located in imported files to those files', () => {
+    const files = { 'steps.dsl': 'step Pay: PaymentStep\n  retry: 12x / 1s' }
+    const text = ['import "steps.dsl"', '', ...SOURCE.split('\n').slice(0, 9)].join('\n')
+    expect(summary(text, { files, path: 'main.dsl' })).toEqual(['4:3 warning unknown-defaults-key'])
+  })
+})
+
+describe('suppression comments', () => {
+  const suppressed = (comment: string) => SOURCE.replace('  Pai.timeout', `  ${comment}\n  Pai.timeout`)
+
+  it('silence the named rules on the next line only', () => {
+    expect(summary(suppressed('# stepflow-disable-next-line unknown-defaults-key'))).toEqual(['13:3 warning high-retry-count'])
+    expect(summary(suppressed('# stepflow-disable-next-line high-retry-count'))).toEqual([
+      '3:3 warning unknown-defaults-key',
+      '13:3 warning high-retry-count',
+    ])
+  })
+
+  it('silence every rule without a list', () => {
+    expect(summary(suppressed('# stepflow-disable-next-line'))).toEqual(['13:3 warning high-retry-count'])
+  })
+
+  it('are read as rule lists per line', () => {
+    const { lines } = parseDslDocument('# stepflow-disable-next-line a, b\nx = 1\n# stepflow-disable-next-line\ny = 2')
+    const suppressions = dslSuppressions(lines)
+    expect([...suppressions]).toEqual([[2, ['a', 'b']], [4, []]])
+    expect([isSuppressed(suppressions, 2, 'a'), isSuppressed(suppressions, 2, 'c'), isSuppressed(suppressions, 4, 'c'), isSuppressed(suppressions, 3, 'a')])
+      .toEqual([true, false, true, false])
+  })
+
+  it('filter the canvas issues of the config the text produced', () => {
+    const text = suppressed('# stepflow-disable-next-line unknown-defaults-key')
+    const issues = validateConfig(parseDSL(text).config!)
+    expect(issues.map(i => i.rule)).toEqual(['unknown-defaults-key', 'high-retry-count'])
+    expect(withoutDslSuppressed(issues, text).map(i => i.rule)).toEqual(['high-retry-count'])
+    expect(withoutDslSuppressed(issues, SOURCE)).toBe(issues)
+  })
+})
@@ -0,0 +1,190 @@
+import {
+  DslConfigEntry, DslDefaultsSection, DslDiagnostic, DslFix, DslLine, DslSettingsSection, DslStepSection, DslWorkflowSection, SourceSpan,
+  parseDslDocument,
+} from './dsl-parser'
+import { DslProjectOptions, parseDSL } from './dsl-converter'
+import { ConfigIssue, ConfigRuleSettings, parseIssueLocation, validateConfig } from './config-validator'
+import { ComponentInfo } from '../types/stepflow'
+
+// Config validation for the DSL editor: the issues the canvas and YAML view report, mapped
+// from their config path back onto the text of the file being edited. A
+// `# stepflow-disable-next-line <rule>` comment silences a rule on the line below it.
+
+// First key segments of the `defaults:` entries for `name` (`name.timeout = 5`, `name:` blocks)
+function defaultsKeySpans(defaults: DslDefaultsSection[], name: string): SourceSpan[] {
+  return defaults.flatMap(section => section.entries)
+    .filter(entry => entry.path[0] === name)
+    .map(({ key, path }) => (path.length > 1
+      ? { start: key.span.start, end: { line: key.span.start.line, column: key.span.start.column + name.length } }
+      : key.span))
+}
+
+// Key of the entry that sets `path`, descending into indented and `{...}` map values
+function entrySpan(entries: DslConfigEntry[], path: Array<string | number>): SourceSpan | undefined {
+  for (const entry of entries) {
+    const n = Math.min(entry.path.length, path.length)
+    if (n === 0 || entry.path.slice(0, n).some((seg, i) => seg !== String(path[i]))) continue
+    if (path.length > entry.path.length && entry.value.kind === 'Map') {
+      const nested = entrySpan(entry.value.entries, path.slice(entry.path.length))
+      if (nested) return nested
+    }
+    return entry.key.span
+  }
+  return undefined
+}
+
+// Span a config issue location points at, if it comes from this file
+function locateIssue(
+  location: string,
+  workflows: Map<string, DslWorkflowSection[]>,
+  steps: Map<string, DslStepSection[]>,
+  defaults: DslDefaultsSection[],
+  settings: DslSettingsSection[],
+  importedEdges: (workflow: string) => number,
+): SourceSpan | undefined {
+  const [head, name, ...rest] = parseIssueLocation(location)
+  if (head === 'workflows') {
+    const sections = workflows.get(String(name))
+    if (!sections) return undefined
+    const [field, index, part] = rest
+    if (field === 'root') {
+      const last = [...sections].reverse().find(s => s.root)
+      return last ? last.root!.target.span : sections[0].name.span
+    }
+    if (field !== 'edges' || typeof index !== 'number') return sections[0].name.span
+    // Edges of same-named sections concatenate after the ones from imported files
+    const edge = sections.flatMap(s => s.edges)[index - importedEdges(String(name))]
+    if (!edge) return undefined
+    if (part === 'from' || part === 'to') return edge[part].span
+    if (part === 'call') return edge.call?.span ?? edge.span
+    if (part === 'guard') return edge.guard?.span ?? edge.span
+    if (part === 'onFailure') return (rest[3] === 'alternativeTarget' ? edge.failure?.target?.span : undefined) ?? edge.failure?.span ?? edge.span
+    return edge.span
+  }
+  if (head === 'steps') {
+    const section = steps.get(String(name))?.slice(-1)[0]
+    if (!section) return undefined
+    const [field, part] = rest
+    if (field === 'type') return section.type.span
+    if (field === 'retry' && section.retry) return (part === 'guard' ? section.retry.guard?.span : undefined) ?? section.retry.span
+    if (field === 'config' && section.config) return entrySpan(section.config.entries, rest.slice(1)) ?? section.config.span
+    if (field === 'guards' && section.requires) return (typeof part === 'number' ? section.requires.guards[part]?.span : undefined) ?? section.requires.span
+    return section.name.span
+  }
+  if (head === 'defaults') {
+    return (rest.length > 0 ? entrySpan(defaults.flatMap(d => d.entries), [String(name), ...rest]) : undefined) ?? defaultsKeySpans(defaults, String(name))[0]
+  }
+  if (head === 'settings') {
+    return entrySpan(settings.flatMap(s => s.entries), [String(name), ...rest])
+  }
+  return undefined
+}
+
+const SUPPRESS_RE = /^#\s*stepflow-disable-next-line\b(.*)$/
+
+/**
+ * Rules suppressed per line by a `# stepflow-disable-next-line [rule, ...]` comment on the
+ * line above. An empty list suppresses every rule on that line.
+ */
+export function dslSuppressions(lines: DslLine[]): Map<number, string[]> {
+  const out = new Map<number, string[]>()
+  for (const l of lines) {
+    const m = l.comment?.text.match(SUPPRESS_RE)
+    if (m) out.set(l.line + 1, m[1].split(/[\s,]+/).filter(Boolean))
+  }
+  return out
+}
+
+/** Whether a diagnostic of `rule` starting on `line` is suppressed */
+export function isSuppressed(suppressions: Map<number, string[]>, line: number, rule?: string): boolean {
+  const rules = suppressions.get(line)
+  return !!rules && (rules.length === 0 || (!!rule && rules.includes(rule)))
+}
+
+// Config of a DSL file with its imports, and a lookup from issue locations to its text
+function indexDocument(text: string, project: DslProjectOptions) {
+  const res = parseDSL(text, project)
+  if (!res.config || !res.document) return undefined
+  const workflows = new Map<string, DslWorkflowSection[]>()
+  const steps = new Map<string, DslStepSection[]>()
+  const defaults: DslDefaultsSection[] = []
+  const settings: DslSettingsSection[] = []
+  for (const section of res.document.sections) {
+    if (section.kind === 'Defaults') defaults.push(section)
+    if (section.kind === 'Settings') settings.push(section)
+    if (section.kind === 'Workflow') workflows.set(section.name.name, [...(workflows.get(section.name.name) || []), section])
+    if (section.kind === 'Step') steps.set(section.name.name, [...(steps.get(section.name.name) || []), section])
+  }
+  const importedEdges = (name: string) => res.imported?.workflows?.[name]?.edges.length ?? 0
+  return {
+    config: res.config,
+    workflows,
+    defaults,
+    locate: (location: string) => locateIssue(location, workflows, steps, defaults, settings, importedEdges),
+  }
+}
+
+/**
+ * Config-level diagnostics for the file being edited, resolved with its imports, the
+ * project's rule settings and its component catalog. Issues located in imported files are
+ * left to those files.
+ */
+export function configDiagnostics(
+  text: string,
+  project: DslProjectOptions = {},
+  rules: ConfigRuleSettings = {},
+  components: ComponentInfo[] = [],
+): DslDiagnostic[] {
+  const doc = indexDocument(text, project)
+  if (!doc) return []
+  const { lines } = parseDslDocument(text)
+  const suppressions = dslSuppressions(lines)
+
+  const fixesFor = (issue: ConfigIssue, span: SourceSpan): DslFix[] => {
+    // Misspelled references are replaced where they are written; defaults keys everywhere in the file
+    if (issue.didYouMean) {
+      const [head, name] = parseIssueLocation(issue.location)
+      const spans = head === 'defaults' ? defaultsKeySpans(doc.defaults, String(name)) : [span]
+      const from = lines[span.start.line - 1].text.slice(span.start.column - 1, span.end.column - 1)
+      return [{ title: `Replace '${from}' with '${issue.didYouMean}'`, edits: spans.map(s => ({ span: s, newText: issue.didYouMean! })) }]
+    }
+    // Workflows without `root:` get the first edge's source as their root
+    if (issue.rule !== 'no-root-step' || !issue.workflow) return []
+    const section = doc.workflows.get(issue.workflow)?.find(s => s.edges.length > 0)
+    if (!section) return []
+    const first = section.edges[0]
+    const indent = lines[first.span.start.line - 1].text.match(/^\s*/)![0]
+    const start = { line: section.header.start.line + 1, column: 1 }
+    return [{ title: `Add missing 'root: ${first.from.name}'`, edits: [{ span: { start, end: start }, newText: `${indent}root: ${first.from.name}\n` }] }]
+  }
+
+  const out: DslDiagnostic[] = []
+  for (const issue of validateConfig(doc.config, rules, components)) {
+    const span = doc.locate(issue.location)
+    if (!span || isSuppressed(suppressions, span.start.line, issue.rule)) continue
+    const fixes = fixesFor(issue, span)
+    out.push({
+      line: span.start.line,
+      column: span.start.column,
+      endLine: span.end.line,
+      endColumn: span.end.column,
+      message: issue.message,
+      severity: issue.type,
+      rule: issue.rule,
+      ...(fixes.length > 0 ? { fixes } : {}),
+    })
+  }
+  return out
+}
+
+/** Config issues minus those suppressed by comments in the DSL source the config came from */
+export function withoutDslSuppressed<T extends ConfigIssue>(issues: T[], text: string, project: DslProjectOptions = {}): T[] {
+  const suppressions = dslSuppressions(parseDslDocument(text).lines)
+  if (suppressions.size === 0) return issues
+  const doc = indexDocument(text, project)
+  if (!doc) return issues
+  return issues.filter(issue => {
+    const span = doc.locate(issue.location)
+    return !span || !isSuppressed(suppressions, span.start.line, issue.rule)
+  })
+}
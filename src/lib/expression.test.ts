@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest'
+import { ExpressionError, compileExpression, evaluateExpression } from './expression'
+
+const CONTEXT = {
+  order: { total: 150, items: [{ sku: 'A1', qty: 2 }], 'ship-to': 'DE' },
+  customer: { tier: 'gold', blocked: false },
+  retries: 0,
+}
+
+const run = (text: string) => evaluateExpression(text, CONTEXT)
+
+describe('evaluateExpression', () => {
+  it.each([
+    ['42', 42],
+    ['1.5', 1.5],
+    ["'gold'", 'gold'],
+    ['"it\\"s"', 'it"s'],
+    ['true', true],
+    ['false', false],
+    ['null', null],
+  ])('reads the literal %s', (text, value) => {
+    expect(run(text)).toBe(value)
+  })
+
+  it.each([
+    ['1 + 2 * 3', 7],
+    ['(1 + 2) * 3', 9],
+    ['10 - 4 - 3', 3],
+    ['12 / 3 / 2', 2],
+    ['7 % 4 + 1', 4],
+    ['-2 * 3', -6],
+    ['--2', 2],
+    ['!false && false', false],
+    ['true || false && false', true],
+    ['(true || false) && false', false],
+    ['1 + 1 == 2', true],
+    ['2 > 1 == true', true],
+    ["'a' + 'b' == 'ab'", true],
+    ['1 == true', false],
+    ['null != false', true],
+    ['3 <= 3 && 3 >= 4', false],
+    ['3 < 4 || 3 > 4', true],
+  ])('applies operator precedence: %s', (text, value) => {
+    expect(run(text)).toBe(value)
+  })
+
+  it('reads context paths with dots, indexes and quoted keys', () => {
+    expect(run("order.total > 100 && customer.tier == 'gold'")).toBe(true)
+    expect(run('order.items[0].sku')).toBe('A1')
+    expect(run('order.items[retries].qty * 2')).toBe(4)
+    expect(run("order['ship-to']")).toBe('DE')
+    expect(run('!customer.blocked')).toBe(true)
+  })
+
+  it('reads missing paths as undefined instead of throwing', () => {
+    expect(run('order.coupon')).toBeUndefined()
+    expect(run('order.coupon.code')).toBeUndefined()
+    expect(run('payment.items[3].sku')).toBeUndefined()
+    expect(run('order.coupon == null')).toBe(false)
+    expect(run('!order.coupon')).toBe(true)
+    expect(run('order.coupon.amount > 0')).toBe(false)
+  })
+
+  it('short-circuits && and || to their operand values', () => {
+    expect(run("order.coupon || 'none'")).toBe('none')
+    expect(run('customer.blocked && order.total')).toBe(false)
+  })
+})
+
+describe('compileExpression', () => {
+  it('compiles once for any number of contexts', () => {
+    const isBig = compileExpression('order.total >= 100')
+    expect([isBig({ order: { total: 100 } }), isBig({ order: { total: 99 } }), isBig({})]).toEqual([true, false, false])
+  })
+
+  it.each([
+    ['', 'Empty expression at 1'],
+    ['   ', 'Empty expression at 1'],
+    ['1 +', 'Unexpected end of expression at 4'],
+    ['(1 + 2', "Expected ')' at 7"],
+    ['a[0', "Expected ']' at 4"],
+    ['a.1', 'Expected a key after . at 3'],
+    ["'open", 'Unterminated string at 1'],
+    ['a = 1', "Unexpected '=' at 3"],
+    ['a b', "Unexpected 'b' at 3"],
+    ['a ; b', "Unexpected ';' at 3"],
+    ['* 2', "Unexpected '*' at 1"],
+    ['f()', "Unexpected '(' at 2"],
+  ])('rejects %j with a positioned message', (text, message) => {
+    expect(() => compileExpression(text)).toThrow(ExpressionError)
+    expect(() => compileExpression(text)).toThrow(message)
+  })
+
+  it('records the offset of the problem', () => {
+    try {
+      compileExpression('order.total >> 1')
+      expect.unreachable()
+    } catch (e) {
+      expect(e).toBeInstanceOf(ExpressionError)
+      expect((e as ExpressionError).at).toBe(13)
+      expect((e as ExpressionError).message).toBe("Unexpected '>' at 14")
+    }
+  })
+})
@@ -0,0 +1,157 @@
+// Small expression language over a context object, used by simulation scenarios to decide
+// guard results: `order.total > 100 && customer.tier == 'gold'`. Supports number, string,
+// boolean and null literals, context paths (`a.b`, `items[0]`, `a['key']`), `!` and unary `-`,
+// `* / %`, `+ -`, comparisons, `== !=` (strict), `&& ||` and parentheses. Missing paths
+// read as undefined. Nothing else is reachable, so expressions cannot run arbitrary code.
+
+type Token =
+  | { kind: 'number' | 'string'; value: number | string; at: number }
+  | { kind: 'name' | 'op'; text: string; at: number }
+
+type Evaluator = (context: Record<string, any>) => any
+
+export class ExpressionError extends Error {
+  /** Offset in the expression text */
+  readonly at: number
+
+  constructor(message: string, at: number) {
+    super(`${message} at ${at + 1}`)
+    this.at = at
+  }
+}
+
+const tokenText = (t: Token) => ('text' in t ? t.text : String(t.value))
+
+const OPERATORS = ['&&', '||', '==', '!=', '<=', '>=', '<', '>', '+', '-', '*', '/', '%', '!', '(', ')', '[', ']', '.']
+
+const BINARY: Array<Record<string, (a: any, b: any) => any>> = [
+  { '||': (a, b) => a || b },
+  { '&&': (a, b) => a && b },
+  { '==': (a, b) => a === b, '!=': (a, b) => a !== b },
+  { '<': (a, b) => a < b, '<=': (a, b) => a <= b, '>': (a, b) => a > b, '>=': (a, b) => a >= b },
+  { '+': (a, b) => a + b, '-': (a, b) => a - b },
+  { '*': (a, b) => a * b, '/': (a, b) => a / b, '%': (a, b) => a % b },
+]
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = []
+  let i = 0
+  while (i < text.length) {
+    const c = text[i]
+    if (/\s/.test(c)) {
+      i++
+    } else if (/[0-9]/.test(c)) {
+      const m = /^\d+(\.\d+)?/.exec(text.slice(i))!
+      tokens.push({ kind: 'number', value: Number(m[0]), at: i })
+      i += m[0].length
+    } else if (c === "'" || c === '"') {
+      let value = ''
+      let j = i + 1
+      for (; j < text.length && text[j] !== c; j++) value += text[j] === '\\' && j + 1 < text.length ? text[++j] : text[j]
+      if (j >= text.length) throw new ExpressionError('Unterminated string', i)
+      tokens.push({ kind: 'string', value, at: i })
+      i = j + 1
+    } else if (/[A-Za-z_$]/.test(c)) {
+      const name = /^[\w$]+/.exec(text.slice(i))![0]
+      tokens.push({ kind: 'name', text: name, at: i })
+      i += name.length
+    } else {
+      const op = OPERATORS.find(o => text.startsWith(o, i))
+      if (!op) throw new ExpressionError(`Unexpected '${c}'`, i)
+      tokens.push({ kind: 'op', text: op, at: i })
+      i += op.length
+    }
+  }
+  return tokens
+}
+
+/** Compile an expression; throws an ExpressionError for invalid text */
+export function compileExpression(text: string): Evaluator {
+  const tokens = tokenize(text)
+  let pos = 0
+
+  const peekOp = (op: string) => {
+    const t = tokens[pos]
+    return !!t && t.kind === 'op' && t.text === op
+  }
+  const expect = (op: string) => {
+    if (!peekOp(op)) throw new ExpressionError(`Expected '${op}'`, tokens[pos]?.at ?? text.length)
+    pos++
+  }
+
+  const binary = (level: number): Evaluator => {
+    if (level === BINARY.length) return unary()
+    let left = binary(level + 1)
+    for (;;) {
+      const t = tokens[pos]
+      const apply = t?.kind === 'op' ? BINARY[level][t.text] : undefined
+      if (!apply) return left
+      pos++
+      const l = left
+      const r = binary(level + 1)
+      left = ctx => apply(l(ctx), r(ctx))
+    }
+  }
+
+  const unary = (): Evaluator => {
+    if (peekOp('!')) {
+      pos++
+      const operand = unary()
+      return ctx => !operand(ctx)
+    }
+    if (peekOp('-')) {
+      pos++
+      const operand = unary()
+      return ctx => -operand(ctx)
+    }
+    return primary()
+  }
+
+  const primary = (): Evaluator => {
+    const t = tokens[pos]
+    if (!t) throw new ExpressionError('Unexpected end of expression', text.length)
+    pos++
+    if (t.kind === 'number' || t.kind === 'string') return () => t.value
+    if (t.kind === 'op' && t.text === '(') {
+      const inner = binary(0)
+      expect(')')
+      return inner
+    }
+    if (t.kind !== 'name') throw new ExpressionError(`Unexpected '${tokenText(t)}'`, t.at)
+    if (t.text === 'true') return () => true
+    if (t.text === 'false') return () => false
+    if (t.text === 'null') return () => null
+
+    // Context path: name, then `.key` and `[index]` segments
+    const segments: Evaluator[] = [() => t.text]
+    for (;;) {
+      if (peekOp('.')) {
+        pos++
+        const key = tokens[pos]
+        if (key?.kind !== 'name') throw new ExpressionError('Expected a key after .', key?.at ?? text.length)
+        pos++
+        segments.push(() => key.text)
+      } else if (peekOp('[')) {
+        pos++
+        segments.push(binary(0))
+        expect(']')
+      } else {
+        break
+      }
+    }
+    return ctx => segments.reduce<any>((value, segment) => (value == null ? undefined : value[segment(ctx)]), ctx)
+  }
+
+  if (tokens.length === 0) throw new ExpressionError('Empty expression', 0)
+  const evaluate = binary(0)
+  if (pos < tokens.length) {
+    const t = tokens[pos]
+    throw new ExpressionError(`Unexpected '${tokenText(t)}'`, t.at)
+  }
+  return evaluate
+}
+
+/** Evaluate an expression against `context` */
+export function evaluateExpression(text: string, context: Record<string, any>): any {
+  return compileExpression(text)(context)
+}
@@ -0,0 +1,289 @@
+import { ComponentInfo, ConfigSchema, ConfigSchemaProperty } from '../types/stepflow'
+import { ComponentCatalog, mergeCatalogs } from './component-catalog'
+import { readZip } from './zip'
+
+// Component catalog extraction from Java sources: classes annotated with
+// `@StepComponent(name = "...")` or `@GuardComponent(name = "...")`, and their
+// `@ConfigValue(value = "...")` fields (or constructor/setter parameters) as the config schema.
+// This is a lexical scan, not a compiler: it needs no classpath but only sees what is written
+// in the scanned files (e.g. enum values are known only when the enum is scanned too).
+
+export interface JavaSource {
+  path: string
+  text: string
+}
+
+export interface JavaScanResult {
+  catalog: ComponentCatalog
+  /** Annotations that could not be attributed, and components declared more than once */
+  warnings: string[]
+}
+
+const COMPONENT_RE = /@(?:[\w$]+\.)*(StepComponent|GuardComponent)\b/g
+const CONFIG_VALUE_RE = /@(?:[\w$]+\.)*ConfigValue\b/g
+const CLASS_RE = /^(?:\s*@[\w$.]+(?:\s*\([^)]*\))?|\s*(?:public|protected|private|abstract|final|static|strictfp))*\s*class\s+([\w$]+)/
+const MEMBER_RE = /^((?:\s*@[\w$.]+(?:\s*\([^)]*\))?)*)\s*((?:(?:private|protected|public|final|static|transient|volatile)\s+)*)([\w$.]+(?:\s*<[^;=(){}]*>)?(?:\s*\[\s*\])*)\s+([\w$]+)\s*([;=,)])/
+
+const INTEGER_TYPES = new Set(['int', 'Integer', 'long', 'Long', 'short', 'Short', 'byte', 'Byte', 'BigInteger', 'AtomicInteger', 'AtomicLong'])
+const NUMBER_TYPES = new Set(['float', 'Float', 'double', 'Double', 'BigDecimal', 'Number'])
+const BOOLEAN_TYPES = new Set(['boolean', 'Boolean'])
+const STRING_TYPES = new Set(['String', 'char', 'Character', 'CharSequence', 'UUID', 'Duration', 'LocalDate', 'LocalDateTime', 'LocalTime', 'Instant', 'ZonedDateTime', 'URI', 'URL', 'Path', 'File', 'Pattern'])
+const LIST_TYPES = new Set(['List', 'ArrayList', 'LinkedList', 'Set', 'HashSet', 'LinkedHashSet', 'TreeSet', 'SortedSet', 'Collection', 'Iterable'])
+
+// Comments blanked to spaces (`code`), and additionally string/char literal contents (`bare`);
+// both keep every offset of the original so positions found in one apply to all three
+function blankSource(src: string): { code: string; bare: string } {
+  let code = ''
+  let bare = ''
+  let i = 0
+  const blank = (s: string) => s.replace(/[^\n]/g, ' ')
+  while (i < src.length) {
+    const c = src[i]
+    let end = i + 1
+    if (c === '/' && src[i + 1] === '/') {
+      end = src.indexOf('\n', i)
+      if (end === -1) end = src.length
+      code += blank(src.slice(i, end))
+      bare += blank(src.slice(i, end))
+      i = end
+      continue
+    }
+    if (c === '/' && src[i + 1] === '*') {
+      end = src.indexOf('*/', i + 2)
+      end = end === -1 ? src.length : end + 2
+      code += blank(src.slice(i, end))
+      bare += blank(src.slice(i, end))
+      i = end
+      continue
+    }
+    if (src.startsWith('"""', i)) {
+      end = src.indexOf('"""', i + 3)
+      end = end === -1 ? src.length : end + 3
+    } else if (c === '"' || c === '\'') {
+      while (end < src.length && src[end] !== c && src[end] !== '\n') end += src[end] === '\\' ? 2 : 1
+      end = Math.min(end + 1, src.length)
+    }
+    const literal = src.slice(i, end)
+    code += literal
+    bare += end - i > 1 ? literal[0] + blank(literal.slice(1, -1)) + literal[literal.length - 1] : literal
+    i = end
+  }
+  return { code, bare }
+}
+
+// Index of the bracket closing the one at `open`, counted in `bare`
+function closing(bare: string, open: number): number {
+  const [o, c] = bare[open] === '(' ? ['(', ')'] : ['{', '}']
+  let depth = 0
+  for (let i = open; i < bare.length; i++) {
+    if (bare[i] === o) depth++
+    else if (bare[i] === c && --depth === 0) return i
+  }
+  return bare.length
+}
+
+function unquote(value: string): string {
+  const v = value.trim()
+  if (v.startsWith('"') && v.endsWith('"') && v.length >= 2) return v.slice(1, -1).replace(/\\(.)/g, '$1')
+  return v
+}
+
+// Arguments of an annotation starting at `at`: named ones by name, a lone value as `value`;
+// `end` is the offset after the annotation
+function annotationArgs(code: string, bare: string, at: number): { args: Record<string, string>; end: number } {
+  const name = /^@[\w$.]+/.exec(bare.slice(at))!
+  let end = at + name[0].length
+  const paren = /^\s*\(/.exec(bare.slice(end))
+  if (!paren) return { args: {}, end }
+  const open = end + paren[0].length - 1
+  const close = closing(bare, open)
+  const inner = code.slice(open + 1, close)
+  const args: Record<string, string> = {}
+  const named = /([\w$]+)\s*=\s*("(?:[^"\\]|\\.)*"|[^,]+)/g
+  let m: RegExpExecArray | null
+  while ((m = named.exec(inner))) args[m[1]] = unquote(m[2])
+  if (Object.keys(args).length === 0 && inner.trim()) args.value = unquote(inner)
+  return { args, end: close + 1 }
+}
+
+// Text of the Javadoc comment right before the declaration at `at`, without tags
+function javadocBefore(src: string, bare: string, at: number): string | undefined {
+  const boundary = Math.max(bare.lastIndexOf(';', at - 1), bare.lastIndexOf('{', at - 1), bare.lastIndexOf('}', at - 1))
+  const docs = [...src.slice(boundary + 1, at).matchAll(/\/\*\*([\s\S]*?)\*\//g)]
+  if (docs.length === 0) return undefined
+  const lines = docs[docs.length - 1][1].split('\n').map(l => l.replace(/^\s*\*?\s?/, '').trim())
+  const tag = lines.findIndex(l => l.startsWith('@'))
+  const text = (tag === -1 ? lines : lines.slice(0, tag)).join(' ').replace(/<[^>]+>/g, '').replace(/\s+/g, ' ').trim()
+  return text || undefined
+}
+
+// Values of the enums declared in the sources, by simple name
+function enumValues(bares: string[]): Map<string, string[]> {
+  const out = new Map<string, string[]>()
+  for (const bare of bares) {
+    for (const m of bare.matchAll(/\benum\s+([\w$]+)[^{]*\{([^;{}]*)/g)) {
+      const values = m[2].split(',').map(part => /^\s*(?:@[\w$.]+\s*)*([\w$]+)/.exec(part)?.[1]).filter((v): v is string => !!v)
+      out.set(m[1], values)
+    }
+  }
+  return out
+}
+
+/** Schema property for a Java type; unknown classes become objects, scanned enums string enums */
+export function javaTypeSchema(javaType: string, enums: Map<string, string[]> = new Map()): ConfigSchemaProperty {
+  const type = javaType.replace(/\s+/g, '')
+  if (type.endsWith('[]')) return { type: 'array', items: javaTypeSchema(type.slice(0, -2), enums) }
+  const generic = /^([\w$.]+)<(.*)>$/.exec(type)
+  const base = (generic?.[1] ?? type).split('.').pop()!
+  const args = generic ? splitTypeArgs(generic[2]) : []
+  if (base === 'Optional' && args[0]) return javaTypeSchema(args[0], enums)
+  if (LIST_TYPES.has(base)) return args[0] ? { type: 'array', items: javaTypeSchema(args[0], enums) } : { type: 'array' }
+  if (INTEGER_TYPES.has(base)) return { type: 'integer' }
+  if (NUMBER_TYPES.has(base)) return { type: 'number' }
+  if (BOOLEAN_TYPES.has(base)) return { type: 'boolean' }
+  if (STRING_TYPES.has(base)) return { type: 'string' }
+  if (enums.has(base)) return { type: 'string', enum: enums.get(base) }
+  return { type: 'object' }
+}
+
+function splitTypeArgs(text: string): string[] {
+  const out: string[] = []
+  let depth = 0
+  let start = 0
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '<') depth++
+    else if (text[i] === '>') depth--
+    else if (text[i] === ',' && depth === 0) {
+      out.push(text.slice(start, i))
+      start = i + 1
+    }
+  }
+  out.push(text.slice(start))
+  return out.map(s => s.replace(/^\?\s*extends\s*/, ''))
+}
+
+// Value of a field initializer when it is a literal or a constant of the property's enum
+function literalValue(expr: string, property: ConfigSchemaProperty): string | undefined {
+  const e = expr.trim()
+  if (/^"(?:[^"\\]|\\.)*"$/.test(e)) return unquote(e)
+  if (/^-?[\d_.]+[lLfFdD]?$/.test(e) || e === 'true' || e === 'false') return e
+  const constant = /^(?:[\w$]+\.)*([\w$]+)$/.exec(e)?.[1]
+  return constant && property.enum?.includes(constant) ? constant : undefined
+}
+
+// A default given as text (`defaultValue`, or a literal initializer), converted to the schema type
+function defaultFor(text: string, property: ConfigSchemaProperty): any {
+  switch (property.type) {
+    case 'integer':
+    case 'number': {
+      const n = Number(text.replace(/[lLfFdD]$/, '').replace(/_/g, ''))
+      return text.trim() !== '' && Number.isFinite(n) ? n : undefined
+    }
+    case 'boolean': return text === 'true' ? true : text === 'false' ? false : undefined
+    case 'string': return property.enum && !property.enum.includes(text) ? undefined : text
+    case 'array': return text.split(',').map(s => s.trim()).filter(Boolean).map(s => (property.items ? defaultFor(s, property.items) ?? s : s))
+  }
+  return undefined
+}
+
+// Config schema from the `@ConfigValue` members directly inside the class body [open, close]
+function configSchema(src: string, code: string, bare: string, open: number, close: number, enums: Map<string, string[]>): ConfigSchema | undefined {
+  const properties: Record<string, ConfigSchemaProperty> = {}
+  const required: string[] = []
+  CONFIG_VALUE_RE.lastIndex = open
+  let m: RegExpExecArray | null
+  while ((m = CONFIG_VALUE_RE.exec(bare)) && m.index < close) {
+    // Members of the class itself (fields, constructor and setter parameters), not of nested classes
+    const before = bare.slice(open + 1, m.index)
+    if ((before.match(/\{/g) || []).length !== (before.match(/\}/g) || []).length) continue
+    const { args, end } = annotationArgs(code, bare, m.index)
+    const member = MEMBER_RE.exec(bare.slice(end))
+    if (!member) continue
+    const key = args.value || args.name || args.key || member[4]
+    const property: ConfigSchemaProperty = javaTypeSchema(member[3], enums)
+    let initializer: string | undefined
+    if (member[5] === '=') {
+      const from = end + member[0].length
+      initializer = literalValue(code.slice(from, bare.indexOf(';', from)), property)
+    }
+    const fallback = args.defaultValue ?? initializer
+    const value = fallback !== undefined ? defaultFor(fallback, property) : undefined
+    if (value !== undefined) property.default = value
+    const description = javadocBefore(src, bare, m.index)
+    if (description) property.description = description
+    if (args.globalPath) property.globalPath = args.globalPath
+    properties[key] = property
+    if (args.required === 'true') required.push(key)
+  }
+  if (Object.keys(properties).length === 0) return undefined
+  return required.length > 0 ? { properties, required } : { properties }
+}
+
+function scanSource(source: JavaSource, blanked: { code: string; bare: string }, enums: Map<string, string[]>, warnings: string[]): ComponentInfo[] {
+  const { code, bare } = blanked
+  const pkg = /\bpackage\s+([\w$.]+)\s*;/.exec(bare)?.[1]
+  const out: ComponentInfo[] = []
+  COMPONENT_RE.lastIndex = 0
+  let m: RegExpExecArray | null
+  while ((m = COMPONENT_RE.exec(bare))) {
+    const at = m.index
+    const { args, end } = annotationArgs(code, bare, at)
+    const cls = CLASS_RE.exec(bare.slice(end))
+    if (!cls) {
+      warnings.push(`${source.path}: @${m[1]} is not on a class`)
+      continue
+    }
+    const className = cls[1]
+    const open = bare.indexOf('{', end + cls[0].length)
+    const close = open === -1 ? bare.length : closing(bare, open)
+    const info: ComponentInfo = {
+      name: args.name || args.value || className,
+      type: m[1] === 'StepComponent' ? 'step' : 'guard',
+      className,
+    }
+    if (pkg) info.package = pkg
+    const description = javadocBefore(source.text, bare, at)
+    if (description) info.description = description
+    const schema = open === -1 ? undefined : configSchema(source.text, code, bare, open, close, enums)
+    if (schema) info.schema = schema
+    out.push(info)
+  }
+  return out
+}
+
+/** Catalog of the step and guard components declared in Java sources */
+export function scanJavaSources(sources: JavaSource[]): JavaScanResult {
+  const blanked = sources.map(s => blankSource(s.text))
+  const enums = enumValues(blanked.map(b => b.bare))
+  const warnings: string[] = []
+  const seen = new Map<string, string>()
+  const components: ComponentInfo[] = []
+  sources.forEach((source, i) => {
+    for (const info of scanSource(source, blanked[i], enums, warnings)) {
+      const key = `${info.type}:${info.name}`
+      const first = seen.get(key)
+      if (first) warnings.push(`${info.type === 'step' ? 'Step' : 'Guard'} '${info.name}' is declared in ${first} and ${source.path}; using the latter`)
+      seen.set(key, source.path)
+      components.push(info)
+    }
+  })
+  return { catalog: mergeCatalogs([{ packages: [], components }]), warnings }
+}
+
+/** `.java` files from the given files, unpacking zip archives */
+export async function readJavaSources(files: File[]): Promise<JavaSource[]> {
+  const out: JavaSource[] = []
+  const decoder = new TextDecoder()
+  for (const file of files) {
+    const path = file.webkitRelativePath || file.name
+    if (/\.(zip|jar)$/i.test(file.name)) {
+      const entries = await readZip(new Uint8Array(await file.arrayBuffer()))
+      for (const entry of entries) {
+        if (entry.path.endsWith('.java')) out.push({ path: `${path}/${entry.path}`, text: decoder.decode(entry.content) })
+      }
+    } else if (file.name.endsWith('.java')) {
+      out.push({ path, text: await file.text() })
+    }
+  }
+  return out
+}
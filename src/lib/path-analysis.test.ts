@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest'
+import { EdgeDef, WorkflowDef } from '../types/stepflow'
+import { reachableSteps } from './config-validator'
+import { analyzeWorkflowPaths, shadowedEdges } from './path-analysis'
+
+const workflow = (edges: EdgeDef[], root = 'A'): WorkflowDef => ({ root, edges })
+
+const kinds = (wf: WorkflowDef) => analyzeWorkflowPaths(wf).map(f => `${f.kind} ${f.step} ${f.edge}`)
+
+describe('analyzeWorkflowPaths', () => {
+  it('reports nothing for a workflow whose paths all end in a terminal', () => {
+    expect(analyzeWorkflowPaths(workflow([{ from: 'A', to: 'B', guard: 'g' }, { from: 'A', to: 'FAILURE' }, { from: 'B', to: 'SUCCESS' }]))).toEqual([])
+  })
+
+  it('follows call edges to the step after the call', () => {
+    const wf = workflow([{ from: 'A', to: 'B', call: 'Billing' }])
+    expect(analyzeWorkflowPaths(wf)).toEqual([{ kind: 'dead-end', step: 'B', edge: 0, path: { steps: ['A', 'B'], edges: [0] } }])
+  })
+
+  it('treats a tail call as reaching SUCCESS', () => {
+    expect(analyzeWorkflowPaths(workflow([{ from: 'A', to: 'SUCCESS', call: 'Billing' }]))).toEqual([])
+  })
+
+  it('follows the alternative of a failed guard', () => {
+    const wf = workflow([{ from: 'A', to: 'SUCCESS', guard: 'g', onFailure: { strategy: 'ALTERNATIVE', alternativeTarget: 'Manual' } }])
+    expect(analyzeWorkflowPaths(wf)).toEqual([{ kind: 'dead-end', step: 'Manual', edge: 0, path: { steps: ['A', 'Manual'], edges: [0] } }])
+  })
+
+  it('follows the alternative of a failed call', () => {
+    const wf = workflow([{ from: 'A', to: 'SUCCESS', call: 'Billing', onFailure: { strategy: 'ALTERNATIVE', alternativeTarget: 'Manual' } }])
+    expect(kinds(wf)).toEqual(['dead-end Manual 0'])
+  })
+
+  it('ignores the alternative of an edge that cannot fail', () => {
+    const wf = workflow([{ from: 'A', to: 'SUCCESS', onFailure: { strategy: 'ALTERNATIVE', alternativeTarget: 'Manual' } }])
+    expect(analyzeWorkflowPaths(wf)).toEqual([])
+  })
+
+  it('reports where a failure-only region is entered, with the path to FAILURE', () => {
+    const wf = workflow([
+      { from: 'A', to: 'SUCCESS', guard: 'g', onFailure: { strategy: 'ALTERNATIVE', alternativeTarget: 'Manual' } },
+      { from: 'Manual', to: 'Notify' },
+      { from: 'Notify', to: 'FAILURE' },
+    ])
+    expect(analyzeWorkflowPaths(wf)).toEqual([
+      { kind: 'failure-only', step: 'Manual', edge: 0, path: { steps: ['A', 'Manual', 'Notify', 'FAILURE'], edges: [0, 1, 2] } },
+    ])
+  })
+
+  it('reports a failure-only root without an edge', () => {
+    const wf = workflow([{ from: 'A', to: 'B', call: 'Billing' }, { from: 'B', to: 'FAILURE' }])
+    expect(analyzeWorkflowPaths(wf)).toEqual([
+      { kind: 'failure-only', step: 'A', edge: undefined, path: { steps: ['A', 'B', 'FAILURE'], edges: [0, 1] } },
+    ])
+  })
+
+  it('reports cycles of unguarded edges once, on the closing edge', () => {
+    const wf = workflow([{ from: 'A', to: 'B' }, { from: 'B', to: 'C', call: 'Billing' }, { from: 'C', to: 'B' }, { from: 'C', to: 'SUCCESS' }])
+    const cycles = analyzeWorkflowPaths(wf).filter(f => f.kind === 'unguarded-cycle')
+    expect(cycles).toEqual([{ kind: 'unguarded-cycle', step: 'B', edge: 2, path: { steps: ['B', 'C'], edges: [1, 2] } }])
+  })
+
+  it('does not report a cycle with a guarded exit first', () => {
+    const wf = workflow([{ from: 'A', to: 'SUCCESS', guard: 'done' }, { from: 'A', to: 'A' }])
+    expect(kinds(wf)).toEqual([])
+  })
+
+  it('does not follow shadowed edges', () => {
+    const wf = workflow([{ from: 'A', to: 'SUCCESS' }, { from: 'A', to: 'B', call: 'Billing' }])
+    expect(kinds(wf)).toEqual(['shadowed-edge A 1'])
+    expect(analyzeWorkflowPaths(wf)[0].path).toEqual({ steps: ['A', 'SUCCESS', 'B'], edges: [0, 1] })
+  })
+})
+
+describe('shadowedEdges', () => {
+  it('maps every edge after the first unguarded one to it', () => {
+    const wf = workflow([
+      { from: 'A', to: 'B', guard: 'g' },
+      { from: 'B', to: 'SUCCESS' },
+      { from: 'A', to: 'SUCCESS' },
+      { from: 'A', to: 'FAILURE', guard: 'h' },
+      { from: 'A', to: 'B' },
+    ])
+    expect([...shadowedEdges(wf)]).toEqual([[3, 2], [4, 2]])
+  })
+})
+
+describe('reachableSteps', () => {
+  it('follows call edges and alternative targets by depth', () => {
+    const wf = workflow([
+      { from: 'A', to: 'B', call: 'Billing', onFailure: { strategy: 'ALTERNATIVE', alternativeTarget: 'Manual' } },
+      { from: 'B', to: 'SUCCESS', guard: 'g', onFailure: { strategy: 'ALTERNATIVE', alternativeTarget: 'FAILURE' } },
+      { from: 'Manual', to: 'FAILURE' },
+      { from: 'Orphan', to: 'B' },
+    ])
+    expect([...reachableSteps(wf)]).toEqual([['A', 0], ['B', 1], ['Manual', 1], ['SUCCESS', 2], ['FAILURE', 2]])
+  })
+
+  it('reaches nothing without a root', () => {
+    expect(reachableSteps(workflow([{ from: 'A', to: 'SUCCESS' }], '')).size).toBe(0)
+  })
+})
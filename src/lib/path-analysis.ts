@@ -0,0 +1,127 @@
+import { WorkflowDef } from '../types/stepflow'
+
+// Path analysis of a single workflow under the engine's routing semantics: a step's edges
+// are tried in declaration order and the first one whose guard passes (or that has no
+// guard) is taken. A failed guard or call with an ALTERNATIVE strategy goes to its target instead.
+
+export type PathFindingKind = 'dead-end' | 'failure-only' | 'unguarded-cycle' | 'shadowed-edge'
+
+/** Steps and edges (indexes into `wf.edges`) to highlight for a finding */
+export interface WorkflowPath {
+  steps: string[]
+  edges: number[]
+}
+
+export interface PathFinding {
+  kind: PathFindingKind
+  /** Step the finding is about */
+  step: string
+  /** Edge the finding is reported on; unset for findings at the root */
+  edge?: number
+  path: WorkflowPath
+}
+
+const isTerminal = (name: string) => name === 'SUCCESS' || name === 'FAILURE'
+
+/** Edge indexes after the first unguarded edge from the same step; the earlier edge always wins */
+export function shadowedEdges(wf: WorkflowDef): Map<number, number> {
+  const shadowed = new Map<number, number>()
+  const winner = new Map<string, number>()
+  ;(wf.edges || []).forEach((edge, i) => {
+    const first = winner.get(edge.from)
+    if (first !== undefined) shadowed.set(i, first)
+    else if (!edge.guard) winner.set(edge.from, i)
+  })
+  return shadowed
+}
+
+// Edges that can be taken, as [index, next step] pairs per step
+function transitions(wf: WorkflowDef): Map<string, Array<[number, string]>> {
+  const shadowed = shadowedEdges(wf)
+  const out = new Map<string, Array<[number, string]>>()
+  ;(wf.edges || []).forEach((edge, i) => {
+    if (shadowed.has(i)) return
+    const list = out.get(edge.from) || []
+    list.push([i, edge.to])
+    if ((edge.guard || edge.call) && edge.onFailure?.strategy === 'ALTERNATIVE' && edge.onFailure.alternativeTarget) {
+      list.push([i, edge.onFailure.alternativeTarget])
+    }
+    out.set(edge.from, list)
+  })
+  return out
+}
+
+// Shortest path from `from` to each step reachable from it
+function shortestPaths(next: Map<string, Array<[number, string]>>, from: string): Map<string, WorkflowPath> {
+  const paths = new Map<string, WorkflowPath>([[from, { steps: [from], edges: [] }]])
+  const queue = [from]
+  while (queue.length > 0) {
+    const current = queue.shift()!
+    const path = paths.get(current)!
+    for (const [i, to] of next.get(current) || []) {
+      if (paths.has(to)) continue
+      paths.set(to, { steps: [...path.steps, to], edges: [...path.edges, i] })
+      queue.push(to)
+    }
+  }
+  return paths
+}
+
+const join = (a: WorkflowPath, b: WorkflowPath): WorkflowPath => ({ steps: [...a.steps, ...b.steps.slice(1)], edges: [...a.edges, ...b.edges] })
+
+/**
+ * Dead-end steps, steps from which only FAILURE can be reached, cycles that never offer a
+ * way out, and edges that can never be taken. Each finding carries the path to highlight:
+ * from the root to the offending step, the cycle itself, or the winning and shadowed edges.
+ */
+export function analyzeWorkflowPaths(wf: WorkflowDef): PathFinding[] {
+  const edges = wf.edges || []
+  const next = transitions(wf)
+  const findings: PathFinding[] = []
+  const fromRoot = wf.root ? shortestPaths(next, wf.root) : new Map<string, WorkflowPath>()
+  const lastEdge = (path: WorkflowPath) => path.edges[path.edges.length - 1]
+
+  for (const [step, path] of fromRoot) {
+    if (!isTerminal(step) && !edges.some(e => e.from === step)) {
+      findings.push({ kind: 'dead-end', step, edge: lastEdge(path), path })
+    }
+  }
+
+  // Entries into regions where every path ends in FAILURE: the root, or a step entered from
+  // a step that can still succeed
+  const reach = new Map([...fromRoot.keys()].map(step => [step, shortestPaths(next, step)]))
+  const failureOnly = (step: string) => !isTerminal(step) && reach.get(step)!.has('FAILURE') && !reach.get(step)!.has('SUCCESS')
+  for (const [step, path] of fromRoot) {
+    if (!failureOnly(step)) continue
+    const entered = step === wf.root || [...fromRoot.keys()].some(p => !failureOnly(p) && (next.get(p) || []).some(([, to]) => to === step))
+    if (entered) findings.push({ kind: 'failure-only', step, edge: lastEdge(path), path: join(path, reach.get(step)!.get('FAILURE')!) })
+  }
+
+  // A step whose first edge is unguarded always takes it; cycles of such steps never end
+  const forced = new Map<string, number>()
+  for (const [step, list] of next) {
+    const [first] = list
+    if (first && !edges[first[0]].guard) forced.set(step, first[0])
+  }
+  const seen = new Set<string>()
+  for (const start of forced.keys()) {
+    const trail: string[] = []
+    let step: string | undefined = start
+    while (step !== undefined && forced.has(step) && !seen.has(step) && !trail.includes(step)) {
+      trail.push(step)
+      step = edges[forced.get(step)!].to
+    }
+    if (step !== undefined && trail.includes(step)) {
+      const cycle = trail.slice(trail.indexOf(step))
+      const closing = forced.get(cycle[cycle.length - 1])!
+      findings.push({ kind: 'unguarded-cycle', step: cycle[0], edge: closing, path: { steps: cycle, edges: cycle.map(s => forced.get(s)!) } })
+    }
+    trail.forEach(s => seen.add(s))
+  }
+
+  for (const [i, winner] of shadowedEdges(wf)) {
+    const { from, to } = edges[i]
+    findings.push({ kind: 'shadowed-edge', step: from, edge: i, path: { steps: [from, edges[winner].to, to], edges: [winner, i] } })
+  }
+  return findings
+}
@@ -0,0 +1,93 @@
+import { StepFlowConfig, StepDef, WorkflowDef } from '../types/stepflow'
+
+// Config-wide refactorings. Steps and guards share the `steps` namespace, so a rename
+// re-keys `steps`/`defaults` and rewrites every reference of the given kind.
+
+export type RenameKind = 'step' | 'guard'
+
+const NAME_RE = /^[A-Za-z_][\w-]*$/
+// Terminals plus the keys `defaults` reserves for all steps/guards
+const RESERVED = new Set(['SUCCESS', 'FAILURE', 'step', 'guard'])
+
+/** Guard names referenced anywhere in the config */
+export function collectGuardNames(config: StepFlowConfig): Set<string> {
+  const names = new Set<string>()
+  for (const step of Object.values(config.steps || {})) {
+    step.guards?.forEach(g => g && names.add(g))
+    if (step.retry?.guard) names.add(step.retry.guard)
+  }
+  for (const wf of Object.values(config.workflows || {})) {
+    wf.edges?.forEach(e => e.guard && names.add(e.guard))
+  }
+  return names
+}
+
+/** Step names defined or referenced by any workflow */
+function collectStepNames(config: StepFlowConfig): Set<string> {
+  const names = new Set(Object.keys(config.steps || {}))
+  for (const wf of Object.values(config.workflows || {})) {
+    if (wf.root) names.add(wf.root)
+    wf.edges?.forEach(e => {
+      names.add(e.from)
+      names.add(e.to)
+      if (e.onFailure?.alternativeTarget) names.add(e.onFailure.alternativeTarget)
+    })
+  }
+  return names
+}
+
+/** Why `oldName` can't be renamed to `newName`, or undefined when the rename is allowed */
+export function checkRename(config: StepFlowConfig, kind: RenameKind, oldName: string, newName: string): string | undefined {
+  const known = kind === 'step' ? collectStepNames(config) : collectGuardNames(config)
+  if (!known.has(oldName) && !config.steps?.[oldName]) return `Unknown ${kind} "${oldName}"`
+  if (RESERVED.has(oldName)) return `"${oldName}" cannot be renamed`
+  if (!NAME_RE.test(newName)) return `"${newName}" is not a valid ${kind} name`
+  if (RESERVED.has(newName)) return `"${newName}" is a reserved name`
+  if (newName !== oldName && (collectStepNames(config).has(newName) || collectGuardNames(config).has(newName))) {
+    return `"${newName}" is already in use`
+  }
+  return undefined
+}
+
+// Rename one key in place, keeping key order
+function rekey<T>(obj: Record<string, T> | undefined, oldName: string, newName: string): Record<string, T> | undefined {
+  if (!obj || !(oldName in obj)) return obj
+  return Object.fromEntries(Object.entries(obj).map(([k, v]) => [k === oldName ? newName : k, v]))
+}
+
+/**
+ * Rename a step or guard everywhere it is referenced: workflow roots, edge endpoints
+ * and ALTERNATIVE targets for steps; step `guards`, `retry.guard` and edge guards for guards.
+ * The `steps` entry and any name-specific `defaults` entry are re-keyed in both cases.
+ */
+export function renameSymbol(config: StepFlowConfig, kind: RenameKind, oldName: string, newName: string): StepFlowConfig {
+  if (oldName === newName) return config
+  const r = (name: string) => (name === oldName ? newName : name)
+
+  const renameStep = (step: StepDef): StepDef => {
+    if (kind !== 'guard') return step
+    const next = { ...step }
+    if (step.guards?.includes(oldName)) next.guards = step.guards.map(r)
+    if (step.retry?.guard === oldName) next.retry = { ...step.retry, guard: newName }
+    return next
+  }
+
+  const renameWorkflow = (wf: WorkflowDef): WorkflowDef => ({
+    ...wf,
+    root: kind === 'step' ? r(wf.root) : wf.root,
+    edges: (wf.edges || []).map(e => {
+      if (kind === 'guard') return e.guard === oldName ? { ...e, guard: newName } : e
+      const edge = { ...e, from: r(e.from), to: r(e.to) }
+      if (e.onFailure?.alternativeTarget === oldName) edge.onFailure = { ...e.onFailure, alternativeTarget: newName }
+      return edge
+    }),
+  })
+
+  const steps = rekey(config.steps, oldName, newName)
+  return {
+    ...config,
+    steps: steps && Object.fromEntries(Object.entries(steps).map(([name, step]) => [name, renameStep(step)])),
+    workflows: config.workflows && Object.fromEntries(Object.entries(config.workflows).map(([name, wf]) => [name, renameWorkflow(wf)])),
+    defaults: rekey(config.defaults, oldName, newName) as StepFlowConfig['defaults'],
+  }
+}
@@ -0,0 +1,95 @@
+import { describe, expect, it, vi } from 'vitest'
+import { StepFlowConfig } from '../types/stepflow'
+import { createRandom, randomSeed } from './seeded-random'
+import { ExecutionTrace, SimulationOptions, WorkflowSimulator } from './workflow-simulator'
+
+const draw = (seed: number, count = 5) => {
+  const random = createRandom(seed)
+  return Array.from({ length: count }, () => random())
+}
+
+const CONFIG: StepFlowConfig = {
+  steps: {
+    Validate: { type: 'ValidationStep', retry: { maxAttempts: 3, delay: 250 } },
+    Pay: { type: 'PaymentStep', retry: { maxAttempts: 2, delay: 1000 } },
+    Review: { type: 'ReviewStep' },
+  },
+  workflows: {
+    Order: {
+      root: 'Validate',
+      edges: [
+        { from: 'Validate', to: 'Pay', guard: 'isValid', onFailure: { strategy: 'ALTERNATIVE', alternativeTarget: 'Review' } },
+        { from: 'Pay', to: 'SUCCESS', guard: 'isPaid', onFailure: { strategy: 'RETRY', retryAttempts: 2, retryDelay: 100 } },
+        { from: 'Review', to: 'Validate', guard: 'approved' },
+        { from: 'Review', to: 'FAILURE' },
+      ],
+    },
+  },
+}
+
+const RANDOM: SimulationOptions = {
+  mockStepBehavior: { Validate: 'random', Pay: 'random' },
+  mockGuardBehavior: { isValid: 'random', isPaid: 'random', approved: 'random' },
+}
+
+// What a run produced, without its id and wall-clock times
+const outcome = ({ steps, guards, transitions, clock, terminal, status, seed }: ExecutionTrace) => ({ steps, guards, transitions, clock, terminal, status, seed })
+
+const simulate = async (simulator: WorkflowSimulator, options: SimulationOptions) => {
+  const id = simulator.createTrace('Order', [], [])
+  await simulator.startSimulation(id, CONFIG, 'Order', options)
+  return simulator.getTrace(id)!
+}
+
+describe('createRandom', () => {
+  it('yields the same sequence for the same seed', () => {
+    expect(draw(42)).toEqual(draw(42))
+    expect(draw(42, 3)).toEqual(draw(42).slice(0, 3))
+    expect(draw(43)).not.toEqual(draw(42))
+  })
+
+  it('yields numbers in [0, 1)', () => {
+    for (const seed of [0, 1, 0xffffffff, randomSeed()]) {
+      expect(draw(seed, 100).every(n => n >= 0 && n < 1)).toBe(true)
+    }
+  })
+
+  it('reads seeds as 32-bit unsigned integers', () => {
+    expect(draw(-1)).toEqual(draw(0xffffffff))
+    expect(draw(2 ** 32 + 5)).toEqual(draw(5))
+  })
+})
+
+describe('randomSeed', () => {
+  it('draws 32-bit unsigned integers', () => {
+    const seed = randomSeed()
+    expect(Number.isInteger(seed) && seed >= 0 && seed < 2 ** 32).toBe(true)
+  })
+})
+
+describe('simulation replay', () => {
+  it('repeats a run with the same seed', async () => {
+    const simulator = new WorkflowSimulator()
+    const first = await simulate(simulator, { ...RANDOM, seed: 1234 })
+    const second = await simulate(simulator, { ...RANDOM, seed: 1234 })
+    expect(outcome(second)).toEqual(outcome(first))
+    expect(outcome(await simulate(simulator, { ...RANDOM, seed: 4321 }))).not.toEqual(outcome(first))
+  })
+
+  it('records the drawn seed, and a rerun with it reproduces the trace', async () => {
+    const simulator = new WorkflowSimulator()
+    const original = await simulate(simulator, RANDOM)
+    expect(original.input).toEqual({ config: CONFIG, options: { ...RANDOM, seed: original.seed } })
+
+    const replay = simulator.getTrace(simulator.rerun(original.id))!
+    await vi.waitFor(() => expect(replay.status).not.toBe('running'))
+    expect(replay.id).not.toBe(original.id)
+    expect(outcome(replay)).toEqual(outcome(original))
+  })
+
+  it('refuses to rerun a trace that never ran', () => {
+    const simulator = new WorkflowSimulator()
+    const id = simulator.createTrace('Order', [], [])
+    expect(() => simulator.rerun(id)).toThrow(`Trace ${id} has no recorded run to replay`)
+  })
+})
@@ -0,0 +1,19 @@
+// Deterministic pseudo-random numbers: the same seed always yields the same sequence, so a
+// simulation that drew its timings and random outcomes from it can be replayed exactly.
+
+/** A fresh 32-bit seed */
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 0x100000000) >>> 0
+}
+
+/** Generator of numbers in [0, 1) from a 32-bit seed (mulberry32) */
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 0x100000000
+  }
+}
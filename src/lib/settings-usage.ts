@@ -0,0 +1,135 @@
+import { ComponentInfo, ConfigSchemaProperty, StepFlowConfig } from '../types/stepflow'
+import { findComponent } from './config-schema'
+import { configSources, resolveConfig } from './config-resolver'
+import { isPlainObject } from './utils'
+
+// Which `settings` keys are read, and by whom. Settings reach components two ways: as
+// `${settings.a.b}` placeholders in step config or defaults, and through a component's
+// `@ConfigValue(globalPath = "a.b")`, which the engine reads when the step leaves the key unset.
+
+export interface SettingReference {
+  /** Dotted settings path, e.g. `payment.timeout` */
+  key: string
+  /**
+   * Config path of a placeholder (`steps.Pay.config.timeout`, `defaults.step.timeout`), or
+   * `components.<name>.<property>` for a catalog globalPath
+   */
+  location: string
+  /** Steps that receive the value */
+  steps: string[]
+  /** Catalog component declaring the globalPath */
+  component?: string
+  /** Config key of that component the globalPath backs */
+  property?: string[]
+  /** Placeholder with a `${settings.key:fallback}` default */
+  hasFallback?: boolean
+}
+
+export interface SettingsUsage {
+  references: SettingReference[]
+  /** Leaf settings keys nothing reads */
+  unused: string[]
+  /** References to keys that are not in `settings` */
+  undefinedRefs: SettingReference[]
+}
+
+const PLACEHOLDER_RE = /\$\{settings\.([\w$.-]+?)(:[^}]*)?\}/g
+
+// A key path covers another when it is the same or an ancestor of it
+const covers = (ancestor: string, key: string) => key === ancestor || key.startsWith(`${ancestor}.`)
+
+/** Dotted paths of the leaf settings; an empty object counts as a leaf */
+export function settingsKeys(settings: Record<string, any> | undefined): string[] {
+  const out: string[] = []
+  const walk = (value: Record<string, any>, prefix: string) => {
+    for (const [k, v] of Object.entries(value)) {
+      const key = prefix ? `${prefix}.${k}` : k
+      if (isPlainObject(v) && Object.keys(v).length > 0) walk(v, key)
+      else out.push(key)
+    }
+  }
+  walk(settings || {}, '')
+  return out
+}
+
+/** Whether `key` names a settings value or object */
+export function hasSetting(settings: Record<string, any> | undefined, key: string): boolean {
+  return settingsKeys(settings).some(leaf => covers(key, leaf))
+}
+
+type Placeholder = Pick<SettingReference, 'key' | 'location' | 'hasFallback'>
+
+// Placeholders in a config value, with the path below `location` they sit at
+function placeholders(value: any, location: string, out: Placeholder[]) {
+  if (typeof value === 'string') {
+    for (const m of value.matchAll(PLACEHOLDER_RE)) out.push(m[2] ? { key: m[1], location, hasFallback: true } : { key: m[1], location })
+  } else if (Array.isArray(value)) {
+    value.forEach((v, i) => placeholders(v, `${location}[${i}]`, out))
+  } else if (isPlainObject(value)) {
+    for (const [k, v] of Object.entries(value)) placeholders(v, `${location}.${k}`, out)
+  }
+}
+
+// globalPath declarations of a schema, by property path
+function globalPaths(properties: Record<string, ConfigSchemaProperty> | undefined, prefix: string[] = []): Array<[string[], string]> {
+  return Object.entries(properties || {}).flatMap(([name, property]) => {
+    const path = [...prefix, name]
+    const own: Array<[string[], string]> = property.globalPath ? [[path, property.globalPath]] : []
+    return [...own, ...globalPaths(property.properties, path)]
+  })
+}
+
+/** Every settings reference in step configs, defaults and the component catalog */
+export function findSettingsReferences(config: StepFlowConfig, components: ComponentInfo[] = []): SettingReference[] {
+  const stepNames = Object.keys(config.steps || {})
+  const refs: SettingReference[] = []
+
+  for (const [name, step] of Object.entries(config.steps || {})) {
+    const found: Placeholder[] = []
+    placeholders(step.config, `steps.${name}.config`, found)
+    refs.push(...found.map(f => ({ ...f, steps: [name] })))
+  }
+  // A defaults entry reaches the steps it is a config source of
+  for (const [entry, values] of Object.entries(config.defaults || {})) {
+    const found: Placeholder[] = []
+    placeholders(values, `defaults.${entry}`, found)
+    if (found.length === 0) continue
+    const steps = stepNames.filter(s => configSources(config, 'step', s, false).some(([origin]) => origin === `defaults.${entry}`))
+    refs.push(...found.map(f => ({ ...f, steps })))
+  }
+  for (const component of components) {
+    for (const [property, key] of globalPaths(component.schema?.properties)) {
+      const steps = component.type === 'step'
+        ? stepNames.filter(s => findComponent(components, config.steps![s].type) === component)
+        : []
+      refs.push({ key, location: `components.${component.name}.${property.join('.')}`, steps, component: component.name, property })
+    }
+  }
+  return refs
+}
+
+/**
+ * Settings usage: every reference, leaf settings nothing reads, and references to settings
+ * that do not exist. Placeholders with a fallback are never undefined, and a globalPath only
+ * for the steps that leave its key unset, as only those make the engine read the setting.
+ */
+export function analyzeSettingsUsage(config: StepFlowConfig, components: ComponentInfo[] = []): SettingsUsage {
+  const references = findSettingsReferences(config, components)
+  const unused = settingsKeys(config.settings).filter(leaf => !references.some(r => covers(r.key, leaf)))
+  const undefinedRefs = references.flatMap(ref => {
+    if (ref.hasFallback || hasSetting(config.settings, ref.key)) return []
+    if (!ref.property) return [ref]
+    const steps = ref.steps.filter(s => {
+      let value: any = resolveConfig(config, 'step', s).value
+      for (const p of ref.property!) value = isPlainObject(value) ? value[p] : undefined
+      return value === undefined
+    })
+    return steps.length > 0 ? [{ ...ref, steps }] : []
+  })
+  return { references, unused, undefinedRefs }
+}
+
+/** References that read `key`, part of it, or an object containing it */
+export function settingConsumers(references: SettingReference[], key: string): SettingReference[] {
+  return references.filter(r => covers(r.key, key) || covers(key, r.key))
+}
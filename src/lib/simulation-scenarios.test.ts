@@ -0,0 +1,127 @@
+import { describe, expect, it } from 'vitest'
+import {
+  SimulationScenario,
+  applyWrites,
+  formatScenario,
+  newScenario,
+  parseScenario,
+  scenarioGuardResult,
+  scenarioStepResult,
+  validateScenario,
+} from './simulation-scenarios'
+
+const SCENARIO: SimulationScenario = {
+  name: 'Gold customer',
+  context: { customer: { tier: 'gold' } },
+  guards: {
+    isGold: { expression: "customer.tier == 'gold'" },
+    isPaid: [false, false, true],
+    isOpen: false,
+  },
+  steps: {
+    Pay: { result: ['failure', 'success'], writes: { 'payment.id': 'p-1', paid: true } },
+    'Billing/Tax': { result: 'random' },
+    Ship: { writes: { shipped: true } },
+  },
+}
+
+describe('validateScenario', () => {
+  it('accepts a valid scenario', () => {
+    expect(validateScenario(SCENARIO)).toEqual([])
+    expect(validateScenario({ name: 'Empty' })).toEqual([])
+  })
+
+  it('reports every problem with its field', () => {
+    expect(validateScenario({
+      name: ' ',
+      context: [],
+      guards: {
+        a: 'yes',
+        b: [],
+        c: [true, 1],
+        d: { expression: 'x >' },
+        e: { expression: 1 },
+      },
+      steps: {
+        A: 'success',
+        B: { result: [] },
+        C: { result: 'done' },
+        D: { result: ['success', 'skip'] },
+        E: { writes: [] },
+      },
+    })).toEqual([
+      'name is required',
+      'context must be an object',
+      'guards.a: must be true, false, a list of those, or { "expression": "..." }',
+      'guards.b: needs at least one result',
+      'guards.c: results must be true or false',
+      'guards.d: Unexpected end of expression at 4',
+      'guards.e: must be true, false, a list of those, or { "expression": "..." }',
+      'steps.A: must be an object with result and/or writes',
+      'steps.B: needs at least one result',
+      'steps.C: result must be one of success, failure, random',
+      'steps.D: result must be one of success, failure, random',
+      'steps.E: writes must be an object',
+    ])
+  })
+
+  it('rejects anything but an object, and outcome lists that are not objects', () => {
+    expect(validateScenario([])).toEqual(['A scenario must be a JSON object'])
+    expect(validateScenario({ name: 'x', guards: [], steps: 'all' })).toEqual(['guards must be an object', 'steps must be an object'])
+  })
+})
+
+describe('parseScenario', () => {
+  it('round-trips formatted scenarios', () => {
+    expect(parseScenario(formatScenario(SCENARIO))).toEqual(SCENARIO)
+  })
+
+  it('throws on invalid JSON or with every validation problem', () => {
+    expect(() => parseScenario('{ name: 1 }')).toThrow(/^Invalid JSON: /)
+    expect(() => parseScenario('{ "context": 1 }')).toThrow('name is required\ncontext must be an object')
+  })
+})
+
+describe('scenarioGuardResult', () => {
+  it('returns fixed results, per-invocation results and expression results', () => {
+    const result = (guard: string, invocation = 0, context = SCENARIO.context!) => scenarioGuardResult(SCENARIO, guard, invocation, context)
+    expect(result('isOpen')).toBe(false)
+    expect([0, 1, 2, 3].map(n => result('isPaid', n))).toEqual([false, false, true, true])
+    expect(result('isGold')).toBe(true)
+    expect(result('isGold', 0, { customer: { tier: 'silver' } })).toBe(false)
+    expect(result('isGold', 0, {})).toBe(false)
+  })
+
+  it('leaves unscripted guards to the caller', () => {
+    expect(scenarioGuardResult(SCENARIO, 'isValid', 0, {})).toBeUndefined()
+    expect(scenarioGuardResult(undefined, 'isPaid', 0, {})).toBeUndefined()
+  })
+})
+
+describe('scenarioStepResult', () => {
+  it('repeats the last result for later runs', () => {
+    expect([0, 1, 2].map(n => scenarioStepResult(SCENARIO.steps!.Pay, n))).toEqual(['failure', 'success', 'success'])
+    expect(scenarioStepResult(SCENARIO.steps!['Billing/Tax'], 5)).toBe('random')
+    expect(scenarioStepResult(SCENARIO.steps!.Ship, 0)).toBeUndefined()
+    expect(scenarioStepResult(undefined, 0)).toBeUndefined()
+  })
+})
+
+describe('applyWrites', () => {
+  it('writes dotted keys as nested values, replacing non-objects on the way', () => {
+    const context: Record<string, any> = { payment: 'none', order: { id: 1 } }
+    const writes = { 'payment.id': 'p-1', 'order.lines': [1], paid: true }
+    applyWrites(context, writes)
+    expect(context).toEqual({ payment: { id: 'p-1' }, order: { id: 1, lines: [1] }, paid: true })
+    writes['order.lines'].push(2)
+    expect(context.order.lines).toEqual([1])
+  })
+})
+
+describe('newScenario', () => {
+  it('picks the next free name', () => {
+    expect(newScenario([]).name).toBe('Scenario 1')
+    expect(newScenario([{ name: 'Scenario 2' }]).name).toBe('Scenario 3')
+    expect(newScenario([{ name: 'A' }, { name: 'Scenario 3' }])).toEqual({ name: 'Scenario 4', context: {}, guards: {}, steps: {} })
+  })
+})
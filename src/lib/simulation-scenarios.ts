@@ -0,0 +1,147 @@
+import { compileExpression } from './expression'
+import { isPlainObject } from './utils'
+
+// Scripted outcomes for simulation runs. A scenario fixes what guards return and how steps
+// behave, so a run can be steered down a specific branch and repeated.
+
+/**
+ * Result of a guard: fixed, one result per invocation (the last one repeats, so
+ * `[false, false, true]` passes on the third try), or an expression over the trace context.
+ */
+export type GuardOutcome = boolean | boolean[] | { expression: string }
+
+export type StepResult = 'success' | 'failure' | 'random'
+
+export interface StepOutcome {
+  /** Result, or one result per run of the step (retry attempts count), the last one repeating */
+  result?: StepResult | StepResult[]
+  /** Values written into the context when the step succeeds; dotted keys write nested values */
+  writes?: Record<string, any>
+}
+
+export interface SimulationScenario {
+  name: string
+  description?: string
+  /** Context the run starts with */
+  context?: Record<string, any>
+  /** Outcomes by guard name; other guards pass */
+  guards?: Record<string, GuardOutcome>
+  /** Outcomes by step name (or node id inside called workflows); other steps succeed */
+  steps?: Record<string, StepOutcome>
+}
+
+const STEP_RESULTS: StepResult[] = ['success', 'failure', 'random']
+
+// Problems with a guard outcome, or undefined when it is valid
+function guardOutcomeError(outcome: any): string | undefined {
+  if (typeof outcome === 'boolean') return undefined
+  if (Array.isArray(outcome)) {
+    if (outcome.length === 0) return 'needs at least one result'
+    return outcome.every(r => typeof r === 'boolean') ? undefined : 'results must be true or false'
+  }
+  if (isPlainObject(outcome) && typeof outcome.expression === 'string') {
+    try {
+      compileExpression(outcome.expression)
+      return undefined
+    } catch (e) {
+      return (e as Error).message
+    }
+  }
+  return 'must be true, false, a list of those, or { "expression": "..." }'
+}
+
+// Problems with a step outcome, or undefined when it is valid
+function stepOutcomeError(outcome: any): string | undefined {
+  if (!isPlainObject(outcome)) return 'must be an object with result and/or writes'
+  const results = Array.isArray(outcome.result) ? outcome.result : outcome.result === undefined ? [] : [outcome.result]
+  if (Array.isArray(outcome.result) && results.length === 0) return 'needs at least one result'
+  if (!results.every((r: any) => STEP_RESULTS.includes(r))) return `result must be one of ${STEP_RESULTS.join(', ')}`
+  if (outcome.writes !== undefined && !isPlainObject(outcome.writes)) return 'writes must be an object'
+  return undefined
+}
+
+/** Problems with a scenario, one message each; empty when it is valid */
+export function validateScenario(scenario: any): string[] {
+  if (!isPlainObject(scenario)) return ['A scenario must be a JSON object']
+  const errors: string[] = []
+  if (typeof scenario.name !== 'string' || !scenario.name.trim()) errors.push('name is required')
+  if (scenario.context !== undefined && !isPlainObject(scenario.context)) errors.push('context must be an object')
+  for (const [field, check] of [['guards', guardOutcomeError], ['steps', stepOutcomeError]] as const) {
+    const entries = scenario[field]
+    if (entries === undefined) continue
+    if (!isPlainObject(entries)) {
+      errors.push(`${field} must be an object`)
+      continue
+    }
+    for (const [name, outcome] of Object.entries(entries)) {
+      const error = check(outcome)
+      if (error) errors.push(`${field}.${name}: ${error}`)
+    }
+  }
+  return errors
+}
+
+/** Parse scenario JSON; throws with every problem found */
+export function parseScenario(text: string): SimulationScenario {
+  let data: any
+  try {
+    data = JSON.parse(text)
+  } catch (e) {
+    throw new Error(`Invalid JSON: ${(e as Error).message}`)
+  }
+  const errors = validateScenario(data)
+  if (errors.length > 0) throw new Error(errors.join('\n'))
+  return data
+}
+
+export function formatScenario(scenario: SimulationScenario): string {
+  return JSON.stringify(scenario, null, 2)
+}
+
+// Entry `n` (0-based) of a per-invocation list, repeating the last one
+const nth = <T>(values: T[], n: number): T => values[Math.min(n, values.length - 1)]
+
+/**
+ * Scripted result of the `invocation`-th (0-based) evaluation of `guard`; undefined when the
+ * scenario leaves the guard alone.
+ */
+export function scenarioGuardResult(
+  scenario: SimulationScenario | undefined,
+  guard: string,
+  invocation: number,
+  context: Record<string, any>
+): boolean | undefined {
+  const outcome = scenario?.guards?.[guard]
+  if (outcome === undefined) return undefined
+  if (typeof outcome === 'boolean') return outcome
+  if (Array.isArray(outcome)) return nth(outcome, invocation)
+  return !!compileExpression(outcome.expression)(context)
+}
+
+/** Scripted result of the `run`-th (0-based) run of a step; undefined when unscripted */
+export function scenarioStepResult(outcome: StepOutcome | undefined, run: number): StepResult | undefined {
+  const result = outcome?.result
+  if (result === undefined) return undefined
+  return Array.isArray(result) ? nth(result, run) : result
+}
+
+/** Apply a step's writes to `context`, creating objects along dotted keys */
+export function applyWrites(context: Record<string, any>, writes: Record<string, any> | undefined): void {
+  for (const [key, value] of Object.entries(writes || {})) {
+    const path = key.split('.')
+    let target = context
+    for (const part of path.slice(0, -1)) {
+      if (!isPlainObject(target[part])) target[part] = {}
+      target = target[part]
+    }
+    target[path[path.length - 1]] = structuredClone(value)
+  }
+}
+
+/** A new scenario, named uniquely among `existing` */
+export function newScenario(existing: SimulationScenario[]): SimulationScenario {
+  const taken = new Set(existing.map(s => s.name))
+  let n = existing.length + 1
+  while (taken.has(`Scenario ${n}`)) n++
+  return { name: `Scenario ${n}`, context: {}, guards: {}, steps: {} }
+}
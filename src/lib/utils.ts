@@ -15,4 +15,38 @@ export function toCamelCase(str: string): string {
 
 export function toTitleCase(str: string): string {
   return str.charAt(0).toUpperCase() + str.slice(1)
-}
\ No newline at end of file
+}
+
+/** Non-null object that is not an array, i.e. a config map */
+export function isPlainObject(v: any): v is Record<string, any> {
+  return !!v && typeof v === 'object' && !Array.isArray(v)
+}
+
+/** Levenshtein distance between two strings */
+export function editDistance(a: string, b: string): number {
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j)
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i]
+    for (let j = 1; j <= b.length; j++) {
+      row[j] = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1))
+    }
+    prev = row
+  }
+  return prev[b.length]
+}
+
+/** Closest candidate for a likely misspelling of `name`, if any is near enough */
+export function closestMatch(name: string, candidates: Iterable<string>): string | undefined {
+  let best: string | undefined
+  let bestDistance = Math.max(1, Math.floor(name.length / 3))
+  for (const candidate of candidates) {
+    if (candidate === name) continue
+    // Case-only differences count as a single edit
+    const distance = candidate.toLowerCase() === name.toLowerCase() ? 1 : editDistance(name, candidate)
+    if (distance < bestDistance || (distance === bestDistance && !best)) {
+      best = candidate
+      bestDistance = distance
+    }
+  }
+  return best
+}
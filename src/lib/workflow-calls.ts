@@ -0,0 +1,48 @@
+import { StepFlowConfig } from '../types/stepflow'
+
+/** Workflows each workflow invokes through `call` edges, in edge order */
+export function buildCallGraph(config: StepFlowConfig): Map<string, string[]> {
+  const graph = new Map<string, string[]>()
+  for (const [name, wf] of Object.entries(config.workflows || {})) {
+    const callees: string[] = []
+    for (const edge of wf.edges || []) {
+      if (edge.call && !callees.includes(edge.call)) callees.push(edge.call)
+    }
+    graph.set(name, callees)
+  }
+  return graph
+}
+
+/**
+ * Call cycles between defined workflows, each listed once as a closed path (`[A, B, A]`).
+ * Calls to undefined workflows are ignored here; they are reported separately.
+ */
+export function findCallCycles(config: StepFlowConfig): string[][] {
+  const graph = buildCallGraph(config)
+  const cycles: string[][] = []
+  const seen = new Set<string>()
+  const done = new Set<string>()
+
+  const visit = (name: string, stack: string[]) => {
+    if (done.has(name)) return
+    const at = stack.indexOf(name)
+    if (at !== -1) {
+      const cycle = stack.slice(at)
+      // Rotate so the smallest name leads; the same loop found from another entry point dedupes
+      const min = cycle.indexOf([...cycle].sort()[0])
+      const key = [...cycle.slice(min), ...cycle.slice(0, min)]
+      if (!seen.has(key.join('\u0000'))) {
+        seen.add(key.join('\u0000'))
+        cycles.push([...key, key[0]])
+      }
+      return
+    }
+    for (const callee of graph.get(name) || []) {
+      if (graph.has(callee)) visit(callee, [...stack, name])
+    }
+    done.add(name)
+  }
+
+  for (const name of graph.keys()) visit(name, [])
+  return cycles
+}
@@ -0,0 +1,195 @@
+import { describe, expect, it, vi } from 'vitest'
+import { EdgeDef, StepFlowConfig, WorkflowDef } from '../types/stepflow'
+import { SimulationOptions, WorkflowSimulator } from './workflow-simulator'
+
+const STEPS: StepFlowConfig['steps'] = {
+  A: { type: 'AStep' },
+  B: { type: 'BStep' },
+  C: { type: 'CStep' },
+  Alt: { type: 'AltStep' },
+  T: { type: 'TaxStep' },
+}
+
+const config = (edges: EdgeDef[], workflows: Record<string, WorkflowDef> = {}, steps = STEPS): StepFlowConfig => ({
+  steps,
+  workflows: { Main: { root: 'A', edges }, ...workflows },
+})
+
+// Runs `Main` to its end; a fixed seed and no step delay keep the run deterministic
+const simulate = async (cfg: StepFlowConfig, options: SimulationOptions = {}) => {
+  const simulator = new WorkflowSimulator()
+  const id = simulator.createTrace('Main', [], [])
+  await simulator.startSimulation(id, cfg, 'Main', { seed: 7, ...options })
+  return simulator.getTrace(id)!
+}
+
+// Step visits and transitions as short strings, prefixed with the call path inside called workflows
+const run = async (cfg: StepFlowConfig, options: SimulationOptions = {}) => {
+  const trace = await simulate(cfg, options)
+  return {
+    steps: trace.steps.map(s => `${s.nodeId} ${s.status}${s.retryAttempt ? ` #${s.retryAttempt}` : ''}`),
+    transitions: trace.transitions.map(t => `${t.workflow ? `${t.workflow}: ` : ''}${t.kind} ${t.from} -> ${t.to}${t.edge === undefined ? '' : ` [${t.edge}]`}`),
+    terminal: trace.terminal,
+  }
+}
+
+const failing = (...guards: string[]): SimulationOptions => ({ mockGuardBehavior: Object.fromEntries(guards.map(g => [g, 'fail'])) })
+
+describe('WorkflowSimulator', () => {
+  it('follows unguarded edges to SUCCESS', async () => {
+    const cfg = config([{ from: 'A', to: 'B' }, { from: 'B', to: 'SUCCESS' }])
+    expect(await simulate(cfg)).toMatchObject({ status: 'success', terminal: 'SUCCESS', seed: 7 })
+    expect(await run(cfg)).toEqual({
+      steps: ['A success', 'B success'],
+      transitions: ['edge A -> B [0]', 'edge B -> SUCCESS [1]'],
+      terminal: 'SUCCESS',
+    })
+  })
+
+  it('falls through to the next edge when a guard fails under SKIP', async () => {
+    const edges: EdgeDef[] = [{ from: 'A', to: 'B', guard: 'g', onFailure: { strategy: 'SKIP' } }, { from: 'A', to: 'C' }, { from: 'C', to: 'SUCCESS' }]
+    expect(await run(config(edges), failing('g'))).toEqual({
+      steps: ['A success', 'C success'],
+      transitions: ['edge A -> C [1]', 'edge C -> SUCCESS [2]'],
+      terminal: 'SUCCESS',
+    })
+  })
+
+  it('ends in FAILURE when no edge is eligible', async () => {
+    expect(await run(config([{ from: 'A', to: 'SUCCESS', guard: 'g' }]), failing('g'))).toEqual({
+      steps: ['A success'],
+      transitions: ['no-edge A -> FAILURE'],
+      terminal: 'FAILURE',
+    })
+  })
+
+  it('ends in FAILURE when a guard fails under STOP', async () => {
+    const edges: EdgeDef[] = [{ from: 'A', to: 'B', guard: 'g', onFailure: { strategy: 'STOP' } }, { from: 'A', to: 'SUCCESS' }]
+    const trace = await simulate(config(edges), failing('g'))
+    expect(trace.status).toBe('failed')
+    expect(await run(config(edges), failing('g'))).toEqual({ steps: ['A success'], transitions: ['stop A -> FAILURE [0]'], terminal: 'FAILURE' })
+  })
+
+  it('takes the edge anyway when a guard fails under CONTINUE', async () => {
+    const edges: EdgeDef[] = [{ from: 'A', to: 'B', guard: 'g', onFailure: { strategy: 'CONTINUE' } }, { from: 'B', to: 'SUCCESS' }]
+    expect(await run(config(edges), failing('g'))).toEqual({
+      steps: ['A success', 'B success'],
+      transitions: ['continue A -> B [0]', 'edge B -> SUCCESS [1]'],
+      terminal: 'SUCCESS',
+    })
+  })
+
+  it('goes to the alternative target when a guard fails under ALTERNATIVE', async () => {
+    const edges: EdgeDef[] = [
+      { from: 'A', to: 'B', guard: 'g', onFailure: { strategy: 'ALTERNATIVE', alternativeTarget: 'Alt' } },
+      { from: 'Alt', to: 'SUCCESS' },
+    ]
+    expect(await run(config(edges), failing('g'))).toEqual({
+      steps: ['A success', 'Alt success'],
+      transitions: ['alternative A -> Alt [0]', 'edge Alt -> SUCCESS [1]'],
+      terminal: 'SUCCESS',
+    })
+  })
+
+  it('re-evaluates a guard under RETRY, stopping when its attempts run out', async () => {
+    const edges: EdgeDef[] = [{ from: 'A', to: 'SUCCESS', guard: 'g', onFailure: { strategy: 'RETRY', retryAttempts: 2, retryDelay: 500 } }]
+    const passesLate = await simulate(config(edges), { scenario: { name: 'late', guards: { g: [false, false, true] } } })
+    expect(passesLate.terminal).toBe('SUCCESS')
+    expect(passesLate.guards.map(g => `${g.guard} ${g.attempt} ${g.passed}`)).toEqual(['g 1 false', 'g 2 false', 'g 3 true'])
+    expect(passesLate.transitions.map(t => t.kind)).toEqual(['edge'])
+
+    expect(await run(config(edges), failing('g'))).toEqual({ steps: ['A success'], transitions: ['stop A -> FAILURE [0]'], terminal: 'FAILURE' })
+    expect((await simulate(config(edges), { ...failing('g'), enableRetries: false })).guards).toHaveLength(1)
+  })
+
+  it('retries a failing step under its retry policy', async () => {
+    const steps = { ...STEPS, A: { type: 'AStep', retry: { maxAttempts: 3, delay: 1000 } } }
+    const cfg = config([{ from: 'A', to: 'SUCCESS' }], {}, steps)
+    expect(await run(cfg, { scenario: { name: 'flaky', steps: { A: { result: ['failure', 'success'] } } } })).toEqual({
+      steps: ['A failed', 'A success #2'],
+      transitions: ['edge A -> SUCCESS [0]'],
+      terminal: 'SUCCESS',
+    })
+    expect(await run(cfg, { mockStepBehavior: { A: 'failure' } })).toEqual({
+      steps: ['A failed', 'A failed #2', 'A failed #3'],
+      transitions: ['step-failed A -> FAILURE'],
+      terminal: 'FAILURE',
+    })
+  })
+
+  it('skips a step whose guard fails and routes on from it', async () => {
+    const steps = { ...STEPS, B: { type: 'BStep', guards: ['ready'] } }
+    expect(await run(config([{ from: 'A', to: 'B' }, { from: 'B', to: 'SUCCESS' }], {}, steps), failing('ready'))).toEqual({
+      steps: ['A success', 'B skipped'],
+      transitions: ['edge A -> B [0]', 'edge B -> SUCCESS [1]'],
+      terminal: 'SUCCESS',
+    })
+  })
+
+  it('runs called workflows and handles their FAILURE like a failed guard', async () => {
+    const billing = (to: string) => ({ Billing: { root: 'T', edges: [{ from: 'T', to }] } })
+    const call = (onFailure?: EdgeDef['onFailure']): EdgeDef[] => [
+      { from: 'A', to: 'B', call: 'Billing', onFailure },
+      { from: 'A', to: 'C' },
+      { from: 'B', to: 'SUCCESS' },
+      { from: 'C', to: 'SUCCESS' },
+      { from: 'Alt', to: 'SUCCESS' },
+    ]
+
+    expect(await run(config(call(), billing('SUCCESS')))).toEqual({
+      steps: ['A success', 'Billing/T success', 'B success'],
+      transitions: ['Billing: edge T -> SUCCESS [0]', 'edge A -> B [0]', 'edge B -> SUCCESS [2]'],
+      terminal: 'SUCCESS',
+    })
+    expect(await run(config(call(), billing('FAILURE')))).toEqual({
+      steps: ['A success', 'Billing/T success'],
+      transitions: ['Billing: edge T -> FAILURE [0]', 'stop A -> FAILURE [0]'],
+      terminal: 'FAILURE',
+    })
+    expect((await run(config(call({ strategy: 'SKIP' }), billing('FAILURE')))).transitions.slice(1)).toEqual(['edge A -> C [1]', 'edge C -> SUCCESS [3]'])
+    expect((await run(config(call({ strategy: 'CONTINUE' }), billing('FAILURE')))).transitions.slice(1)).toEqual(['continue A -> B [0]', 'edge B -> SUCCESS [2]'])
+    expect((await run(config(call({ strategy: 'ALTERNATIVE', alternativeTarget: 'Alt' }), billing('FAILURE')))).transitions.slice(1))
+      .toEqual(['alternative A -> Alt [0]', 'edge Alt -> SUCCESS [4]'])
+  })
+
+  it('retries a failing call under RETRY and scripts steps inside it by node id', async () => {
+    const cfg = config(
+      [{ from: 'A', to: 'SUCCESS', call: 'Billing', onFailure: { strategy: 'RETRY', retryAttempts: 1 } }],
+      { Billing: { root: 'T', edges: [{ from: 'T', to: 'SUCCESS' }] } },
+    )
+    expect(await run(cfg, { scenario: { name: 'tax down', steps: { 'Billing/T': { result: ['failure', 'success'] } } } })).toEqual({
+      steps: ['A success', 'Billing/T failed', 'Billing/T success'],
+      transitions: ['Billing: step-failed T -> FAILURE', 'Billing: edge T -> SUCCESS [0]', 'edge A -> SUCCESS [0]'],
+      terminal: 'SUCCESS',
+    })
+  })
+
+  it('fails calls to undefined or already running workflows', async () => {
+    expect((await run(config([{ from: 'A', to: 'SUCCESS', call: 'Missing' }]))).transitions).toEqual(['stop A -> FAILURE [0]'])
+    const recursive = config([{ from: 'A', to: 'SUCCESS', call: 'Billing' }], { Billing: { root: 'T', edges: [{ from: 'T', to: 'SUCCESS', call: 'Main' }] } })
+    expect(await run(recursive)).toEqual({
+      steps: ['A success', 'Billing/T success'],
+      transitions: ['Billing: stop T -> FAILURE [0]', 'stop A -> FAILURE [0]'],
+      terminal: 'FAILURE',
+    })
+  })
+
+  it('writes scripted step outputs into the context that guard expressions read', async () => {
+    const edges: EdgeDef[] = [{ from: 'A', to: 'B', guard: 'paid', onFailure: { strategy: 'STOP' } }, { from: 'B', to: 'SUCCESS' }]
+    const trace = await simulate(config(edges), {
+      scenario: { name: 'paid', context: { order: { id: 1 } }, guards: { paid: { expression: 'payment.ok' } }, steps: { A: { writes: { 'payment.ok': true } } } },
+    })
+    expect(trace.terminal).toBe('SUCCESS')
+    expect(trace.context).toEqual({ order: { id: 1 }, payment: { ok: true } })
+    expect(trace.steps[0].output).toEqual({ 'payment.ok': true })
+  })
+
+  it('stops a looping workflow at the step limit', async () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {})
+    const trace = await simulate(config([{ from: 'A', to: 'A' }]), { maxSteps: 5 })
+    error.mockRestore()
+    expect(trace).toMatchObject({ status: 'failed', error: 'Stopped after 5 steps; the workflow may loop forever' })
+    expect(trace.steps).toHaveLength(5)
+    expect(trace.terminal).toBeUndefined()
+  })
+})
@@ -1,44 +1,138 @@
 import { Node, Edge } from 'reactflow'
-import { StepNodeData, GuardNodeData, FlowConfig } from '../types/stepflow'
+import { EdgeDef, FlowConfig, StepFlowConfig, WorkflowDef } from '../types/stepflow'
+import { SimulationScenario, applyWrites, scenarioGuardResult, scenarioStepResult } from './simulation-scenarios'
+import { createRandom, randomSeed } from './seeded-random'
 
 export interface ExecutionStep {
   nodeId: string
   stepName: string
   stepType: string
+  /** Simulated ms since the run started */
   timestamp: number
+  /** `skipped` when one of the step's guards failed; the engine routes on from the step anyway */
   status: 'pending' | 'running' | 'success' | 'failed' | 'skipped'
   duration?: number
   input?: any
   output?: any
   error?: string
+  /** Attempt number under the step's retry policy, set from the second attempt on */
   retryAttempt?: number
+  /** Call path (`Billing/Tax`) of the sub-workflow the step runs in; unset for the simulated workflow itself */
+  workflow?: string
+}
+
+/** One evaluation of a step guard (`requires`), an edge guard or a retry policy's guard */
+export interface GuardEvaluation {
+  guard: string
+  kind: 'step' | 'edge' | 'retry'
+  passed: boolean
+  /** Step the guard belongs to; for an edge guard, the edge's source */
+  step: string
+  /** Index of the edge in its workflow's `edges` */
+  edge?: number
+  /** Evaluation number for the same guard, from 1; RETRY edges re-evaluate their guard */
+  attempt: number
+  /** Index into `ExecutionTrace.steps` of the step visit it belongs to */
+  stepIndex: number
+  workflow?: string
+  /** Simulated ms since the run started */
+  timestamp: number
+}
+
+/**
+ * How the next step was chosen: an edge whose guard passed (or that has none), a failed guard
+ * or call handled by CONTINUE, ALTERNATIVE or STOP (which also covers exhausted RETRY), no
+ * eligible edge, or a step that failed after its retries.
+ */
+export type TransitionKind = 'edge' | 'continue' | 'alternative' | 'stop' | 'no-edge' | 'step-failed'
+
+export interface ExecutionTransition {
+  kind: TransitionKind
+  from: string
+  to: string
+  /** Index of the edge in its workflow's `edges`; unset for `no-edge` and `step-failed` */
+  edge?: number
+  /** Index into `ExecutionTrace.steps` of the step visit it leaves */
+  stepIndex: number
+  workflow?: string
+  /** Simulated ms since the run started */
+  timestamp: number
 }
 
 export interface ExecutionTrace {
   id: string
   workflowName: string
+  /** Wall-clock start and end of the run */
   startTime: number
   endTime?: number
+  /** Simulated ms elapsed; step durations and delays advance it without real waiting */
+  clock: number
+  /** Seed every random timing and outcome of the run was drawn from */
+  seed?: number
+  /** Config and options of the run, kept to replay it */
+  input?: { config: StepFlowConfig; options: SimulationOptions }
   status: 'running' | 'success' | 'failed' | 'paused'
+  /** Step visits in execution order, including skipped steps and every retry attempt */
   steps: ExecutionStep[]
+  guards: GuardEvaluation[]
+  transitions: ExecutionTransition[]
   currentStepIndex: number
   context: Record<string, any>
+  /** Name of the scenario the run used */
+  scenario?: string
+  /** Terminal the workflow reached */
+  terminal?: Terminal
+  /** Why the simulation itself failed, e.g. an undefined workflow or the step limit */
+  error?: string
 }
 
 export interface SimulationOptions {
-  stepDelay?: number // ms between steps
+  stepDelay?: number // real ms between steps, to watch a run; simulated time is unaffected
+  /** Seed for random timings and outcomes; a fresh one is drawn when unset */
+  seed?: number
   enableRetries?: boolean
+  /** When false every guard passes */
   enableGuards?: boolean
   mockStepBehavior?: Record<string, 'success' | 'failure' | 'random'>
-  maxExecutionTime?: number // ms
+  /** Guard results by guard name; guards pass unless set */
+  mockGuardBehavior?: Record<string, 'pass' | 'fail' | 'random'>
+  /** Scripted guard and step outcomes and the starting context; they win over the mocks */
+  scenario?: SimulationScenario
+  maxExecutionTime?: number // simulated ms
+  /** Step visits after which a looping workflow is stopped (default 1000) */
+  maxSteps?: number
   breakpoints?: string[] // node IDs to pause at
 }
 
+export type Terminal = 'SUCCESS' | 'FAILURE'
+
+const isTerminal = (name: string): name is Terminal => name === 'SUCCESS' || name === 'FAILURE'
+
+// Thrown at a checkpoint once the simulation is stopped
+class SimulationStopped extends Error {}
+
+/**
+ * Runs a workflow the way the engine does. A step runs once its `requires` guards pass
+ * (otherwise it is skipped) and is retried under its retry policy. The engine then tries the
+ * step's edges in declaration order: an edge is taken when it has no guard or its guard
+ * passes. A failed guard falls through to the next edge, unless the edge's `onFailure` says
+ * otherwise: STOP ends in FAILURE, ALTERNATIVE goes to its target, CONTINUE takes the edge
+ * anyway and RETRY re-evaluates the guard, stopping when its attempts run out. A `call` edge
+ * runs the called workflow first; its FAILURE goes through the same strategies and otherwise
+ * ends the caller in FAILURE. No eligible edge, or a step that still fails, means FAILURE.
+ *
+ * Time is simulated: step durations and retry delays advance the trace's clock instead of
+ * waiting, and every random draw comes from the trace's seed, so a run can be replayed.
+ */
 export class WorkflowSimulator {
   private traces: Map<string, ExecutionTrace> = new Map()
   private isSimulating: boolean = false
   private currentTraceId: string | null = null
   private eventListeners: Map<string, ((trace: ExecutionTrace, step: ExecutionStep) => void)[]> = new Map()
+  // Resolves the checkpoint a paused simulation waits at
+  private resume: (() => void) | null = null
+  // Random source of the current run
+  private random: () => number = Math.random
 
   // Create a new execution trace
   createTrace(workflowName: string, nodes: Node[], edges: Edge[], options: SimulationOptions = {}): string {
@@ -48,8 +142,11 @@ export class WorkflowSimulator {
       id: traceId,
       workflowName,
       startTime: Date.now(),
+      clock: 0,
       status: 'running',
       steps: [],
+      guards: [],
+      transitions: [],
       currentStepIndex: -1,
       context: {}
     }
@@ -58,94 +155,250 @@ export class WorkflowSimulator {
     return traceId
   }
 
-  // Start simulation
+  /** Simulate a workflow of `config`; legacy `FlowConfig`s name their workflows `requests` */
   async startSimulation(
     traceId: string, 
-    flowConfig: FlowConfig, 
-    requestName: string,
+    config: StepFlowConfig | FlowConfig,
+    workflowName: string,
     options: SimulationOptions = {}
   ): Promise<void> {
     const trace = this.traces.get(traceId)
     if (!trace) throw new Error(`Trace ${traceId} not found`)
 
-    const request = flowConfig.requests?.[requestName]
-    if (!request) throw new Error(`Request ${requestName} not found`)
+    const flow: StepFlowConfig = 'requests' in config ? { steps: config.steps, workflows: config.requests } : config
+    if (!flow.workflows?.[workflowName]) throw new Error(`Workflow ${workflowName} not found`)
 
     this.isSimulating = true
     this.currentTraceId = traceId
+    trace.startTime = Date.now()
+    trace.clock = 0
+    trace.seed = options.seed ?? randomSeed()
+    trace.input = { config: structuredClone(flow), options: structuredClone({ ...options, seed: trace.seed }) }
+    this.random = createRandom(trace.seed)
+    trace.scenario = options.scenario?.name
+    trace.context = structuredClone(options.scenario?.context ?? {})
 
     try {
-      // Build execution plan
-      const executionPlan = this.buildExecutionPlan(flowConfig, request)
-      trace.steps = executionPlan
-
-      // Execute steps
-      for (let i = 0; i < executionPlan.length && this.isSimulating; i++) {
-        trace.currentStepIndex = i
-        await this.executeStep(trace, executionPlan[i], options)
-
-        // Check for breakpoints
-        if (options.breakpoints?.includes(executionPlan[i].nodeId)) {
-          trace.status = 'paused'
-          this.emit('breakpoint', trace, executionPlan[i])
-          break
-        }
+      const terminal = await this.runWorkflow(trace, flow, [workflowName], options)
+      if (!this.isSimulating) throw new SimulationStopped()
+      trace.terminal = terminal
+      trace.status = trace.terminal === 'SUCCESS' ? 'success' : 'failed'
+      trace.endTime = Date.now()
+    } catch (error) {
+      // A stopped trace already has its final status
+      if (!(error instanceof SimulationStopped)) {
+        trace.status = 'failed'
+        trace.error = error instanceof Error ? error.message : String(error)
+        trace.endTime = Date.now()
+        console.error('Simulation failed:', error)
+      }
+    } finally {
+      this.isSimulating = false
+      this.resume = null
+    }
+  }
 
-        // Apply step delay
-        if (options.stepDelay) {
-          await this.sleep(options.stepDelay)
+  // Runs a workflow to its terminal; `callStack` holds the workflows being executed, outermost first
+  private async runWorkflow(trace: ExecutionTrace, config: StepFlowConfig, callStack: string[], options: SimulationOptions): Promise<Terminal> {
+    const wf = config.workflows![callStack[callStack.length - 1]]
+    // Steps of called workflows are namespaced so breakpoints on the caller's nodes don't fire inside them
+    const workflow = callStack.length > 1 ? callStack.slice(1).join('/') : undefined
+
+    let current = wf.root
+    while (!isTerminal(current)) {
+      await this.checkpoint(trace, options)
+      const outcome = await this.runStep(trace, config, current, workflow, options)
+      const stepIndex = trace.steps.length - 1
+      if (outcome === 'failed') {
+        this.transition(trace, { kind: 'step-failed', from: current, to: 'FAILURE', stepIndex, workflow })
+        return 'FAILURE'
+      }
+      current = await this.route(trace, config, wf, current, stepIndex, callStack, options)
+      if (options.stepDelay) await this.sleep(options.stepDelay)
+    }
+    return current
+  }
+
+  // Runs a step visit: its guards, then attempts under its retry policy
+  private async runStep(
+    trace: ExecutionTrace,
+    config: StepFlowConfig,
+    name: string,
+    workflow: string | undefined,
+    options: SimulationOptions
+  ): Promise<'success' | 'failed' | 'skipped'> {
+    const stepDef = config.steps?.[name]
+    const visit = (): ExecutionStep => ({
+      nodeId: workflow ? `${workflow}/${name}` : name,
+      stepName: name,
+      stepType: stepDef?.type ?? '',
+      timestamp: trace.clock,
+      status: 'pending',
+      workflow
+    })
+    const push = (step: ExecutionStep) => {
+      trace.steps.push(step)
+      trace.currentStepIndex = trace.steps.length - 1
+      return step
+    }
+
+    if (!stepDef) {
+      push({ ...visit(), status: 'failed', error: `Step '${name}' is not defined` })
+      return 'failed'
+    }
+
+    // Guards are evaluated in order and all must pass
+    for (const guard of stepDef.guards || []) {
+      if (await this.evaluateGuard(trace, guard, { kind: 'step', step: name, attempt: 1, stepIndex: trace.steps.length, workflow }, options)) continue
+      const skipped = push({ ...visit(), status: 'skipped', error: `Guard '${guard}' failed` })
+      this.emit('stepSkipped', trace, skipped)
+      await this.breakpoint(trace, skipped, options)
+      return 'skipped'
+    }
+
+    const retry = options.enableRetries === false ? undefined : stepDef.retry
+    const maxAttempts = Math.max(1, retry?.maxAttempts ?? 1)
+    for (let attempt = 1; ; attempt++) {
+      const step = push(attempt > 1 ? { ...visit(), retryAttempt: attempt } : visit())
+      await this.executeStep(trace, step, options)
+      await this.breakpoint(trace, step, options)
+      if (step.status === 'success') return 'success'
+      if (attempt >= maxAttempts) return 'failed'
+      if (retry?.guard && !(await this.evaluateGuard(trace, retry.guard, { kind: 'retry', step: name, attempt, stepIndex: trace.currentStepIndex, workflow }, options))) {
+        return 'failed'
+      }
+      trace.clock += retry?.delay ?? 0
+      await this.checkpoint(trace, options)
+    }
+  }
+
+  // Picks the step after `from` from its edges in declaration order
+  private async route(
+    trace: ExecutionTrace,
+    config: StepFlowConfig,
+    wf: WorkflowDef,
+    from: string,
+    stepIndex: number,
+    callStack: string[],
+    options: SimulationOptions
+  ): Promise<string> {
+    const workflow = callStack.length > 1 ? callStack.slice(1).join('/') : undefined
+    const go = (kind: TransitionKind, to: string, edge?: number) => {
+      this.transition(trace, { kind, from, to, edge, stepIndex, workflow })
+      return to
+    }
+    // Where a failed guard or call leads; undefined falls through to the next edge
+    const onFailure = (edge: EdgeDef, index: number, failedCall: boolean): string | undefined => {
+      switch (edge.onFailure?.strategy) {
+        case 'SKIP':
+          return undefined
+        case 'CONTINUE':
+          return go('continue', edge.to, index)
+        case 'ALTERNATIVE':
+          return go('alternative', edge.onFailure.alternativeTarget || 'FAILURE', index)
+        case undefined:
+          return failedCall ? go('stop', 'FAILURE', index) : undefined
+        default:
+          return go('stop', 'FAILURE', index)
+      }
+    }
+
+    const edges = wf.edges || []
+    for (let index = 0; index < edges.length; index++) {
+      const edge = edges[index]
+      if (edge.from !== from) continue
+
+      let kind: TransitionKind = 'edge'
+      if (edge.guard) {
+        const passed = await this.withEdgeRetry(trace, edge, options, attempt =>
+          this.evaluateGuard(trace, edge.guard!, { kind: 'edge', step: from, edge: index, attempt, stepIndex, workflow }, options)
+        )
+        if (!passed && edge.onFailure?.strategy === 'CONTINUE') {
+          kind = 'continue'
+        } else if (!passed) {
+          const to = onFailure(edge, index, false)
+          if (to === undefined) continue
+          return to
         }
       }
 
-      if (trace.status !== 'paused') {
-        trace.status = trace.steps.some(s => s.status === 'failed') ? 'failed' : 'success'
-        trace.endTime = Date.now()
+      if (edge.call) {
+        const succeeded = await this.withEdgeRetry(trace, edge, options, () => this.runCall(trace, config, edge.call!, callStack, options))
+        if (!succeeded) {
+          const to = onFailure(edge, index, true)
+          if (to === undefined) continue
+          return to
+        }
       }
 
-    } catch (error) {
-      trace.status = 'failed'
-      trace.endTime = Date.now()
-      console.error('Simulation failed:', error)
-    } finally {
-      this.isSimulating = false
+      return go(kind, edge.to, index)
     }
+    return go('no-edge', 'FAILURE')
   }
 
-  // Build execution plan from workflow configuration
-  private buildExecutionPlan(flowConfig: FlowConfig, request: any): ExecutionStep[] {
-    const plan: ExecutionStep[] = []
-    const visited = new Set<string>()
-    
-    // Start from root
-    let currentStep = request.root
-    let stepIndex = 0
+  // Runs `attempt` again while it fails, as often as the edge's RETRY strategy allows
+  private async withEdgeRetry(trace: ExecutionTrace, edge: EdgeDef, options: SimulationOptions, attempt: (n: number) => Promise<boolean>): Promise<boolean> {
+    const retries = edge.onFailure?.strategy === 'RETRY' && options.enableRetries !== false ? edge.onFailure.retryAttempts ?? 1 : 0
+    for (let n = 1; ; n++) {
+      if (await attempt(n)) return true
+      if (n > retries) return false
+      trace.clock += edge.onFailure?.retryDelay ?? 0
+    }
+  }
 
-    while (currentStep && !visited.has(currentStep) && stepIndex < 100) { // Prevent infinite loops
-      visited.add(currentStep)
-      
-      const stepDef = flowConfig.steps?.[currentStep]
-      if (!stepDef) break
-
-      plan.push({
-        nodeId: currentStep,
-        stepName: currentStep,
-        stepType: stepDef.type,
-        timestamp: 0,
-        status: 'pending'
-      })
-
-      // Find next step (simplified linear execution for demo)
-      const nextEdge = request.edges?.find((e: any) => e.from === currentStep)
-      currentStep = nextEdge?.to
-      stepIndex++
-
-      // Stop at terminal steps
-      if (currentStep === 'SUCCESS' || currentStep === 'FAILED') {
-        break
+  // Runs a called workflow; undefined and recursive calls fail
+  private async runCall(trace: ExecutionTrace, config: StepFlowConfig, callee: string, callStack: string[], options: SimulationOptions): Promise<boolean> {
+    if (!config.workflows?.[callee] || callStack.includes(callee)) return false
+    return (await this.runWorkflow(trace, config, [...callStack, callee], options)) === 'SUCCESS'
+  }
+
+  private async evaluateGuard(
+    trace: ExecutionTrace,
+    guard: string,
+    at: Omit<GuardEvaluation, 'guard' | 'passed' | 'timestamp'>,
+    options: SimulationOptions
+  ): Promise<boolean> {
+    let passed = true
+    if (options.enableGuards !== false) {
+      const invocation = trace.guards.filter(g => g.guard === guard).length
+      let scripted: boolean | undefined
+      try {
+        scripted = scenarioGuardResult(options.scenario, guard, invocation, trace.context)
+      } catch (e) {
+        throw new Error(`Guard '${guard}': ${(e as Error).message}`)
       }
+      const behavior = options.mockGuardBehavior?.[guard] ?? 'pass'
+      passed = scripted ?? (behavior === 'random' ? this.random() >= 0.5 : behavior === 'pass')
+    }
+    trace.guards.push({ guard, passed, ...at, timestamp: trace.clock })
+    return passed
+  }
+
+  private transition(trace: ExecutionTrace, transition: Omit<ExecutionTransition, 'timestamp'>): void {
+    trace.transitions.push({ ...transition, timestamp: trace.clock })
+  }
+
+  // Waits while paused, and ends stopped or runaway simulations
+  private async checkpoint(trace: ExecutionTrace, options: SimulationOptions): Promise<void> {
+    if (trace.status === 'paused') {
+      await new Promise<void>(resolve => { this.resume = resolve })
+    }
+    if (!this.isSimulating) throw new SimulationStopped()
+    const maxSteps = options.maxSteps ?? 1000
+    if (trace.steps.length >= maxSteps) {
+      throw new Error(`Stopped after ${maxSteps} steps; the workflow may loop forever`)
+    }
+    if (options.maxExecutionTime && trace.clock > options.maxExecutionTime) {
+      throw new Error(`Simulation exceeded ${options.maxExecutionTime}ms of simulated time`)
     }
+  }
 
-    return plan
+  // Pauses at a breakpoint on the step's node; the next checkpoint waits for resume
+  private async breakpoint(trace: ExecutionTrace, step: ExecutionStep, options: SimulationOptions): Promise<void> {
+    if (!options.breakpoints?.includes(step.nodeId)) return
+    trace.status = 'paused'
+    this.emit('breakpoint', trace, step)
+    await this.checkpoint(trace, options)
   }
 
   // Execute a single step
@@ -155,37 +408,39 @@ export class WorkflowSimulator {
     options: SimulationOptions
   ): Promise<void> {
     step.status = 'running'
-    step.timestamp = Date.now()
+    step.timestamp = trace.clock
     
     this.emit('stepStart', trace, step)
 
     try {
       // Simulate step execution
-      await this.simulateStepBehavior(step, options)
+      await this.simulateStepBehavior(trace, step, options)
       
       step.status = 'success'
-      step.duration = Date.now() - step.timestamp
+      step.duration = trace.clock - step.timestamp
       
       this.emit('stepComplete', trace, step)
       
     } catch (error) {
       step.status = 'failed'
       step.error = error instanceof Error ? error.message : 'Unknown error'
-      step.duration = Date.now() - step.timestamp
+      step.duration = trace.clock - step.timestamp
       
       this.emit('stepFailed', trace, step)
     }
   }
 
   // Simulate step behavior
-  private async simulateStepBehavior(step: ExecutionStep, options: SimulationOptions): Promise<void> {
-    const mockBehavior = options.mockStepBehavior?.[step.nodeId] || 
+  private async simulateStepBehavior(trace: ExecutionTrace, step: ExecutionStep, options: SimulationOptions): Promise<void> {
+    const scripted = options.scenario?.steps?.[step.nodeId] ?? options.scenario?.steps?.[step.stepName]
+    const run = trace.steps.filter(s => s.nodeId === step.nodeId && s !== step && s.status !== 'skipped').length
+    const mockBehavior = scenarioStepResult(scripted, run) ||
+                        options.mockStepBehavior?.[step.nodeId] || 
                         options.mockStepBehavior?.[step.stepType] ||
                         'success'
 
     // Simulate processing time
-    const processingTime = Math.random() * 1000 + 200 // 200-1200ms
-    await this.sleep(processingTime)
+    trace.clock += Math.round(this.random() * 1000 + 200) // 200-1200ms
 
     // Determine outcome
     let shouldFail = false
@@ -193,24 +448,28 @@ export class WorkflowSimulator {
     if (mockBehavior === 'failure') {
       shouldFail = true
     } else if (mockBehavior === 'random') {
-      shouldFail = Math.random() < 0.2 // 20% failure rate
+      shouldFail = this.random() < 0.2 // 20% failure rate
     }
 
     if (shouldFail) {
       throw new Error(`Step ${step.stepName} failed (simulated)`)
     }
 
-    // Generate mock output
+    // Generate mock output; scripted writes become the output and land in the context
+    if (scripted?.writes) {
+      applyWrites(trace.context, scripted.writes)
+      step.output = scripted.writes
+      return
+    }
     step.output = {
       success: true,
       data: `Mock output for ${step.stepName}`,
-      timestamp: Date.now()
+      timestamp: trace.clock
     }
   }
 
   // Control methods
   pauseSimulation(): void {
-    this.isSimulating = false
     if (this.currentTraceId) {
       const trace = this.traces.get(this.currentTraceId)
       if (trace) {
@@ -224,9 +483,8 @@ export class WorkflowSimulator {
       const trace = this.traces.get(this.currentTraceId)
       if (trace && trace.status === 'paused') {
         trace.status = 'running'
-        this.isSimulating = true
-        // Continue from current step
-        this.continueExecution(trace)
+        this.resume?.()
+        this.resume = null
       }
     }
   }
@@ -240,6 +498,9 @@ export class WorkflowSimulator {
         trace.endTime = Date.now()
       }
     }
+    // A paused run wakes up at its checkpoint and ends there
+    this.resume?.()
+    this.resume = null
   }
 
   // Event system
@@ -261,6 +522,20 @@ export class WorkflowSimulator {
     })
   }
 
+  /**
+   * Run a past trace again with its config, options and seed, which reproduces it exactly.
+   * Returns the new trace's id; the run continues in the background.
+   */
+  rerun(traceId: string): string {
+    const trace = this.traces.get(traceId)
+    if (!trace?.input) throw new Error(`Trace ${traceId} has no recorded run to replay`)
+    if (this.isSimulating) throw new Error('A simulation is already running')
+    const id = this.createTrace(trace.workflowName, [], [])
+    const { config, options } = structuredClone(trace.input)
+    this.startSimulation(id, config, trace.workflowName, options).catch(error => console.error('Replay failed:', error))
+    return id
+  }
+
   // Utility methods
   getTrace(traceId: string): ExecutionTrace | undefined {
     return this.traces.get(traceId)
@@ -282,12 +557,6 @@ export class WorkflowSimulator {
     return new Promise(resolve => setTimeout(resolve, ms))
   }
 
-  private async continueExecution(trace: ExecutionTrace): Promise<void> {
-    // Implementation for resuming execution - simplified for demo
-    // In a real implementation, this would continue from the current step
-    console.log('Continuing execution from step', trace.currentStepIndex)
-  }
-
   // Analysis methods
   getExecutionSummary(traceId: string): {
     totalSteps: number
@@ -302,7 +571,7 @@ export class WorkflowSimulator {
     const completedSteps = trace.steps.filter(s => s.duration !== undefined)
     const successfulSteps = trace.steps.filter(s => s.status === 'success')
     const failedSteps = trace.steps.filter(s => s.status === 'failed')
-    const totalDuration = trace.endTime ? trace.endTime - trace.startTime : Date.now() - trace.startTime
+    const totalDuration = trace.clock
 
     return {
       totalSteps: trace.steps.length,
@@ -0,0 +1,166 @@
+import { describe, expect, it, vi } from 'vitest'
+import { StepFlowConfig } from '../types/stepflow'
+import { WorkflowSimulator } from './workflow-simulator'
+import {
+  WorkflowTestCase,
+  diffPaths,
+  formatTestCase,
+  parseTestCase,
+  recordTestCase,
+  runTestCase,
+  runTestCases,
+  validateTestCase,
+} from './workflow-tests'
+
+const CONFIG: StepFlowConfig = {
+  steps: {
+    Validate: { type: 'ValidationStep', retry: { maxAttempts: 2, delay: 500 } },
+    Pay: { type: 'PaymentStep' },
+    Review: { type: 'ReviewStep' },
+  },
+  workflows: {
+    Order: {
+      root: 'Validate',
+      edges: [
+        { from: 'Validate', to: 'Pay', guard: 'isValid', onFailure: { strategy: 'ALTERNATIVE', alternativeTarget: 'Review' } },
+        { from: 'Pay', to: 'SUCCESS' },
+        { from: 'Review', to: 'FAILURE' },
+      ],
+    },
+  },
+}
+
+const TEST: WorkflowTestCase = { name: 'Happy path', workflow: 'Order', expectedPath: ['Validate', 'Pay'], expectedTerminal: 'SUCCESS' }
+
+// Diff entries as `  step`, `- step` (missing) and `+ step` (unexpected)
+const diff = (expected: string[], actual: string[]) =>
+  diffPaths(expected, actual).map(d => `${{ same: ' ', missing: '-', unexpected: '+' }[d.kind]} ${d.step}`)
+
+describe('diffPaths', () => {
+  it('marks equal paths as the same throughout', () => {
+    expect(diff(['A', 'B'], ['A', 'B'])).toEqual(['  A', '  B'])
+    expect(diff([], [])).toEqual([])
+  })
+
+  it('reports missing and unexpected steps', () => {
+    expect(diff(['A', 'B', 'C'], ['A', 'C'])).toEqual(['  A', '- B', '  C'])
+    expect(diff(['A', 'C'], ['A', 'B', 'C'])).toEqual(['  A', '+ B', '  C'])
+    expect(diff(['A'], [])).toEqual(['- A'])
+    expect(diff([], ['A'])).toEqual(['+ A'])
+  })
+
+  it('lists the missing step before the unexpected one it was replaced by', () => {
+    expect(diff(['A', 'B', 'D'], ['A', 'C', 'D'])).toEqual(['  A', '- B', '+ C', '  D'])
+  })
+
+  it('keeps the longest common subsequence rather than the first match', () => {
+    expect(diff(['A', 'B', 'C', 'D'], ['B', 'C', 'A'])).toEqual(['- A', '  B', '  C', '- D', '+ A'])
+    expect(diff(['A', 'X', 'X', 'B'], ['X', 'A', 'B'])).toEqual(['- A', '  X', '- X', '+ A', '  B'])
+  })
+})
+
+describe('validateTestCase', () => {
+  it('accepts a valid test case', () => {
+    expect(validateTestCase(TEST)).toEqual([])
+    expect(validateTestCase({ ...TEST, seed: 3, guards: { isValid: [false, true] } })).toEqual([])
+  })
+
+  it('reports scenario and test problems together', () => {
+    expect(validateTestCase({ name: '', workflow: 1, expectedPath: ['A', 2], expectedTerminal: 'DONE', seed: 1.5, guards: { g: 'no' } })).toEqual([
+      'name is required',
+      'guards.g: must be true, false, a list of those, or { "expression": "..." }',
+      'workflow is required',
+      'expectedPath must be a list of step names',
+      'expectedTerminal must be SUCCESS or FAILURE',
+      'seed must be an integer',
+    ])
+    expect(validateTestCase([TEST])).toEqual(['A test case must be a JSON object'])
+  })
+})
+
+describe('parseTestCase', () => {
+  it('round-trips formatted test cases', () => {
+    expect(parseTestCase(formatTestCase(TEST))).toEqual(TEST)
+  })
+
+  it('throws on invalid JSON or with every validation problem', () => {
+    expect(() => parseTestCase('{')).toThrow(/^Invalid JSON: /)
+    expect(() => parseTestCase(JSON.stringify({ ...TEST, workflow: '', expectedPath: 'Validate' }))).toThrow(
+      'workflow is required\nexpectedPath must be a list of step names'
+    )
+  })
+})
+
+describe('runTestCase', () => {
+  it('passes when path and terminal match', async () => {
+    const result = await runTestCase(new WorkflowSimulator(), CONFIG, TEST)
+    expect(result).toMatchObject({ name: 'Happy path', workflow: 'Order', passed: true, actualPath: ['Validate', 'Pay'], actualTerminal: 'SUCCESS', error: undefined })
+    expect(result.diff.every(d => d.kind === 'same')).toBe(true)
+  })
+
+  it('counts the attempts of a retried step as one visit', async () => {
+    const result = await runTestCase(new WorkflowSimulator(), CONFIG, { ...TEST, steps: { Validate: { result: ['failure', 'success'] } } })
+    expect(result.passed).toBe(true)
+  })
+
+  it('fails with a diff when the scenario takes another branch', async () => {
+    const simulator = new WorkflowSimulator()
+    const result = await runTestCase(simulator, CONFIG, { ...TEST, guards: { isValid: false } })
+    expect(result).toMatchObject({ passed: false, actualPath: ['Validate', 'Review'], actualTerminal: 'FAILURE' })
+    expect(result.diff).toEqual([
+      { kind: 'same', step: 'Validate' },
+      { kind: 'missing', step: 'Pay' },
+      { kind: 'unexpected', step: 'Review' },
+    ])
+    expect(simulator.getTrace(result.traceId)?.scenario).toBe('Happy path')
+  })
+
+  it('fails on the terminal alone', async () => {
+    const result = await runTestCase(new WorkflowSimulator(), CONFIG, { ...TEST, expectedTerminal: 'FAILURE' })
+    expect(result).toMatchObject({ passed: false, actualTerminal: 'SUCCESS' })
+    expect(result.diff.every(d => d.kind === 'same')).toBe(true)
+  })
+
+  it('reports runs that could not start or finish', async () => {
+    const simulator = new WorkflowSimulator()
+    expect(await runTestCase(simulator, CONFIG, { ...TEST, workflow: 'Refund' })).toMatchObject({
+      passed: false,
+      actualPath: [],
+      error: "Workflow 'Refund' is not defined",
+    })
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {})
+    const badGuard = await runTestCase(simulator, CONFIG, { ...TEST, guards: { isValid: { expression: 'order.items[0' } } })
+    error.mockRestore()
+    expect(badGuard).toMatchObject({ passed: false, error: "Guard 'isValid': Expected ']' at 14" })
+  })
+
+  it('gives the same result for random outcomes under the same seed', async () => {
+    const random: WorkflowTestCase = { ...TEST, seed: 99, steps: { Validate: { result: 'random' }, Pay: { result: 'random' } }, guards: {} }
+    const [first, second] = await runTestCases(new WorkflowSimulator(), CONFIG, [random, random])
+    expect(second.actualPath).toEqual(first.actualPath)
+    expect(second.actualTerminal).toBe(first.actualTerminal)
+    expect(second.traceId).not.toBe(first.traceId)
+  })
+})
+
+describe('recordTestCase', () => {
+  it('expects what the workflow does today, under a free name', async () => {
+    const simulator = new WorkflowSimulator()
+    const recorded = await recordTestCase(simulator, CONFIG, 'Order', [{ ...TEST, name: 'Order 2' }])
+    expect(recorded).toEqual({
+      name: 'Order 3',
+      workflow: 'Order',
+      context: {},
+      guards: {},
+      steps: {},
+      expectedPath: ['Validate', 'Pay'],
+      expectedTerminal: 'SUCCESS',
+    })
+    expect((await runTestCase(simulator, CONFIG, recorded)).passed).toBe(true)
+  })
+
+  it('expects FAILURE for a workflow that does not run', async () => {
+    const recorded = await recordTestCase(new WorkflowSimulator(), CONFIG, 'Refund', [])
+    expect(recorded).toMatchObject({ name: 'Refund 1', expectedPath: [], expectedTerminal: 'FAILURE' })
+  })
+})
@@ -0,0 +1,163 @@
+import { StepFlowConfig } from '../types/stepflow'
+import { ExecutionTrace, Terminal, WorkflowSimulator } from './workflow-simulator'
+import { SimulationScenario, validateScenario } from './simulation-scenarios'
+
+// Regression tests for workflows: a scenario plus the path the simulator is expected to take
+// and the terminal it should end in. Tests run without delays and with a fixed seed, so the
+// same config always gives the same result.
+
+export interface WorkflowTestCase extends SimulationScenario {
+  /** Workflow under test */
+  workflow: string
+  /** Step visits in order (node ids like `Billing/Tax` inside called workflows); retries count once */
+  expectedPath: string[]
+  expectedTerminal: Terminal
+  /** Seed for `random` outcomes and timings (default 0) */
+  seed?: number
+}
+
+/** One line of a path diff: in both paths, only expected, or only actual */
+export interface PathDiffEntry {
+  kind: 'same' | 'missing' | 'unexpected'
+  step: string
+}
+
+export interface WorkflowTestResult {
+  name: string
+  workflow: string
+  passed: boolean
+  actualPath: string[]
+  actualTerminal?: Terminal
+  diff: PathDiffEntry[]
+  /** Why the run itself failed (undefined workflow, expression error, step limit, ...) */
+  error?: string
+  traceId: string
+}
+
+const TERMINALS: Terminal[] = ['SUCCESS', 'FAILURE']
+
+/** Step visits of a trace; the attempts of a retried step are one visit */
+export function tracePath(trace: ExecutionTrace): string[] {
+  return trace.steps.filter(step => !step.retryAttempt).map(step => step.nodeId)
+}
+
+/** Line diff of two paths over their longest common subsequence */
+export function diffPaths(expected: string[], actual: string[]): PathDiffEntry[] {
+  const m = expected.length
+  const n = actual.length
+  // lcs[i][j]: LCS length of expected[i..] and actual[j..]
+  const lcs = Array.from({ length: m + 1 }, () => new Array<number>(n + 1).fill(0))
+  for (let i = m - 1; i >= 0; i--) {
+    for (let j = n - 1; j >= 0; j--) {
+      lcs[i][j] = expected[i] === actual[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1])
+    }
+  }
+  const diff: PathDiffEntry[] = []
+  let i = 0
+  let j = 0
+  while (i < m || j < n) {
+    if (i < m && j < n && expected[i] === actual[j]) {
+      diff.push({ kind: 'same', step: expected[i] })
+      i++
+      j++
+    } else if (i < m && (j === n || lcs[i + 1][j] >= lcs[i][j + 1])) {
+      diff.push({ kind: 'missing', step: expected[i++] })
+    } else {
+      diff.push({ kind: 'unexpected', step: actual[j++] })
+    }
+  }
+  return diff
+}
+
+/** Problems with a test case, one message each; empty when it is valid */
+export function validateTestCase(test: any): string[] {
+  if (!test || typeof test !== 'object' || Array.isArray(test)) return ['A test case must be a JSON object']
+  const errors = validateScenario(test)
+  if (typeof test.workflow !== 'string' || !test.workflow) errors.push('workflow is required')
+  if (!Array.isArray(test.expectedPath) || !test.expectedPath.every((s: any) => typeof s === 'string')) {
+    errors.push('expectedPath must be a list of step names')
+  }
+  if (!TERMINALS.includes(test.expectedTerminal)) errors.push(`expectedTerminal must be ${TERMINALS.join(' or ')}`)
+  if (test.seed !== undefined && !Number.isInteger(test.seed)) errors.push('seed must be an integer')
+  return errors
+}
+
+/** Parse test case JSON; throws with every problem found */
+export function parseTestCase(text: string): WorkflowTestCase {
+  let data: any
+  try {
+    data = JSON.parse(text)
+  } catch (e) {
+    throw new Error(`Invalid JSON: ${(e as Error).message}`)
+  }
+  const errors = validateTestCase(data)
+  if (errors.length > 0) throw new Error(errors.join('\n'))
+  return data
+}
+
+export function formatTestCase(test: WorkflowTestCase): string {
+  return JSON.stringify(test, null, 2)
+}
+
+// Simulates a test's workflow with its scenario; the trace stays in the simulator
+async function simulate(simulator: WorkflowSimulator, config: StepFlowConfig, test: WorkflowTestCase): Promise<ExecutionTrace> {
+  const traceId = simulator.createTrace(test.workflow, [], [])
+  const trace = simulator.getTrace(traceId)!
+  if (!config.workflows?.[test.workflow]) {
+    trace.status = 'failed'
+    trace.error = `Workflow '${test.workflow}' is not defined`
+    return trace
+  }
+  await simulator.startSimulation(traceId, config, test.workflow, { scenario: test, seed: test.seed ?? 0 })
+  return trace
+}
+
+/** Run one test case */
+export async function runTestCase(simulator: WorkflowSimulator, config: StepFlowConfig, test: WorkflowTestCase): Promise<WorkflowTestResult> {
+  const trace = await simulate(simulator, config, test)
+  const actualPath = tracePath(trace)
+  const diff = diffPaths(test.expectedPath, actualPath)
+  return {
+    name: test.name,
+    workflow: test.workflow,
+    passed: !trace.error && trace.terminal === test.expectedTerminal && diff.every(d => d.kind === 'same'),
+    actualPath,
+    actualTerminal: trace.terminal,
+    diff,
+    error: trace.error,
+    traceId: trace.id,
+  }
+}
+
+/** Run test cases one after another; the simulator runs one workflow at a time */
+export async function runTestCases(simulator: WorkflowSimulator, config: StepFlowConfig, tests: WorkflowTestCase[]): Promise<WorkflowTestResult[]> {
+  const results: WorkflowTestResult[] = []
+  for (const test of tests) results.push(await runTestCase(simulator, config, test))
+  return results
+}
+
+/**
+ * A test case for `workflow` that expects what the workflow does today with default
+ * outcomes, named uniquely among `existing`.
+ */
+export async function recordTestCase(
+  simulator: WorkflowSimulator,
+  config: StepFlowConfig,
+  workflow: string,
+  existing: WorkflowTestCase[]
+): Promise<WorkflowTestCase> {
+  const taken = new Set(existing.map(t => t.name))
+  let n = existing.filter(t => t.workflow === workflow).length + 1
+  while (taken.has(`${workflow} ${n}`)) n++
+  const test: WorkflowTestCase = {
+    name: `${workflow} ${n}`,
+    workflow,
+    context: {},
+    guards: {},
+    steps: {},
+    expectedPath: [],
+    expectedTerminal: 'SUCCESS',
+  }
+  const trace = await simulate(simulator, config, test)
+  return { ...test, expectedPath: tracePath(trace), expectedTerminal: trace.terminal ?? 'FAILURE' }
+}
@@ -1,5 +1,5 @@
-// Minimal ZIP writer (store only, no compression)
-// Supports creating small zip files in the browser without dependencies.
+// Minimal ZIP writer (store only, no compression) and reader (stored or deflated entries)
+// Supports creating and reading small zip files in the browser without dependencies.
 
 export interface ZipFileEntry {
   path: string
@@ -137,3 +137,52 @@ export function createZip(entries: ZipFileEntry[]): Blob {
 export function utf8(str: string): Uint8Array {
   return textEncoder.encode(str)
 }
+
+async function inflateRaw(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data.slice()]).stream().pipeThrough(new DecompressionStream('deflate-raw'))
+  return new Uint8Array(await new Response(stream).arrayBuffer())
+}
+
+/**
+ * Read the files of a zip archive using its central directory. Directories are skipped;
+ * entries compressed with anything but deflate, and encrypted entries, are rejected.
+ */
+export async function readZip(data: Uint8Array): Promise<ZipFileEntry[]> {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength)
+  // End of Central Directory: last signature match, before an optional trailing comment
+  let eocd = -1
+  for (let i = data.length - 22; i >= Math.max(0, data.length - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      eocd = i
+      break
+    }
+  }
+  if (eocd === -1) throw new Error('Not a zip file')
+  const count = view.getUint16(eocd + 10, true)
+  let cd = view.getUint32(eocd + 16, true)
+  const decoder = new TextDecoder()
+  const entries: ZipFileEntry[] = []
+
+  for (let n = 0; n < count; n++) {
+    if (view.getUint32(cd, true) !== 0x02014b50) throw new Error('Corrupt zip central directory')
+    const flags = view.getUint16(cd + 8, true)
+    const method = view.getUint16(cd + 10, true)
+    const compSize = view.getUint32(cd + 20, true)
+    const nameLen = view.getUint16(cd + 28, true)
+    const extraLen = view.getUint16(cd + 30, true)
+    const commentLen = view.getUint16(cd + 32, true)
+    const localHeaderOffset = view.getUint32(cd + 42, true)
+    const path = decoder.decode(data.subarray(cd + 46, cd + 46 + nameLen))
+    cd += 46 + nameLen + extraLen + commentLen
+    if (path.endsWith('/')) continue
+    if (flags & 1) throw new Error(`${path} is encrypted`)
+
+    // Sizes come from the central directory; the local header may defer them to a data descriptor
+    const start = localHeaderOffset + 30 + view.getUint16(localHeaderOffset + 26, true) + view.getUint16(localHeaderOffset + 28, true)
+    const raw = data.subarray(start, start + compSize)
+    if (method === 0) entries.push({ path, content: raw })
+    else if (method === 8) entries.push({ path, content: await inflateRaw(raw) })
+    else throw new Error(`${path} uses an unsupported compression method (${method})`)
+  }
+  return entries
+}
@@ -33,6 +33,8 @@ export interface EdgeDef {
   from: string
   /** Target step name or terminal (SUCCESS/FAILURE) */
   to: string
+  /** Workflow to invoke before continuing to `to`; its FAILURE is handled by onFailure */
+  call?: string
   /** Edge-level guard (must pass to take transition) */
   guard?: string
   /** Edge condition (placeholder, not evaluated by engine) */
@@ -140,6 +142,20 @@ export interface GuardNodeData {
   issues?: ValidationIssue[]
 }
 
+/** Canvas node standing in for a sub-workflow call on an edge */
+export interface CallNodeData {
+  id: string
+  label: string
+  /** Workflow being invoked */
+  callee: string
+  /** Step the calling workflow continues with when the callee succeeds */
+  returnTo: string
+  /** Calling workflow */
+  workflow?: string
+  /** Validation issues */
+  issues?: ValidationIssue[]
+}
+
 /** Edge data for workflow connections */
 export interface EdgeData {
   id: string
@@ -151,6 +167,8 @@ export interface EdgeData {
   condition?: string
   /** Edge classification */
   kind?: 'terminal' | 'normal'
+  /** Set on both halves of a call edge (from -> call node -> to) */
+  call?: { workflow: string; from: string; to: string }
   /** What to do if guard fails */
   onFailure?: {
     strategy: EdgeFailureStrategy
@@ -183,8 +201,34 @@ export interface ComponentInfo {
   className?: string
   /** Package name */
   package?: string
+  /** What the component does, shown in the palette */
+  description?: string
   /** Configuration schema */
-  schema?: Record<string, any>
+  schema?: ConfigSchema
+}
+
+/** JSON-Schema-like description of one config value */
+export interface ConfigSchemaProperty {
+  type?: 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array'
+  description?: string
+  /** Value the component uses when the key is not configured */
+  default?: any
+  enum?: Array<string | number | boolean>
+  minimum?: number
+  maximum?: number
+  /** Nested keys of an `object` value */
+  properties?: Record<string, ConfigSchemaProperty>
+  required?: string[]
+  /** Element schema of an `array` value */
+  items?: ConfigSchemaProperty
+  /** Dotted `settings` path the component reads when the key is not configured */
+  globalPath?: string
+}
+
+/** Config schema of a component: its keys and which of them must be set */
+export interface ConfigSchema {
+  properties?: Record<string, ConfigSchemaProperty>
+  required?: string[]
 }
 
 /** Application state */